@@ -0,0 +1,72 @@
+import type { NextRequest } from "next/server";
+import type { Database, Tables } from "@edunity/supabase";
+import type { ServerClient } from "./types";
+
+/**
+ * Roles a user can hold, from broadest to narrowest scope.
+ */
+export type Role = Database["public"]["Enums"]["app_role"];
+
+/**
+ * One row of `user_role`: a role together with the institution it applies to.
+ */
+export type RoleAssignment = Pick<
+  Tables<"user_role">,
+  "role" | "uni_id" | "collage_id" | "department_id"
+>;
+
+/**
+ * The authenticated user behind a request.
+ */
+export interface Caller {
+  id: string;
+  email: string | null;
+  roles: RoleAssignment[];
+}
+
+/**
+ * Reads a bearer token from the `Authorization` header, if the client sent one
+ * instead of relying on the session cookie.
+ */
+export function getBearerToken(request: NextRequest): string | undefined {
+  const header = request.headers.get("authorization");
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1];
+}
+
+/**
+ * Resolves the Supabase user for the request and loads their role
+ * assignments. Returns `null` when the request is not authenticated.
+ */
+export async function resolveCaller(
+  supabase: ServerClient,
+  accessToken?: string
+): Promise<Caller | null> {
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(accessToken);
+  if (error || !user) {
+    return null;
+  }
+
+  const { data: roles, error: rolesError } = await supabase
+    .from("user_role")
+    .select("role, uni_id, collage_id, department_id")
+    .eq("user_id", user.id);
+  if (rolesError) {
+    throw rolesError;
+  }
+
+  return { id: user.id, email: user.email ?? null, roles: roles ?? [] };
+}
+
+/**
+ * Whether the caller holds any of the required roles. Platform admins pass
+ * every check.
+ */
+export function hasRole(caller: Caller, required: readonly Role[]): boolean {
+  return caller.roles.some(
+    ({ role }) => role === "platform_admin" || required.includes(role)
+  );
+}
@@ -0,0 +1,203 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createBulkHandlers } from "./bulk";
+
+const server = vi.hoisted(() => ({ client: null as unknown }));
+
+vi.mock("@edunity/supabase", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@edunity/supabase")>()),
+  createServerSideClient: async () => server.client,
+}));
+
+type Row = Record<string, unknown>;
+
+// A platform admin's client over one table. Names starting with "Taken" are
+// refused as duplicates, and version filters compare instants, like
+// Postgres compares timestamps.
+function fakeClient(rows: Row[]) {
+  const inserts: Row[][] = [];
+  const from = (table: string) => {
+    const filters: [string, unknown][] = [];
+    let ids: unknown[] | undefined;
+    let insert: Row[] | undefined;
+    let update: Row | undefined;
+    const run = () => {
+      if (table === "user_role") {
+        return { data: [{ role: "platform_admin" }], error: null };
+      }
+      if (insert) {
+        if (insert.some(({ name }) => String(name).startsWith("Taken"))) {
+          return {
+            data: null,
+            error: { code: "23505", message: "duplicate key", details: "" },
+          };
+        }
+        inserts.push(insert);
+        return {
+          data: insert.map((row, i) => ({ id: `new-${i}`, ...row })),
+          error: null,
+        };
+      }
+      const matches = rows.filter(
+        (row) =>
+          (!ids || ids.includes(row.id)) &&
+          filters.every(([column, value]) =>
+            column === "updated_at"
+              ? Date.parse(String(row[column])) === Date.parse(String(value))
+              : row[column] === value
+          )
+      );
+      for (const row of update ? matches : []) Object.assign(row, update);
+      return { data: matches, error: null };
+    };
+    const first = async () => {
+      const { data, error } = run();
+      return { data: data?.[0] ?? null, error };
+    };
+    const builder = {
+      select: () => builder,
+      is: () => builder,
+      insert: (value: Row | Row[]) => {
+        insert = [value].flat();
+        return builder;
+      },
+      update: (value: Row) => {
+        update = value;
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return builder;
+      },
+      in: (_: string, values: unknown[]) => {
+        ids = values;
+        return builder;
+      },
+      single: first,
+      maybeSingle: first,
+      then: (resolve: (value: ReturnType<typeof run>) => unknown) =>
+        resolve(run()),
+    };
+    return builder;
+  };
+  const auth = {
+    getUser: async () => ({
+      data: { user: { id: "admin", email: null } },
+      error: null,
+    }),
+  };
+  return { client: { from, auth }, inserts };
+}
+
+const bulk = createBulkHandlers({
+  tableName: "university",
+  resourceName: "University",
+  createSchema: z.object({ name: z.string().min(1) }),
+  updateSchema: z.object({ id: z.string(), name: z.string().optional() }),
+  versionColumn: "updated_at",
+});
+
+function send(method: "POST" | "PUT", body: unknown) {
+  return bulk[method](
+    new NextRequest("http://localhost/university/bulk", {
+      method,
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+const statuses = async (response: Response) => {
+  const { data, error } = await response.json();
+  return (data ?? error.details).results.map(
+    ({ status }: { status: string }) => status
+  );
+};
+
+describe("bulk create", () => {
+  let inserts: Row[][];
+  beforeEach(() => {
+    const fake = fakeClient([]);
+    server.client = fake.client;
+    inserts = fake.inserts;
+  });
+
+  it("reports every item on its own", async () => {
+    const response = await send("POST", {
+      items: [{ name: "Tech" }, { name: "" }, { name: "Taken" }],
+    });
+    expect(response.status).toBe(207);
+    const { data } = await response.clone().json();
+    expect(data.summary).toEqual({ total: 3, succeeded: 1, failed: 2 });
+    expect(await statuses(response)).toEqual([
+      "created",
+      "invalid",
+      "conflict",
+    ]);
+    expect(inserts).toEqual([[{ name: "Tech" }]]);
+  });
+
+  it("answers 201 when every item is created", async () => {
+    const response = await send("POST", {
+      items: [{ name: "Tech" }, { name: "Arts" }],
+    });
+    expect(response.status).toBe(201);
+  });
+
+  it("writes nothing from an atomic batch with an invalid item", async () => {
+    const response = await send("POST", {
+      items: [{ name: "Tech" }, { name: "" }, { name: "Arts" }],
+      atomic: true,
+    });
+    expect(response.status).toBe(422);
+    expect(await statuses(response)).toEqual(["skipped", "invalid", "skipped"]);
+    expect(inserts).toEqual([]);
+  });
+
+  it("rejects an atomic batch the database refuses as a whole", async () => {
+    const response = await send("POST", {
+      items: [{ name: "Tech" }, { name: "Taken" }],
+      atomic: true,
+    });
+    expect(response.status).toBe(409);
+    expect(await statuses(response)).toEqual(["conflict", "conflict"]);
+  });
+});
+
+describe("bulk update", () => {
+  const readAt = "2026-10-19T08:00:00.5+00:00";
+
+  beforeEach(() => {
+    server.client = fakeClient([
+      { id: "a", name: "A", updated_at: readAt },
+      { id: "b", name: "B", updated_at: readAt },
+      { id: "c", name: "C", updated_at: "2026-10-19T09:00:00+00:00" },
+    ]).client;
+  });
+
+  it("needs the version each record was read at", async () => {
+    const response = await send("PUT", {
+      items: [
+        // The same instant, formatted differently
+        { id: "a", name: "A2", updated_at: "2026-10-19T08:00:00.500Z" },
+        { id: "b", name: "B2" },
+        { id: "c", name: "C2", updated_at: readAt },
+        { id: "d", name: "D2", updated_at: readAt },
+      ],
+    });
+    expect(response.status).toBe(207);
+    const { data } = await response.json();
+    expect(data.results).toEqual([
+      expect.objectContaining({ index: 0, status: "updated" }),
+      expect.objectContaining({ index: 1, status: "precondition_required" }),
+      expect.objectContaining({
+        index: 2,
+        status: "precondition_failed",
+        error: expect.objectContaining({
+          details: { current: expect.objectContaining({ id: "c" }) },
+        }),
+      }),
+      expect.objectContaining({ index: 3, status: "not_found" }),
+    ]);
+  });
+});
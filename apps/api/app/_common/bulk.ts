@@ -0,0 +1,977 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z, ZodType } from "zod";
+import {
+  ApiResponse,
+  ErrorCode,
+  type FailureResponse,
+  HttpStatus,
+} from "@edunity/helpers";
+import type { CrudHandlersConfig } from "./crudFactory";
+import { versionFromEtag, versionsMatch } from "./etag";
+import { handleRequest } from "./handleRequest";
+import { isHalt, runBeforeUpdate } from "./hooks";
+import { invalidJsonResponse, readJson } from "./json";
+import { middlewareFor, type RequestContext } from "./middleware";
+import { DEFAULT_PRIMARY_KEY } from "./primaryKey";
+import { applyDeletedFilter, softDeleteUpdate } from "./softDelete";
+import { applyTenantScope, scopeTenantWrite } from "./tenant";
+import type { RowOf, TableClient, TableName } from "./types";
+
+/**
+ * Bulk create, update and delete. Every item is validated on its own and gets
+ * its own entry in the response. With `atomic: true` the batch is
+ * all-or-nothing: any invalid item rejects it before anything is written, and
+ * the write itself runs as a single statement or transaction.
+ *
+ * Resources with a version column get the single-item routes' optimistic
+ * concurrency per item: updates and deletes name the version each row was
+ * read at (its version column, or its ETag as `etag`), and rows that changed
+ * since are refused with 412 instead of being overwritten.
+ */
+
+export const MAX_BULK_ITEMS = 1000;
+
+export const bulkWriteSchema = z.object({
+  items: z.array(z.unknown()).min(1).max(MAX_BULK_ITEMS),
+  atomic: z.boolean().default(false),
+});
+
+const rowIdSchema = z.union([z.string().min(1), z.number().int()]);
+
+// Ids alone, or `{ id, <version column> }` / `{ id, etag }` objects for
+// resources with a version column
+export const bulkDeleteSchema = z.object({
+  ids: z
+    .array(z.union([rowIdSchema, z.looseObject({ id: rowIdSchema })]))
+    .min(1)
+    .max(MAX_BULK_ITEMS),
+  atomic: z.boolean().default(false),
+});
+
+type RowId = string | number;
+
+type Row = Record<string, unknown>;
+
+type BulkStatus =
+  | "created"
+  | "updated"
+  | "deleted"
+  | "invalid"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "precondition_required"
+  | "precondition_failed"
+  | "failed"
+  | "skipped";
+
+interface BulkItemResult {
+  index: number;
+  status: BulkStatus;
+  id?: RowId;
+  data?: unknown;
+  error?: { code: ErrorCode; message: string; details?: unknown };
+}
+
+interface PreparedItem {
+  index: number;
+  id?: RowId;
+  data: Record<string, unknown>;
+  // The version the row was read at, for resources with a version column
+  version?: string;
+}
+
+interface DbError {
+  code?: string;
+  message: string;
+  details?: string;
+}
+
+const SUCCESS_STATUSES: BulkStatus[] = ["created", "updated", "deleted"];
+
+function summarize(results: BulkItemResult[]) {
+  const sorted = [...results].sort((a, b) => a.index - b.index);
+  const succeeded = sorted.filter(({ status }) =>
+    SUCCESS_STATUSES.includes(status)
+  ).length;
+  return {
+    summary: {
+      total: sorted.length,
+      succeeded,
+      failed: sorted.length - succeeded,
+    },
+    results: sorted,
+  };
+}
+
+/**
+ * Maps a database error to the per-item status and error it is reported as.
+ */
+function classifyError(
+  error: DbError
+): Pick<BulkItemResult, "status" | "error"> {
+  if (error.code === "23505") {
+    return {
+      status: "conflict",
+      error: {
+        code: ErrorCode.CONFLICT,
+        message: "Item conflicts with an existing record.",
+        details: error.details,
+      },
+    };
+  }
+  if (error.code === "23P01") {
+    return {
+      status: "conflict",
+      error: {
+        code: ErrorCode.CONFLICT,
+        message: error.message,
+        details: error.details,
+      },
+    };
+  }
+  if (
+    error.code === "23503" ||
+    error.code === "23514" ||
+    error.code?.startsWith("22")
+  ) {
+    return {
+      status: "invalid",
+      error: {
+        code: ErrorCode.VALIDATION_ERROR,
+        message: error.message,
+        details: error.details,
+      },
+    };
+  }
+  if (error.code === "PT412") {
+    return {
+      status: "precondition_failed",
+      error: { code: ErrorCode.PRECONDITION_FAILED, message: error.message },
+    };
+  }
+  if (error.code === "P0002") {
+    return {
+      status: "not_found",
+      error: { code: ErrorCode.NOT_FOUND, message: error.message },
+    };
+  }
+  return {
+    status: "failed",
+    error: { code: ErrorCode.SUPABASE_QUERY_ERROR, message: error.message },
+  };
+}
+
+function errorStatus(status: BulkStatus): HttpStatus {
+  switch (status) {
+    case "forbidden":
+      return HttpStatus.FORBIDDEN;
+    case "not_found":
+      return HttpStatus.NOT_FOUND;
+    case "conflict":
+      return HttpStatus.CONFLICT;
+    case "invalid":
+      return HttpStatus.UNPROCESSABLE_ENTITY;
+    case "precondition_required":
+      return HttpStatus.PRECONDITION_REQUIRED;
+    case "precondition_failed":
+      return HttpStatus.PRECONDITION_FAILED;
+    default:
+      return HttpStatus.INTERNAL_SERVER_ERROR;
+  }
+}
+
+/**
+ * Rejects an atomic batch: prepared items that were never attempted are
+ * reported as skipped, and the first failure decides the response status.
+ */
+function rejectBatch(failures: BulkItemResult[], prepared: PreparedItem[]) {
+  const skipped = prepared
+    .filter(({ index }) => !failures.some((f) => f.index === index))
+    .map<BulkItemResult>(({ index, id }) => ({ index, id, status: "skipped" }));
+  const [first] = [...failures].sort((a, b) => a.index - b.index);
+  const status = errorStatus(first?.status ?? "failed");
+  return ApiResponse.error(
+    first?.error?.code ?? ErrorCode.UNKNOWN_ERROR,
+    "Batch rejected; no items were written.",
+    status,
+    summarize([...failures, ...skipped])
+  );
+}
+
+/**
+ * Reports an item a `before*` hook stopped, with the error it responded with.
+ */
+async function haltedItem(
+  index: number,
+  id: RowId | undefined,
+  response: NextResponse
+): Promise<BulkItemResult> {
+  const body = (await response
+    .json()
+    .catch(() => null)) as FailureResponse | null;
+  const statuses: Partial<Record<number, BulkStatus>> = {
+    [HttpStatus.FORBIDDEN]: "forbidden",
+    [HttpStatus.NOT_FOUND]: "not_found",
+    [HttpStatus.CONFLICT]: "conflict",
+  };
+  return {
+    index,
+    id,
+    status: statuses[response.status] ?? "invalid",
+    error: body?.error ?? {
+      code: ErrorCode.UNKNOWN_ERROR,
+      message: "Rejected.",
+    },
+  };
+}
+
+function batchResponse(results: BulkItemResult[], successStatus: HttpStatus) {
+  const body = summarize(results);
+  const status =
+    body.summary.failed === 0 ? successStatus : HttpStatus.MULTI_STATUS;
+  return ApiResponse.success(body, status);
+}
+
+function notFound(
+  resourceName: string,
+  id: RowId | undefined
+): Pick<BulkItemResult, "status" | "error"> {
+  return {
+    status: "not_found",
+    error: {
+      code: ErrorCode.NOT_FOUND,
+      message: `${resourceName} with ID ${id} not found.`,
+    },
+  };
+}
+
+/**
+ * The version an item says its row was read at: its version column, or the
+ * ETag the API returned for the row.
+ */
+function readVersion(item: unknown, versionColumn: string): string | undefined {
+  if (typeof item !== "object" || item === null) return undefined;
+  const { [versionColumn]: version, etag } = item as Row;
+  if (typeof version === "string") return version;
+  if (typeof etag === "string") return versionFromEtag(etag) ?? undefined;
+  return undefined;
+}
+
+function versionRequired(
+  index: number,
+  id: RowId | undefined,
+  versionColumn: string
+): BulkItemResult {
+  return {
+    index,
+    id,
+    status: "precondition_required",
+    error: {
+      code: ErrorCode.PRECONDITION_REQUIRED,
+      message: `Send the ${versionColumn} (or ETag, as 'etag') the record was read at.`,
+    },
+  };
+}
+
+/**
+ * Sets aside the prepared items whose rows have changed since the client
+ * read them, reporting each with the current row.
+ */
+function splitStale(
+  items: PreparedItem[],
+  current: Map<string, Row>,
+  versionColumn: string
+): { fresh: PreparedItem[]; stale: BulkItemResult[] } {
+  const fresh: PreparedItem[] = [];
+  const stale: BulkItemResult[] = [];
+  for (const item of items) {
+    const row = current.get(String(item.id));
+    if (
+      row &&
+      (item.version === undefined ||
+        !versionsMatch(row[versionColumn], item.version))
+    ) {
+      stale.push({
+        index: item.index,
+        id: item.id,
+        status: "precondition_failed",
+        error: {
+          code: ErrorCode.PRECONDITION_FAILED,
+          message:
+            "The record was changed by someone else; reload it and try again.",
+          details: { current: row },
+        },
+      });
+    } else {
+      fresh.push(item);
+    }
+  }
+  return { fresh, stale };
+}
+
+/**
+ * Runs `beforeBulkWrite` over the prepared items, given the row each would
+ * save, and reports the ones it refuses. Returns the items let through.
+ */
+async function checkBatch<T extends TableName>(
+  items: PreparedItem[],
+  rowOf: (item: PreparedItem) => Record<string, unknown>,
+  check: NonNullable<
+    CrudHandlersConfig<T, ZodType, ZodType>["beforeBulkWrite"]
+  >,
+  context: RequestContext,
+  failures: BulkItemResult[]
+): Promise<PreparedItem[]> {
+  const halts = await check(
+    items.map((item) => rowOf(item) as Partial<RowOf<T>>),
+    context
+  );
+  const kept: PreparedItem[] = [];
+  for (const [i, item] of items.entries()) {
+    const halt = halts[i];
+    if (halt) {
+      failures.push(await haltedItem(item.index, item.id, halt));
+    } else {
+      kept.push(item);
+    }
+  }
+  return kept;
+}
+
+function changedSinceRead(
+  id: RowId | undefined
+): Pick<BulkItemResult, "status" | "error"> {
+  return {
+    status: "precondition_failed",
+    error: {
+      code: ErrorCode.PRECONDITION_FAILED,
+      message: `Record ${id} was changed by someone else; reload it and try again.`,
+    },
+  };
+}
+
+interface EqBuilder {
+  eq(column: string, value: unknown): this;
+}
+
+/**
+ * Only matches the row if it still has the version the client read.
+ */
+function matchVersion<Q extends EqBuilder>(
+  query: Q,
+  versionColumn: string | undefined,
+  version: string | undefined
+): Q {
+  return versionColumn ? query.eq(versionColumn, version) : query;
+}
+
+function preparedIds(items: PreparedItem[]): RowId[] {
+  return items.map(({ id }) => id).filter((id) => id !== undefined);
+}
+
+/**
+ * Reports the prepared rows a lookup didn't find (missing, or outside the
+ * caller's universities) so an atomic batch is rejected before any write.
+ */
+function missingRows(
+  resourceName: string,
+  items: PreparedItem[],
+  found: { id: RowId }[]
+): BulkItemResult[] {
+  const foundIds = new Set(found.map(({ id }) => String(id)));
+  return items
+    .filter(({ id }) => !foundIds.has(String(id)))
+    .map(({ index, id }) => ({ index, id, ...notFound(resourceName, id) }));
+}
+
+function queryErrorResponse(error: DbError) {
+  return ApiResponse.error(
+    ErrorCode.SUPABASE_QUERY_ERROR,
+    error.message,
+    HttpStatus.INTERNAL_SERVER_ERROR
+  );
+}
+
+function invalidEnvelopeResponse(error: z.ZodError) {
+  return ApiResponse.error(
+    ErrorCode.VALIDATION_ERROR,
+    "Invalid input.",
+    HttpStatus.UNPROCESSABLE_ENTITY,
+    error.flatten()
+  );
+}
+
+/**
+ * Creates the `/bulk` route handlers for a resource. Uses the same schemas,
+ * hooks, roles and tenant scoping as the single-item handlers.
+ */
+export function createBulkHandlers<
+  T extends TableName,
+  C extends ZodType,
+  U extends ZodType,
+>(config: CrudHandlersConfig<T, C, U>) {
+  const {
+    tableName,
+    resourceName,
+    createSchema,
+    updateSchema,
+    roles = {},
+    tenantColumn,
+    softDelete,
+    versionColumn,
+    primaryKey,
+    middleware = {},
+    beforeInsert,
+    afterCreate,
+    afterUpdate,
+    beforeBulkWrite,
+    beforeDelete,
+    afterDelete,
+  } = config;
+
+  // The row's id and, with a version column, the version it was read at, as
+  // the bulk database functions take them
+  const rowRef = ({ id, version }: PreparedItem) =>
+    versionColumn ? { id, [versionColumn]: version } : { id };
+  const rpcVersion = versionColumn ? { version_column: versionColumn } : {};
+
+  // --- POST (Bulk Create) ---
+  const POST = async (request: NextRequest) => {
+    return handleRequest(
+      request,
+      roles.POST,
+      async (supabase: TableClient, req, caller, requestId) => {
+        const json = await readJson(req);
+        if (!json.ok) return invalidJsonResponse();
+        const envelope = bulkWriteSchema.safeParse(json.body);
+        if (!envelope.success) return invalidEnvelopeResponse(envelope.error);
+        const { items, atomic } = envelope.data;
+
+        const context = { supabase, caller, request: req, requestId };
+        const failures: BulkItemResult[] = [];
+        let prepared: PreparedItem[] = [];
+        for (const [index, item] of items.entries()) {
+          const validation = createSchema.safeParse(item);
+          if (!validation.success) {
+            failures.push({
+              index,
+              status: "invalid",
+              error: {
+                code: ErrorCode.VALIDATION_ERROR,
+                message: "Invalid input.",
+                details: validation.error.flatten(),
+              },
+            });
+            continue;
+          }
+
+          const data = beforeInsert
+            ? await beforeInsert(validation.data, context)
+            : validation.data;
+          if (isHalt(data)) {
+            failures.push(await haltedItem(index, undefined, data));
+            continue;
+          }
+          const scoped = scopeTenantWrite(
+            caller,
+            tenantColumn,
+            data as Record<string, unknown>,
+            { isCreate: true }
+          );
+          if (!scoped.success) {
+            failures.push({
+              index,
+              status: "forbidden",
+              error: { code: scoped.code, message: scoped.message },
+            });
+            continue;
+          }
+          prepared.push({ index, data: scoped.data });
+        }
+
+        if (beforeBulkWrite) {
+          prepared = await checkBatch(
+            prepared,
+            ({ data }) => data,
+            beforeBulkWrite,
+            context,
+            failures
+          );
+        }
+
+        if (atomic) {
+          if (failures.length > 0) return rejectBatch(failures, prepared);
+
+          // A single multi-row insert is one statement, so it is all-or-nothing
+          const { data, error } = await supabase
+            .from(tableName)
+            .insert(prepared.map(({ data }) => data))
+            .select();
+          if (error) {
+            const failure = classifyError(error);
+            return rejectBatch(
+              prepared.map(({ index }) => ({ index, ...failure })),
+              []
+            );
+          }
+          for (const row of data) await afterCreate?.(row, context);
+          return batchResponse(
+            prepared.map(({ index }, i) => ({
+              index,
+              status: "created",
+              id: data[i]?.id,
+              data: data[i],
+            })),
+            HttpStatus.CREATED
+          );
+        }
+
+        const results = [...failures];
+        for (const { index, data: row } of prepared) {
+          const { data, error } = await supabase
+            .from(tableName)
+            .insert(row)
+            .select()
+            .single();
+          results.push(
+            error
+              ? { index, ...classifyError(error) }
+              : { index, status: "created", id: data.id, data }
+          );
+        }
+
+        const created = results
+          .filter(({ status }) => status === "created")
+          .map(({ data }) => data as RowOf<T>);
+        for (const row of created) await afterCreate?.(row, context);
+        return batchResponse(results, HttpStatus.CREATED);
+      },
+      middlewareFor(middleware, "POST")
+    );
+  };
+
+  // --- PUT (Bulk Update) ---
+  const PUT = async (request: NextRequest) => {
+    return handleRequest(
+      request,
+      roles.PUT,
+      async (supabase: TableClient, req, caller, requestId) => {
+        const json = await readJson(req);
+        if (!json.ok) return invalidJsonResponse();
+        const envelope = bulkWriteSchema.safeParse(json.body);
+        if (!envelope.success) return invalidEnvelopeResponse(envelope.error);
+        const { items, atomic } = envelope.data;
+
+        const failures: BulkItemResult[] = [];
+        let prepared: PreparedItem[] = [];
+        const seen = new Set<string>();
+        for (const [index, item] of items.entries()) {
+          const validation = updateSchema.safeParse(item);
+          if (!validation.success) {
+            failures.push({
+              index,
+              status: "invalid",
+              error: {
+                code: ErrorCode.VALIDATION_ERROR,
+                message: "Invalid input.",
+                details: validation.error.flatten(),
+              },
+            });
+            continue;
+          }
+
+          const { id, ...updateData } = validation.data as {
+            id: RowId;
+            [key: string]: unknown;
+          };
+          if (Object.keys(updateData).length === 0 || seen.has(String(id))) {
+            failures.push({
+              index,
+              id,
+              status: "invalid",
+              error: {
+                code: ErrorCode.BAD_REQUEST,
+                message: seen.has(String(id))
+                  ? `ID ${id} appears more than once in the batch.`
+                  : "No fields to update provided.",
+              },
+            });
+            continue;
+          }
+          seen.add(String(id));
+
+          const version = versionColumn
+            ? readVersion(item, versionColumn)
+            : undefined;
+          if (versionColumn && version === undefined) {
+            failures.push(versionRequired(index, id, versionColumn));
+            continue;
+          }
+
+          const scoped = scopeTenantWrite(caller, tenantColumn, updateData, {
+            isCreate: false,
+          });
+          if (!scoped.success) {
+            failures.push({
+              index,
+              id,
+              status: "forbidden",
+              error: { code: scoped.code, message: scoped.message },
+            });
+            continue;
+          }
+          prepared.push({ index, id, data: scoped.data, version });
+        }
+
+        if (atomic && failures.length > 0) {
+          return rejectBatch(failures, prepared);
+        }
+
+        // The current rows: what an atomic batch is missing, and what
+        // `afterUpdate` receives as the row before
+        const { data: found, error: lookupError } = await applyDeletedFilter(
+          applyTenantScope(
+            supabase.from(tableName).select().in("id", preparedIds(prepared)),
+            tenantColumn,
+            caller
+          ),
+          softDelete
+        );
+        if (lookupError) return queryErrorResponse(lookupError);
+        const before = new Map<string, Row>(
+          found.map((row: Row) => [String(row.id), row])
+        );
+        if (versionColumn) {
+          const { fresh, stale } = splitStale(prepared, before, versionColumn);
+          failures.push(...stale);
+          prepared = fresh;
+          if (atomic && failures.length > 0) {
+            return rejectBatch(failures, prepared);
+          }
+        }
+
+        const context = { supabase, caller, request: req, requestId };
+        const afterUpdates = async (results: BulkItemResult[]) => {
+          const updated = results.filter(({ status }) => status === "updated");
+          for (const { id, data } of updated) {
+            await afterUpdate?.(
+              data as RowOf<T>,
+              before.get(String(id)) as RowOf<T>,
+              context
+            );
+          }
+        };
+
+        if (config.beforeUpdate) {
+          // Rows that weren't found are reported as such by the write below
+          const kept: PreparedItem[] = [];
+          for (const item of prepared) {
+            const current = before.get(String(item.id));
+            const data = current
+              ? await runBeforeUpdate(
+                  config,
+                  primaryKey ?? DEFAULT_PRIMARY_KEY,
+                  item.data,
+                  current,
+                  context
+                )
+              : item.data;
+            if (isHalt(data)) {
+              failures.push(await haltedItem(item.index, item.id, data));
+            } else {
+              kept.push({ ...item, data });
+            }
+          }
+          prepared = kept;
+          if (atomic && failures.length > 0) {
+            return rejectBatch(failures, prepared);
+          }
+        }
+
+        if (beforeBulkWrite) {
+          // Rows that weren't found are reported as such by the write below
+          const existing = prepared.filter(({ id }) => before.has(String(id)));
+          const kept = await checkBatch(
+            existing,
+            ({ id, data }) => ({ ...before.get(String(id)), ...data }),
+            beforeBulkWrite,
+            context,
+            failures
+          );
+          prepared = prepared.filter(
+            (item) => kept.includes(item) || !existing.includes(item)
+          );
+          if (atomic && failures.length > 0) {
+            return rejectBatch(failures, prepared);
+          }
+        }
+
+        if (atomic) {
+          const missing = missingRows(resourceName, prepared, found);
+          if (missing.length > 0) return rejectBatch(missing, prepared);
+
+          // bulk_update applies every row in one transaction, comparing
+          // versions as it goes (see migrations)
+          const { data, error } = await supabase.rpc("bulk_update", {
+            target: tableName,
+            items: prepared.map((item) => ({ ...item.data, ...rowRef(item) })),
+            ...rpcVersion,
+          });
+          if (error) {
+            const failure = classifyError(error);
+            return rejectBatch(
+              prepared.map(({ index, id }) => ({ index, id, ...failure })),
+              []
+            );
+          }
+          const results = prepared.map<BulkItemResult>(({ index, id }, i) => ({
+            index,
+            id,
+            status: "updated",
+            data: data[i],
+          }));
+          await afterUpdates(results);
+          return batchResponse(results, HttpStatus.OK);
+        }
+
+        const results = [...failures];
+        for (const { index, id, data: row, version } of prepared) {
+          const { data, error } = await applyDeletedFilter(
+            applyTenantScope(
+              matchVersion(
+                supabase.from(tableName).update(row).eq("id", id),
+                versionColumn,
+                version
+              ),
+              tenantColumn,
+              caller
+            ),
+            softDelete
+          )
+            .select()
+            .maybeSingle();
+          if (error) {
+            results.push({ index, id, ...classifyError(error) });
+          } else if (!data) {
+            results.push({
+              index,
+              id,
+              ...(versionColumn && before.has(String(id))
+                ? changedSinceRead(id)
+                : notFound(resourceName, id)),
+            });
+          } else {
+            results.push({ index, id, status: "updated", data });
+          }
+        }
+        await afterUpdates(results);
+        return batchResponse(results, HttpStatus.OK);
+      },
+      middlewareFor(middleware, "PUT")
+    );
+  };
+
+  // --- DELETE (Bulk Delete) ---
+  const DELETE = async (request: NextRequest) => {
+    return handleRequest(
+      request,
+      roles.DELETE,
+      async (supabase: TableClient, req, caller, requestId) => {
+        const json = await readJson(req);
+        if (!json.ok) return invalidJsonResponse();
+        const envelope = bulkDeleteSchema.safeParse(json.body);
+        if (!envelope.success) return invalidEnvelopeResponse(envelope.error);
+        const { ids, atomic } = envelope.data;
+
+        const context = { supabase, caller, request: req, requestId };
+        const afterDeletes = async (rows: RowOf<T>[]) => {
+          for (const row of rows) await afterDelete?.(row, context);
+        };
+
+        const failures: BulkItemResult[] = [];
+        let prepared: PreparedItem[] = [];
+        const seen = new Set<string>();
+        for (const [index, entry] of ids.entries()) {
+          const id = typeof entry === "object" ? entry.id : entry;
+          if (seen.has(String(id))) {
+            failures.push({
+              index,
+              id,
+              status: "invalid",
+              error: {
+                code: ErrorCode.BAD_REQUEST,
+                message: `ID ${id} appears more than once in the batch.`,
+              },
+            });
+            continue;
+          }
+          seen.add(String(id));
+
+          const version = versionColumn
+            ? readVersion(entry, versionColumn)
+            : undefined;
+          if (versionColumn && version === undefined) {
+            failures.push(versionRequired(index, id, versionColumn));
+            continue;
+          }
+          prepared.push({ index, id, data: {}, version });
+        }
+
+        if (atomic && failures.length > 0) {
+          return rejectBatch(failures, prepared);
+        }
+
+        // The current rows: what an atomic batch is missing, what
+        // `beforeDelete` checks and the versions deletes are compared with
+        let found: RowOf<T>[] = [];
+        if (atomic || beforeDelete || versionColumn) {
+          const lookup = await applyDeletedFilter(
+            applyTenantScope(
+              supabase.from(tableName).select().in("id", preparedIds(prepared)),
+              tenantColumn,
+              caller
+            ),
+            softDelete
+          );
+          if (lookup.error) return queryErrorResponse(lookup.error);
+          found = lookup.data;
+        }
+        const current = new Map(found.map((row) => [String(row.id), row]));
+
+        if (versionColumn) {
+          const { fresh, stale } = splitStale(prepared, current, versionColumn);
+          failures.push(...stale);
+          prepared = fresh;
+        }
+
+        if (beforeDelete) {
+          // Rows that weren't found are reported as such by the delete below
+          const kept: PreparedItem[] = [];
+          for (const item of prepared) {
+            const row = current.get(String(item.id));
+            const halt = row ? await beforeDelete(row, context) : undefined;
+            if (halt) {
+              failures.push(await haltedItem(item.index, item.id, halt));
+            } else {
+              kept.push(item);
+            }
+          }
+          prepared = kept;
+        }
+
+        if (atomic) {
+          if (failures.length > 0) return rejectBatch(failures, prepared);
+
+          const missing = missingRows(resourceName, prepared, found);
+          if (missing.length > 0) return rejectBatch(missing, prepared);
+
+          // Both run every row in one transaction, comparing versions (see
+          // migrations); a soft delete is just an update of deleted_at
+          const { data, error } = softDelete
+            ? await supabase.rpc("bulk_update", {
+                target: tableName,
+                items: prepared.map((item) => ({
+                  ...softDeleteUpdate(),
+                  ...rowRef(item),
+                })),
+                ...rpcVersion,
+              })
+            : await supabase.rpc("bulk_delete", {
+                target: tableName,
+                ids: prepared.map((item) =>
+                  versionColumn ? rowRef(item) : item.id
+                ),
+                ...rpcVersion,
+              });
+          if (error) {
+            const failure = classifyError(error);
+            return rejectBatch(
+              prepared.map(({ index, id }) => ({ index, id, ...failure })),
+              []
+            );
+          }
+          await afterDeletes(data);
+          return batchResponse(
+            prepared.map(({ index, id }) => ({ index, id, status: "deleted" })),
+            HttpStatus.OK
+          );
+        }
+
+        const deleteRows = () =>
+          softDelete
+            ? applyDeletedFilter(
+                supabase.from(tableName).update(softDeleteUpdate()),
+                softDelete
+              )
+            : supabase.from(tableName).delete();
+
+        if (versionColumn) {
+          // One statement per row, each only matching the version read
+          const results = [...failures];
+          const deletedRows: RowOf<T>[] = [];
+          for (const { index, id, version } of prepared) {
+            const { data, error } = await applyTenantScope(
+              matchVersion(deleteRows().eq("id", id), versionColumn, version),
+              tenantColumn,
+              caller
+            )
+              .select()
+              .maybeSingle();
+            if (error) {
+              results.push({ index, id, ...classifyError(error) });
+            } else if (!data) {
+              results.push({
+                index,
+                id,
+                ...(current.has(String(id))
+                  ? changedSinceRead(id)
+                  : notFound(resourceName, id)),
+              });
+            } else {
+              deletedRows.push(data);
+              results.push({ index, id, status: "deleted" });
+            }
+          }
+          await afterDeletes(deletedRows);
+          return batchResponse(results, HttpStatus.OK);
+        }
+
+        const { data, error } = await applyTenantScope(
+          deleteRows().in("id", preparedIds(prepared)),
+          tenantColumn,
+          caller
+        ).select();
+        if (error) {
+          const failure = classifyError(error);
+          return batchResponse(
+            [
+              ...failures,
+              ...prepared.map(({ index, id }) => ({ index, id, ...failure })),
+            ],
+            HttpStatus.OK
+          );
+        }
+
+        const deleted = new Set(
+          (data as { id: RowId }[]).map(({ id }) => String(id))
+        );
+        await afterDeletes(data);
+        return batchResponse(
+          [
+            ...failures,
+            ...prepared.map<BulkItemResult>(({ index, id }) =>
+              deleted.has(String(id))
+                ? { index, id, status: "deleted" }
+                : { index, id, ...notFound(resourceName, id) }
+            ),
+          ],
+          HttpStatus.OK
+        );
+      },
+      middlewareFor(middleware, "DELETE")
+    );
+  };
+
+  return { POST, PUT, DELETE };
+}
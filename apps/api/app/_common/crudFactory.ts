@@ -1,170 +1,729 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest } from "next/server";
 import { z, ZodType } from "zod";
-import { createServerSideClient } from "@edunity/supabase"; // Your Supabase client import
 import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers"; // Your API helper import
+import { type Caller, hasRole, type Role } from "./auth";
+import { createBulkHandlers } from "./bulk";
+import {
+  EXPORT_BATCH_SIZE,
+  type ExportBatchResult,
+  exportResponse,
+  parseExportFormat,
+} from "./export";
+import {
+  checkIfMatch,
+  etagFor,
+  notModified,
+  staleResponse,
+  withEtag,
+} from "./etag";
+import { handleRequest } from "./handleRequest";
+import { type Halt, isHalt, runBeforeUpdate } from "./hooks";
+import {
+  middlewareFor,
+  type MiddlewareConfig,
+  type RequestContext,
+} from "./middleware";
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  changedColumns,
+  JSON_PATCH_CONTENT_TYPE,
+} from "./patch";
+import { applyTenantScope, scopeTenantWrite } from "./tenant";
+import {
+  applyCursor,
+  CURSOR_KEYS,
+  type KeyedRow,
+  pageAfter,
+  paginateRows,
+  parseCursorPagination,
+} from "./pagination";
+import {
+  applyKey,
+  DEFAULT_PRIMARY_KEY,
+  formatKey,
+  keyColumns,
+  parseKey,
+  parsePathKey,
+  type PrimaryKey,
+  type RowKey,
+} from "./primaryKey";
+import {
+  applyDeletedFilter,
+  parseDeletedFilter,
+  softDeleteUpdate,
+} from "./softDelete";
+import {
+  applyListQuery,
+  parseListQuery,
+  type ParseResult,
+  parseSelectQuery,
+  type QueryErrors,
+} from "./query";
+import type {
+  ColumnName,
+  RelationName,
+  RowOf,
+  TableClient,
+  TableName,
+} from "./types";
+
+export type CrudMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
 
 /**
  * Defines the configuration required to generate CRUD handlers.
  */
-interface CrudHandlersConfig<C extends ZodType, U extends ZodType> {
-  tableName: string;
+export interface CrudHandlersConfig<
+  T extends TableName,
+  C extends ZodType,
+  U extends ZodType,
+> {
+  tableName: T;
   resourceName: string;
   createSchema: C;
   updateSchema: U;
-  // Optional hooks for custom logic (e.g., joining related data)
-  afterGet?: (data: any[]) => Promise<any[]>;
-  beforeInsert?: (data: z.infer<C>) => Promise<z.infer<C>>;
+  // Columns clients may filter (`?col=op.value`), sort and select on
+  columns?: readonly ColumnName<T>[];
+  // Related tables that clients may embed with `?include=a,b`
+  includes?: readonly RelationName<T>[];
+  // Column holding the owning university; scopes every read and write to the
+  // caller's universities (see ./tenant.ts)
+  tenantColumn?: ColumnName<T>;
+  // Roles allowed per method; methods left out are open to any signed-in user.
+  // PATCH falls back to the PUT roles.
+  roles?: Partial<Record<CrudMethod, readonly Role[]>>;
+  // DELETE sets `deleted_at` instead of removing the row (see ./softDelete.ts)
+  softDelete?: boolean;
+  // Column that changes on every write (e.g. `updated_at`); reads return an
+  // ETag derived from it and PUT/PATCH/DELETE require `If-Match` (see ./etag.ts)
+  versionColumn?: ColumnName<T>;
+  // Key column(s) and type, used to validate ids from the path or body;
+  // defaults to a UUID `id` (see ./primaryKey.ts). Bulk routes always address
+  // rows by `id`.
+  primaryKey?: PrimaryKey<ColumnName<T>>;
+  // Middleware per method, e.g. `{ ALL: [logRequests()] }` (see
+  // ./middleware.ts). The collection, item and bulk routes of a method share
+  // it; restore uses DELETE's.
+  middleware?: MiddlewareConfig;
+  // Optional hooks for custom logic (e.g., joining related data). `before*`
+  // hooks may return a response (e.g. `ApiResponse.error(...)`) to stop the
+  // request; `after*` hooks run once the write is done and cannot undo it.
+  // Bulk routes run the write hooks for every item.
+  beforeList?: (context: RequestContext) => Promise<Halt | void>;
+  // Every row read, listed or fetched by id
+  afterGet?: (rows: Row[], context: RequestContext) => Promise<Row[]>;
+  // List pages and export batches, after `afterGet`
+  afterList?: (rows: Row[], context: RequestContext) => Promise<Row[]>;
+  beforeGet?: (key: RowKey, context: RequestContext) => Promise<Halt | void>;
+  beforeInsert?: (
+    data: z.infer<C>,
+    context: RequestContext
+  ) => Promise<z.infer<C> | Halt>;
+  afterCreate?: (row: RowOf<T>, context: RequestContext) => Promise<void>;
+  // Receives the columns about to be written and the current row; returns the
+  // columns to write
+  beforeUpdate?: (
+    changes: Partial<RowOf<T>>,
+    before: RowOf<T>,
+    context: RequestContext
+  ) => Promise<Partial<RowOf<T>> | Halt>;
+  afterUpdate?: (
+    row: RowOf<T>,
+    before: RowOf<T>,
+    context: RequestContext
+  ) => Promise<void>;
+  beforeDelete?: (
+    row: RowOf<T>,
+    context: RequestContext
+  ) => Promise<Halt | void>;
+  afterDelete?: (row: RowOf<T>, context: RequestContext) => Promise<void>;
+  // Bulk create and update, once every item has passed the hooks above:
+  // checks the batch's rows against each other, each as it would be saved
+  // (with its `id` on update). Returns, by position, a response for every row
+  // to refuse and `null` for the rest.
+  beforeBulkWrite?: (
+    rows: Partial<RowOf<T>>[],
+    context: RequestContext
+  ) => Promise<(Halt | null)[]>;
 }
 
-// Commet Added By VENOMLEADER
-
 /**
- * A higher-order function to handle common API logic like Supabase client
- * instantiation, global error handling, and authentication checks.
+ * Route context passed by Next.js to handlers under a dynamic `[id]` segment.
  */
-async function handleRequest(
-  request: NextRequest,
-  handler: (
-    createServerSideClient: any,
-    request: NextRequest
-  ) => Promise<NextResponse>
-) {
-  try {
-    const supabase = await createServerSideClient();
-    if (!supabase) {
-      return ApiResponse.error(
-        ErrorCode.SUPABASE_NOT_INITIALIZED,
-        "Supabase client not initialized",
-        HttpStatus.INTERNAL_SERVER_ERROR
-      );
-    }
+export interface ItemRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+type RequestHandler = Parameters<typeof handleRequest>[2];
+
+type Row = Record<string, unknown>;
 
-    // You can add global authentication checks here
-    // const { data: { user } } = await supabase.auth.getUser();
-    // if (!user) {
-    //   return ApiResponse.error(ErrorCode.UNAUTHORIZED, "Authentication required.", HttpStatus.UNAUTHORIZED);
-    // }
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function invalidQueryResponse(details: QueryErrors) {
+  return ApiResponse.error(
+    ErrorCode.VALIDATION_ERROR,
+    "Invalid query parameters.",
+    HttpStatus.UNPROCESSABLE_ENTITY,
+    details
+  );
+}
 
-    // Correctly call the handler, passing the instantiated client and the original request
-    return await handler(supabase, request);
-  } catch (e: any) {
-    console.error(`[API Factory Error]`, e);
+/**
+ * Maps a failed list query to a response. Class 22 (data exception) means a
+ * filter or cursor value didn't fit its column, and 42883 (undefined
+ * function) an operator that doesn't apply to it (e.g. `cs` on a text
+ * column); both are the client's fault.
+ */
+function listErrorResponse(error: { code?: string; message: string }) {
+  if (error.code?.startsWith("22") || error.code === "42883") {
     return ApiResponse.error(
-      ErrorCode.INTERNAL_SERVER_ERROR,
-      "An unexpected error occurred.",
-      HttpStatus.INTERNAL_SERVER_ERROR
+      ErrorCode.VALIDATION_ERROR,
+      "Invalid filter value.",
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      { details: error.message }
     );
   }
+  return ApiResponse.error(
+    ErrorCode.SUPABASE_QUERY_ERROR,
+    error.message,
+    HttpStatus.INTERNAL_SERVER_ERROR
+  );
 }
 
 /**
- * Creates a full set of generic CRUD API route handlers (GET, POST, PUT, DELETE).
+ * Maps a failed insert or update to a response. Foreign key, check and
+ * hierarchy trigger violations (see ./hierarchy.ts) are the client's to fix,
+ * and double bookings are conflicts.
  */
-export function createCrudHandlers<C extends ZodType, U extends ZodType>(
-  config: CrudHandlersConfig<C, U>
+function writeErrorResponse(
+  resourceName: string,
+  error: { code?: string; message: string; details?: string; hint?: string }
 ) {
+  if (error.code === "23505") {
+    // Handle unique constraint violations
+    return ApiResponse.error(
+      ErrorCode.CONFLICT,
+      `${resourceName} already exists.`,
+      HttpStatus.CONFLICT,
+      { details: error.details }
+    );
+  }
+  if (error.code === "23P01") {
+    // A double booking refused by the database (see
+    // ../scheduler/bookings.ts), e.g. by a concurrent write
+    return ApiResponse.error(
+      ErrorCode.CONFLICT,
+      error.message,
+      HttpStatus.CONFLICT,
+      { details: error.details }
+    );
+  }
+  if (error.code === "23503" || error.code === "23514") {
+    return ApiResponse.error(
+      ErrorCode.VALIDATION_ERROR,
+      "Inconsistent parent records.",
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      {
+        formErrors: [error.message, ...(error.hint ? [error.hint] : [])],
+        fieldErrors: {},
+      }
+    );
+  }
+  return ApiResponse.error(
+    ErrorCode.SUPABASE_QUERY_ERROR,
+    error.message,
+    HttpStatus.INTERNAL_SERVER_ERROR
+  );
+}
+
+/**
+ * Creates a full set of generic CRUD API route handlers (GET, POST, PUT, DELETE),
+ * plus `item` handlers (GET, PUT, PATCH, DELETE) for the resource's dynamic `[id]` route and `bulk`
+ * handlers for its `/bulk` route.
+ */
+export function createCrudHandlers<
+  T extends TableName,
+  C extends ZodType,
+  U extends ZodType,
+>(config: CrudHandlersConfig<T, C, U>) {
   const {
     tableName,
     resourceName,
     createSchema,
     updateSchema,
+    columns = [],
+    includes = [],
+    roles = {},
+    tenantColumn,
+    softDelete,
+    versionColumn,
+    primaryKey = DEFAULT_PRIMARY_KEY,
+    middleware = {},
+    beforeList,
     afterGet,
+    afterList,
+    beforeGet,
     beforeInsert,
+    afterCreate,
+    afterUpdate,
+    beforeDelete,
+    afterDelete,
   } = config;
+  const keyNames = keyColumns(primaryKey).map(({ column }) => column);
+
+  const invalidKeyResponse = (details: QueryErrors) =>
+    ApiResponse.error(
+      ErrorCode.BAD_REQUEST,
+      `Invalid ${resourceName} id.`,
+      HttpStatus.BAD_REQUEST,
+      details
+    );
+
+  const notFoundResponse = (key: RowKey) =>
+    ApiResponse.error(
+      ErrorCode.NOT_FOUND,
+      `${resourceName} with ID ${formatKey(key)} not found.`,
+      HttpStatus.NOT_FOUND
+    );
+
+  /**
+   * Drops the key columns from validated write data: they name the record,
+   * they are never written.
+   */
+  const withoutKey = <D extends Record<string, unknown>>(data: D) => {
+    const rest: Record<string, unknown> = { ...data };
+    for (const column of keyNames) delete rest[column];
+    return rest as D;
+  };
+
+  /**
+   * Responds to a compare-and-swap write that matched no row: the row either
+   * changed after the `If-Match` check (`current`) or is gone.
+   */
+  const lostRaceResponse = (
+    current: Record<string, unknown> | null,
+    key: RowKey
+  ) => {
+    if (current && versionColumn) {
+      return staleResponse(current, etagFor(current, versionColumn));
+    }
+    return notFoundResponse(key);
+  };
+
+  /**
+   * Runs the read hooks on a list page or export batch.
+   */
+  const processRows = async (rows: Row[], context: RequestContext) => {
+    const read = afterGet ? await afterGet(rows, context) : rows;
+    return afterList ? afterList(read, context) : read;
+  };
+
+  /**
+   * Parses `?includeDeleted=`. Deleted rows are only shown to callers who may
+   * delete, and so restore, the resource.
+   */
+  const readDeletedFilter = (searchParams: URLSearchParams, caller: Caller) => {
+    const deleted = parseDeletedFilter(searchParams);
+    if (!deleted.success) {
+      return { response: invalidQueryResponse(deleted.error) };
+    }
+    if (
+      deleted.data !== "exclude" &&
+      roles.DELETE &&
+      !hasRole(caller, roles.DELETE)
+    ) {
+      return {
+        response: ApiResponse.error(
+          ErrorCode.FORBIDDEN,
+          "You do not have permission to see deleted records.",
+          HttpStatus.FORBIDDEN,
+          { requiredRoles: roles.DELETE }
+        ),
+      };
+    }
+    return { filter: deleted.data };
+  };
 
   // --- GET (Paginated List) ---
   const GET = async (request: NextRequest) => {
-    return handleRequest(request, async (supabase, req) => {
-      const { searchParams } = req.nextUrl;
-      const page = parseInt(searchParams.get("page") || "1", 10);
-      const pageSize = parseInt(searchParams.get("pageSize") || "10", 10);
-      const from = (page - 1) * pageSize;
-      const to = from + pageSize - 1;
-
-      const { data, error, count } = await supabase
-        .from(tableName)
-        .select("*", { count: "exact" })
-        .range(from, to);
+    return handleRequest(
+      request,
+      roles.GET,
+      async (supabase: TableClient, req, caller, requestId) => {
+        const context = { supabase, caller, request: req, requestId };
+        const { searchParams } = req.nextUrl;
+        const exportFormat = parseExportFormat(searchParams);
+        if (!exportFormat.success) {
+          return invalidQueryResponse(exportFormat.error);
+        }
+        const cursorPagination = parseCursorPagination(searchParams);
+        if (!cursorPagination.success) {
+          return invalidQueryResponse(cursorPagination.error);
+        }
+        const deleted = readDeletedFilter(searchParams, caller);
+        if (deleted.response) {
+          return deleted.response;
+        }
 
-      if (error) {
-        return ApiResponse.error(
-          ErrorCode.SUPABASE_QUERY_ERROR,
-          error.message,
-          HttpStatus.INTERNAL_SERVER_ERROR
-        );
-      }
+        const query = parseListQuery(searchParams, {
+          columns,
+          includes,
+          // Cursors are built from these, so they must come back with each row
+          keys: cursorPagination.data || exportFormat.data ? CURSOR_KEYS : [],
+        });
+        if (!query.success) {
+          return invalidQueryResponse(query.error);
+        }
+        const halt = beforeList ? await beforeList(context) : undefined;
+        if (halt) {
+          return halt;
+        }
 
-      const processedData = afterGet ? await afterGet(data) : data;
+        // --- Export mode: every matching row, streamed as a file ---
+        if (exportFormat.data) {
+          const listQuery = query.data;
+          const fetchBatch = async (
+            after: KeyedRow | null
+          ): Promise<ExportBatchResult> => {
+            const pagination = pageAfter(after, EXPORT_BATCH_SIZE);
+            const { data, error } = await applyCursor(
+              applyListQuery(
+                applyDeletedFilter(
+                  applyTenantScope(
+                    supabase.from(tableName).select(listQuery.select),
+                    tenantColumn,
+                    caller
+                  ),
+                  softDelete,
+                  deleted.filter,
+                  listQuery.includes
+                ),
+                listQuery
+              ),
+              pagination
+            );
+            if (error) {
+              return { data: null, error };
+            }
 
-      return ApiResponse.success(processedData, HttpStatus.OK, {
-        page,
-        pageSize: data.length,
-        total: count ?? 0,
-        totalPages: Math.ceil((count ?? 0) / pageSize),
-      });
-    });
+            const rows = data.slice(0, pagination.limit);
+            const next = data.length > pagination.limit ? rows.at(-1) : null;
+            return {
+              data: { rows: await processRows(rows, context), next },
+              error: null,
+            };
+          };
+
+          const firstBatch = await fetchBatch(null);
+          if (firstBatch.error) {
+            return listErrorResponse(firstBatch.error);
+          }
+
+          const { fields, includes: embeds } = listQuery;
+          const date = new Date().toISOString().slice(0, 10);
+          return exportResponse({
+            format: exportFormat.data,
+            filename: `${resourceName.toLowerCase().replace(/\s+/g, "-")}-${date}`,
+            columns: fields.length > 0 ? [...fields, ...embeds] : null,
+            firstBatch: firstBatch.data,
+            fetchBatch,
+          });
+        }
+
+        // --- Cursor (keyset) mode: opted into with `?cursor=` or `?limit=` ---
+        if (cursorPagination.data) {
+          const pagination = cursorPagination.data;
+          const { data, error, count } = await applyCursor(
+            applyListQuery(
+              applyDeletedFilter(
+                applyTenantScope(
+                  supabase
+                    .from(tableName)
+                    .select(
+                      query.data.select,
+                      pagination.withCount ? { count: "exact" } : undefined
+                    ),
+                  tenantColumn,
+                  caller
+                ),
+                softDelete,
+                deleted.filter,
+                query.data.includes
+              ),
+              query.data
+            ),
+            pagination
+          );
+
+          if (error) {
+            return listErrorResponse(error);
+          }
+
+          const { rows, nextCursor, prevCursor } = paginateRows<Row & KeyedRow>(
+            data,
+            pagination
+          );
+          const processedData = await processRows(rows, context);
+
+          return ApiResponse.success(processedData, HttpStatus.OK, {
+            limit: pagination.limit,
+            nextCursor,
+            prevCursor,
+            ...(pagination.withCount ? { total: count ?? 0 } : {}),
+          });
+        }
+
+        const page = parseInt(searchParams.get("page") || "1", 10);
+        const pageSize = parseInt(searchParams.get("pageSize") || "10", 10);
+        const from = (page - 1) * pageSize;
+        const to = from + pageSize - 1;
+
+        const { data, error, count } = await applyListQuery(
+          applyDeletedFilter(
+            applyTenantScope(
+              supabase
+                .from(tableName)
+                .select(query.data.select, { count: "exact" }),
+              tenantColumn,
+              caller
+            ),
+            softDelete,
+            deleted.filter,
+            query.data.includes
+          ),
+          query.data
+        ).range(from, to);
+
+        if (error) {
+          return listErrorResponse(error);
+        }
+
+        const processedData = await processRows(data, context);
+
+        return ApiResponse.success(processedData, HttpStatus.OK, {
+          page,
+          pageSize: data.length,
+          total: count ?? 0,
+          totalPages: Math.ceil((count ?? 0) / pageSize),
+        });
+      },
+      middlewareFor(middleware, "GET")
+    );
   };
 
-  // --- POST (Create New Resource) ---
-  const POST = async (request: NextRequest) => {
-    return handleRequest(request, async (supabase, req) => {
-      const body = await req.json();
-      const validation = createSchema.safeParse(body);
-      if (!validation.success) {
-        return ApiResponse.error(
-          ErrorCode.VALIDATION_ERROR,
-          "Invalid input.",
-          HttpStatus.UNPROCESSABLE_ENTITY,
-          validation.error.flatten()
-        );
-      }
+  // --- GET by ID (Single Resource) ---
+  const GET_BY_ID = async (request: NextRequest, route: ItemRouteContext) => {
+    return handleRequest(
+      request,
+      roles.GET,
+      async (supabase: TableClient, req, caller, requestId) => {
+        const context = { supabase, caller, request: req, requestId };
+        const key = parsePathKey(primaryKey, (await route.params).id);
+        if (!key.success) {
+          return invalidKeyResponse(key.error);
+        }
+        const halt = beforeGet ? await beforeGet(key.data, context) : undefined;
+        if (halt) {
+          return halt;
+        }
+        const select = parseSelectQuery(req.nextUrl.searchParams, {
+          columns,
+          includes,
+          // The ETag is computed from it
+          keys: versionColumn ? [versionColumn] : [],
+        });
+        if (!select.success) {
+          return invalidQueryResponse(select.error);
+        }
+        const deleted = readDeletedFilter(req.nextUrl.searchParams, caller);
+        if (deleted.response) {
+          return deleted.response;
+        }
+
+        const { data, error } = await applyDeletedFilter(
+          applyTenantScope(
+            applyKey(
+              supabase.from(tableName).select(select.data.select),
+              key.data
+            ),
+            tenantColumn,
+            caller
+          ),
+          softDelete,
+          deleted.filter,
+          select.data.includes
+        ).maybeSingle();
 
-      const dataToInsert = beforeInsert
-        ? await beforeInsert(validation.data)
-        : validation.data;
+        if (error) {
+          return ApiResponse.error(
+            ErrorCode.SUPABASE_QUERY_ERROR,
+            error.message,
+            HttpStatus.INTERNAL_SERVER_ERROR
+          );
+        }
+        if (!data) {
+          return notFoundResponse(key.data);
+        }
 
-      const { data, error } = await supabase
-        .from(tableName)
-        .insert(dataToInsert)
-        .select()
-        .single();
+        const etag = versionColumn ? etagFor(data, versionColumn) : null;
+        const unchanged = notModified(req, etag);
+        if (unchanged) {
+          return unchanged;
+        }
 
-      if (error) {
-        if (error.code === "23505") {
-          // Handle unique constraint violations
+        const [processedData] = afterGet
+          ? await afterGet([data], context)
+          : [data];
+        return withEtag(
+          ApiResponse.success(processedData, HttpStatus.OK),
+          data,
+          versionColumn
+        );
+      },
+      middlewareFor(middleware, "GET")
+    );
+  };
+
+  // --- POST (Create New Resource) ---
+  const POST = async (request: NextRequest) => {
+    return handleRequest(
+      request,
+      roles.POST,
+      async (supabase: TableClient, req, caller, requestId) => {
+        let body;
+        try {
+          body = await req.json();
+        } catch {
           return ApiResponse.error(
-            ErrorCode.CONFLICT,
-            `${resourceName} already exists.`,
-            HttpStatus.CONFLICT,
-            { details: error.details }
+            ErrorCode.BAD_REQUEST,
+            "Invalid JSON format in request body.",
+            HttpStatus.BAD_REQUEST
           );
         }
-        return ApiResponse.error(
-          ErrorCode.SUPABASE_QUERY_ERROR,
-          error.message,
-          HttpStatus.INTERNAL_SERVER_ERROR
+        if (!isRecord(body)) {
+          return ApiResponse.error(
+            ErrorCode.BAD_REQUEST,
+            "Expected a JSON object in the request body.",
+            HttpStatus.BAD_REQUEST
+          );
+        }
+        const validation = createSchema.safeParse(body);
+        if (!validation.success) {
+          return ApiResponse.error(
+            ErrorCode.VALIDATION_ERROR,
+            "Invalid input.",
+            HttpStatus.UNPROCESSABLE_ENTITY,
+            validation.error.flatten()
+          );
+        }
+
+        const context = { supabase, caller, request: req, requestId };
+        const dataToInsert = beforeInsert
+          ? await beforeInsert(validation.data, context)
+          : validation.data;
+        if (isHalt(dataToInsert)) {
+          return dataToInsert;
+        }
+
+        const scoped = scopeTenantWrite(
+          caller,
+          tenantColumn,
+          dataToInsert as Record<string, unknown>,
+          { isCreate: true }
         );
-      }
-      return ApiResponse.success(data, HttpStatus.CREATED);
-    });
+        if (!scoped.success) {
+          return ApiResponse.error(scoped.code, scoped.message, scoped.status);
+        }
+
+        const { data, error } = await supabase
+          .from(tableName)
+          .insert(scoped.data)
+          .select()
+          .single();
+
+        if (error) {
+          return writeErrorResponse(resourceName, error);
+        }
+
+        await afterCreate?.(data, context);
+        return withEtag(
+          ApiResponse.success(data, HttpStatus.CREATED),
+          data,
+          versionColumn
+        );
+      },
+      middlewareFor(middleware, "POST")
+    );
+  };
+
+  /**
+   * Reads the key of the record a write targets: from the `[id]` path segment
+   * when there is one (key columns in the body may only repeat it), otherwise
+   * from the body's key columns.
+   */
+  const readWriteKey = (
+    pathId: string | null,
+    body: Record<string, unknown>
+  ): ParseResult<RowKey> => {
+    const fromBody = parseKey(primaryKey, body);
+    if (pathId === null) {
+      return fromBody;
+    }
+    const fromPath = parsePathKey(primaryKey, pathId);
+    if (!fromPath.success) {
+      return fromPath;
+    }
+    const conflicting = keyNames.filter(
+      (column) =>
+        body[column] !== undefined &&
+        (!fromBody.success || fromBody.data[column] !== fromPath.data[column])
+    );
+    if (conflicting.length > 0) {
+      return {
+        success: false,
+        error: {
+          formErrors: ["The body names a different record than the path."],
+          fieldErrors: Object.fromEntries(
+            conflicting.map((column) => [column, ["Does not match the path."]])
+          ),
+        },
+      };
+    }
+    return fromPath;
   };
 
   // --- PUT (Update Existing Resource) ---
-  const PUT = async (request: NextRequest) => {
-    return handleRequest(request, async (supabase, req) => {
+  // Mounted on the collection route (key in the body) and the item route.
+  const updateHandler =
+    (pathId: string | null): RequestHandler =>
+    async (supabase: TableClient, req, caller, requestId) => {
       let body;
       try {
-        // ✅ Wrap this call in a try...catch block
         body = await req.json();
-      } catch (error) {
+      } catch {
         return ApiResponse.error(
           ErrorCode.BAD_REQUEST,
           "Invalid JSON format in request body.",
           HttpStatus.BAD_REQUEST
         );
       }
+      if (!isRecord(body)) {
+        return ApiResponse.error(
+          ErrorCode.BAD_REQUEST,
+          "Expected a JSON object in the request body.",
+          HttpStatus.BAD_REQUEST
+        );
+      }
+
+      const key = readWriteKey(pathId, body);
+      if (!key.success) {
+        return invalidKeyResponse(key.error);
+      }
 
-      const validation = updateSchema.safeParse(body);
+      const validation = updateSchema.safeParse({ ...body, ...key.data });
       if (!validation.success) {
         return ApiResponse.error(
           ErrorCode.VALIDATION_ERROR,
@@ -174,7 +733,7 @@ export function createCrudHandlers<C extends ZodType, U extends ZodType>(
         );
       }
 
-      const { id, ...updateData } = validation.data as { id: string | number; [key: string]: any };
+      const updateData = withoutKey(validation.data as Record<string, unknown>);
       if (Object.keys(updateData).length === 0) {
         return ApiResponse.error(
           ErrorCode.BAD_REQUEST,
@@ -183,68 +742,470 @@ export function createCrudHandlers<C extends ZodType, U extends ZodType>(
         );
       }
 
-      const { data, error } = await supabase
-        .from(tableName)
-        .update(updateData)
-        .eq("id", id)
-        .select()
-        .single();
+      const scoped = scopeTenantWrite(caller, tenantColumn, updateData, {
+        isCreate: false,
+      });
+      if (!scoped.success) {
+        return ApiResponse.error(scoped.code, scoped.message, scoped.status);
+      }
 
-      if (error) {
+      // Rows outside the caller's universities, or in the trash, are
+      // reported as not found. The current row is read first for the
+      // If-Match check and the update hooks.
+      const findCurrent = () =>
+        applyDeletedFilter(
+          applyTenantScope(
+            applyKey(supabase.from(tableName).select(), key.data),
+            tenantColumn,
+            caller
+          ),
+          softDelete
+        ).maybeSingle();
+
+      const { data: before, error: lookupError } = await findCurrent();
+      if (lookupError) {
         return ApiResponse.error(
           ErrorCode.SUPABASE_QUERY_ERROR,
-          error.message,
+          lookupError.message,
           HttpStatus.INTERNAL_SERVER_ERROR
         );
       }
-      if (!data) {
-        return ApiResponse.error(
-          ErrorCode.NOT_FOUND,
-          `${resourceName} with ID ${id} not found.`,
-          HttpStatus.NOT_FOUND
+      if (!before) {
+        return notFoundResponse(key.data);
+      }
+      if (versionColumn) {
+        const precondition = checkIfMatch(
+          req,
+          before,
+          versionColumn,
+          resourceName
         );
+        if (!precondition.success) {
+          return precondition.response;
+        }
+      }
+
+      const context = { supabase, caller, request: req, requestId };
+      const toWrite = await runBeforeUpdate(
+        config,
+        primaryKey,
+        scoped.data,
+        before,
+        context
+      );
+      if (isHalt(toWrite)) {
+        return toWrite;
+      }
+
+      // Compare-and-swap on the version, so a write racing this one is
+      // refused rather than silently overwritten
+      let update = applyDeletedFilter(
+        applyTenantScope(
+          applyKey(supabase.from(tableName).update(toWrite), key.data),
+          tenantColumn,
+          caller
+        ),
+        softDelete
+      );
+      if (versionColumn) {
+        update = update.eq(versionColumn, before[versionColumn]);
+      }
+      const { data, error } = await update.select().maybeSingle();
+
+      if (error) {
+        return writeErrorResponse(resourceName, error);
+      }
+      if (!data) {
+        const { data: current } = await findCurrent();
+        return lostRaceResponse(current, key.data);
       }
-      return ApiResponse.success(data, HttpStatus.OK);
-    });
+
+      await afterUpdate?.(data, before, context);
+      return withEtag(
+        ApiResponse.success(data, HttpStatus.OK),
+        data,
+        versionColumn
+      );
+    };
+
+  const PUT = async (request: NextRequest) => {
+    return handleRequest(
+      request,
+      roles.PUT,
+      updateHandler(null),
+      middlewareFor(middleware, "PUT")
+    );
+  };
+
+  const ITEM_PUT = async (request: NextRequest, route: ItemRouteContext) => {
+    const { id } = await route.params;
+    return handleRequest(
+      request,
+      roles.PUT,
+      updateHandler(id),
+      middlewareFor(middleware, "PUT")
+    );
+  };
+
+  // --- PATCH by ID (Partial Update) ---
+  // `application/json-patch+json` bodies are RFC 6902 operations; anything
+  // else is read as an RFC 7396 merge patch. Either is applied to the current
+  // row, and only the columns it changed are validated and written.
+  const PATCH = async (request: NextRequest, route: ItemRouteContext) => {
+    return handleRequest(
+      request,
+      roles.PATCH ?? roles.PUT,
+      async (supabase: TableClient, req, caller, requestId) => {
+        const key = parsePathKey(primaryKey, (await route.params).id);
+        if (!key.success) {
+          return invalidKeyResponse(key.error);
+        }
+        let body;
+        try {
+          body = await req.json();
+        } catch {
+          return ApiResponse.error(
+            ErrorCode.BAD_REQUEST,
+            "Invalid JSON format in request body.",
+            HttpStatus.BAD_REQUEST
+          );
+        }
+
+        const findCurrent = () =>
+          applyDeletedFilter(
+            applyTenantScope(
+              applyKey(supabase.from(tableName).select(), key.data),
+              tenantColumn,
+              caller
+            ),
+            softDelete
+          ).maybeSingle();
+
+        const { data: before, error: lookupError } = await findCurrent();
+        if (lookupError) {
+          return ApiResponse.error(
+            ErrorCode.SUPABASE_QUERY_ERROR,
+            lookupError.message,
+            HttpStatus.INTERNAL_SERVER_ERROR
+          );
+        }
+        if (!before) {
+          return notFoundResponse(key.data);
+        }
+        if (versionColumn) {
+          const precondition = checkIfMatch(
+            req,
+            before,
+            versionColumn,
+            resourceName
+          );
+          if (!precondition.success) {
+            return precondition.response;
+          }
+        }
+
+        const mediaType = req.headers.get("content-type")?.split(";")[0];
+        const patched =
+          mediaType?.trim().toLowerCase() === JSON_PATCH_CONTENT_TYPE
+            ? applyJsonPatch(before, body)
+            : applyMergePatch(before, body);
+        if (!patched.success) {
+          return ApiResponse.error(
+            ErrorCode.BAD_REQUEST,
+            patched.error,
+            HttpStatus.BAD_REQUEST
+          );
+        }
+
+        const changes = changedColumns(before, patched.data);
+        if (Object.keys(changes).length === 0) {
+          return withEtag(
+            ApiResponse.success(before, HttpStatus.OK),
+            before,
+            versionColumn
+          );
+        }
+
+        // Validated as a PUT with just the changed columns; any the update
+        // schema doesn't accept (id, timestamps...) are read-only
+        const validation = updateSchema.safeParse({ ...changes, ...key.data });
+        if (!validation.success) {
+          return ApiResponse.error(
+            ErrorCode.VALIDATION_ERROR,
+            "Invalid input.",
+            HttpStatus.UNPROCESSABLE_ENTITY,
+            validation.error.flatten()
+          );
+        }
+        const updateData = withoutKey(
+          validation.data as Record<string, unknown>
+        );
+        const readOnly = Object.keys(changes).filter(
+          (column) => !(column in updateData)
+        );
+        if (readOnly.length > 0) {
+          return ApiResponse.error(
+            ErrorCode.VALIDATION_ERROR,
+            "Read-only columns cannot be patched.",
+            HttpStatus.UNPROCESSABLE_ENTITY,
+            { columns: readOnly }
+          );
+        }
+
+        const scoped = scopeTenantWrite(caller, tenantColumn, updateData, {
+          isCreate: false,
+        });
+        if (!scoped.success) {
+          return ApiResponse.error(scoped.code, scoped.message, scoped.status);
+        }
+        const context = { supabase, caller, request: req, requestId };
+        const toWrite = await runBeforeUpdate(
+          config,
+          primaryKey,
+          scoped.data,
+          before,
+          context
+        );
+        if (isHalt(toWrite)) {
+          return toWrite;
+        }
+
+        let update = applyDeletedFilter(
+          applyTenantScope(
+            applyKey(supabase.from(tableName).update(toWrite), key.data),
+            tenantColumn,
+            caller
+          ),
+          softDelete
+        );
+        if (versionColumn) {
+          update = update.eq(versionColumn, before[versionColumn]);
+        }
+        const { data, error } = await update.select().maybeSingle();
+
+        if (error) {
+          return writeErrorResponse(resourceName, error);
+        }
+        if (!data) {
+          const { data: current } = await findCurrent();
+          return lostRaceResponse(current, key.data);
+        }
+
+        await afterUpdate?.(data, before, context);
+        return withEtag(
+          ApiResponse.success(data, HttpStatus.OK),
+          data,
+          versionColumn
+        );
+      },
+      middlewareFor(middleware, "PATCH")
+    );
+  };
+
+  /**
+   * Reads the key of the record to delete: from the `[id]` path segment, or
+   * the key columns of the body on the collection route.
+   */
+  const readDeleteKey = async (
+    req: NextRequest,
+    pathId: string | null
+  ): Promise<ParseResult<RowKey>> => {
+    if (pathId !== null) {
+      return parsePathKey(primaryKey, pathId);
+    }
+    const body = await req.json().catch(() => null);
+    return parseKey(primaryKey, isRecord(body) ? body : {});
   };
 
   // --- DELETE (Remove Resource) ---
-  const DELETE = async (request: NextRequest) => {
-    return handleRequest(request, async (supabase, req) => {
-      const { id } = await req.json();
-      if (!id || typeof id !== "string") {
+  // Mounted on the collection route (key in the body) and the item route.
+  const deleteHandler =
+    (pathId: string | null): RequestHandler =>
+    async (supabase: TableClient, req, caller, requestId) => {
+      const key = await readDeleteKey(req, pathId);
+      if (!key.success) {
         return ApiResponse.error(
           ErrorCode.BAD_REQUEST,
-          "A valid 'id' is required for deletion.",
-          HttpStatus.BAD_REQUEST
+          `A valid ${resourceName} id is required for deletion.`,
+          HttpStatus.BAD_REQUEST,
+          key.error
         );
       }
 
-      const { error, count } = await supabase
-        .from(tableName)
-        .delete({ count: "exact" })
-        .eq("id", id);
+      const findCurrent = () =>
+        applyDeletedFilter(
+          applyTenantScope(
+            applyKey(supabase.from(tableName).select(), key.data),
+            tenantColumn,
+            caller
+          ),
+          softDelete
+        ).maybeSingle();
 
-      if (error) {
+      const { data: current, error: lookupError } = await findCurrent();
+      if (lookupError) {
         return ApiResponse.error(
           ErrorCode.SUPABASE_QUERY_ERROR,
-          error.message,
+          lookupError.message,
           HttpStatus.INTERNAL_SERVER_ERROR
         );
       }
-      if (count === 0) {
+      if (!current) {
+        return notFoundResponse(key.data);
+      }
+      if (versionColumn) {
+        const precondition = checkIfMatch(
+          req,
+          current,
+          versionColumn,
+          resourceName
+        );
+        if (!precondition.success) {
+          return precondition.response;
+        }
+      }
+      const context = { supabase, caller, request: req, requestId };
+      const halt = beforeDelete
+        ? await beforeDelete(current, context)
+        : undefined;
+      if (halt) {
+        return halt;
+      }
+
+      // Soft-deleting resources move live rows to the trash instead
+      let removal = applyTenantScope(
+        softDelete
+          ? applyDeletedFilter(
+              applyKey(
+                supabase.from(tableName).update(softDeleteUpdate()),
+                key.data
+              ),
+              softDelete
+            )
+          : applyKey(supabase.from(tableName).delete(), key.data),
+        tenantColumn,
+        caller
+      );
+      if (versionColumn) {
+        removal = removal.eq(versionColumn, current[versionColumn]);
+      }
+      const { data, error } = await removal.select().maybeSingle();
+
+      if (error) {
         return ApiResponse.error(
-          ErrorCode.NOT_FOUND,
-          `${resourceName} with ID ${id} not found.`,
-          HttpStatus.NOT_FOUND
+          ErrorCode.SUPABASE_QUERY_ERROR,
+          error.message,
+          HttpStatus.INTERNAL_SERVER_ERROR
         );
       }
+      if (!data) {
+        const { data: latest } = await findCurrent();
+        return lostRaceResponse(latest, key.data);
+      }
+
+      await afterDelete?.(current, context);
       return ApiResponse.success(
         { message: `${resourceName} deleted successfully.` },
         HttpStatus.OK
       );
-    });
+    };
+
+  const DELETE = async (request: NextRequest) => {
+    return handleRequest(
+      request,
+      roles.DELETE,
+      deleteHandler(null),
+      middlewareFor(middleware, "DELETE")
+    );
+  };
+
+  const ITEM_DELETE = async (request: NextRequest, route: ItemRouteContext) => {
+    const { id } = await route.params;
+    return handleRequest(
+      request,
+      roles.DELETE,
+      deleteHandler(id),
+      middlewareFor(middleware, "DELETE")
+    );
   };
 
-  return { GET, POST, PUT, DELETE };
+  // --- POST restore (Bring Back a Soft-Deleted Resource) ---
+  const RESTORE = async (request: NextRequest, route: ItemRouteContext) => {
+    return handleRequest(
+      request,
+      roles.DELETE,
+      async (supabase: TableClient, _, caller) => {
+        const key = parsePathKey(primaryKey, (await route.params).id);
+        if (!key.success) {
+          return invalidKeyResponse(key.error);
+        }
+        if (!softDelete) {
+          return ApiResponse.error(
+            ErrorCode.BAD_REQUEST,
+            `${resourceName} records are deleted permanently.`,
+            HttpStatus.BAD_REQUEST
+          );
+        }
+
+        // Children deleted along with the row are restored by the database
+        const { data, error } = await applyDeletedFilter(
+          applyTenantScope(
+            applyKey(
+              supabase.from(tableName).update({ deleted_at: null }),
+              key.data
+            ),
+            tenantColumn,
+            caller
+          ),
+          softDelete,
+          "only"
+        )
+          .select()
+          .maybeSingle();
+
+        if (error) {
+          if (error.code === "23503") {
+            // The parent is still in the trash
+            return ApiResponse.error(
+              ErrorCode.CONFLICT,
+              error.message,
+              HttpStatus.CONFLICT,
+              { details: error.hint }
+            );
+          }
+          return ApiResponse.error(
+            ErrorCode.SUPABASE_QUERY_ERROR,
+            error.message,
+            HttpStatus.INTERNAL_SERVER_ERROR
+          );
+        }
+        if (!data) {
+          return ApiResponse.error(
+            ErrorCode.NOT_FOUND,
+            `Deleted ${resourceName} with ID ${formatKey(key.data)} not found.`,
+            HttpStatus.NOT_FOUND
+          );
+        }
+
+        return withEtag(
+          ApiResponse.success(data, HttpStatus.OK),
+          data,
+          versionColumn
+        );
+      },
+      middlewareFor(middleware, "DELETE")
+    );
+  };
+
+  return {
+    GET,
+    POST,
+    PUT,
+    DELETE,
+    item: { GET: GET_BY_ID, PUT: ITEM_PUT, PATCH, DELETE: ITEM_DELETE },
+    restore: { POST: RESTORE },
+    bulk: createBulkHandlers(config),
+    // Exposed for tooling built on top of the resources (e.g. imports)
+    config,
+  };
 }
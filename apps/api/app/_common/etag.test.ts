@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkIfMatch,
+  etagFor,
+  notModified,
+  versionFromEtag,
+  versionsMatch,
+} from "./etag";
+
+const row = { id: "u1", updated_at: "2026-10-19T08:30:15.123456+00:00" };
+const etag = etagFor(row, "updated_at")!;
+
+function request(headers: Record<string, string>) {
+  return new Request("http://localhost/university/u1", { headers });
+}
+
+describe("etagFor", () => {
+  it("derives a strong ETag from the version column", () => {
+    expect(etag).toMatch(/^"[\w-]+"$/);
+    expect(versionFromEtag(etag)).toBe(row.updated_at);
+  });
+
+  it("is null for rows without a version", () => {
+    expect(etagFor({ id: "u1", updated_at: null }, "updated_at")).toBeNull();
+  });
+});
+
+describe("checkIfMatch", () => {
+  it("requires an If-Match header", async () => {
+    const result = checkIfMatch(request({}), row, "updated_at", "University");
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.response.status).toBe(428);
+  });
+
+  it("refuses a stale ETag with the current row", async () => {
+    const result = checkIfMatch(
+      request({ "If-Match": '"stale"' }),
+      row,
+      "updated_at",
+      "University"
+    );
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.response.status).toBe(409);
+    expect(result.response.headers.get("ETag")).toBe(etag);
+    expect((await result.response.json()).error.details).toEqual({
+      current: row,
+    });
+  });
+
+  it.each([etag, `"other", ${etag}`, "*"])("accepts %s", (header) => {
+    expect(
+      checkIfMatch(
+        request({ "If-Match": header }),
+        row,
+        "updated_at",
+        "University"
+      )
+    ).toEqual({ success: true });
+  });
+
+  it("never accepts a weak ETag", () => {
+    const result = checkIfMatch(
+      request({ "If-Match": `W/${etag}` }),
+      row,
+      "updated_at",
+      "University"
+    );
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("notModified", () => {
+  it("answers 304 for a current copy, weak or strong", () => {
+    for (const header of [etag, `W/${etag}`]) {
+      const response = notModified(request({ "If-None-Match": header }), etag);
+      expect(response?.status).toBe(304);
+      expect(response?.headers.get("ETag")).toBe(etag);
+    }
+  });
+
+  it("lets the read through otherwise", () => {
+    expect(notModified(request({ "If-None-Match": '"x"' }), etag)).toBeNull();
+    expect(notModified(request({}), etag)).toBeNull();
+  });
+});
+
+describe("versionsMatch", () => {
+  it.each([
+    "2026-10-19T08:30:15.123456+00:00",
+    "2026-10-19T08:30:15.123456Z",
+    "2026-10-19 08:30:15.123456+00",
+    "2026-10-19T10:30:15.123456+02:00",
+  ])("matches %s", (version) => {
+    expect(versionsMatch(row.updated_at, version)).toBe(true);
+  });
+
+  it("compares fractional seconds at any precision", () => {
+    expect(
+      versionsMatch("2026-10-19T08:30:15.5+00:00", "2026-10-19T08:30:15.500Z")
+    ).toBe(true);
+  });
+
+  it.each(["2026-10-19T08:30:15.123457+00:00", "2026-10-19T08:30:15Z", "x"])(
+    "tells %s apart",
+    (version) => {
+      expect(versionsMatch(row.updated_at, version)).toBe(false);
+    }
+  );
+});
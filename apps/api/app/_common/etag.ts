@@ -0,0 +1,154 @@
+import { NextResponse } from "next/server";
+import { etagOfVersion } from "@edunity/contracts";
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers";
+
+/**
+ * Optimistic concurrency with ETags. A row's ETag is derived from its version
+ * column (`updated_at`), so it changes on every write. Reads return it, GET
+ * honours `If-None-Match`, and writes require `If-Match` so an edit based on
+ * a stale copy is refused instead of silently overwriting someone else's.
+ */
+
+type Row = Record<string, unknown>;
+
+/**
+ * The strong ETag of a row, or `null` when it has no version yet.
+ */
+export function etagFor(row: Row, versionColumn: string): string | null {
+  return etagOfVersion(row[versionColumn]);
+}
+
+/**
+ * Checks a conditional header against an ETag. `*` matches any existing row.
+ * Weak validators (`W/"..."`) only count for `If-None-Match`, as RFC 9110
+ * requires strong comparison for `If-Match`.
+ */
+function headerMatches(header: string, etag: string, weak: boolean): boolean {
+  return header
+    .split(",")
+    .map((tag) => tag.trim())
+    .some(
+      (tag) => tag === "*" || tag === etag || (weak && tag === `W/${etag}`)
+    );
+}
+
+/**
+ * Answers a GET with `304 Not Modified` when the client's copy is current.
+ */
+export function notModified(
+  request: Request,
+  etag: string | null
+): NextResponse | null {
+  const header = request.headers.get("if-none-match");
+  if (!header || !etag || !headerMatches(header, etag, true)) return null;
+  return new NextResponse(null, {
+    status: HttpStatus.NOT_MODIFIED,
+    headers: { ETag: etag },
+  });
+}
+
+export type PreconditionResult =
+  | { success: true }
+  | { success: false; response: NextResponse };
+
+/**
+ * Checks `If-Match` before a write to `current`. A missing header is refused
+ * with 428; a stale one with 409 and the current row, so the client can
+ * merge and retry.
+ */
+export function checkIfMatch(
+  request: Request,
+  current: Row,
+  versionColumn: string,
+  resourceName: string
+): PreconditionResult {
+  const header = request.headers.get("if-match");
+  if (!header) {
+    return {
+      success: false,
+      response: ApiResponse.error(
+        ErrorCode.PRECONDITION_REQUIRED,
+        `Send the ${resourceName}'s ETag in an If-Match header.`,
+        HttpStatus.PRECONDITION_REQUIRED
+      ),
+    };
+  }
+
+  const etag = etagFor(current, versionColumn);
+  if (!etag || !headerMatches(header, etag, false)) {
+    return { success: false, response: staleResponse(current, etag) };
+  }
+  return { success: true };
+}
+
+/**
+ * The 409 returned when a write lost the race: the row changed since the
+ * client read it.
+ */
+export function staleResponse(current: Row, etag: string | null) {
+  const response = ApiResponse.error(
+    ErrorCode.CONFLICT,
+    "The record was changed by someone else; reload it and try again.",
+    HttpStatus.CONFLICT,
+    { current }
+  );
+  if (etag) response.headers.set("ETag", etag);
+  return response;
+}
+
+/**
+ * Adds the row's ETag to a response.
+ */
+export function withEtag(
+  response: NextResponse,
+  row: Row,
+  versionColumn: string | undefined
+): NextResponse {
+  const etag = versionColumn ? etagFor(row, versionColumn) : null;
+  if (etag) response.headers.set("ETag", etag);
+  return response;
+}
+
+/**
+ * The version an ETag of ours was derived from, or `null` when the value is
+ * not a quoted ETag.
+ */
+export function versionFromEtag(etag: string): string | null {
+  const match = etag.trim().match(/^"([\w-]*)"$/);
+  return match ? Buffer.from(match[1] ?? "", "base64url").toString() : null;
+}
+
+// An ISO 8601 / Postgres timestamp: date, time, fraction and UTC offset
+const TIMESTAMP =
+  /^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}:\d{2})(?:\.(\d{1,6}))?(Z|[+-]\d{2}(?::?\d{2})?)$/i;
+
+/**
+ * A timestamp as microseconds since the epoch, or `null` when `value` is not
+ * one. Postgres keeps microseconds, which `Date` would round away.
+ */
+function instantOf(value: string): number | null {
+  const match = value.trim().match(TIMESTAMP);
+  if (!match) return null;
+  const [, date, time, fraction = "", zone = "Z"] = match;
+  const offset =
+    zone.toUpperCase() === "Z"
+      ? "Z"
+      : zone.length === 3
+        ? `${zone}:00`
+        : `${zone.slice(0, 3)}:${zone.slice(-2)}`;
+  const seconds = Date.parse(`${date}T${time}${offset}`);
+  if (Number.isNaN(seconds)) return null;
+  return seconds * 1000 + Number(fraction.padEnd(6, "0"));
+}
+
+/**
+ * Whether a client's version is the row's current one. Timestamps are
+ * compared as instants, so `Z` and `+00:00`, or `.5` and `.500000`, match.
+ */
+export function versionsMatch(current: unknown, version: string): boolean {
+  const currentVersion = String(current);
+  if (currentVersion === version) return true;
+  const a = instantOf(currentVersion);
+  const b = instantOf(version);
+  return a !== null && a === b;
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  type ExportBatchResult,
+  exportResponse,
+  parseExportFormat,
+} from "./export";
+import type { KeyedRow } from "./pagination";
+
+type Row = Record<string, unknown>;
+
+const key = (id: string): KeyedRow => ({
+  created_at: "2026-10-19T08:00:00+00:00",
+  id,
+});
+
+// Serves `pages` after the first batch, one per call, recording the keys
+function batches(pages: Row[][]) {
+  const after: KeyedRow[] = [];
+  const fetchBatch = async (last: KeyedRow): Promise<ExportBatchResult> => {
+    after.push(last);
+    const rows = pages[after.length - 1] ?? [];
+    const more = after.length < pages.length;
+    return {
+      data: { rows, next: more ? key(`page-${after.length}`) : null },
+      error: null,
+    };
+  };
+  return { after, fetchBatch };
+}
+
+// Keeps the byte order mark, which decoding drops by default
+const decoder = new TextDecoder("utf-8", { ignoreBOM: true });
+
+const text = async (response: Response) =>
+  decoder.decode(await response.arrayBuffer());
+
+describe("parseExportFormat", () => {
+  it("leaves a regular list alone", () => {
+    expect(parseExportFormat(new URLSearchParams("page=2"))).toEqual({
+      success: true,
+      data: null,
+    });
+  });
+
+  it("refuses unknown formats, pagination and sorting", () => {
+    const result = parseExportFormat(
+      new URLSearchParams("format=pdf&pageSize=10&sort=name")
+    );
+    expect(result.success).toBe(false);
+    expect(Object.keys(result.success ? {} : result.error.fieldErrors)).toEqual(
+      ["format", "pageSize", "sort"]
+    );
+  });
+});
+
+describe("exportResponse", () => {
+  it("reads further batches only as the download is read", async () => {
+    const { after, fetchBatch } = batches([[{ name: "B" }], [{ name: "C" }]]);
+    const response = exportResponse({
+      format: "csv",
+      filename: "university",
+      columns: ["name"],
+      firstBatch: { rows: [{ name: "A" }], next: key("a") },
+      fetchBatch,
+    });
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="university.csv"'
+    );
+
+    const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+    const read = async () => decoder.decode((await reader.read()).value);
+    expect(await read()).toBe("\uFEFFname\r\n");
+    expect(await read()).toBe("A\r\n");
+    expect(after).toEqual([]);
+    expect(await read()).toBe("B\r\n");
+    expect(after).toEqual([key("a")]);
+    expect(await read()).toBe("C\r\n");
+    expect((await reader.read()).done).toBe(true);
+    expect(after).toEqual([key("a"), key("page-1")]);
+  });
+
+  it("escapes text a spreadsheet would run as a formula", async () => {
+    const response = exportResponse({
+      format: "csv",
+      filename: "course",
+      columns: ["name", "credits", "notes"],
+      firstBatch: {
+        rows: [
+          { name: '=HYPERLINK("x")', credits: -3, notes: "+1" },
+          { name: "@SUM(A1)", credits: 4, notes: { tags: ["a,b"] } },
+        ],
+        next: null,
+      },
+      fetchBatch: vi.fn(),
+    });
+    expect(await text(response)).toBe(
+      "\uFEFFname,credits,notes\r\n" +
+        '"\'=HYPERLINK(""x"")",-3,\'+1\r\n' +
+        '\'@SUM(A1),4,"{""tags"":[""a,b""]}"\r\n'
+    );
+  });
+
+  it("writes NDJSON of the chosen columns", async () => {
+    const response = exportResponse({
+      format: "ndjson",
+      filename: "room",
+      columns: ["id", "name"],
+      firstBatch: {
+        rows: [{ id: "r1", name: "Lab", capacity: 20 }],
+        next: null,
+      },
+      fetchBatch: vi.fn(),
+    });
+    expect(response.headers.get("Content-Type")).toMatch(
+      /^application\/x-ndjson/
+    );
+    expect(await text(response)).toBe('{"id":"r1","name":"Lab"}\n');
+  });
+
+  it("aborts the download when a later batch fails", async () => {
+    const response = exportResponse({
+      format: "ndjson",
+      filename: "room",
+      columns: null,
+      firstBatch: { rows: [{ id: "r1" }], next: key("r1") },
+      fetchBatch: async () => ({
+        data: null,
+        error: { message: "connection reset" },
+      }),
+    });
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    await expect(text(response)).rejects.toThrow("connection reset");
+    error.mockRestore();
+  });
+});
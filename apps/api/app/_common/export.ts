@@ -0,0 +1,237 @@
+import { once } from "node:events";
+import { PassThrough } from "node:stream";
+import { NextResponse } from "next/server";
+import ExcelJS from "exceljs";
+import type { KeyedRow } from "./pagination";
+import type { ParseResult } from "./query";
+
+/**
+ * Streamed exports of a list query (`?format=csv|xlsx|ndjson`). Rows are read
+ * in keyset batches and written out as they arrive, so a large table is never
+ * held in memory as a whole.
+ */
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "ndjson"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Rows fetched per round trip while streaming
+export const EXPORT_BATCH_SIZE = 1000;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+// List parameters that make no sense for a dump of every matching row
+const PAGINATION_PARAMS = ["page", "pageSize", "cursor", "limit", "count"];
+
+type Row = Record<string, unknown>;
+
+export interface ExportBatch {
+  rows: Row[];
+  // Last row read when another batch follows it, otherwise null
+  next: KeyedRow | null;
+}
+
+export type ExportBatchResult =
+  | { data: ExportBatch; error: null }
+  | { data: null; error: { code?: string; message: string } };
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // File name without extension
+  filename: string;
+  // Output columns in order; null takes them from the first row
+  columns: string[] | null;
+  // Fetched up front so query errors still get a JSON error response
+  firstBatch: ExportBatch;
+  fetchBatch: (after: KeyedRow) => Promise<ExportBatchResult>;
+}
+
+/**
+ * Parses `?format=`. Resolves to `null` for a regular (paginated) list.
+ */
+export function parseExportFormat(
+  searchParams: URLSearchParams
+): ParseResult<ExportFormat | null> {
+  const format = searchParams.get("format");
+  if (format === null) {
+    return { success: true, data: null };
+  }
+
+  const fieldErrors: Record<string, string[]> = {};
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    fieldErrors.format = [`Expected one of: ${EXPORT_FORMATS.join(", ")}.`];
+  }
+  for (const param of PAGINATION_PARAMS) {
+    if (searchParams.has(param)) {
+      fieldErrors[param] = ["Exports always include every matching row."];
+    }
+  }
+  if (searchParams.has("sort")) {
+    fieldErrors.sort = ["Exports are always ordered by created_at, id."];
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    return { success: false, error: { formErrors: [], fieldErrors } };
+  }
+  return { success: true, data: format as ExportFormat };
+}
+
+async function* readBatches({
+  firstBatch,
+  fetchBatch,
+}: ExportOptions): AsyncGenerator<Row[]> {
+  let batch = firstBatch;
+  yield batch.rows;
+  while (batch.next) {
+    const result = await fetchBatch(batch.next);
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+    batch = result.data;
+    yield batch.rows;
+  }
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function csvField(value: unknown): string {
+  let text = toText(value);
+  // Keep spreadsheet apps from evaluating user-supplied text as a formula
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+async function* csvChunks(
+  columns: string[],
+  batches: AsyncIterable<Row[]>
+): AsyncGenerator<string> {
+  // The byte order mark makes Excel read the file as UTF-8
+  yield `\uFEFF${columns.map(csvField).join(",")}\r\n`;
+  for await (const rows of batches) {
+    if (rows.length === 0) continue;
+    yield rows
+      .map((row) => columns.map((column) => csvField(row[column])).join(","))
+      .join("\r\n") + "\r\n";
+  }
+}
+
+async function* ndjsonChunks(
+  columns: string[] | null,
+  batches: AsyncIterable<Row[]>
+): AsyncGenerator<string> {
+  for await (const rows of batches) {
+    if (rows.length === 0) continue;
+    yield rows
+      .map((row) =>
+        JSON.stringify(
+          columns
+            ? Object.fromEntries(columns.map((column) => [column, row[column]]))
+            : row
+        )
+      )
+      .join("\n") + "\n";
+  }
+}
+
+function xlsxCell(value: unknown) {
+  if (value === null || value === undefined) return null;
+  return typeof value === "object" ? JSON.stringify(value) : value;
+}
+
+/**
+ * Writes rows into a streaming workbook. The zip output is piped through a
+ * PassThrough that is read as the response body; writing pauses whenever
+ * the client falls behind.
+ */
+function xlsxChunks(
+  sheetName: string,
+  columns: string[],
+  batches: AsyncIterable<Row[]>
+): AsyncIterable<Uint8Array> {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output });
+  const worksheet = workbook.addWorksheet(sheetName);
+
+  const write = async () => {
+    worksheet.addRow(columns).commit();
+    for await (const rows of batches) {
+      // The client went away; stop reading from the database
+      if (output.destroyed) return;
+      for (const row of rows) {
+        worksheet
+          .addRow(columns.map((column) => xlsxCell(row[column])))
+          .commit();
+      }
+      if (output.writableNeedDrain) {
+        await once(output, "drain");
+      }
+    }
+    worksheet.commit();
+    await workbook.commit();
+  };
+  write().catch((error) => output.destroy(error));
+
+  return output;
+}
+
+function toReadableStream(
+  chunks: AsyncIterable<string | Uint8Array>
+): ReadableStream<Uint8Array> {
+  const iterator = chunks[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(
+            typeof value === "string" ? encoder.encode(value) : value
+          );
+        }
+      } catch (error) {
+        // Headers are already sent, so all we can do is abort the download
+        console.error(`[Export Error]`, error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Builds the streamed download response for an export.
+ */
+export function exportResponse(options: ExportOptions): NextResponse {
+  const { format, filename, firstBatch } = options;
+  const columns = options.columns ?? Object.keys(firstBatch.rows[0] ?? {});
+  const batches = readBatches(options);
+
+  const chunks =
+    format === "csv"
+      ? csvChunks(columns, batches)
+      : format === "xlsx"
+        ? xlsxChunks(filename, columns, batches)
+        : ndjsonChunks(options.columns, batches);
+
+  return new NextResponse(toReadableStream(chunks), {
+    status: 200,
+    headers: {
+      "Content-Type": EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${filename}.${format}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
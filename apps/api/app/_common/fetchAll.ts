@@ -0,0 +1,27 @@
+/**
+ * Reads every row of a query, a page at a time: PostgREST's `max_rows` (see
+ * supabase/config.toml) silently cuts longer responses short. `page` runs the
+ * query over rows `from` to `to`, inclusive; order it by a unique column so
+ * the pages neither skip nor repeat rows.
+ */
+
+export const PAGE_SIZE = 1000;
+
+export async function fetchAll<T>(
+  page: (
+    from: number,
+    to: number
+  ) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw error;
+    }
+    rows.push(...(data ?? []));
+    if ((data ?? []).length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
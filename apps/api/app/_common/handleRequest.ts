@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSideClient } from "@edunity/supabase"; // Your Supabase client import
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers"; // Your API helper import
+import {
+  type Caller,
+  getBearerToken,
+  hasRole,
+  resolveCaller,
+  type Role,
+} from "./auth";
+import { type Middleware, runMiddleware } from "./middleware";
+import type { ServerClient } from "./types";
+
+const REQUEST_ID_HEADER = "x-request-id";
+
+/**
+ * The id tying a request to its audit entries and logs: the client's own
+ * `X-Request-Id` when it sent a sensible one, otherwise a fresh UUID.
+ */
+function getRequestId(request: NextRequest): string {
+  const header = request.headers.get(REQUEST_ID_HEADER);
+  return header && /^[\w.:-]{1,128}$/.test(header)
+    ? header
+    : crypto.randomUUID();
+}
+
+/**
+ * A higher-order function to handle common API logic like Supabase client
+ * instantiation, global error handling, and authentication checks.
+ *
+ * Every request must be authenticated; when `roles` is given the caller must
+ * also hold one of them. `middleware` then runs around the handler (see
+ * ./middleware.ts). The request id is echoed in the `X-Request-Id` response
+ * header.
+ */
+export async function handleRequest(
+  request: NextRequest,
+  roles: readonly Role[] | undefined,
+  handler: (
+    supabase: ServerClient,
+    request: NextRequest,
+    caller: Caller,
+    requestId: string
+  ) => Promise<NextResponse>,
+  middleware: readonly Middleware[] = []
+) {
+  const requestId = getRequestId(request);
+  try {
+    const accessToken = getBearerToken(request);
+    // The request id reaches the database, which tags audit entries with it
+    const supabase = await createServerSideClient(accessToken, requestId);
+    if (!supabase) {
+      return ApiResponse.error(
+        ErrorCode.SUPABASE_NOT_INITIALIZED,
+        "Supabase client not initialized",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+
+    const caller = await resolveCaller(supabase, accessToken);
+    if (!caller) {
+      return ApiResponse.error(
+        ErrorCode.UNAUTHORIZED,
+        "Authentication required.",
+        HttpStatus.UNAUTHORIZED
+      );
+    }
+    if (roles && !hasRole(caller, roles)) {
+      return ApiResponse.error(
+        ErrorCode.FORBIDDEN,
+        "You do not have permission to perform this action.",
+        HttpStatus.FORBIDDEN,
+        { requiredRoles: roles }
+      );
+    }
+
+    // Correctly call the handler, passing the instantiated client and the original request
+    const response = await runMiddleware(
+      middleware,
+      { supabase, caller, request, requestId },
+      () => handler(supabase, request, caller, requestId)
+    );
+    response.headers.set(REQUEST_ID_HEADER, requestId);
+    return response;
+  } catch (e) {
+    console.error(`[API Factory Error] (request ${requestId})`, e);
+    return ApiResponse.error(
+      ErrorCode.INTERNAL_SERVER_ERROR,
+      "An unexpected error occurred.",
+      HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+import type { Caller } from "./auth";
+import {
+  checkDepartmentParentChanges,
+  checkDepartmentParents,
+} from "./hierarchy";
+import { isHalt } from "./hooks";
+import type { RequestContext } from "./middleware";
+import type { RowOf, ServerClient } from "./types";
+
+type Row = Record<string, unknown>;
+
+// Serves lookups by id from `tables`
+function context(caller: Caller, tables: Record<string, Row[]>) {
+  const from = (table: string) => {
+    let rows = tables[table] ?? [];
+    const builder = {
+      select: () => builder,
+      is: () => builder,
+      eq: (column: string, value: unknown) => {
+        rows = rows.filter((row) => row[column] === value);
+        return builder;
+      },
+      maybeSingle: async () => ({ data: rows[0] ?? null, error: null }),
+    };
+    return builder;
+  };
+  return {
+    supabase: { from } as unknown as ServerClient,
+    caller,
+    request: new NextRequest("http://localhost/department"),
+    requestId: "hierarchy",
+  } satisfies RequestContext;
+}
+
+const admin: Caller = {
+  id: "admin",
+  email: null,
+  roles: [
+    {
+      role: "platform_admin",
+      uni_id: null,
+      collage_id: null,
+      department_id: null,
+    },
+  ],
+};
+
+const tables = {
+  collage: [
+    { id: "science", uni_id: "tech" },
+    { id: "music", uni_id: "arts" },
+  ],
+};
+
+// The field a VALIDATION_ERROR names
+async function failedField(result: unknown) {
+  expect(isHalt(result)).toBe(true);
+  const { error } = await (result as Response).json();
+  return Object.keys(error.details.fieldErrors);
+}
+
+describe("checkDepartmentParents", () => {
+  it("takes the university from the college", async () => {
+    expect(
+      await checkDepartmentParents(
+        { name: "Physics", collage_id: "science" },
+        context(admin, tables)
+      )
+    ).toEqual({ name: "Physics", collage_id: "science", uni_id: "tech" });
+  });
+
+  it("rejects a college of another university", async () => {
+    const result = await checkDepartmentParents(
+      { collage_id: "music", uni_id: "tech" },
+      context(admin, tables)
+    );
+    expect(await failedField(result)).toEqual(["collage_id"]);
+  });
+
+  it("needs a university from platform admins", async () => {
+    const result = await checkDepartmentParents({}, context(admin, tables));
+    expect(await failedField(result)).toEqual(["uni_id"]);
+  });
+});
+
+describe("checkDepartmentParentChanges", () => {
+  const before = {
+    id: "physics",
+    uni_id: "tech",
+    collage_id: "science",
+  } as RowOf<"department">;
+
+  it("moves the department with its new college", async () => {
+    expect(
+      await checkDepartmentParentChanges(
+        { collage_id: "music" },
+        before,
+        context(admin, tables)
+      )
+    ).toEqual({ collage_id: "music", uni_id: "arts" });
+  });
+
+  it("keeps a university change within the college's", async () => {
+    const result = await checkDepartmentParentChanges(
+      { uni_id: "arts" },
+      before,
+      context(admin, tables)
+    );
+    expect(await failedField(result)).toEqual(["collage_id"]);
+  });
+});
@@ -0,0 +1,583 @@
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers";
+import { type Halt, isHalt } from "./hooks";
+import type { RequestContext } from "./middleware";
+import { tenantScope } from "./tenant";
+import type { RowOf } from "./types";
+
+/**
+ * Hierarchy integrity hooks. Colleges and departments belong to a university,
+ * a department's college must belong to the same university, and a course
+ * belongs to the university of its department, so callers only manage the
+ * courses (and course requisites) of their own universities. A department's
+ * university is derived from its college, a student's or faculty member's
+ * from their home department, a term's and course offering's from their
+ * academic year and term, and a building's and room's from their college and
+ * building, where that is the only right answer; anything contradictory is
+ * rejected with a VALIDATION_ERROR naming the field. The database enforces
+ * the same rules (see the hierarchy integrity, people, course offerings,
+ * rooms, course tenancy and requisite tenancy migrations).
+ */
+
+interface DepartmentParents {
+  uni_id?: string | null;
+  collage_id?: string | null;
+}
+
+interface HomeDepartment {
+  uni_id?: string | null;
+  department_id?: string | null;
+}
+
+interface OfferingParents {
+  term_id: string;
+  department_id: string;
+  instructor_ids?: string[];
+  // Meetings may name a room
+  schedule?: unknown;
+}
+
+// The parents a university can be derived from
+const PARENTS = {
+  collage: { field: "collage_id", label: "College" },
+  department: { field: "department_id", label: "Department" },
+  academic_year: { field: "academic_year_id", label: "Academic year" },
+  term: { field: "term_id", label: "Term" },
+  building: { field: "building_id", label: "Building" },
+} as const;
+
+type ParentTable = keyof typeof PARENTS;
+
+/**
+ * A VALIDATION_ERROR explaining which relationship is inconsistent, in the
+ * shape Zod validation errors are reported in.
+ */
+export function hierarchyError(field: string, message: string): Halt {
+  return ApiResponse.error(
+    ErrorCode.VALIDATION_ERROR,
+    "Inconsistent parent records.",
+    HttpStatus.UNPROCESSABLE_ENTITY,
+    { formErrors: [], fieldErrors: { [field]: [message] } }
+  );
+}
+
+/**
+ * A live parent row the caller can see, or `null`.
+ */
+async function findParent(
+  { supabase }: RequestContext,
+  table: ParentTable,
+  id: string
+): Promise<{ id: string; uni_id: string | null } | null> {
+  const { data, error } = await supabase
+    .from(table)
+    .select("id, uni_id")
+    .eq("id", id)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return data;
+}
+
+/**
+ * Checks a record's parent (a department's college, a person's home
+ * department) against its university. Returns the university the record
+ * belongs in: the parent's when `uniId` is unset or `derive` is set.
+ */
+async function parentUniversity(
+  context: RequestContext,
+  table: ParentTable,
+  parentId: string,
+  uniId: string | null | undefined,
+  derive: boolean
+): Promise<string | null | Halt> {
+  const { field, label } = PARENTS[table];
+  const parent = await findParent(context, table, parentId);
+  if (!parent) {
+    return hierarchyError(field, `${label} ${parentId} not found.`);
+  }
+  if (derive || !uniId) {
+    return parent.uni_id;
+  }
+  if (parent.uni_id !== uniId) {
+    return hierarchyError(
+      field,
+      `${label} ${parentId} belongs to university ${parent.uni_id}, not ${uniId}. Leave uni_id out to use the ${label.toLowerCase()}'s university.`
+    );
+  }
+  return uniId;
+}
+
+/**
+ * Platform admins belong to no university, so there is none to default to.
+ */
+function universityRequired(
+  data: { uni_id?: string | null },
+  context: RequestContext,
+  message: string
+): Halt | null {
+  return !data.uni_id && tenantScope(context.caller) === null
+    ? hierarchyError("uni_id", message)
+    : null;
+}
+
+/**
+ * A `beforeInsert` hook for records that belong directly to a university.
+ */
+export function requireUniversity(message: string) {
+  return async <D extends { uni_id?: string | null }>(
+    data: D,
+    context: RequestContext
+  ): Promise<D | Halt> => universityRequired(data, context, message) ?? data;
+}
+
+/**
+ * `beforeInsert` for colleges.
+ */
+export const checkCollegeParent = requireUniversity(
+  "A college must belong to a university."
+);
+
+/**
+ * `beforeInsert` for departments: takes the university from the college when
+ * it is left out.
+ */
+export async function checkDepartmentParents<D extends DepartmentParents>(
+  data: D,
+  context: RequestContext
+): Promise<D | Halt> {
+  if (!data.collage_id) {
+    return (
+      universityRequired(
+        data,
+        context,
+        "A department must belong to a university or a college."
+      ) ?? data
+    );
+  }
+  const uniId = await parentUniversity(
+    context,
+    "collage",
+    data.collage_id,
+    data.uni_id,
+    false
+  );
+  return isHalt(uniId) ? uniId : { ...data, uni_id: uniId };
+}
+
+/**
+ * `beforeUpdate` for departments. Moving to another college without naming a
+ * university moves the department to the college's university.
+ */
+export async function checkDepartmentParentChanges(
+  changes: Partial<RowOf<"department">>,
+  before: RowOf<"department">,
+  context: RequestContext
+): Promise<Partial<RowOf<"department">> | Halt> {
+  const collegeId =
+    changes.collage_id !== undefined ? changes.collage_id : before.collage_id;
+  if (
+    !collegeId ||
+    (changes.collage_id === undefined && changes.uni_id === undefined)
+  ) {
+    return changes;
+  }
+  const uniId = await parentUniversity(
+    context,
+    "collage",
+    collegeId,
+    changes.uni_id ?? before.uni_id,
+    changes.collage_id !== undefined && changes.uni_id === undefined
+  );
+  return isHalt(uniId) ? uniId : { ...changes, uni_id: uniId };
+}
+
+/**
+ * Whether the caller may manage courses of a university: platform admins any,
+ * everyone else only their own. Courses without a department (no university)
+ * form the shared catalogue, which only platform admins manage.
+ */
+function managesCourses(context: RequestContext, uniId: string | null) {
+  const scope = tenantScope(context.caller);
+  return scope === null || (uniId !== null && scope.includes(uniId));
+}
+
+/**
+ * A course's department must be live and belong to one of the caller's
+ * universities.
+ */
+async function checkDepartment(
+  context: RequestContext,
+  departmentId: string | null
+): Promise<Halt | null> {
+  let uniId: string | null = null;
+  if (departmentId) {
+    const department = await findParent(context, "department", departmentId);
+    if (!department) {
+      return hierarchyError(
+        "department_id",
+        `Department ${departmentId} not found.`
+      );
+    }
+    uniId = department.uni_id;
+  }
+  if (managesCourses(context, uniId)) {
+    return null;
+  }
+  return hierarchyError(
+    "department_id",
+    departmentId
+      ? `Department ${departmentId} belongs to another university.`
+      : "Only platform admins manage the shared catalogue; name one of your departments."
+  );
+}
+
+/**
+ * `beforeInsert` for courses.
+ */
+export async function checkCourseDepartment<
+  D extends { department_id?: string | null },
+>(data: D, context: RequestContext): Promise<D | Halt> {
+  return (await checkDepartment(context, data.department_id ?? null)) ?? data;
+}
+
+/**
+ * `beforeUpdate` and `beforeDelete` for courses: the course must belong to
+ * one of the caller's universities.
+ */
+export async function checkCourseOwner(
+  row: RowOf<"course">,
+  context: RequestContext
+): Promise<Halt | void> {
+  const department = row.department_id
+    ? await findParent(context, "department", row.department_id)
+    : null;
+  if (!managesCourses(context, department?.uni_id ?? null)) {
+    return ApiResponse.error(
+      ErrorCode.FORBIDDEN,
+      `You cannot change course ${row.id}: it belongs to ${department ? "another university" : "the shared catalogue"}.`,
+      HttpStatus.FORBIDDEN
+    );
+  }
+}
+
+/**
+ * `beforeUpdate` for courses.
+ */
+export async function checkCourseDepartmentChange(
+  changes: Partial<RowOf<"course">>,
+  before: RowOf<"course">,
+  context: RequestContext
+): Promise<Partial<RowOf<"course">> | Halt> {
+  const owner = await checkCourseOwner(before, context);
+  if (owner) {
+    return owner;
+  }
+  if (changes.department_id === undefined) {
+    return changes;
+  }
+  return (await checkDepartment(context, changes.department_id)) ?? changes;
+}
+
+/**
+ * The caller must manage the course a requisite belongs to.
+ */
+async function checkRequisiteCourse(
+  context: RequestContext,
+  courseId: number
+): Promise<Halt | null> {
+  const { data: course, error } = await context.supabase
+    .from("course")
+    .select()
+    .eq("id", courseId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!course) {
+    return hierarchyError("course_id", `Course ${courseId} not found.`);
+  }
+  return (await checkCourseOwner(course, context)) ?? null;
+}
+
+/**
+ * `beforeInsert` for course requisites.
+ */
+export async function checkRequisiteOwner<D extends { course_id: number }>(
+  data: D,
+  context: RequestContext
+): Promise<D | Halt> {
+  return (await checkRequisiteCourse(context, data.course_id)) ?? data;
+}
+
+/**
+ * `beforeUpdate` for course requisites: moving one to another course needs
+ * both courses.
+ */
+export async function checkRequisiteChange(
+  changes: Partial<RowOf<"course_requisite">>,
+  before: RowOf<"course_requisite">,
+  context: RequestContext
+): Promise<Partial<RowOf<"course_requisite">> | Halt> {
+  const owner = await checkRequisiteCourse(context, before.course_id);
+  if (owner || changes.course_id === undefined) {
+    return owner ?? changes;
+  }
+  return (await checkRequisiteCourse(context, changes.course_id)) ?? changes;
+}
+
+/**
+ * `beforeDelete` for course requisites.
+ */
+export async function checkRequisiteDelete(
+  row: RowOf<"course_requisite">,
+  context: RequestContext
+): Promise<Halt | void> {
+  return (await checkRequisiteCourse(context, row.course_id)) ?? undefined;
+}
+
+/**
+ * `beforeInsert` for students and faculty: takes the university from the home
+ * department when it is left out.
+ */
+export async function checkHomeDepartment<D extends HomeDepartment>(
+  data: D,
+  context: RequestContext
+): Promise<D | Halt> {
+  if (!data.department_id) {
+    return (
+      universityRequired(
+        data,
+        context,
+        "A person must belong to a university or a department."
+      ) ?? data
+    );
+  }
+  const uniId = await parentUniversity(
+    context,
+    "department",
+    data.department_id,
+    data.uni_id,
+    false
+  );
+  return isHalt(uniId) ? uniId : { ...data, uni_id: uniId };
+}
+
+/**
+ * `beforeUpdate` for students and faculty. Moving to another department
+ * without naming a university moves the person to the department's
+ * university.
+ */
+export async function checkHomeDepartmentChange<
+  R extends { uni_id: string; department_id: string | null },
+>(
+  changes: Partial<R>,
+  before: R,
+  context: RequestContext
+): Promise<Partial<R> | Halt> {
+  const departmentId =
+    changes.department_id !== undefined
+      ? changes.department_id
+      : before.department_id;
+  if (
+    !departmentId ||
+    (changes.department_id === undefined && changes.uni_id === undefined)
+  ) {
+    return changes;
+  }
+  const uniId = await parentUniversity(
+    context,
+    "department",
+    departmentId,
+    changes.uni_id ?? before.uni_id,
+    changes.department_id !== undefined && changes.uni_id === undefined
+  );
+  if (isHalt(uniId)) {
+    return uniId;
+  }
+  return uniId ? { ...changes, uni_id: uniId } : changes;
+}
+
+/**
+ * A `beforeInsert` hook for records that always belong to their parent's
+ * university: terms (academic year), buildings (college) and rooms
+ * (building).
+ */
+export function inheritUniversity(table: ParentTable) {
+  const { field } = PARENTS[table];
+  return async <D extends object>(
+    data: D,
+    context: RequestContext
+  ): Promise<D | Halt> => {
+    const parentId = String((data as Record<string, unknown>)[field]);
+    const uniId = await parentUniversity(context, table, parentId, null, true);
+    return isHalt(uniId) ? uniId : { ...data, uni_id: uniId };
+  };
+}
+
+/**
+ * The matching `beforeUpdate` hook: moving to another parent may move the
+ * record to another university.
+ */
+export function inheritUniversityChange(table: ParentTable) {
+  const { field } = PARENTS[table];
+  return async <R extends { uni_id: string }>(
+    changes: Partial<R>,
+    _before: R,
+    context: RequestContext
+  ): Promise<Partial<R> | Halt> => {
+    const parentId = (changes as Record<string, unknown>)[field];
+    if (typeof parentId !== "string") {
+      return changes;
+    }
+    const uniId = await parentUniversity(context, table, parentId, null, true);
+    if (isHalt(uniId)) {
+      return uniId;
+    }
+    return uniId ? { ...changes, uni_id: uniId } : changes;
+  };
+}
+
+export const checkTermParent = inheritUniversity("academic_year");
+
+export const checkTermParentChange = inheritUniversityChange("academic_year");
+
+/**
+ * Instructors must be live faculty members of the offering's university.
+ */
+async function checkInstructors(
+  { supabase }: RequestContext,
+  instructorIds: readonly string[] | undefined,
+  uniId: string
+): Promise<Halt | null> {
+  if (!instructorIds?.length) {
+    return null;
+  }
+  const { data, error } = await supabase
+    .from("faculty")
+    .select("id")
+    .in("id", instructorIds)
+    .eq("uni_id", uniId)
+    .is("deleted_at", null);
+  if (error) {
+    throw error;
+  }
+  const found = new Set((data ?? []).map(({ id }: { id: string }) => id));
+  const missing = instructorIds.filter((id) => !found.has(id));
+  return missing.length > 0
+    ? hierarchyError(
+        "instructor_ids",
+        `Not faculty members of university ${uniId}: ${missing.join(", ")}.`
+      )
+    : null;
+}
+
+/**
+ * The rooms named in a schedule that has passed `scheduleSchema`.
+ */
+function scheduleRoomIds(schedule: unknown): string[] {
+  if (!Array.isArray(schedule)) {
+    return [];
+  }
+  const ids = schedule
+    .map((meeting) => meeting?.room_id)
+    .filter((id): id is string => typeof id === "string");
+  return [...new Set(ids)];
+}
+
+/**
+ * Rooms must be live rooms of the offering's university.
+ */
+async function checkRooms(
+  { supabase }: RequestContext,
+  roomIds: readonly string[],
+  uniId: string
+): Promise<Halt | null> {
+  if (roomIds.length === 0) {
+    return null;
+  }
+  const { data, error } = await supabase
+    .from("room")
+    .select("id")
+    .in("id", roomIds)
+    .eq("uni_id", uniId)
+    .is("deleted_at", null);
+  if (error) {
+    throw error;
+  }
+  const found = new Set((data ?? []).map(({ id }: { id: string }) => id));
+  const missing = roomIds.filter((id) => !found.has(id));
+  return missing.length > 0
+    ? hierarchyError(
+        "schedule",
+        `Not rooms of university ${uniId}: ${missing.join(", ")}.`
+      )
+    : null;
+}
+
+/**
+ * The university of an offering in `termId`, once its department,
+ * instructors and rooms have been checked against it.
+ */
+async function offeringUniversity(
+  context: RequestContext,
+  { term_id, department_id, instructor_ids, schedule }: OfferingParents
+): Promise<string | null | Halt> {
+  const uniId = await parentUniversity(context, "term", term_id, null, true);
+  // Terms always have a university
+  if (isHalt(uniId) || uniId === null) {
+    return uniId;
+  }
+  const departmentUni = await parentUniversity(
+    context,
+    "department",
+    department_id,
+    uniId,
+    false
+  );
+  if (isHalt(departmentUni)) {
+    return departmentUni;
+  }
+  return (
+    (await checkInstructors(context, instructor_ids, uniId)) ??
+    (await checkRooms(context, scheduleRoomIds(schedule), uniId)) ??
+    uniId
+  );
+}
+
+/**
+ * `beforeInsert` for course offerings: they belong to their term's
+ * university, which must also be the department's and the instructors'.
+ */
+export async function checkOfferingParents<D extends OfferingParents>(
+  data: D,
+  context: RequestContext
+): Promise<D | Halt> {
+  const uniId = await offeringUniversity(context, data);
+  return isHalt(uniId) ? uniId : { ...data, uni_id: uniId };
+}
+
+/**
+ * `beforeUpdate` for course offerings. Changing the term, department,
+ * instructors or schedule checks the result as a whole.
+ */
+export async function checkOfferingParentChanges(
+  changes: Partial<RowOf<"course_offering">>,
+  before: RowOf<"course_offering">,
+  context: RequestContext
+): Promise<Partial<RowOf<"course_offering">> | Halt> {
+  if (
+    changes.term_id === undefined &&
+    changes.department_id === undefined &&
+    changes.instructor_ids === undefined &&
+    changes.schedule === undefined
+  ) {
+    return changes;
+  }
+  const uniId = await offeringUniversity(context, { ...before, ...changes });
+  if (isHalt(uniId)) {
+    return uniId;
+  }
+  return uniId ? { ...changes, uni_id: uniId } : changes;
+}
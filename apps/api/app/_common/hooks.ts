@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { ApiResponse } from "@edunity/helpers";
+import type { ZodType } from "zod";
+import type { CrudHandlersConfig } from "./crudFactory";
+import type { RequestContext } from "./middleware";
+import { keyColumns, type PrimaryKey } from "./primaryKey";
+import { scopeTenantWrite } from "./tenant";
+import type { RowOf, TableName } from "./types";
+
+/**
+ * Shared plumbing for the `CrudHandlersConfig` hooks, used by the single-item
+ * and the bulk handlers alike.
+ */
+
+/**
+ * A response returned by a `before*` hook to stop the request.
+ */
+export type Halt = NextResponse;
+
+export function isHalt(value: unknown): value is Halt {
+  return value instanceof NextResponse;
+}
+
+/**
+ * Runs `beforeUpdate` on the columns about to be written. What it returns is
+ * checked like the request itself: key columns are dropped and the tenant
+ * column is scoped again, so a hook cannot move the row to another
+ * university.
+ */
+export async function runBeforeUpdate<
+  T extends TableName,
+  C extends ZodType,
+  U extends ZodType,
+>(
+  config: CrudHandlersConfig<T, C, U>,
+  primaryKey: PrimaryKey,
+  changes: Record<string, unknown>,
+  before: Record<string, unknown>,
+  context: RequestContext
+): Promise<Record<string, unknown> | Halt> {
+  if (!config.beforeUpdate) {
+    return changes;
+  }
+  const result = await config.beforeUpdate(
+    changes as Partial<RowOf<T>>,
+    before as RowOf<T>,
+    context
+  );
+  if (isHalt(result)) {
+    return result;
+  }
+
+  const data: Record<string, unknown> = { ...result };
+  for (const { column } of keyColumns(primaryKey)) delete data[column];
+  const scoped = scopeTenantWrite(context.caller, config.tenantColumn, data, {
+    isCreate: false,
+  });
+  return scoped.success
+    ? scoped.data
+    : ApiResponse.error(scoped.code, scoped.message, scoped.status);
+}
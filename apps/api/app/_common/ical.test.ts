@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { ICS_CONTENT_TYPE, icsCalendar, icsResponse } from "./ical";
+
+const now = new Date("2026-10-19T08:30:15.123Z");
+
+const lecture = {
+  uid: "offering-1-0@edunity",
+  summary: "Thermodynamics, section 1",
+  location: "ENG 101",
+  date: "2026-09-07",
+  starts_at: "09:00",
+  ends_at: "10:30",
+  until: "2026-12-18",
+};
+
+describe("icsCalendar", () => {
+  it("writes weekly events with CRLF line endings", () => {
+    expect(icsCalendar("Timetable", [lecture], now)).toBe(
+      [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//Edunity//Edunity API//EN",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        "X-WR-CALNAME:Timetable",
+        "BEGIN:VEVENT",
+        "UID:offering-1-0@edunity",
+        "DTSTAMP:20261019T083015Z",
+        "DTSTART:20260907T090000",
+        "DTEND:20260907T103000",
+        "RRULE:FREQ=WEEKLY;UNTIL=20261218T235900",
+        "SUMMARY:Thermodynamics\\, section 1",
+        "LOCATION:ENG 101",
+        "END:VEVENT",
+        "END:VCALENDAR",
+        "",
+      ].join("\r\n")
+    );
+  });
+
+  it("leaves out the rule and optional fields of single events", () => {
+    const calendar = icsCalendar(
+      "Timetable",
+      [{ ...lecture, until: undefined, location: undefined }],
+      now
+    );
+    expect(calendar).not.toContain("RRULE");
+    expect(calendar).not.toContain("LOCATION");
+    expect(calendar).not.toContain("DESCRIPTION");
+  });
+
+  it("escapes text values", () => {
+    const calendar = icsCalendar(
+      "A; B",
+      [{ ...lecture, description: "Bring: notes\\calculator\nRoom, upstairs" }],
+      now
+    );
+    expect(calendar).toContain("X-WR-CALNAME:A\\; B\r\n");
+    expect(calendar).toContain(
+      "DESCRIPTION:Bring: notes\\\\calculator\\nRoom\\, upstairs\r\n"
+    );
+  });
+
+  it("folds lines longer than 75 octets", () => {
+    const summary = "x".repeat(200);
+    const lines = icsCalendar("Timetable", [{ ...lecture, summary }], now)
+      .split("\r\n")
+      .filter(Boolean);
+
+    for (const line of lines) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    const start = lines.findIndex((line) => line.startsWith("SUMMARY:"));
+    const folded = [lines[start]!];
+    for (const line of lines.slice(start + 1)) {
+      if (!line.startsWith(" ")) break;
+      folded.push(line.slice(1));
+    }
+    expect(folded.join("")).toBe(`SUMMARY:${summary}`);
+  });
+
+  it("never folds inside a multi-byte character", () => {
+    const summary = "é".repeat(100);
+    const lines = icsCalendar("Timetable", [{ ...lecture, summary }], now)
+      .split("\r\n")
+      .filter((line) => line.startsWith("SUMMARY:") || line.startsWith(" "));
+
+    for (const line of lines) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      expect(line).not.toContain("�");
+    }
+    expect(lines.map((line, i) => (i ? line.slice(1) : line)).join("")).toBe(
+      `SUMMARY:${summary}`
+    );
+  });
+});
+
+describe("icsResponse", () => {
+  it("serves the calendar inline as a .ics file", async () => {
+    const response = icsResponse("timetable", "BEGIN:VCALENDAR\r\n");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe(ICS_CONTENT_TYPE);
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'inline; filename="timetable.ics"'
+    );
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+    expect(await response.text()).toBe("BEGIN:VCALENDAR\r\n");
+  });
+});
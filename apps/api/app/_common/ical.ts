@@ -0,0 +1,120 @@
+import { NextResponse } from "next/server";
+
+/**
+ * A minimal iCalendar (RFC 5545) writer for the calendar feeds: weekly
+ * recurring events in floating local time, since the API keeps no time zones
+ * and times are local to the university.
+ */
+
+export const ICS_CONTENT_TYPE = "text/calendar; charset=utf-8";
+
+const PRODUCT_ID = "-//Edunity//Edunity API//EN";
+
+// Lines longer than this many octets are folded
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  // Local date (YYYY-MM-DD) and times (HH:MM) of the first occurrence
+  date: string;
+  starts_at: string;
+  ends_at: string;
+  // Repeats weekly until this date, inclusive; a single event when unset
+  until?: string;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Splits a content line into 75-octet chunks, continued with a leading space,
+ * without cutting a character in two.
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines spend one octet on the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = "";
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join("\r\n ");
+}
+
+function localDateTime(date: string, time: string): string {
+  return `${date.replace(/-/g, "")}T${time.replace(":", "")}00`;
+}
+
+function utcTimestamp(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+}
+
+/**
+ * The VCALENDAR text for `events`, with CRLF line endings.
+ */
+export function icsCalendar(
+  name: string,
+  events: readonly CalendarEvent[],
+  now = new Date()
+): string {
+  const stamp = utcTimestamp(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${localDateTime(event.date, event.starts_at)}`,
+      `DTEND:${localDateTime(event.date, event.ends_at)}`,
+      ...(event.until
+        ? [`RRULE:FREQ=WEEKLY;UNTIL=${localDateTime(event.until, "23:59")}`]
+        : []),
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      ...(event.description
+        ? [`DESCRIPTION:${escapeText(event.description)}`]
+        : []),
+      "END:VEVENT"
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Serves a calendar as `<filename>.ics`.
+ */
+export function icsResponse(filename: string, calendar: string): NextResponse {
+  return new NextResponse(calendar, {
+    status: 200,
+    headers: {
+      "Content-Type": ICS_CONTENT_TYPE,
+      "Content-Disposition": `inline; filename="${filename}.ics"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,141 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createInvitationHandlers } from "./invitation";
+
+const clients = vi.hoisted(() => ({
+  server: null as unknown,
+  admin: null as unknown,
+}));
+
+vi.mock("@edunity/supabase", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@edunity/supabase")>()),
+  createServerSideClient: async () => clients.server,
+  createServiceRoleClient: () => clients.admin,
+}));
+
+interface Write {
+  table: string;
+  row: Record<string, unknown>;
+  options: unknown;
+}
+
+// Answers the caller's roles and the student lookup, and records upserts
+function serverClient(student: Record<string, unknown> | null) {
+  const writes: Write[] = [];
+  const from = (table: string) => {
+    const rows: Record<string, unknown[]> = {
+      user_role: [{ role: "platform_admin", uni_id: null, collage_id: null }],
+      student: student ? [student] : [],
+    };
+    let result = { data: rows[table] ?? [], error: null };
+    const builder = {
+      select: () => builder,
+      eq: () => builder,
+      is: () => builder,
+      in: () => builder,
+      upsert: (row: Record<string, unknown>, options: unknown) => {
+        writes.push({ table, row, options });
+        result = { data: [{ id: "i1", ...row }], error: null };
+        return builder;
+      },
+      single: async () => ({ data: result.data[0], error: null }),
+      maybeSingle: async () => ({ data: result.data[0] ?? null, error: null }),
+      then: (resolve: (value: typeof result) => unknown) => resolve(result),
+    };
+    return builder;
+  };
+  const auth = {
+    getUser: async () => ({
+      data: { user: { id: "admin", email: "admin@example.com" } },
+      error: null,
+    }),
+  };
+  return { client: { from, auth }, writes };
+}
+
+const STUDENT_ID = "5f0c6a52-8d4e-4c1b-9a8e-2f6b7c3d1e90";
+
+const invitations: { email: string; options: unknown }[] = [];
+
+const { POST } = createInvitationHandlers({
+  tableName: "student",
+  resourceName: "Student",
+});
+
+function invite(body: unknown) {
+  return POST(
+    new NextRequest(`http://localhost/student/${STUDENT_ID}/invitation`, {
+      method: "POST",
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id: STUDENT_ID }) }
+  );
+}
+
+beforeEach(() => {
+  invitations.length = 0;
+  clients.admin = {
+    auth: {
+      admin: {
+        inviteUserByEmail: async (email: string, options: unknown) => {
+          invitations.push({ email, options });
+          return { error: null };
+        },
+      },
+    },
+  };
+});
+
+describe("student invitations", () => {
+  it("records the invitation against the student and sends it", async () => {
+    const { client, writes } = serverClient({
+      id: STUDENT_ID,
+      uni_id: "u1",
+      user_id: null,
+      email: "ada@example.com",
+    });
+    clients.server = client;
+
+    const response = await invite({});
+    expect(response.status).toBe(201);
+    expect(writes).toEqual([
+      {
+        table: "student_invitation",
+        row: expect.objectContaining({
+          student_id: STUDENT_ID,
+          uni_id: "u1",
+          email: "ada@example.com",
+          invited_by: "admin",
+          accepted_at: null,
+        }),
+        options: { onConflict: "student_id" },
+      },
+    ]);
+    expect(invitations).toEqual([
+      {
+        email: "ada@example.com",
+        options: { redirectTo: undefined, data: { student_id: STUDENT_ID } },
+      },
+    ]);
+    expect((await response.json()).data.emailSent).toBe(true);
+  });
+
+  it("answers 404 for an unknown student", async () => {
+    clients.server = serverClient(null).client;
+    expect((await invite({})).status).toBe(404);
+  });
+
+  it("refuses a student who already has an account", async () => {
+    const { client, writes } = serverClient({
+      id: STUDENT_ID,
+      uni_id: "u1",
+      user_id: "user-1",
+      email: "ada@example.com",
+    });
+    clients.server = client;
+
+    expect((await invite({})).status).toBe(409);
+    expect(writes).toEqual([]);
+    expect(invitations).toEqual([]);
+  });
+});
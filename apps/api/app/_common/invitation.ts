@@ -0,0 +1,258 @@
+import { NextRequest } from "next/server";
+import type { ZodType } from "zod";
+import {
+  type FacultyInvitation,
+  type InvitationResult,
+  invitationSchema,
+  type StudentInvitation,
+} from "@edunity/contracts";
+import { createServiceRoleClient } from "@edunity/supabase";
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers";
+import type { CrudHandlersConfig, ItemRouteContext } from "./crudFactory";
+import { handleRequest } from "./handleRequest";
+import { middlewareFor } from "./middleware";
+import { DEFAULT_PRIMARY_KEY, formatKey, parsePathKey } from "./primaryKey";
+import { applyTenantScope } from "./tenant";
+import type { TableClient } from "./types";
+
+/**
+ * Invitations to sign up: staff invite a faculty member or a student by
+ * email, Supabase sends them a sign-up link, and the `link_invited_user`
+ * trigger (see the people and student invitations migrations) links the
+ * account and grants the faculty or student role the first time they sign
+ * in. An invitation to an address that already has an account is picked up
+ * at that account's next sign-in instead; no email is sent. The request
+ * schema and result are shared with the SDK (see
+ * packages/contracts/invitation.ts).
+ */
+
+// How long an invitation can be accepted for
+export const INVITATION_TTL_DAYS = 14;
+
+// The people who can be invited, and where their invitations are kept
+const INVITATION_TABLES = {
+  faculty: "faculty_invitation",
+  student: "student_invitation",
+} as const;
+
+type Invitee = keyof typeof INVITATION_TABLES;
+
+interface InviteeRecord {
+  id: string;
+  uni_id: string;
+  user_id: string | null;
+  email: string | null;
+}
+
+/**
+ * Creates the `/[id]/invitation` route handlers (POST invites, DELETE
+ * revokes) for faculty or students. Anyone who may edit the record may
+ * invite them.
+ */
+export function createInvitationHandlers<T extends Invitee>(
+  config: Pick<
+    CrudHandlersConfig<T, ZodType, ZodType>,
+    "tableName" | "resourceName" | "primaryKey" | "roles" | "middleware"
+  >
+) {
+  const {
+    tableName,
+    resourceName,
+    primaryKey = DEFAULT_PRIMARY_KEY,
+    roles,
+    middleware = {},
+  } = config;
+  const invitationTable = INVITATION_TABLES[tableName];
+  const inviteeColumn = `${tableName}_id`;
+
+  // Parses the id in the path, or returns the error response
+  const inviteeId = async (route: ItemRouteContext) => {
+    const key = parsePathKey(primaryKey, (await route.params).id);
+    return key.success
+      ? formatKey(key.data)
+      : ApiResponse.error(
+          ErrorCode.BAD_REQUEST,
+          `Invalid ${resourceName} id.`,
+          HttpStatus.BAD_REQUEST,
+          key.error
+        );
+  };
+
+  // Invites the person to sign up, replacing any earlier invitation
+  const POST = async (request: NextRequest, route: ItemRouteContext) => {
+    return handleRequest(
+      request,
+      roles?.PUT,
+      async (supabase: TableClient, req, caller) => {
+        const id = await inviteeId(route);
+        if (typeof id !== "string") {
+          return id;
+        }
+        // The body is optional
+        const body = await req.json().catch(() => null);
+        const validation = invitationSchema.safeParse(body ?? {});
+        if (!validation.success) {
+          return ApiResponse.error(
+            ErrorCode.VALIDATION_ERROR,
+            "Invalid input.",
+            HttpStatus.UNPROCESSABLE_ENTITY,
+            validation.error.flatten()
+          );
+        }
+
+        const { data, error } = await applyTenantScope(
+          supabase
+            .from(tableName)
+            .select("id, uni_id, user_id, email")
+            .eq("id", id)
+            .is("deleted_at", null),
+          "uni_id",
+          caller
+        ).maybeSingle();
+        if (error) {
+          return ApiResponse.error(
+            ErrorCode.SUPABASE_QUERY_ERROR,
+            error.message,
+            HttpStatus.INTERNAL_SERVER_ERROR
+          );
+        }
+        const invitee: InviteeRecord | null = data;
+        if (!invitee) {
+          return ApiResponse.error(
+            ErrorCode.NOT_FOUND,
+            `${resourceName} with ID ${id} not found.`,
+            HttpStatus.NOT_FOUND
+          );
+        }
+        if (invitee.user_id) {
+          return ApiResponse.error(
+            ErrorCode.CONFLICT,
+            `${resourceName} ${id} already has a linked account.`,
+            HttpStatus.CONFLICT
+          );
+        }
+        const email = validation.data.email ?? invitee.email;
+        if (!email) {
+          return ApiResponse.error(
+            ErrorCode.VALIDATION_ERROR,
+            "Invalid input.",
+            HttpStatus.UNPROCESSABLE_ENTITY,
+            {
+              formErrors: [],
+              fieldErrors: {
+                email: [
+                  `Required: the ${resourceName.toLowerCase()} has no email on record.`,
+                ],
+              },
+            }
+          );
+        }
+
+        const admin = createServiceRoleClient();
+        if (!admin) {
+          return ApiResponse.error(
+            ErrorCode.SERVICE_UNAVAILABLE,
+            "Invitations are not configured.",
+            HttpStatus.SERVICE_UNAVAILABLE
+          );
+        }
+
+        const expiresAt = new Date(
+          Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000
+        );
+        const { data: invitation, error: writeError } = await supabase
+          .from(invitationTable)
+          .upsert(
+            {
+              [inviteeColumn]: invitee.id,
+              uni_id: invitee.uni_id,
+              email,
+              invited_by: caller.id,
+              expires_at: expiresAt.toISOString(),
+              accepted_at: null,
+              user_id: null,
+            },
+            { onConflict: inviteeColumn }
+          )
+          .select()
+          .single();
+        if (writeError) {
+          return ApiResponse.error(
+            ErrorCode.SUPABASE_QUERY_ERROR,
+            writeError.message,
+            HttpStatus.INTERNAL_SERVER_ERROR
+          );
+        }
+
+        // Existing accounts are linked at their next sign-in
+        const { error: sendError } = await admin.auth.admin.inviteUserByEmail(
+          email,
+          {
+            redirectTo: validation.data.redirectTo,
+            data: { [inviteeColumn]: invitee.id },
+          }
+        );
+        if (sendError && sendError.code !== "email_exists") {
+          return ApiResponse.error(
+            ErrorCode.SERVICE_UNAVAILABLE,
+            `The invitation was saved but could not be sent: ${sendError.message}`,
+            HttpStatus.SERVICE_UNAVAILABLE
+          );
+        }
+
+        return ApiResponse.success<
+          InvitationResult<FacultyInvitation | StudentInvitation>
+        >({ invitation, emailSent: !sendError }, HttpStatus.CREATED);
+      },
+      middlewareFor(middleware, "PUT")
+    );
+  };
+
+  // Revokes the person's pending invitation
+  const DELETE = async (request: NextRequest, route: ItemRouteContext) => {
+    return handleRequest(
+      request,
+      roles?.PUT,
+      async (supabase: TableClient, _, caller) => {
+        const id = await inviteeId(route);
+        if (typeof id !== "string") {
+          return id;
+        }
+
+        const { data: invitation, error } = await applyTenantScope(
+          supabase
+            .from(invitationTable)
+            .delete()
+            .eq(inviteeColumn, id)
+            .is("accepted_at", null),
+          "uni_id",
+          caller
+        )
+          .select()
+          .maybeSingle();
+        if (error) {
+          return ApiResponse.error(
+            ErrorCode.SUPABASE_QUERY_ERROR,
+            error.message,
+            HttpStatus.INTERNAL_SERVER_ERROR
+          );
+        }
+        if (!invitation) {
+          return ApiResponse.error(
+            ErrorCode.NOT_FOUND,
+            `No pending invitation for ${resourceName} with ID ${id}.`,
+            HttpStatus.NOT_FOUND
+          );
+        }
+
+        return ApiResponse.success(
+          { message: "Invitation revoked." },
+          HttpStatus.OK
+        );
+      },
+      middlewareFor(middleware, "PUT")
+    );
+  };
+
+  return { POST, DELETE };
+}
@@ -0,0 +1,24 @@
+import { NextRequest } from "next/server";
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers";
+
+/**
+ * Reads a JSON request body. `ok` is false when the body is not JSON, which
+ * routes answer with `invalidJsonResponse()`.
+ */
+export async function readJson(
+  req: NextRequest
+): Promise<{ ok: boolean; body?: unknown }> {
+  try {
+    return { ok: true, body: await req.json() };
+  } catch {
+    return { ok: false };
+  }
+}
+
+export function invalidJsonResponse() {
+  return ApiResponse.error(
+    ErrorCode.BAD_REQUEST,
+    "Invalid JSON format in request body.",
+    HttpStatus.BAD_REQUEST
+  );
+}
@@ -0,0 +1,115 @@
+import { z } from "zod";
+import {
+  defineMetadataSchemas,
+  METADATA_VERSION_KEY,
+  metadataJsonSchema,
+  universityMetadata,
+  upgradeMetadata,
+} from "@edunity/contracts";
+import { describe, expect, it } from "vitest";
+import { upgradeStoredMetadata } from "./metadata";
+
+// v1 stores a phone number; v2 a list of them
+const schemas = defineMetadataSchemas("thing", [
+  { schema: z.strictObject({ phone: z.string().optional() }) },
+  {
+    schema: z.strictObject({ phones: z.array(z.string()).optional() }),
+    migrate: ({ phone, ...rest }) => ({
+      ...rest,
+      ...(typeof phone === "string" && { phones: [phone] }),
+    }),
+  },
+]);
+
+describe("writeSchema", () => {
+  it("stamps current metadata with its version", () => {
+    expect(schemas.writeSchema.parse({ phones: ["1"] })).toEqual({
+      phones: ["1"],
+      [METADATA_VERSION_KEY]: 2,
+    });
+  });
+
+  it("migrates metadata written in an older version", () => {
+    expect(
+      schemas.writeSchema.parse({ phone: "1", [METADATA_VERSION_KEY]: 1 })
+    ).toEqual({ phones: ["1"], [METADATA_VERSION_KEY]: 2 });
+  });
+
+  it("validates against the current version", () => {
+    const result = schemas.writeSchema.safeParse({ phone: "1" });
+    expect(result.success).toBe(false);
+  });
+
+  it.each([0, 3, 1.5, "2"])("rejects schema version %o", (version) => {
+    const result = schemas.writeSchema.safeParse({
+      [METADATA_VERSION_KEY]: version,
+    });
+    expect(result.error?.issues).toEqual([
+      expect.objectContaining({
+        message: "Unknown metadata schema version; the current one is 2.",
+        path: [METADATA_VERSION_KEY],
+      }),
+    ]);
+  });
+
+  it("rejects anything but an object", () => {
+    const result = schemas.writeSchema.safeParse(["phone"]);
+    expect(result.error?.issues[0]?.message).toBe("Expected an object.");
+  });
+});
+
+describe("upgradeMetadata", () => {
+  it("reads documents without a version as version 1", () => {
+    expect(upgradeMetadata(schemas, { phone: "1" })).toEqual({
+      phones: ["1"],
+      [METADATA_VERSION_KEY]: 2,
+    });
+  });
+
+  it("returns current and unknown documents untouched", () => {
+    const current = { phones: ["1"], [METADATA_VERSION_KEY]: 2 };
+    const unknown = { phone: "1", [METADATA_VERSION_KEY]: 7 };
+    expect(upgradeMetadata(schemas, current)).toBe(current);
+    expect(upgradeMetadata(schemas, unknown)).toBe(unknown);
+    expect(upgradeMetadata(schemas, null)).toBeNull();
+  });
+
+  it("upgrades stored university metadata", () => {
+    expect(
+      upgradeMetadata(universityMetadata, {
+        address: "1 Main St",
+        accreditation: "NAAC",
+        [METADATA_VERSION_KEY]: 1,
+      })
+    ).toEqual({
+      address: { line1: "1 Main St" },
+      accreditations: [{ body: "NAAC" }],
+      [METADATA_VERSION_KEY]: 2,
+    });
+  });
+});
+
+describe("upgradeStoredMetadata", () => {
+  it("upgrades the metadata of every row read", async () => {
+    const rows = await upgradeStoredMetadata(schemas)([
+      { id: "a", metadata: { phone: "1" } },
+      { id: "b", metadata: null },
+      { id: "c" },
+    ]);
+    expect(rows).toEqual([
+      { id: "a", metadata: { phones: ["1"], [METADATA_VERSION_KEY]: 2 } },
+      { id: "b", metadata: null },
+      { id: "c" },
+    ]);
+  });
+});
+
+describe("metadataJsonSchema", () => {
+  it("describes the input of a version", () => {
+    expect(metadataJsonSchema(schemas, 1)).toEqual({
+      type: "object",
+      properties: { phone: { type: "string" } },
+      additionalProperties: false,
+    });
+  });
+});
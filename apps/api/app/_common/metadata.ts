@@ -0,0 +1,18 @@
+import { type MetadataSchemas, upgradeMetadata } from "@edunity/contracts";
+
+/**
+ * Reading versioned `metadata` (the schemas themselves are shared with the
+ * SDK, see packages/contracts/metadata.ts).
+ */
+
+/**
+ * An `afterGet` hook that upgrades the `metadata` of every row read.
+ */
+export function upgradeStoredMetadata(schemas: MetadataSchemas) {
+  return async <R>(rows: R[]): Promise<R[]> =>
+    rows.map((row) =>
+      typeof row === "object" && row !== null && "metadata" in row
+        ? { ...row, metadata: upgradeMetadata(schemas, row.metadata) }
+        : row
+    );
+}
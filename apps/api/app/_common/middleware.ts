@@ -0,0 +1,170 @@
+import type { NextRequest, NextResponse } from "next/server";
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers";
+import { type Caller, hasRole, type Role } from "./auth";
+import type { CrudMethod } from "./crudFactory";
+import type { ServerClient } from "./types";
+
+/**
+ * Per-route middleware. Each one runs after the caller is authenticated and
+ * before the route handler, Koa-style: it calls `next()` to continue (and can
+ * then inspect or decorate the response), or returns its own `ApiResponse` to
+ * short-circuit the request.
+ */
+
+/**
+ * What `handleRequest` knows about a request; handed to middleware and to the
+ * CRUD hooks.
+ */
+export interface RequestContext {
+  supabase: ServerClient;
+  caller: Caller;
+  request: NextRequest;
+  requestId: string;
+}
+
+export type Middleware = (
+  context: RequestContext,
+  next: () => Promise<NextResponse>
+) => Promise<NextResponse>;
+
+/**
+ * Middleware per method, as set on a `CrudHandlersConfig`. `ALL` runs first,
+ * on every route of the resource.
+ */
+export type MiddlewareConfig = Partial<
+  Record<CrudMethod | "ALL", readonly Middleware[]>
+>;
+
+/**
+ * Runs `middleware` in order around `handler`.
+ */
+export function runMiddleware(
+  middleware: readonly Middleware[],
+  context: RequestContext,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const dispatch = (index: number): Promise<NextResponse> => {
+    const current = middleware[index];
+    return current ? current(context, () => dispatch(index + 1)) : handler();
+  };
+  return dispatch(0);
+}
+
+/**
+ * The middleware of one method. Like roles, PATCH falls back to the PUT
+ * middleware.
+ */
+export function middlewareFor(
+  config: MiddlewareConfig,
+  method: CrudMethod
+): readonly Middleware[] {
+  const own =
+    config[method] ?? (method === "PATCH" ? config.PUT : undefined) ?? [];
+  return [...(config.ALL ?? []), ...own];
+}
+
+/**
+ * Requires one of `roles`, on top of the route's own role check.
+ */
+export function requireRoles(roles: readonly Role[]): Middleware {
+  return async ({ caller }, next) => {
+    if (!hasRole(caller, roles)) {
+      return ApiResponse.error(
+        ErrorCode.FORBIDDEN,
+        "You do not have permission to perform this action.",
+        HttpStatus.FORBIDDEN,
+        { requiredRoles: roles }
+      );
+    }
+    return next();
+  };
+}
+
+export interface RateLimitOptions {
+  // Requests allowed per window and key
+  limit: number;
+  windowMs: number;
+  // What requests are counted by; defaults to the caller
+  key?: (context: RequestContext) => string;
+}
+
+/**
+ * Fixed-window rate limiting. Counters live in memory, so each server
+ * instance enforces the limit on its own.
+ */
+export function rateLimit({
+  limit,
+  windowMs,
+  key = ({ caller }) => caller.id,
+}: RateLimitOptions): Middleware {
+  const windows = new Map<string, { resetAt: number; count: number }>();
+
+  return async (context, next) => {
+    const now = Date.now();
+    const id = key(context);
+    let window = windows.get(id);
+    if (!window || window.resetAt <= now) {
+      // Drop expired windows as new ones open, so the map stays small
+      for (const [other, { resetAt }] of windows) {
+        if (resetAt <= now) windows.delete(other);
+      }
+      window = { resetAt: now + windowMs, count: 0 };
+      windows.set(id, window);
+    }
+    window.count += 1;
+
+    const retryAfter = Math.ceil((window.resetAt - now) / 1000);
+    if (window.count > limit) {
+      const response = ApiResponse.error(
+        ErrorCode.RATE_LIMITED,
+        "Too many requests, try again later.",
+        HttpStatus.TOO_MANY_REQUESTS,
+        { retryAfter }
+      );
+      response.headers.set("Retry-After", String(retryAfter));
+      return response;
+    }
+
+    const response = await next();
+    response.headers.set("RateLimit-Limit", String(limit));
+    response.headers.set("RateLimit-Remaining", String(limit - window.count));
+    response.headers.set("RateLimit-Reset", String(retryAfter));
+    return response;
+  };
+}
+
+/**
+ * Logs each request's method, path, status and duration.
+ */
+export function logRequests(
+  log: (message: string) => void = console.info
+): Middleware {
+  return async ({ request, caller, requestId }, next) => {
+    const started = performance.now();
+    const response = await next();
+    const duration = Math.round(performance.now() - started);
+    log(
+      `[API] ${request.method} ${request.nextUrl.pathname} ${response.status} ${duration}ms (request ${requestId}, user ${caller.id})`
+    );
+    return response;
+  };
+}
+
+/**
+ * Lets clients cache successful GET responses for `maxAge` seconds. Responses
+ * depend on the caller, so only private caches may keep them.
+ */
+export function cacheControl({ maxAge }: { maxAge: number }): Middleware {
+  return async ({ request }, next) => {
+    const response = await next();
+    if (
+      request.method === "GET" &&
+      response.status === HttpStatus.OK &&
+      !response.headers.has("Cache-Control")
+    ) {
+      response.headers.set("Cache-Control", `private, max-age=${maxAge}`);
+      response.headers.append("Vary", "Authorization, Cookie");
+    }
+    return response;
+  };
+}
@@ -0,0 +1,37 @@
+import { NextRequest, type NextResponse } from "next/server";
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers";
+import type { ItemRouteContext } from "./crudFactory";
+import {
+  DEFAULT_PRIMARY_KEY,
+  formatKey,
+  type KeyColumn,
+  parsePathKey,
+} from "./primaryKey";
+
+/**
+ * Creates a list route for the children of one record, e.g.
+ * `/term/[id]/offerings`: the child resource's collection GET with
+ * `?<column>=eq.<id>` fixed, so filters, sorting, includes, pagination and
+ * exports work as on the collection route. `column` must be one of the
+ * child's filterable columns. An unknown parent lists nothing.
+ */
+export function childListRoute(
+  list: (request: NextRequest) => Promise<NextResponse>,
+  column: string,
+  parentKey: KeyColumn = DEFAULT_PRIMARY_KEY
+) {
+  return async (request: NextRequest, route: ItemRouteContext) => {
+    const key = parsePathKey(parentKey, (await route.params).id);
+    if (!key.success) {
+      return ApiResponse.error(
+        ErrorCode.BAD_REQUEST,
+        "Invalid id.",
+        HttpStatus.BAD_REQUEST,
+        key.error
+      );
+    }
+    const url = request.nextUrl.clone();
+    url.searchParams.set(column, `eq.${formatKey(key.data)}`);
+    return list(new NextRequest(url, request));
+  };
+}
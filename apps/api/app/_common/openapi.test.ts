@@ -0,0 +1,131 @@
+import { z } from "zod";
+import { describe, expect, it } from "vitest";
+import { GET } from "../openapi.json/route";
+import { buildOpenApiDocument, type DocumentedResource } from "./openapi";
+
+const term: DocumentedResource = {
+  path: "/term",
+  config: {
+    resourceName: "Term",
+    createSchema: z.object({ name: z.string() }),
+    updateSchema: z.object({ id: z.string(), name: z.string().optional() }),
+    columns: ["id", "name", "academic_year_id"],
+  },
+  childLists: [
+    { path: "/academic-year/{id}/terms", column: "academic_year_id" },
+  ],
+};
+
+const info = { title: "Test", version: "1" };
+
+describe("buildOpenApiDocument", () => {
+  it("lists a parent's records without the filter the route fixes", () => {
+    const { paths } = buildOpenApiDocument([term], info);
+    const list = paths["/academic-year/{id}/terms"] as {
+      parameters: { name: string; in: string }[];
+      get: { parameters: { name: string }[] };
+    };
+    expect(list.parameters).toEqual([
+      expect.objectContaining({ name: "id", in: "path", required: true }),
+    ]);
+    const names = list.get.parameters.map(({ name }) => name);
+    expect(names).toContain("name");
+    expect(names).not.toContain("academic_year_id");
+  });
+
+  it("documents routes written by hand from their schemas", () => {
+    const { paths, tags } = buildOpenApiDocument([term], info, [
+      {
+        path: "/term/{id}/report",
+        key: { column: "id", type: "uuid" },
+        post: {
+          tag: "Reports",
+          summary: "Report on a term",
+          roles: ["university_admin"],
+          query: z.object({ depth: z.number().optional(), q: z.string() }),
+          body: z.object({ title: z.string() }),
+          responses: {
+            "201": {
+              description: "The report.",
+              data: z.object({ id: z.string() }),
+            },
+            "404": "No such Term.",
+          },
+        },
+      },
+    ]);
+    const { post } = paths["/term/{id}/report"] as {
+      post: Record<string, never>;
+    };
+    expect(post).toMatchObject({
+      tags: ["Reports"],
+      description: "Requires one of the roles: university_admin.",
+      parameters: [
+        { name: "depth", in: "query", required: false },
+        { name: "q", in: "query", required: true },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: { properties: { title: { type: "string" } } },
+          },
+        },
+      },
+      responses: {
+        "201": {
+          content: {
+            "application/json": {
+              schema: { properties: { data: { properties: { id: {} } } } },
+            },
+          },
+        },
+        "404": { description: "No such Term." },
+        "401": expect.anything(),
+      },
+    });
+    expect(tags).toEqual([{ name: "Term" }, { name: "Reports" }]);
+  });
+
+  it("lets a route written by hand replace a generated operation", () => {
+    const { paths } = buildOpenApiDocument([term], info, [
+      {
+        path: "/term",
+        post: { tag: "Term", summary: "Open a term", responses: {} },
+      },
+    ]);
+    const collection = paths["/term"] as Record<string, { summary: string }>;
+    expect(collection.post?.summary).toBe("Open a term");
+    expect(collection.get?.summary).toBe("List Term records");
+  });
+});
+
+describe("GET /openapi.json", () => {
+  it("documents the routes outside the resource factory", async () => {
+    const { paths } = await GET().json();
+    expect(Object.keys(paths)).toEqual(
+      expect.arrayContaining([
+        "/import",
+        "/metadata",
+        "/metadata/{resource}",
+        "/search",
+        "/university/{id}/tree",
+        "/scheduler/check",
+        "/scheduler/conflicts",
+        "/student/{id}/schedule",
+        "/student/{id}/calendar.ics",
+        "/faculty/{id}/calendar.ics",
+        "/room/{id}/calendar.ics",
+        "/student/{id}/invitation",
+        "/faculty/{id}/invitation",
+        "/term/{id}/offerings",
+        "/department/{id}/offerings",
+        "/building/{id}/rooms",
+        "/course/{id}/requisites",
+        "/offering/{id}/enrollments",
+      ])
+    );
+    expect(paths["/enrollment"].post.summary).toMatch(/^Enroll/);
+    expect(paths["/enrollment/{id}"].delete.summary).toMatch(/^Drop/);
+  });
+});
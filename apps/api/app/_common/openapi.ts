@@ -0,0 +1,818 @@
+import { z, type ZodType } from "zod";
+import { ErrorCode } from "@edunity/helpers";
+import type { Role } from "./auth";
+import { bulkDeleteSchema, bulkWriteSchema, MAX_BULK_ITEMS } from "./bulk";
+import type { CrudMethod } from "./crudFactory";
+import { EXPORT_CONTENT_TYPES, EXPORT_FORMATS } from "./export";
+import { DEFAULT_LIMIT, MAX_LIMIT } from "./pagination";
+import { JSON_PATCH_CONTENT_TYPE, MERGE_PATCH_CONTENT_TYPE } from "./patch";
+import {
+  DEFAULT_PRIMARY_KEY,
+  type KeyColumn,
+  keyColumns,
+  type KeyType,
+  type PrimaryKey,
+} from "./primaryKey";
+import { FILTER_OPERATORS } from "./query";
+
+/**
+ * Builds an OpenAPI 3.1 document from the `createCrudHandlers` configs: one
+ * set of paths per resource, request bodies from its Zod schemas and
+ * responses in the `ApiResponse` envelope. Routes written by hand are
+ * described with `DocumentedPath`s, from the Zod schemas they validate with.
+ */
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * The parts of a `createCrudHandlers` config the document is built from.
+ */
+export interface DocumentedConfig {
+  resourceName: string;
+  createSchema: ZodType;
+  updateSchema: ZodType;
+  columns?: readonly string[];
+  includes?: readonly string[];
+  roles?: Partial<Record<CrudMethod, readonly Role[]>>;
+  softDelete?: boolean;
+  versionColumn?: string;
+  primaryKey?: PrimaryKey;
+}
+
+export type DocumentedRoute = "collection" | "item" | "restore" | "bulk";
+
+/**
+ * A list of the records under another, e.g. `/term/{id}/offerings` (see
+ * ./nested.ts).
+ */
+export interface DocumentedChildList {
+  path: string;
+  // The filter fixed to the id in the path
+  column: string;
+  parentKey?: KeyColumn;
+}
+
+export interface DocumentedResource {
+  // Path of the collection route, e.g. `/university`
+  path: string;
+  config: DocumentedConfig;
+  // Which of the factory's routes are mounted; all of them by default
+  routes?: readonly DocumentedRoute[];
+  // Leaves out the write operations of mounted routes
+  readOnly?: boolean;
+  childLists?: readonly DocumentedChildList[];
+}
+
+/**
+ * A response of a route written by hand. Failures (4xx and 5xx) are in the
+ * `ApiResponse` error envelope; 401, 403 and 500 are added to every route.
+ */
+export interface DocumentedResponse {
+  description: string;
+  // The `data` of the success envelope
+  data?: ZodType | JsonObject;
+  // Content other than the JSON envelope, e.g. a file
+  content?: Record<string, JsonObject>;
+}
+
+export interface DocumentedOperation {
+  tag: string;
+  summary: string;
+  // Follows the roles in the description
+  description?: string;
+  roles?: readonly Role[];
+  // An object schema; each property is a query parameter
+  query?: ZodType;
+  // A JSON body; `requestContent` describes any other kind
+  body?: ZodType;
+  requestContent?: Record<string, JsonObject>;
+  optionalBody?: boolean;
+  // Failures may be given by their description alone
+  responses: Record<string, DocumentedResponse | string>;
+}
+
+/**
+ * A route written by hand rather than by `createCrudHandlers`. When the path
+ * matches a resource route, its operations replace the generated ones.
+ */
+export interface DocumentedPath {
+  path: string;
+  // The record named by `{id}` in the path
+  key?: PrimaryKey;
+  // An object schema of any other path parameters
+  params?: ZodType;
+  get?: DocumentedOperation;
+  post?: DocumentedOperation;
+  put?: DocumentedOperation;
+  delete?: DocumentedOperation;
+}
+
+// A schema in the document's components, e.g. a resource's row
+export const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+function toJsonSchema(
+  schema: ZodType,
+  io: "input" | "output" = "input"
+): JsonObject {
+  const jsonSchema: JsonObject = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: "any",
+  });
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+function schemaName(resourceName: string) {
+  return resourceName.replace(/(?:^|\s+)(\w)/g, (_, c: string) =>
+    c.toUpperCase()
+  );
+}
+
+function envelope(data: JsonObject, pagination?: JsonObject): JsonObject {
+  return {
+    type: "object",
+    required: ["success", "data"],
+    properties: {
+      success: { const: true },
+      data,
+      ...(pagination ? { pagination } : {}),
+    },
+  };
+}
+
+function jsonContent(schema: JsonObject) {
+  return { "application/json": { schema } };
+}
+
+const failure = (description: string) => ({
+  description,
+  content: jsonContent(ref("FailureResponse")),
+});
+
+function describeRoles(roles: readonly Role[] | undefined) {
+  return roles
+    ? `Requires one of the roles: ${roles.join(", ")}.`
+    : "Open to any signed-in user.";
+}
+
+const COMMON_RESPONSES = {
+  "401": failure("Missing or invalid access token."),
+  "403": failure("The caller lacks a required role or university."),
+  "500": failure("Unexpected server or database error."),
+};
+
+function parameter(
+  name: string,
+  location: "query" | "path" | "header",
+  schema: JsonObject,
+  description: string,
+  required = false
+) {
+  return { name, in: location, required, description, schema };
+}
+
+function selectionParameters(config: DocumentedConfig) {
+  const { columns = [], includes = [] } = config;
+  return [
+    parameter(
+      "fields",
+      "query",
+      { type: "string" },
+      `Comma-separated columns to return: ${columns.join(", ")}.`
+    ),
+    ...(includes.length > 0
+      ? [
+          parameter(
+            "include",
+            "query",
+            { type: "string" },
+            `Comma-separated related records to embed: ${includes.join(", ")}.`
+          ),
+        ]
+      : []),
+    ...(config.softDelete
+      ? [
+          parameter(
+            "includeDeleted",
+            "query",
+            { enum: ["true", "false", "only"] },
+            "Show deleted records too (`true`) or only them (`only`)."
+          ),
+        ]
+      : []),
+  ];
+}
+
+// `fixed` is a filter set by the route itself
+function listParameters(config: DocumentedConfig, fixed?: string) {
+  const columns = (config.columns ?? []).filter((column) => column !== fixed);
+  return [
+    parameter("page", "query", { type: "integer", minimum: 1 }, "Page number."),
+    parameter(
+      "pageSize",
+      "query",
+      { type: "integer", minimum: 1 },
+      "Rows per page."
+    ),
+    parameter(
+      "cursor",
+      "query",
+      { type: "string" },
+      "Opaque cursor from a previous page; switches to keyset pagination."
+    ),
+    parameter(
+      "limit",
+      "query",
+      {
+        type: "integer",
+        minimum: 1,
+        maximum: MAX_LIMIT,
+        default: DEFAULT_LIMIT,
+      },
+      "Rows per page in keyset pagination."
+    ),
+    parameter(
+      "count",
+      "query",
+      { enum: ["exact", "none"] },
+      "Whether keyset pages report the total."
+    ),
+    parameter(
+      "sort",
+      "query",
+      { type: "string" },
+      "Comma-separated columns, `-` prefixed for descending."
+    ),
+    parameter(
+      "format",
+      "query",
+      { enum: [...EXPORT_FORMATS] },
+      "Export every matching row as a file instead of a page."
+    ),
+    ...selectionParameters(config),
+    ...columns.map((column) =>
+      parameter(
+        column,
+        "query",
+        { type: "string" },
+        `Filter as \`op.value\`, where op is one of ${FILTER_OPERATORS.join(", ")}.`
+      )
+    ),
+  ];
+}
+
+const ifMatch = parameter(
+  "If-Match",
+  "header",
+  { type: "string" },
+  "The ETag of the record as last read.",
+  true
+);
+
+const KEY_SCHEMAS: Record<KeyType, JsonObject> = {
+  uuid: { type: "string", format: "uuid" },
+  integer: { type: "integer" },
+  text: { type: "string" },
+};
+
+function idParameter(primaryKey: PrimaryKey) {
+  const columns = keyColumns(primaryKey);
+  const [only] = columns;
+  return columns.length === 1 && only
+    ? parameter("id", "path", KEY_SCHEMAS[only.type], "Record id.", true)
+    : parameter(
+        "id",
+        "path",
+        { type: "string" },
+        `Record key: ${columns.map(({ column }) => column).join(", ")}, comma-separated.`,
+        true
+      );
+}
+
+function keyBody(primaryKey: PrimaryKey): JsonObject {
+  const columns = keyColumns(primaryKey);
+  return {
+    type: "object",
+    required: columns.map(({ column }) => column),
+    properties: Object.fromEntries(
+      columns.map(({ column, type }) => [column, KEY_SCHEMAS[type]])
+    ),
+  };
+}
+
+function resourcePaths(resource: DocumentedResource) {
+  const {
+    path,
+    config,
+    routes = ["collection", "item", "restore", "bulk"],
+    readOnly,
+    childLists = [],
+  } = resource;
+  const {
+    resourceName,
+    roles = {},
+    versionColumn,
+    primaryKey = DEFAULT_PRIMARY_KEY,
+  } = config;
+  const name = schemaName(resourceName);
+  const tags = [resourceName];
+  const row = ref(name);
+  const writes = !readOnly;
+  const preconditions = versionColumn ? [ifMatch] : [];
+  const preconditionResponses = versionColumn
+    ? {
+        "409": failure("The record changed since it was read."),
+        "428": failure("The If-Match header is missing."),
+      }
+    : {};
+  const etagHeader = versionColumn
+    ? { ETag: { schema: { type: "string" }, description: "Record version." } }
+    : undefined;
+  const single = (description: string) => ({
+    description,
+    headers: etagHeader,
+    content: jsonContent(envelope(row)),
+  });
+
+  // PUT and DELETE are mounted on the collection route, naming the record
+  // in the body, and on the item route
+  const update = (onCollection: boolean) => ({
+    tags,
+    summary: `Update a ${resourceName}`,
+    description: describeRoles(roles.PUT),
+    parameters: preconditions,
+    requestBody: {
+      required: true,
+      content: jsonContent(ref(`${name}Update`)),
+    },
+    responses: {
+      "200": single(`The updated ${resourceName}.`),
+      "400": failure(
+        onCollection
+          ? "Invalid id, or no fields to update."
+          : "Invalid id, an id in the body that differs, or no fields to update."
+      ),
+      "404": failure(`No such ${resourceName}.`),
+      "422": failure("Invalid input."),
+      ...preconditionResponses,
+      ...COMMON_RESPONSES,
+    },
+  });
+  const remove = (onCollection: boolean) => ({
+    tags,
+    summary: `Delete a ${resourceName}`,
+    description: describeRoles(roles.DELETE),
+    parameters: preconditions,
+    ...(onCollection && {
+      requestBody: {
+        required: true,
+        content: jsonContent(keyBody(primaryKey)),
+      },
+    }),
+    responses: {
+      "200": {
+        description: `The ${resourceName} was deleted.`,
+        content: jsonContent(
+          envelope({
+            type: "object",
+            properties: { message: { type: "string" } },
+          })
+        ),
+      },
+      "400": failure("Invalid id."),
+      "404": failure(`No such ${resourceName}.`),
+      ...preconditionResponses,
+      ...COMMON_RESPONSES,
+    },
+  });
+
+  const paths: Record<string, JsonObject> = {};
+
+  const list = (summary: string, fixed?: string) => ({
+    tags,
+    summary,
+    description: describeRoles(roles.GET),
+    parameters: listParameters(config, fixed),
+    responses: {
+      "200": {
+        description: `A page of ${resourceName} records, or an export file with \`?format=\`.`,
+        content: {
+          ...jsonContent(
+            envelope({ type: "array", items: row }, ref("Pagination"))
+          ),
+          ...Object.fromEntries(
+            Object.values(EXPORT_CONTENT_TYPES).map((type) => [
+              type.split(";")[0],
+              { schema: { type: "string", format: "binary" } },
+            ])
+          ),
+        },
+      },
+      ...(fixed && { "400": failure("Invalid id.") }),
+      "422": failure("Invalid query parameters."),
+      ...COMMON_RESPONSES,
+    },
+  });
+
+  if (routes.includes("collection")) {
+    paths[path] = {
+      get: list(`List ${resourceName} records`),
+      ...(writes && {
+        post: {
+          tags,
+          summary: `Create a ${resourceName}`,
+          description: describeRoles(roles.POST),
+          requestBody: {
+            required: true,
+            content: jsonContent(ref(`${name}Create`)),
+          },
+          responses: {
+            "201": single(`The created ${resourceName}.`),
+            "400": failure("The body is not a JSON object."),
+            "409": failure(`The ${resourceName} already exists.`),
+            "422": failure("Invalid input."),
+            ...COMMON_RESPONSES,
+          },
+        },
+        put: update(true),
+        delete: remove(true),
+      }),
+    };
+  }
+
+  if (routes.includes("item")) {
+    paths[`${path}/{id}`] = {
+      parameters: [idParameter(primaryKey)],
+      get: {
+        tags,
+        summary: `Get a ${resourceName}`,
+        description: describeRoles(roles.GET),
+        parameters: [
+          ...selectionParameters(config),
+          ...(versionColumn
+            ? [
+                parameter(
+                  "If-None-Match",
+                  "header",
+                  { type: "string" },
+                  "The ETag of a cached copy."
+                ),
+              ]
+            : []),
+        ],
+        responses: {
+          "200": single(`The ${resourceName}.`),
+          ...(versionColumn && {
+            "304": { description: "The cached copy is current." },
+          }),
+          "404": failure(`No such ${resourceName}.`),
+          "422": failure("Invalid query parameters."),
+          ...COMMON_RESPONSES,
+        },
+      },
+      ...(writes && {
+        put: update(false),
+        delete: remove(false),
+        patch: {
+          tags,
+          summary: `Patch a ${resourceName}`,
+          description: `${describeRoles(roles.PATCH ?? roles.PUT)} Send an RFC 7396 merge patch, or RFC 6902 operations as \`${JSON_PATCH_CONTENT_TYPE}\`.`,
+          parameters: preconditions,
+          requestBody: {
+            required: true,
+            content: {
+              [MERGE_PATCH_CONTENT_TYPE]: { schema: { type: "object" } },
+              [JSON_PATCH_CONTENT_TYPE]: { schema: ref("JsonPatch") },
+            },
+          },
+          responses: {
+            "200": single(`The patched ${resourceName}.`),
+            "400": failure("Invalid id, or the patch could not be applied."),
+            "404": failure(`No such ${resourceName}.`),
+            "422": failure("The patched record is invalid."),
+            ...preconditionResponses,
+            ...COMMON_RESPONSES,
+          },
+        },
+      }),
+    };
+  }
+
+  if (routes.includes("restore") && config.softDelete && writes) {
+    paths[`${path}/{id}/restore`] = {
+      parameters: [idParameter(primaryKey)],
+      post: {
+        tags,
+        summary: `Restore a deleted ${resourceName}`,
+        description: describeRoles(roles.DELETE),
+        responses: {
+          "200": single(`The restored ${resourceName}.`),
+          "404": failure(`No deleted ${resourceName} with this id.`),
+          "409": failure("Its parent is still deleted."),
+          ...COMMON_RESPONSES,
+        },
+      },
+    };
+  }
+
+  if (routes.includes("bulk") && writes) {
+    const batch = (
+      summary: string,
+      roleList: readonly Role[] | undefined,
+      note = ""
+    ) => ({
+      tags,
+      summary,
+      description: `${describeRoles(roleList)} At most ${MAX_BULK_ITEMS} items; with \`atomic: true\` the batch is all-or-nothing.${note}`,
+      responses: {
+        "200": {
+          description: "Every item succeeded (201 for creates).",
+          content: jsonContent(envelope(ref("BulkResult"))),
+        },
+        "207": {
+          description: "Some items failed; see each item's status.",
+          content: jsonContent(envelope(ref("BulkResult"))),
+        },
+        "422": failure("Invalid batch."),
+        ...COMMON_RESPONSES,
+      },
+    });
+    const versionNote = versionColumn
+      ? ` Each item names the \`${versionColumn}\` its record was read at, or the record's ETag as \`etag\`; records changed since then fail with 412.`
+      : "";
+    paths[`${path}/bulk`] = {
+      post: {
+        ...batch(`Create ${resourceName} records in bulk`, roles.POST),
+        requestBody: {
+          required: true,
+          content: jsonContent(bulkItems(ref(`${name}Create`))),
+        },
+      },
+      put: {
+        ...batch(
+          `Update ${resourceName} records in bulk`,
+          roles.PUT,
+          versionNote
+        ),
+        requestBody: {
+          required: true,
+          content: jsonContent(bulkItems(ref(`${name}Update`))),
+        },
+      },
+      delete: {
+        ...batch(
+          `Delete ${resourceName} records in bulk`,
+          roles.DELETE,
+          versionNote
+        ),
+        requestBody: {
+          required: true,
+          content: jsonContent(toJsonSchema(bulkDeleteSchema)),
+        },
+      },
+    };
+  }
+
+  for (const { path: listPath, column, parentKey } of childLists) {
+    paths[listPath] = {
+      parameters: [idParameter(parentKey ?? DEFAULT_PRIMARY_KEY)],
+      get: list(`List ${resourceName} records by ${column}`, column),
+    };
+  }
+
+  return paths;
+}
+
+function bulkItems(item: JsonObject): JsonObject {
+  const schema = toJsonSchema(bulkWriteSchema);
+  const properties = schema.properties as JsonObject;
+  return {
+    ...schema,
+    properties: {
+      ...properties,
+      items: { ...(properties.items as JsonObject), items: item },
+    },
+  };
+}
+
+function resourceSchemas({ config, readOnly }: DocumentedResource) {
+  const name = schemaName(config.resourceName);
+  return {
+    [name]: {
+      type: "object",
+      properties: Object.fromEntries(
+        (config.columns ?? []).map((column) => [column, {}])
+      ),
+    },
+    ...(!readOnly && {
+      [`${name}Create`]: toJsonSchema(config.createSchema),
+      [`${name}Update`]: toJsonSchema(config.updateSchema),
+    }),
+  };
+}
+
+const SHARED_SCHEMAS = {
+  ErrorCode: { type: "string", enum: Object.values(ErrorCode) },
+  FailureResponse: {
+    type: "object",
+    required: ["success", "error"],
+    properties: {
+      success: { const: false },
+      error: {
+        type: "object",
+        required: ["code", "message", "details"],
+        properties: {
+          code: ref("ErrorCode"),
+          message: { type: "string" },
+          details: {},
+        },
+      },
+    },
+  },
+  Pagination: {
+    oneOf: [
+      {
+        type: "object",
+        required: ["page", "pageSize", "total", "totalPages"],
+        properties: {
+          page: { type: "integer" },
+          pageSize: { type: "integer" },
+          total: { type: "integer" },
+          totalPages: { type: "integer" },
+        },
+      },
+      {
+        type: "object",
+        required: ["limit", "nextCursor", "prevCursor"],
+        properties: {
+          limit: { type: "integer" },
+          nextCursor: { type: ["string", "null"] },
+          prevCursor: { type: ["string", "null"] },
+          total: { type: "integer" },
+        },
+      },
+    ],
+  },
+  JsonPatch: {
+    type: "array",
+    items: {
+      type: "object",
+      required: ["op", "path"],
+      properties: {
+        op: {
+          enum: ["add", "remove", "replace", "move", "copy", "test"],
+        },
+        path: { type: "string" },
+        from: { type: "string" },
+        value: {},
+      },
+    },
+  },
+  BulkResult: {
+    type: "object",
+    properties: {
+      summary: {
+        type: "object",
+        properties: {
+          total: { type: "integer" },
+          succeeded: { type: "integer" },
+          failed: { type: "integer" },
+        },
+      },
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["index", "status"],
+          properties: {
+            index: { type: "integer" },
+            status: { type: "string" },
+            id: {},
+            data: {},
+            error: {},
+          },
+        },
+      },
+    },
+  },
+};
+
+// Query or path parameters from an object schema's properties
+function objectParameters(schema: ZodType, location: "query" | "path") {
+  const { properties = {}, required = [] } = toJsonSchema(schema) as {
+    properties?: Record<string, JsonObject>;
+    required?: string[];
+  };
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === "path" || required.includes(name),
+    schema: property,
+  }));
+}
+
+function documentedResponse(
+  status: string,
+  response: DocumentedResponse | string
+) {
+  if (typeof response === "string") {
+    return Number(status) >= 400
+      ? failure(response)
+      : { description: response };
+  }
+  const { description, data, content } = response;
+  return {
+    description,
+    ...(data && {
+      content: jsonContent(
+        envelope(
+          data instanceof z.ZodType ? toJsonSchema(data, "output") : data
+        )
+      ),
+    }),
+    ...(content && { content }),
+  };
+}
+
+function documentedOperation(operation: DocumentedOperation) {
+  const { tag, summary, description, roles, query, body } = operation;
+  const content =
+    operation.requestContent ?? (body && jsonContent(toJsonSchema(body)));
+  return {
+    tags: [tag],
+    summary,
+    description: [describeRoles(roles), description].filter(Boolean).join(" "),
+    ...(query && { parameters: objectParameters(query, "query") }),
+    ...(content && {
+      requestBody: { required: !operation.optionalBody, content },
+    }),
+    responses: {
+      ...Object.fromEntries(
+        Object.entries(operation.responses).map(([status, response]) => [
+          status,
+          documentedResponse(status, response),
+        ])
+      ),
+      ...COMMON_RESPONSES,
+    },
+  };
+}
+
+const METHODS = ["get", "post", "put", "delete"] as const;
+
+function customPath(documented: DocumentedPath): JsonObject {
+  const { key, params } = documented;
+  const parameters = [
+    ...(key ? [idParameter(key)] : []),
+    ...(params ? objectParameters(params, "path") : []),
+  ];
+  return {
+    ...(parameters.length > 0 && { parameters }),
+    ...Object.fromEntries(
+      METHODS.flatMap((method) => {
+        const operation = documented[method];
+        return operation ? [[method, documentedOperation(operation)]] : [];
+      })
+    ),
+  };
+}
+
+export function buildOpenApiDocument(
+  resources: readonly DocumentedResource[],
+  info: { title: string; version: string },
+  customPaths: readonly DocumentedPath[] = []
+) {
+  const paths: Record<string, JsonObject> = Object.assign(
+    {},
+    ...resources.map(resourcePaths)
+  );
+  for (const documented of customPaths) {
+    paths[documented.path] = {
+      ...paths[documented.path],
+      ...customPath(documented),
+    };
+  }
+  const tags = new Set([
+    ...resources.map(({ config }) => config.resourceName),
+    ...customPaths.flatMap((documented) =>
+      METHODS.flatMap((method) => documented[method]?.tag ?? [])
+    ),
+  ]);
+
+  return {
+    openapi: "3.1.0",
+    info,
+    security: [{ bearerAuth: [] }],
+    tags: [...tags].map((name) => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+      },
+      schemas: Object.assign(
+        { ...SHARED_SCHEMAS },
+        ...resources.map(resourceSchemas)
+      ),
+    },
+  };
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyCursor,
+  DEFAULT_LIMIT,
+  MAX_LIMIT,
+  pageAfter,
+  paginateRows,
+  parseCursorPagination,
+} from "./pagination";
+
+const rows = [1, 2, 3, 4, 5].map((n) => ({
+  id: `id-${n}`,
+  created_at: `2026-01-0${n}T00:00:00+00:00`,
+}));
+
+function parse(query: string) {
+  return parseCursorPagination(new URLSearchParams(query));
+}
+
+function cursorOf(query: string) {
+  const result = parse(query);
+  if (!result.success || !result.data) throw new Error(`Invalid: ${query}`);
+  return result.data;
+}
+
+// Records the calls keyset pagination makes on a query
+function recorder() {
+  const calls: unknown[][] = [];
+  const builder = {
+    or(filters: string) {
+      calls.push(["or", filters]);
+      return this;
+    },
+    order(column: string, options: { ascending: boolean }) {
+      calls.push(["order", column, options.ascending]);
+      return this;
+    },
+    limit(count: number) {
+      calls.push(["limit", count]);
+      return this;
+    },
+  };
+  return { builder, calls };
+}
+
+describe("parseCursorPagination", () => {
+  it("leaves page-based requests alone", () => {
+    expect(parse("page=2&pageSize=10")).toEqual({ success: true, data: null });
+  });
+
+  it("starts at the first page with the default limit", () => {
+    expect(parse("cursor=")).toEqual({
+      success: true,
+      data: { cursor: null, limit: DEFAULT_LIMIT, withCount: false },
+    });
+  });
+
+  it("reads the limit and count", () => {
+    expect(parse("limit=5&count=exact")).toEqual({
+      success: true,
+      data: { cursor: null, limit: 5, withCount: true },
+    });
+  });
+
+  it("reports every invalid parameter", () => {
+    expect(
+      parse(`cursor=nope&limit=${MAX_LIMIT + 1}&page=1&sort=name&count=some`)
+    ).toEqual({
+      success: false,
+      error: {
+        formErrors: [],
+        fieldErrors: {
+          cursor: ["Malformed cursor."],
+          limit: [`Expected an integer between 1 and ${MAX_LIMIT}.`],
+          page: ["Cannot combine 'page' with 'cursor'/'limit'."],
+          sort: ["Cursor pagination is always ordered by created_at, id."],
+          count: ["Expected 'exact' or 'none'."],
+        },
+      },
+    });
+  });
+
+  it("rejects cursors with the wrong shape", () => {
+    const forged = Buffer.from(JSON.stringify([1, "id", "next"])).toString(
+      "base64url"
+    );
+    expect(parse(`cursor=${forged}`).success).toBe(false);
+  });
+});
+
+describe("cursors", () => {
+  it("round-trip through the next page", () => {
+    const first = paginateRows(rows.slice(0, 3), cursorOf("limit=2"));
+    expect(first.rows).toEqual(rows.slice(0, 2));
+    expect(first.prevCursor).toBeNull();
+
+    expect(cursorOf(`cursor=${first.nextCursor}&limit=2`).cursor).toEqual({
+      createdAt: rows[1]!.created_at,
+      id: rows[1]!.id,
+      direction: "next",
+    });
+  });
+
+  it("walk backwards in ascending order", () => {
+    const pagination = cursorOf(
+      `cursor=${paginateRows(rows.slice(3), pageAfter(rows[2]!, 2)).prevCursor}&limit=2`
+    );
+    expect(pagination.cursor).toMatchObject({
+      id: rows[3]!.id,
+      direction: "prev",
+    });
+
+    // Fetched newest first, with one row of look-ahead
+    const page = paginateRows([rows[2]!, rows[1]!, rows[0]!], pagination);
+    expect(page.rows).toEqual([rows[1], rows[2]]);
+    expect(page.nextCursor).not.toBeNull();
+    expect(page.prevCursor).not.toBeNull();
+  });
+
+  it("stop at the last page", () => {
+    const page = paginateRows(rows.slice(3), pageAfter(rows[2]!, 2));
+    expect(page.rows).toEqual(rows.slice(3));
+    expect(page.nextCursor).toBeNull();
+    expect(page.prevCursor).not.toBeNull();
+  });
+});
+
+describe("applyCursor", () => {
+  it("orders by created_at, id and fetches one extra row", () => {
+    const { builder, calls } = recorder();
+    applyCursor(builder, pageAfter(null, 10));
+    expect(calls).toEqual([
+      ["order", "created_at", true],
+      ["order", "id", true],
+      ["limit", 11],
+    ]);
+  });
+
+  it("filters to the rows after the cursor", () => {
+    const { builder, calls } = recorder();
+    applyCursor(builder, pageAfter(rows[0]!, 2));
+    expect(calls[0]).toEqual([
+      "or",
+      `created_at.gt."${rows[0]!.created_at}",and(created_at.eq."${rows[0]!.created_at}",id.gt."id-1")`,
+    ]);
+  });
+
+  it("walks backwards from a previous-page cursor", () => {
+    const { prevCursor } = paginateRows(
+      rows.slice(1, 3),
+      pageAfter(rows[0]!, 2)
+    );
+    const { builder, calls } = recorder();
+    applyCursor(builder, cursorOf(`cursor=${prevCursor}`));
+    expect(calls).toEqual([
+      [
+        "or",
+        `created_at.lt."${rows[1]!.created_at}",and(created_at.eq."${rows[1]!.created_at}",id.lt."id-2")`,
+      ],
+      ["order", "created_at", false],
+      ["order", "id", false],
+      ["limit", DEFAULT_LIMIT + 1],
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+import type { ParseResult } from "./query";
+
+/**
+ * Keyset ("cursor") pagination over `(created_at, id)`, the columns every
+ * table in the schema shares. Unlike offset pagination it stays stable while
+ * rows are inserted mid-scroll and never needs an exact count.
+ */
+
+export const CURSOR_KEYS = ["created_at", "id"] as const;
+
+export const DEFAULT_LIMIT = 20;
+export const MAX_LIMIT = 100;
+
+type CursorDirection = "next" | "prev";
+
+interface Cursor {
+  createdAt: string;
+  id: string | number;
+  direction: CursorDirection;
+}
+
+export interface CursorPagination {
+  cursor: Cursor | null;
+  limit: number;
+  // Whether to run the (potentially expensive) exact count
+  withCount: boolean;
+}
+
+/**
+ * The subset of the PostgREST filter builder keyset pagination relies on.
+ */
+interface QueryBuilder {
+  or(filters: string): this;
+  order(column: string, options: { ascending: boolean }): this;
+  limit(count: number): this;
+}
+
+export interface KeyedRow {
+  created_at: string;
+  id: string | number;
+}
+
+function encodeCursor(row: KeyedRow, direction: CursorDirection): string {
+  const payload = JSON.stringify([row.created_at, row.id, direction]);
+  return Buffer.from(payload).toString("base64url");
+}
+
+function decodeCursor(value: string): Cursor | null {
+  try {
+    const [createdAt, id, direction] = JSON.parse(
+      Buffer.from(value, "base64url").toString("utf8")
+    );
+    if (
+      typeof createdAt !== "string" ||
+      (typeof id !== "string" && typeof id !== "number") ||
+      (direction !== "next" && direction !== "prev")
+    ) {
+      return null;
+    }
+    return { createdAt, id, direction };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parses `?cursor=`, `?limit=` and `?count=`. Resolves to `null` when the
+ * request uses classic `?page=` pagination instead.
+ */
+export function parseCursorPagination(
+  searchParams: URLSearchParams
+): ParseResult<CursorPagination | null> {
+  const rawCursor = searchParams.get("cursor");
+  const rawLimit = searchParams.get("limit");
+  if (rawCursor === null && rawLimit === null) {
+    return { success: true, data: null };
+  }
+
+  const fieldErrors: Record<string, string[]> = {};
+  const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+  if (rawCursor && !cursor) {
+    fieldErrors.cursor = ["Malformed cursor."];
+  }
+
+  const limit = rawLimit === null ? DEFAULT_LIMIT : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    fieldErrors.limit = [`Expected an integer between 1 and ${MAX_LIMIT}.`];
+  }
+  if (searchParams.has("page") || searchParams.has("pageSize")) {
+    fieldErrors.page = ["Cannot combine 'page' with 'cursor'/'limit'."];
+  }
+  if (searchParams.has("sort")) {
+    fieldErrors.sort = [
+      "Cursor pagination is always ordered by created_at, id.",
+    ];
+  }
+
+  const count = searchParams.get("count") ?? "none";
+  if (count !== "exact" && count !== "none") {
+    fieldErrors.count = ["Expected 'exact' or 'none'."];
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    return { success: false, error: { formErrors: [], fieldErrors } };
+  }
+  return {
+    success: true,
+    data: { cursor, limit, withCount: count === "exact" },
+  };
+}
+
+/**
+ * Restricts a query to the page after (or before) the cursor. One extra row
+ * is fetched so `paginateRows` can tell whether another page exists.
+ */
+export function applyCursor<Q extends QueryBuilder>(
+  builder: Q,
+  { cursor, limit }: CursorPagination
+): Q {
+  const ascending = cursor?.direction !== "prev";
+  let query = builder;
+  if (cursor) {
+    const op = ascending ? "gt" : "lt";
+    const createdAt = JSON.stringify(cursor.createdAt);
+    const id = JSON.stringify(String(cursor.id));
+    query = query.or(
+      `created_at.${op}.${createdAt},and(created_at.eq.${createdAt},id.${op}.${id})`
+    );
+  }
+  return query
+    .order("created_at", { ascending })
+    .order("id", { ascending })
+    .limit(limit + 1);
+}
+
+/**
+ * The forward page of `limit` rows following `row` (or the first page), for
+ * walking a whole table in batches.
+ */
+export function pageAfter(
+  row: KeyedRow | null,
+  limit: number
+): CursorPagination {
+  return {
+    cursor: row
+      ? { createdAt: row.created_at, id: row.id, direction: "next" }
+      : null,
+    limit,
+    withCount: false,
+  };
+}
+
+/**
+ * Trims the look-ahead row, restores ascending order and builds the cursors
+ * pointing at the neighbouring pages.
+ */
+export function paginateRows<R extends KeyedRow>(
+  rows: R[],
+  { cursor, limit }: CursorPagination
+) {
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+  const backwards = cursor?.direction === "prev";
+  if (backwards) page.reverse();
+
+  const first = page[0];
+  const last = page[page.length - 1];
+  // Walking backwards we always came from a later page; walking forwards
+  // from a cursor we always came from an earlier one.
+  const hasNext = backwards ? cursor !== null : hasMore;
+  const hasPrev = backwards ? hasMore : cursor !== null;
+
+  return {
+    rows: page,
+    nextCursor: hasNext && last ? encodeCursor(last, "next") : null,
+    prevCursor: hasPrev && first ? encodeCursor(first, "prev") : null,
+  };
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+import { applyJsonPatch, applyMergePatch, changedColumns } from "./patch";
+
+const row = {
+  id: "u1",
+  name: "Tech University",
+  metadata: {
+    website: "https://tech.example",
+    contact: { email: "info@tech.example", phone: "555-0100" },
+    accreditations: [{ body: "NAAC" }, { body: "ABET" }],
+  },
+};
+
+describe("applyMergePatch", () => {
+  it("merges nested objects key by key", () => {
+    const result = applyMergePatch(row, {
+      metadata: { contact: { phone: "555-0199" } },
+    });
+    expect(result).toEqual({
+      success: true,
+      data: {
+        ...row,
+        metadata: {
+          ...row.metadata,
+          contact: { email: "info@tech.example", phone: "555-0199" },
+        },
+      },
+    });
+  });
+
+  it("removes nested keys set to null", () => {
+    const result = applyMergePatch(row, { metadata: { contact: null } });
+    expect(result.success && result.data.metadata).toEqual({
+      website: "https://tech.example",
+      accreditations: [{ body: "NAAC" }, { body: "ABET" }],
+    });
+  });
+
+  it("clears a column set to null instead of removing it", () => {
+    const result = applyMergePatch(row, { metadata: null });
+    expect(result).toEqual({ success: true, data: { ...row, metadata: null } });
+  });
+
+  it("replaces arrays whole", () => {
+    const result = applyMergePatch(row, {
+      metadata: { accreditations: [{ body: "NBA" }] },
+    });
+    expect(result.success && result.data.metadata).toMatchObject({
+      accreditations: [{ body: "NBA" }],
+    });
+  });
+
+  it("leaves the row untouched", () => {
+    const before = structuredClone(row);
+    applyMergePatch(row, { metadata: { website: null } });
+    expect(row).toEqual(before);
+  });
+
+  it("rejects a patch that is not an object", () => {
+    expect(applyMergePatch(row, [{ op: "add" }])).toEqual({
+      success: false,
+      error: "A merge patch must be a JSON object.",
+    });
+  });
+});
+
+describe("applyJsonPatch", () => {
+  it("applies every operation in order", () => {
+    const result = applyJsonPatch(row, [
+      { op: "test", path: "/name", value: "Tech University" },
+      { op: "replace", path: "/name", value: "Tech" },
+      { op: "add", path: "/metadata/accreditations/-", value: { body: "NBA" } },
+      { op: "remove", path: "/metadata/accreditations/0" },
+      { op: "copy", from: "/metadata/website", path: "/metadata/logoUrl" },
+      { op: "move", from: "/metadata/contact/phone", path: "/metadata/phone" },
+    ]);
+    expect(result).toEqual({
+      success: true,
+      data: {
+        id: "u1",
+        name: "Tech",
+        metadata: {
+          website: "https://tech.example",
+          logoUrl: "https://tech.example",
+          phone: "555-0100",
+          contact: { email: "info@tech.example" },
+          accreditations: [{ body: "ABET" }, { body: "NBA" }],
+        },
+      },
+    });
+  });
+
+  it("inserts into arrays at an index", () => {
+    const result = applyJsonPatch(row, [
+      { op: "add", path: "/metadata/accreditations/1", value: { body: "NBA" } },
+    ]);
+    expect(result.success && result.data.metadata).toMatchObject({
+      accreditations: [{ body: "NAAC" }, { body: "NBA" }, { body: "ABET" }],
+    });
+  });
+
+  it("unescapes ~1 and ~0 in pointers", () => {
+    const result = applyJsonPatch({ id: "u1", metadata: { "a/b~c": 1 } }, [
+      { op: "replace", path: "/metadata/a~1b~0c", value: 2 },
+    ]);
+    expect(result.success && result.data.metadata).toEqual({ "a/b~c": 2 });
+  });
+
+  it("clears a removed column to null", () => {
+    const result = applyJsonPatch(row, [{ op: "remove", path: "/metadata" }]);
+    expect(result).toEqual({ success: true, data: { ...row, metadata: null } });
+  });
+
+  it("compares objects regardless of key order in tests", () => {
+    const result = applyJsonPatch(row, [
+      {
+        op: "test",
+        path: "/metadata/contact",
+        value: { phone: "555-0100", email: "info@tech.example" },
+      },
+    ]);
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects the whole patch when a test fails", () => {
+    const result = applyJsonPatch(row, [
+      { op: "replace", path: "/name", value: "Tech" },
+      { op: "test", path: "/metadata/website", value: "https://other" },
+    ]);
+    expect(result).toEqual({
+      success: false,
+      error: "Operation 1: Test failed at '/metadata/website'.",
+    });
+  });
+
+  it.each([
+    [
+      { op: "remove", path: "/metadata/missing" },
+      "Operation 0: Nothing to remove at '/metadata/missing'.",
+    ],
+    [
+      { op: "replace", path: "/metadata/accreditations/5", value: {} },
+      "Operation 0: Nothing to replace at '/metadata/accreditations/5'.",
+    ],
+    [
+      { op: "add", path: "/metadata/missing/key", value: 1 },
+      "Operation 0: Cannot add at '/metadata/missing/key'.",
+    ],
+    [
+      { op: "move", from: "/metadata", path: "/metadata/nested" },
+      "Operation 0: Cannot move '/metadata' into itself.",
+    ],
+    [
+      { op: "copy", from: "/metadata/missing", path: "/name" },
+      "Operation 0: Cannot copy '/metadata/missing' to '/name'.",
+    ],
+  ])("reports a failing %o", (operation, error) => {
+    expect(applyJsonPatch(row, [operation])).toEqual({
+      success: false,
+      error,
+    });
+  });
+
+  it.each([[[]], [{ op: "add", path: "/name" }], [[{ op: "bogus" }]]])(
+    "rejects %o as not a JSON Patch",
+    (patch) => {
+      expect(applyJsonPatch(row, patch)).toEqual({
+        success: false,
+        error: "A JSON Patch must be an array of RFC 6902 operations.",
+      });
+    }
+  );
+
+  it("leaves the row untouched", () => {
+    const before = structuredClone(row);
+    applyJsonPatch(row, [
+      { op: "remove", path: "/metadata/accreditations/0" },
+      { op: "replace", path: "/metadata/contact/email", value: "x@y.z" },
+    ]);
+    expect(row).toEqual(before);
+  });
+});
+
+describe("changedColumns", () => {
+  it("keeps only the columns whose value changed", () => {
+    const after = {
+      ...row,
+      name: "Tech",
+      metadata: structuredClone(row.metadata),
+    };
+    expect(changedColumns(row, after)).toEqual({ name: "Tech" });
+  });
+});
@@ -0,0 +1,254 @@
+import { z } from "zod";
+
+/**
+ * Partial updates for PATCH: RFC 7396 JSON Merge Patch and RFC 6902 JSON
+ * Patch, both applied to the row as a JSON document. Either way a client can
+ * change one nested `metadata` key without re-sending the rest of it.
+ */
+
+export const JSON_PATCH_CONTENT_TYPE = "application/json-patch+json";
+
+export const MERGE_PATCH_CONTENT_TYPE = "application/merge-patch+json";
+
+type JsonObject = Record<string, unknown>;
+
+export type PatchResult =
+  | { success: true; data: JsonObject }
+  | { success: false; error: string };
+
+const pointer = z
+  .string()
+  .regex(/^(\/[^/]*)+$/, "Expected a JSON Pointer to a column, e.g. /name.");
+
+const jsonPatchSchema = z
+  .array(
+    z.discriminatedUnion("op", [
+      z.object({ op: z.literal("add"), path: pointer, value: z.unknown() }),
+      z.object({ op: z.literal("remove"), path: pointer }),
+      z.object({ op: z.literal("replace"), path: pointer, value: z.unknown() }),
+      z.object({ op: z.literal("move"), from: pointer, path: pointer }),
+      z.object({ op: z.literal("copy"), from: pointer, path: pointer }),
+      z.object({ op: z.literal("test"), path: pointer, value: z.unknown() }),
+    ])
+  )
+  .min(1);
+
+export type JsonPatchOperation = z.infer<typeof jsonPatchSchema>[number];
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isEqual(a[key], b[key]))
+    );
+  }
+  return a === b;
+}
+
+/**
+ * Applies an RFC 7396 merge patch: objects merge key by key, `null` removes
+ * a key and anything else replaces the target value.
+ */
+function mergePatch(target: unknown, patch: unknown): unknown {
+  if (!isObject(patch)) return patch;
+  const result: JsonObject = isObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = mergePatch(result[key], value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Merge-patches a row. At the top level `null` clears a column rather than
+ * removing it, since a row always has every column.
+ */
+export function applyMergePatch(row: JsonObject, patch: unknown): PatchResult {
+  if (!isObject(patch)) {
+    return { success: false, error: "A merge patch must be a JSON object." };
+  }
+  const data: JsonObject = { ...row };
+  for (const [column, value] of Object.entries(patch)) {
+    data[column] = value === null ? null : mergePatch(row[column], value);
+  }
+  return { success: true, data };
+}
+
+function parsePointer(path: string): string[] {
+  return path
+    .slice(1)
+    .split("/")
+    .map((token) => token.replaceAll("~1", "/").replaceAll("~0", "~"));
+}
+
+/**
+ * Resolves the container holding the pointer's last token.
+ */
+function resolveParent(
+  document: JsonObject,
+  tokens: string[]
+): { parent: unknown; key: string } | null {
+  let parent: unknown = document;
+  for (const token of tokens.slice(0, -1)) {
+    if (Array.isArray(parent) && /^\d+$/.test(token)) {
+      parent = parent[Number(token)];
+    } else if (isObject(parent) && token in parent) {
+      parent = parent[token];
+    } else {
+      return null;
+    }
+  }
+  return { parent, key: tokens[tokens.length - 1]! };
+}
+
+function arrayIndex(array: unknown[], key: string, forInsert: boolean) {
+  if (forInsert && key === "-") return array.length;
+  if (!/^(0|[1-9]\d*)$/.test(key)) return null;
+  const index = Number(key);
+  return index < array.length || (forInsert && index === array.length)
+    ? index
+    : null;
+}
+
+function getValue(document: JsonObject, path: string) {
+  const target = resolveParent(document, parsePointer(path));
+  if (!target) return { found: false as const };
+  const { parent, key } = target;
+  if (Array.isArray(parent)) {
+    const index = arrayIndex(parent, key, false);
+    return index === null
+      ? { found: false as const }
+      : { found: true as const, value: parent[index] };
+  }
+  return isObject(parent) && key in parent
+    ? { found: true as const, value: parent[key] }
+    : { found: false as const };
+}
+
+function addValue(document: JsonObject, path: string, value: unknown) {
+  const target = resolveParent(document, parsePointer(path));
+  if (!target) return false;
+  const { parent, key } = target;
+  if (Array.isArray(parent)) {
+    const index = arrayIndex(parent, key, true);
+    if (index === null) return false;
+    parent.splice(index, 0, value);
+    return true;
+  }
+  if (!isObject(parent)) return false;
+  parent[key] = value;
+  return true;
+}
+
+function removeValue(document: JsonObject, path: string) {
+  const target = resolveParent(document, parsePointer(path));
+  if (!target) return false;
+  const { parent, key } = target;
+  if (Array.isArray(parent)) {
+    const index = arrayIndex(parent, key, false);
+    if (index === null) return false;
+    parent.splice(index, 1);
+    return true;
+  }
+  if (!isObject(parent) || !(key in parent)) return false;
+  delete parent[key];
+  return true;
+}
+
+function applyOperation(
+  document: JsonObject,
+  operation: JsonPatchOperation
+): string | null {
+  switch (operation.op) {
+    case "add":
+      return addValue(
+        document,
+        operation.path,
+        structuredClone(operation.value)
+      )
+        ? null
+        : `Cannot add at '${operation.path}'.`;
+    case "remove":
+      return removeValue(document, operation.path)
+        ? null
+        : `Nothing to remove at '${operation.path}'.`;
+    case "replace":
+      return removeValue(document, operation.path) &&
+        addValue(document, operation.path, structuredClone(operation.value))
+        ? null
+        : `Nothing to replace at '${operation.path}'.`;
+    case "move": {
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        return `Cannot move '${operation.from}' into itself.`;
+      }
+      const source = getValue(document, operation.from);
+      return source.found &&
+        removeValue(document, operation.from) &&
+        addValue(document, operation.path, source.value)
+        ? null
+        : `Cannot move '${operation.from}' to '${operation.path}'.`;
+    }
+    case "copy": {
+      const source = getValue(document, operation.from);
+      return source.found &&
+        addValue(document, operation.path, structuredClone(source.value))
+        ? null
+        : `Cannot copy '${operation.from}' to '${operation.path}'.`;
+    }
+    case "test": {
+      const current = getValue(document, operation.path);
+      return current.found && isEqual(current.value, operation.value)
+        ? null
+        : `Test failed at '${operation.path}'.`;
+    }
+  }
+}
+
+/**
+ * Applies RFC 6902 operations to a copy of a row. The patch is atomic: the
+ * first failing operation (including a failed `test`) rejects all of it.
+ * Removing a whole column clears it to `null`.
+ */
+export function applyJsonPatch(row: JsonObject, patch: unknown): PatchResult {
+  const operations = jsonPatchSchema.safeParse(patch);
+  if (!operations.success) {
+    return {
+      success: false,
+      error: "A JSON Patch must be an array of RFC 6902 operations.",
+    };
+  }
+
+  const document = structuredClone(row);
+  for (const [index, operation] of operations.data.entries()) {
+    const error = applyOperation(document, operation);
+    if (error) {
+      return { success: false, error: `Operation ${index}: ${error}` };
+    }
+  }
+  for (const column of Object.keys(row)) {
+    if (!(column in document)) document[column] = null;
+  }
+  return { success: true, data: document };
+}
+
+/**
+ * The columns a patch actually changed, with their new values.
+ */
+export function changedColumns(before: JsonObject, after: JsonObject) {
+  return Object.fromEntries(
+    Object.entries(after).filter(([column, value]) => {
+      return !isEqual(before[column], value);
+    })
+  );
+}
@@ -0,0 +1,149 @@
+import type { ParseResult, QueryErrors } from "./query";
+
+/**
+ * Primary keys. Each resource declares its key columns and their types; ids
+ * from the path (`/resource/<id>`) or the body are validated and coerced
+ * against them before they reach a query, so a malformed id is a 400 rather
+ * than a database error.
+ *
+ * Composite keys are written in the path as their values joined by commas,
+ * in column order, e.g. `/enrollment/<student_id>,<offering_id>`.
+ */
+
+export type KeyType = "uuid" | "integer" | "text";
+
+export interface KeyColumn<C extends string = string> {
+  column: C;
+  type: KeyType;
+}
+
+/**
+ * A resource's primary key: one column, or several for a composite key.
+ */
+export type PrimaryKey<C extends string = string> =
+  | KeyColumn<C>
+  | readonly KeyColumn<C>[];
+
+export type RowKey = Record<string, string | number>;
+
+export const DEFAULT_PRIMARY_KEY: KeyColumn = { column: "id", type: "uuid" };
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * The subset of the PostgREST filter builder key lookups rely on.
+ */
+interface QueryBuilder {
+  eq(column: string, value: unknown): this;
+}
+
+export function keyColumns(primaryKey: PrimaryKey): readonly KeyColumn[] {
+  return "column" in primaryKey ? [primaryKey] : primaryKey;
+}
+
+function coerce(value: unknown, type: KeyType): string | number | null {
+  switch (type) {
+    case "uuid":
+      return typeof value === "string" && UUID_PATTERN.test(value)
+        ? value.toLowerCase()
+        : null;
+    case "integer": {
+      const number =
+        typeof value === "string" && /^-?\d+$/.test(value)
+          ? Number(value)
+          : value;
+      return typeof number === "number" && Number.isSafeInteger(number)
+        ? number
+        : null;
+    }
+    case "text":
+      return typeof value === "string" && value !== "" ? value : null;
+  }
+}
+
+const EXPECTED: Record<KeyType, string> = {
+  uuid: "a UUID",
+  integer: "an integer",
+  text: "a non-empty string",
+};
+
+function keyErrors(fieldErrors: Record<string, string[]>): QueryErrors {
+  return { formErrors: [], fieldErrors };
+}
+
+/**
+ * Parses the `[id]` path segment.
+ */
+export function parsePathKey(
+  primaryKey: PrimaryKey,
+  raw: string
+): ParseResult<RowKey> {
+  const columns = keyColumns(primaryKey);
+  const values = columns.length === 1 ? [raw] : raw.split(",");
+  if (values.length !== columns.length) {
+    return {
+      success: false,
+      error: {
+        formErrors: [
+          `Expected ${columns.length} comma-separated values: ${columns
+            .map(({ column }) => column)
+            .join(", ")}.`,
+        ],
+        fieldErrors: {},
+      },
+    };
+  }
+  return parseKey(
+    primaryKey,
+    Object.fromEntries(columns.map(({ column }, i) => [column, values[i]]))
+  );
+}
+
+/**
+ * Parses the key columns of a request body (or any record).
+ */
+export function parseKey(
+  primaryKey: PrimaryKey,
+  source: Record<string, unknown>
+): ParseResult<RowKey> {
+  const key: RowKey = {};
+  const fieldErrors: Record<string, string[]> = {};
+  for (const { column, type } of keyColumns(primaryKey)) {
+    const value = coerce(source[column], type);
+    if (value === null) {
+      fieldErrors[column] = [`Expected ${EXPECTED[type]}.`];
+    } else {
+      key[column] = value;
+    }
+  }
+  return Object.keys(fieldErrors).length > 0
+    ? { success: false, error: keyErrors(fieldErrors) }
+    : { success: true, data: key };
+}
+
+/**
+ * Restricts a query to the row with the given key.
+ */
+export function applyKey<Q extends QueryBuilder>(builder: Q, key: RowKey): Q {
+  return Object.entries(key).reduce(
+    (query, [column, value]) => query.eq(column, value),
+    builder
+  );
+}
+
+/**
+ * A key as shown in messages and the audit log: its values, comma-separated.
+ */
+export function formatKey(key: RowKey): string {
+  return Object.values(key).join(",");
+}
+
+/**
+ * The key of a row, read from its key columns.
+ */
+export function rowKey(primaryKey: PrimaryKey, row: Record<string, unknown>) {
+  return Object.fromEntries(
+    keyColumns(primaryKey).map(({ column }) => [column, row[column]])
+  ) as RowKey;
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyListQuery,
+  FILTER_OPERATORS,
+  parseListQuery,
+  parseSelectQuery,
+  type QueryOptions,
+} from "./query";
+
+const options: QueryOptions = {
+  columns: ["id", "name", "uni_id", "tags", "deleted_at", "created_at"],
+  includes: ["university", "department"],
+  keys: ["id"],
+};
+
+function parse(query: string) {
+  return parseListQuery(new URLSearchParams(query), options);
+}
+
+describe("parseListQuery", () => {
+  it("selects every column by default", () => {
+    expect(parse("")).toEqual({
+      success: true,
+      data: { select: "*", fields: [], includes: [], filters: [], sort: [] },
+    });
+  });
+
+  it("always selects the keys alongside the requested fields", () => {
+    const result = parse("fields=name,name&include=university");
+    expect(result).toMatchObject({
+      success: true,
+      data: {
+        select: "id, name, university(*)",
+        fields: ["name"],
+        includes: ["university"],
+      },
+    });
+  });
+
+  it("parses the sort order", () => {
+    expect(parse("sort=-created_at, name")).toMatchObject({
+      success: true,
+      data: {
+        sort: [
+          { column: "created_at", ascending: false },
+          { column: "name", ascending: true },
+        ],
+      },
+    });
+  });
+
+  it("parses filters, ignoring reserved parameters", () => {
+    const result = parse(
+      "page=2&limit=5&name=ilike.*tech*&uni_id=in.(a,b)&tags=cs.{x,y}&deleted_at=is.null&id=eq.a.b"
+    );
+    expect(result).toMatchObject({
+      success: true,
+      data: {
+        filters: [
+          { column: "name", operator: "ilike", value: "%tech%" },
+          { column: "uni_id", operator: "in", value: "(a,b)" },
+          { column: "tags", operator: "cs", value: "{x,y}" },
+          { column: "deleted_at", operator: "is", value: "null" },
+          { column: "id", operator: "eq", value: "a.b" },
+        ],
+      },
+    });
+  });
+
+  it("reports unknown fields, relations, sort columns and filters", () => {
+    expect(
+      parse("fields=secret&include=owner&sort=-rank&password=eq.x")
+    ).toEqual({
+      success: false,
+      error: {
+        formErrors: [],
+        fieldErrors: {
+          fields: ["Unknown field 'secret'."],
+          include: ["Unknown relation 'owner'."],
+          sort: ["Unknown sort field 'rank'."],
+          password: ["Filtering on 'password' is not allowed."],
+        },
+      },
+    });
+  });
+
+  it.each([
+    [
+      "name=tech",
+      `Expected '<operator>.<value>' with one of: ${FILTER_OPERATORS.join(", ")}.`,
+    ],
+    [
+      "name=regex.^a",
+      `Expected '<operator>.<value>' with one of: ${FILTER_OPERATORS.join(", ")}.`,
+    ],
+    ["uni_id=in.a,b", "The 'in' operator expects '(a,b,c)'."],
+    ["tags=cs.x", "The 'cs' operator expects '{a,b,c}'."],
+    ["deleted_at=is.nothing", "The 'is' operator expects null, true or false."],
+  ])("rejects the filter %s", (query, message) => {
+    const [column] = query.split("=");
+    expect(parse(query)).toEqual({
+      success: false,
+      error: { formErrors: [], fieldErrors: { [column!]: [message] } },
+    });
+  });
+});
+
+describe("parseSelectQuery", () => {
+  it("ignores filters and sort", () => {
+    expect(
+      parseSelectQuery(
+        new URLSearchParams("fields=name&sort=bogus&bogus=eq.1"),
+        options
+      )
+    ).toEqual({
+      success: true,
+      data: { select: "id, name", fields: ["name"], includes: [] },
+    });
+  });
+});
+
+describe("applyListQuery", () => {
+  it("applies filters, then the sort order", () => {
+    const calls: unknown[][] = [];
+    const builder = {
+      filter(column: string, operator: string, value: unknown) {
+        calls.push(["filter", column, operator, value]);
+        return this;
+      },
+      order(column: string, options: { ascending: boolean }) {
+        calls.push(["order", column, options.ascending]);
+        return this;
+      },
+    };
+    const result = parse("sort=-name&name=ilike.*x*");
+    if (!result.success) throw new Error("Expected a valid query");
+
+    applyListQuery(builder, result.data);
+    expect(calls).toEqual([
+      ["filter", "name", "ilike", "%x%"],
+      ["order", "name", false],
+    ]);
+  });
+});
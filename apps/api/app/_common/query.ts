@@ -0,0 +1,247 @@
+/**
+ * Parsing of the query string accepted by the factory's GET endpoints:
+ * `?fields=`, `?include=`, `?sort=` and per-column `?col=op.value` filters.
+ */
+
+/**
+ * Query parameters with a fixed meaning; every other parameter is a filter.
+ */
+const RESERVED_PARAMS = new Set([
+  "page",
+  "pageSize",
+  "cursor",
+  "limit",
+  "count",
+  "include",
+  "fields",
+  "sort",
+  "format",
+  "includeDeleted",
+]);
+
+/**
+ * Filter operators accepted in `?col=op.value`, mapped to PostgREST operators.
+ */
+export const FILTER_OPERATORS = [
+  "eq",
+  "neq",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "like",
+  "ilike",
+  "in",
+  "is",
+  // Array columns: `cs.{a,b}` matches rows whose array contains a and b
+  "cs",
+] as const;
+
+type FilterOperator = (typeof FILTER_OPERATORS)[number];
+
+export interface Filter {
+  column: string;
+  operator: FilterOperator;
+  value: string;
+}
+
+export interface SortField {
+  column: string;
+  ascending: boolean;
+}
+
+export interface ListQuery {
+  select: string;
+  // Columns and relations the client asked for; empty `fields` means all
+  fields: string[];
+  includes: string[];
+  filters: Filter[];
+  sort: SortField[];
+}
+
+export type Selection = Pick<ListQuery, "select" | "fields" | "includes">;
+
+/**
+ * Allow-lists a resource declares for its query string.
+ */
+export interface QueryOptions {
+  columns: readonly string[];
+  includes: readonly string[];
+  // Columns always selected, even when `?fields=` leaves them out
+  keys?: readonly string[];
+}
+
+/**
+ * Validation errors in the same shape as `ZodError.flatten()`, so clients
+ * handle query and body errors alike.
+ */
+export interface QueryErrors {
+  formErrors: string[];
+  fieldErrors: Record<string, string[]>;
+}
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: QueryErrors };
+
+/**
+ * The subset of the PostgREST filter builder the query helpers rely on.
+ */
+interface QueryBuilder {
+  filter(column: string, operator: string, value: unknown): this;
+  order(column: string, options: { ascending: boolean }): this;
+}
+
+function splitList(value: string | null): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function addError(errors: QueryErrors, param: string, message: string) {
+  (errors.fieldErrors[param] ??= []).push(message);
+}
+
+function hasErrors(errors: QueryErrors) {
+  return Object.keys(errors.fieldErrors).length > 0;
+}
+
+function parseSelect(
+  searchParams: URLSearchParams,
+  options: QueryOptions,
+  errors: QueryErrors
+): Selection {
+  const fields = [...new Set(splitList(searchParams.get("fields")))];
+  for (const field of fields) {
+    if (!options.columns.includes(field)) {
+      addError(errors, "fields", `Unknown field '${field}'.`);
+    }
+  }
+
+  const includes = [...new Set(splitList(searchParams.get("include")))];
+  for (const relation of includes) {
+    if (!options.includes.includes(relation)) {
+      addError(errors, "include", `Unknown relation '${relation}'.`);
+    }
+  }
+
+  const keys = (options.keys ?? []).filter((key) => !fields.includes(key));
+  const columns = fields.length > 0 ? [...keys, ...fields] : ["*"];
+  const embeds = includes.map((relation) => `${relation}(*)`);
+  return { select: [...columns, ...embeds].join(", "), fields, includes };
+}
+
+function parseSort(
+  searchParams: URLSearchParams,
+  options: QueryOptions,
+  errors: QueryErrors
+): SortField[] {
+  return splitList(searchParams.get("sort")).map((item) => {
+    const ascending = !item.startsWith("-");
+    const column = ascending ? item : item.slice(1);
+    if (!options.columns.includes(column)) {
+      addError(errors, "sort", `Unknown sort field '${column}'.`);
+    }
+    return { column, ascending };
+  });
+}
+
+function parseFilters(
+  searchParams: URLSearchParams,
+  options: QueryOptions,
+  errors: QueryErrors
+): Filter[] {
+  const filters: Filter[] = [];
+  for (const [column, raw] of searchParams.entries()) {
+    if (RESERVED_PARAMS.has(column)) continue;
+    if (!options.columns.includes(column)) {
+      addError(errors, column, `Filtering on '${column}' is not allowed.`);
+      continue;
+    }
+
+    const separator = raw.indexOf(".");
+    const operator = raw.slice(0, separator) as FilterOperator;
+    const value = raw.slice(separator + 1);
+    if (separator === -1 || !FILTER_OPERATORS.includes(operator)) {
+      addError(
+        errors,
+        column,
+        `Expected '<operator>.<value>' with one of: ${FILTER_OPERATORS.join(", ")}.`
+      );
+      continue;
+    }
+    if (operator === "in" && !/^\(.*\)$/.test(value)) {
+      addError(errors, column, "The 'in' operator expects '(a,b,c)'.");
+      continue;
+    }
+    if (operator === "cs" && !/^\{.*\}$/.test(value)) {
+      addError(errors, column, "The 'cs' operator expects '{a,b,c}'.");
+      continue;
+    }
+    if (operator === "is" && !["null", "true", "false"].includes(value)) {
+      addError(
+        errors,
+        column,
+        "The 'is' operator expects null, true or false."
+      );
+      continue;
+    }
+
+    // `*` is the URL-friendly wildcard, as in PostgREST itself.
+    const pattern =
+      operator === "like" || operator === "ilike"
+        ? value.replaceAll("*", "%")
+        : value;
+    filters.push({ column, operator, value: pattern });
+  }
+  return filters;
+}
+
+/**
+ * Parses `?fields=` and `?include=` into a PostgREST select string.
+ */
+export function parseSelectQuery(
+  searchParams: URLSearchParams,
+  options: QueryOptions
+): ParseResult<Selection> {
+  const errors: QueryErrors = { formErrors: [], fieldErrors: {} };
+  const selection = parseSelect(searchParams, options, errors);
+  return hasErrors(errors)
+    ? { success: false, error: errors }
+    : { success: true, data: selection };
+}
+
+/**
+ * Parses the full list query string, validating every column against the
+ * resource's allow-lists.
+ */
+export function parseListQuery(
+  searchParams: URLSearchParams,
+  options: QueryOptions
+): ParseResult<ListQuery> {
+  const errors: QueryErrors = { formErrors: [], fieldErrors: {} };
+  const selection = parseSelect(searchParams, options, errors);
+  const sort = parseSort(searchParams, options, errors);
+  const filters = parseFilters(searchParams, options, errors);
+  return hasErrors(errors)
+    ? { success: false, error: errors }
+    : { success: true, data: { ...selection, filters, sort } };
+}
+
+/**
+ * Applies parsed filters and sort order to a Supabase query.
+ */
+export function applyListQuery<Q extends QueryBuilder>(
+  builder: Q,
+  { filters, sort }: Pick<ListQuery, "filters" | "sort">
+): Q {
+  let query = builder;
+  for (const { column, operator, value } of filters) {
+    query = query.filter(column, operator, value);
+  }
+  for (const { column, ascending } of sort) {
+    query = query.order(column, { ascending });
+  }
+  return query;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { applyDeletedFilter, parseDeletedFilter } from "./softDelete";
+
+// Records the filters soft delete adds to a query
+function recorder() {
+  const calls: unknown[][] = [];
+  const builder = {
+    is(column: string, value: null) {
+      calls.push(["is", column, value]);
+      return this;
+    },
+    not(column: string, operator: string, value: null) {
+      calls.push(["not", column, operator, value]);
+      return this;
+    },
+  };
+  return { builder, calls };
+}
+
+describe("parseDeletedFilter", () => {
+  it.each([
+    ["", "exclude"],
+    ["includeDeleted=false", "exclude"],
+    ["includeDeleted=true", "include"],
+    ["includeDeleted=only", "only"],
+  ])("reads '%s' as %s", (query, filter) => {
+    expect(parseDeletedFilter(new URLSearchParams(query))).toEqual({
+      success: true,
+      data: filter,
+    });
+  });
+
+  it("rejects anything else", () => {
+    expect(
+      parseDeletedFilter(new URLSearchParams("includeDeleted=yes")).success
+    ).toBe(false);
+  });
+});
+
+describe("applyDeletedFilter", () => {
+  it("leaves resources that delete permanently alone", () => {
+    const { builder, calls } = recorder();
+    applyDeletedFilter(builder, false, "exclude", ["department"]);
+    expect(calls).toEqual([]);
+  });
+
+  it("filters live rows and soft-deleting embeds only", () => {
+    const { builder, calls } = recorder();
+    applyDeletedFilter(builder, true, "exclude", [
+      "department",
+      "faculty_invitation",
+    ]);
+    expect(calls).toEqual([
+      ["is", "deleted_at", null],
+      ["is", "department.deleted_at", null],
+    ]);
+  });
+
+  it("reads the trash without filtering embeds", () => {
+    const { builder, calls } = recorder();
+    applyDeletedFilter(builder, true, "only", ["department"]);
+    expect(calls).toEqual([["not", "deleted_at", "is", null]]);
+  });
+});
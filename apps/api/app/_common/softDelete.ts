@@ -0,0 +1,111 @@
+import type { ParseResult } from "./query";
+import type { RowOf, TableName } from "./types";
+
+/**
+ * Soft delete: resources that opt in are deleted by setting `deleted_at`, and
+ * reads leave those rows out unless asked otherwise. Cascading to children
+ * and purging after the retention window happen in the database (see the
+ * soft_delete migration).
+ */
+
+export const DELETED_AT = "deleted_at";
+
+type SoftDeletedTable = {
+  [K in TableName]: typeof DELETED_AT extends keyof RowOf<K> ? K : never;
+}[TableName];
+
+// Tables with a `deleted_at` column; typed so that it must list every one
+const SOFT_DELETED_TABLES: Record<SoftDeletedTable, true> = {
+  academic_year: true,
+  building: true,
+  collage: true,
+  course: true,
+  course_offering: true,
+  department: true,
+  faculty: true,
+  room: true,
+  student: true,
+  term: true,
+  university: true,
+};
+
+function isSoftDeleted(relation: string): boolean {
+  return Object.hasOwn(SOFT_DELETED_TABLES, relation);
+}
+
+/**
+ * Which rows a read returns: live ones (the default), all of them, or only
+ * the deleted ones (the "trash").
+ */
+export type DeletedFilter = "exclude" | "include" | "only";
+
+const DELETED_FILTERS = new Map<string, DeletedFilter>([
+  ["false", "exclude"],
+  ["true", "include"],
+  ["only", "only"],
+]);
+
+/**
+ * The subset of the PostgREST filter builder soft delete relies on.
+ */
+interface QueryBuilder {
+  is(column: string, value: null): this;
+  not(column: string, operator: string, value: null): this;
+}
+
+/**
+ * Parses `?includeDeleted=true|only`.
+ */
+export function parseDeletedFilter(
+  searchParams: URLSearchParams
+): ParseResult<DeletedFilter> {
+  const raw = searchParams.get("includeDeleted");
+  if (raw === null) {
+    return { success: true, data: "exclude" };
+  }
+  const filter = DELETED_FILTERS.get(raw);
+  if (!filter) {
+    return {
+      success: false,
+      error: {
+        formErrors: [],
+        fieldErrors: { includeDeleted: ["Expected true, false or only."] },
+      },
+    };
+  }
+  return { success: true, data: filter };
+}
+
+/**
+ * Restricts a query to live (or deleted) rows of a soft-deleting resource.
+ * For live rows embedded relations that soft delete are filtered too, so a
+ * university never lists deleted colleges.
+ */
+export function applyDeletedFilter<Q extends QueryBuilder>(
+  builder: Q,
+  softDelete: boolean | undefined,
+  filter: DeletedFilter = "exclude",
+  embeds: readonly string[] = []
+): Q {
+  if (!softDelete) {
+    return builder;
+  }
+  if (filter === "only") {
+    return builder.not(DELETED_AT, "is", null);
+  }
+  if (filter === "include") {
+    return builder;
+  }
+  let query = builder.is(DELETED_AT, null);
+  for (const relation of embeds.filter(isSoftDeleted)) {
+    query = query.is(`${relation}.${DELETED_AT}`, null);
+  }
+  return query;
+}
+
+/**
+ * The update that moves a row to the trash.
+ */
+export function softDeleteUpdate() {
+  return { [DELETED_AT]: new Date().toISOString() };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, readSpreadsheet } from "./spreadsheet";
+
+describe("parseCsv", () => {
+  it("reads quoted commas, quotes and line breaks", () => {
+    expect(
+      parseCsv('name,notes\r\n"Tech, Inc.","say ""hi""\nthere"\n')
+    ).toEqual([
+      { number: 1, cells: ["name", "notes"] },
+      { number: 2, cells: ["Tech, Inc.", 'say "hi"\nthere'] },
+    ]);
+  });
+
+  it("numbers records by the line they start on", () => {
+    const rows = parseCsv('name,notes\nA,"two\r\nlines"\nB,\n"C",x');
+    expect(rows.map(({ number, cells }) => [number, cells[0]])).toEqual([
+      [1, "name"],
+      [2, "A"],
+      [4, "B"],
+      [5, "C"],
+    ]);
+  });
+
+  it("ignores a byte order mark", () => {
+    expect(parseCsv("\uFEFFname\nA")).toEqual([
+      { number: 1, cells: ["name"] },
+      { number: 2, cells: ["A"] },
+    ]);
+  });
+});
+
+describe("readSpreadsheet", () => {
+  it("reads a CSV upload as one sheet, skipping blank rows", async () => {
+    const file = new File(
+      [' name , code\nTech,"T\n1"\n,\nArts,A\n'],
+      "universities.csv",
+      { type: "text/csv" }
+    );
+    expect(await readSpreadsheet(file, "csv")).toEqual([
+      {
+        name: "universities",
+        header: ["name", "code"],
+        rows: [
+          { number: 2, cells: ["Tech", "T\n1"] },
+          { number: 5, cells: ["Arts", "A"] },
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+import ExcelJS from "exceljs";
+
+/**
+ * Reading of CSV and XLSX uploads into plain rows of strings.
+ */
+
+export interface SheetRow {
+  // 1-based row number as shown in a spreadsheet, for error messages
+  number: number;
+  cells: string[];
+}
+
+export interface Sheet {
+  name: string;
+  header: string[];
+  rows: SheetRow[];
+}
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/**
+ * Detects the upload format from its file name or MIME type.
+ */
+export function detectFormat(file: File): SpreadsheetFormat | null {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx") || file.type === XLSX_MIME_TYPE) return "xlsx";
+  if (name.endsWith(".csv") || file.type === "text/csv") return "csv";
+  return null;
+}
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, quotes ("") and
+ * line breaks. Returns one row per record, numbered by the line it starts on.
+ */
+export function parseCsv(text: string): SheetRow[] {
+  const records: SheetRow[] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        // Line breaks inside a field still move to the next line
+        if (char === "\n" || (char === "\r" && input[i + 1] !== "\n")) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      record.push(field);
+      records.push({ number: start, cells: record });
+      record = [];
+      field = "";
+      start = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push({ number: start, cells: record });
+  }
+  return records;
+}
+
+function toSheet(name: string, rows: SheetRow[]): Sheet {
+  const [header, ...body] = rows;
+  return {
+    name,
+    header: (header?.cells ?? []).map((cell) => cell.trim()),
+    // Rows with nothing but blanks are padding, not data
+    rows: body.filter(({ cells }) => cells.some((cell) => cell.trim() !== "")),
+  };
+}
+
+/**
+ * Reads every sheet of an upload. A CSV file yields a single sheet named
+ * after the file.
+ */
+export async function readSpreadsheet(
+  file: File,
+  format: SpreadsheetFormat
+): Promise<Sheet[]> {
+  if (format === "csv") {
+    const rows = parseCsv(await file.text());
+    return [toSheet(file.name.replace(/\.csv$/i, ""), rows)];
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  return workbook.worksheets.map((worksheet) => {
+    const rows: SheetRow[] = [];
+    worksheet.eachRow((row, number) => {
+      const cells: string[] = [];
+      for (let column = 1; column <= worksheet.columnCount; column++) {
+        cells.push(row.getCell(column).text ?? "");
+      }
+      rows.push({ number, cells });
+    });
+    return toSheet(worksheet.name, rows);
+  });
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { Caller, RoleAssignment } from "./auth";
+import { applyTenantScope, scopeTenantWrite, tenantScope } from "./tenant";
+
+const caller = (...roles: Partial<RoleAssignment>[]): Caller => ({
+  id: "user-1",
+  email: null,
+  roles: roles.map((role) => ({
+    role: "university_admin",
+    uni_id: null,
+    collage_id: null,
+    department_id: null,
+    ...role,
+  })),
+});
+
+const admin = caller({ role: "platform_admin" });
+const tech = caller({ uni_id: "tech" }, { role: "faculty", uni_id: "tech" });
+const twoUniversities = caller({ uni_id: "tech" }, { uni_id: "arts" });
+
+describe("tenantScope", () => {
+  it("leaves platform admins unrestricted", () => {
+    expect(tenantScope(admin)).toBeNull();
+  });
+
+  it("lists each of the caller's universities once", () => {
+    expect(tenantScope(tech)).toEqual(["tech"]);
+    expect(tenantScope(twoUniversities)).toEqual(["tech", "arts"]);
+  });
+});
+
+describe("applyTenantScope", () => {
+  // Records the filters applied to it
+  const builder = () => {
+    const filters: [string, readonly string[]][] = [];
+    const query = {
+      in(column: string, values: readonly string[]) {
+        filters.push([column, values]);
+        return query;
+      },
+    };
+    return { query, filters };
+  };
+
+  it("filters the tenant column by the caller's universities", () => {
+    const { query, filters } = builder();
+    applyTenantScope(query, "uni_id", twoUniversities);
+    expect(filters).toEqual([["uni_id", ["tech", "arts"]]]);
+  });
+
+  it("leaves resources without a tenant column and admins alone", () => {
+    const { query, filters } = builder();
+    applyTenantScope(query, undefined, tech);
+    applyTenantScope(query, "uni_id", admin);
+    expect(filters).toEqual([]);
+  });
+});
+
+describe("scopeTenantWrite", () => {
+  const create = { isCreate: true };
+  const update = { isCreate: false };
+
+  it("fills in the caller's only university", () => {
+    expect(scopeTenantWrite(tech, "uni_id", { name: "Maths" }, create)).toEqual(
+      { success: true, data: { name: "Maths", uni_id: "tech" } }
+    );
+  });
+
+  it("needs the university when the caller has several", () => {
+    expect(
+      scopeTenantWrite(twoUniversities, "uni_id", { name: "Maths" }, create)
+    ).toMatchObject({ success: false, status: 422 });
+  });
+
+  it("refuses rows for other universities", () => {
+    expect(
+      scopeTenantWrite(tech, "uni_id", { uni_id: "arts" }, update)
+    ).toMatchObject({ success: false, code: "FORBIDDEN", status: 403 });
+  });
+
+  it("lets an update leave the university unchanged", () => {
+    expect(
+      scopeTenantWrite(twoUniversities, "uni_id", { name: "Maths" }, update)
+    ).toEqual({ success: true, data: { name: "Maths" } });
+  });
+});
@@ -0,0 +1,95 @@
+import { ErrorCode, HttpStatus } from "@edunity/helpers";
+import type { Caller } from "./auth";
+
+/**
+ * Tenant scoping: every university is a tenant, and callers only see and
+ * write rows belonging to the universities their roles are assigned to.
+ * Row Level Security enforces the same boundary in the database.
+ */
+
+/**
+ * The subset of the PostgREST filter builder tenant scoping relies on.
+ */
+interface QueryBuilder {
+  in(column: string, values: readonly string[]): this;
+}
+
+export type TenantWriteResult<D> =
+  | { success: true; data: D }
+  | {
+      success: false;
+      code: ErrorCode;
+      status: HttpStatus;
+      message: string;
+    };
+
+/**
+ * Universities the caller may act on, or `null` when they are unrestricted
+ * (platform admins).
+ */
+export function tenantScope(caller: Caller): string[] | null {
+  if (caller.roles.some(({ role }) => role === "platform_admin")) {
+    return null;
+  }
+  const universities = caller.roles
+    .map(({ uni_id }) => uni_id)
+    .filter((uniId): uniId is string => uniId !== null);
+  return [...new Set(universities)];
+}
+
+/**
+ * Restricts a query to rows whose tenant column is one of the caller's
+ * universities. Resources without a tenant column are left untouched.
+ */
+export function applyTenantScope<Q extends QueryBuilder>(
+  builder: Q,
+  column: string | undefined,
+  caller: Caller
+): Q {
+  const scope = tenantScope(caller);
+  return column && scope ? builder.in(column, scope) : builder;
+}
+
+/**
+ * Checks the tenant column of a row about to be written. When creating a row
+ * without one, it is filled in if the caller belongs to exactly one
+ * university (unless the tenant column is the row's own primary key).
+ */
+export function scopeTenantWrite<D extends Record<string, unknown>>(
+  caller: Caller,
+  column: string | undefined,
+  data: D,
+  { isCreate }: { isCreate: boolean }
+): TenantWriteResult<D> {
+  const scope = tenantScope(caller);
+  if (!column || !scope) {
+    return { success: true, data };
+  }
+
+  const value = data[column];
+  if (value === undefined || value === null) {
+    if (!isCreate || column === "id") {
+      return { success: true, data };
+    }
+    const [onlyUniversity] = scope;
+    if (scope.length !== 1 || !onlyUniversity) {
+      return {
+        success: false,
+        code: ErrorCode.VALIDATION_ERROR,
+        status: HttpStatus.UNPROCESSABLE_ENTITY,
+        message: `'${column}' is required unless you belong to exactly one university.`,
+      };
+    }
+    return { success: true, data: { ...data, [column]: onlyUniversity } };
+  }
+
+  if (typeof value !== "string" || !scope.includes(value)) {
+    return {
+      success: false,
+      code: ErrorCode.FORBIDDEN,
+      status: HttpStatus.FORBIDDEN,
+      message: `You cannot write records for university '${String(value)}'.`,
+    };
+  }
+  return { success: true, data };
+}
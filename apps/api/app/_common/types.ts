@@ -0,0 +1,58 @@
+import type {
+  createServerSideClient,
+  Database,
+  UntypedServerClient,
+} from "@edunity/supabase";
+
+type PublicTables = Database["public"]["Tables"];
+
+/**
+ * The typed Supabase client handed to every factory handler.
+ */
+export type ServerClient = Awaited<ReturnType<typeof createServerSideClient>>;
+
+/**
+ * The same client seen without the generated schema. The CRUD and bulk
+ * factories choose their table at runtime, which the typed query builder
+ * cannot follow.
+ */
+export type TableClient = UntypedServerClient;
+
+/**
+ * Any table in the public schema.
+ */
+export type TableName = keyof PublicTables;
+
+/**
+ * Tables referenced by a foreign key on `T` (e.g. `department` -> `collage`).
+ */
+type ForwardRelation<T extends TableName> =
+  PublicTables[T]["Relationships"][number]["referencedRelation"];
+
+/**
+ * Tables holding a foreign key that points at `T` (e.g. `university` -> `collage`).
+ */
+type ReverseRelation<T extends TableName> = {
+  [K in TableName]: T extends PublicTables[K]["Relationships"][number]["referencedRelation"]
+    ? K
+    : never;
+}[TableName];
+
+/**
+ * Every table PostgREST can embed from `T`, derived from the foreign keys
+ * declared in the generated `Database` types.
+ */
+export type RelationName<T extends TableName> =
+  | ForwardRelation<T>
+  | ReverseRelation<T>;
+
+/**
+ * Column names of the rows stored in `T`.
+ */
+export type ColumnName<T extends TableName> = keyof PublicTables[T]["Row"] &
+  string;
+
+/**
+ * A row of `T`, as `select()` returns it.
+ */
+export type RowOf<T extends TableName> = PublicTables[T]["Row"];
@@ -0,0 +1,4 @@
+import { academicYearHandlers } from "../../handlers";
+
+// Restore a deleted academic year, along with anything deleted together with it
+export const { POST } = academicYearHandlers.restore;
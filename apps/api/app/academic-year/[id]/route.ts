@@ -0,0 +1,4 @@
+import { academicYearHandlers } from "../handlers";
+
+// Item routes: fetch, update, patch or delete a single academic year by id
+export const { GET, PUT, PATCH, DELETE } = academicYearHandlers.item;
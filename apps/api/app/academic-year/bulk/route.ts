@@ -0,0 +1,4 @@
+import { academicYearHandlers } from "../handlers";
+
+// Bulk routes: create, update and delete many academic years at once
+export const { POST, PUT, DELETE } = academicYearHandlers.bulk;
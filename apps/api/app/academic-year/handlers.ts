@@ -0,0 +1,35 @@
+import { academicYearContract } from "@edunity/contracts";
+import { createCrudHandlers } from "../_common/crudFactory"; // Import our new factory
+import { requireUniversity } from "../_common/hierarchy";
+
+// 1. The request schemas and embeddable relations are shared with the SDK
+// (see packages/contracts/resources.ts)
+
+// 2. Generate the handlers by calling the factory with your configuration
+export const academicYearHandlers = createCrudHandlers({
+  tableName: "academic_year",
+  resourceName: "Academic year",
+  ...academicYearContract,
+  columns: [
+    "id",
+    "name",
+    "uni_id",
+    "starts_on",
+    "ends_on",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+  ],
+  tenantColumn: "uni_id",
+  softDelete: true,
+  versionColumn: "updated_at",
+  // Platform admins must name the university
+  beforeInsert: requireUniversity(
+    "An academic year must belong to a university."
+  ),
+  roles: {
+    POST: ["university_admin"],
+    PUT: ["university_admin"],
+    DELETE: ["university_admin"],
+  },
+});
@@ -0,0 +1,4 @@
+import { auditHandlers } from "../handlers";
+
+// Item routes: fetch a single audit entry by id
+export const { GET } = auditHandlers.item;
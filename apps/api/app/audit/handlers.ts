@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { createCrudHandlers } from "../_common/crudFactory";
+
+// Audit entries are written by database triggers (see the audit triggers
+// migration), so the write schemas accept nothing and only the GET handlers
+// are routed.
+const readOnlySchema = z.never();
+
+export const auditHandlers = createCrudHandlers({
+  tableName: "audit_log",
+  resourceName: "Audit entry",
+  createSchema: readOnlySchema,
+  updateSchema: readOnlySchema,
+  columns: [
+    "id",
+    "created_at",
+    "actor_id",
+    "table_name",
+    "row_id",
+    "action",
+    "before",
+    "after",
+    "request_id",
+    "uni_id",
+  ],
+  // Entries for shared tables (no university) are visible to platform admins
+  tenantColumn: "uni_id",
+  roles: {
+    GET: ["university_admin"],
+  },
+});
@@ -0,0 +1,5 @@
+import { auditHandlers } from "./handlers";
+
+// Collection route: list (and export) audit entries, filtered like any other
+// resource, e.g. `?table_name=eq.collage&row_id=eq.<id>&sort=-created_at`
+export const { GET } = auditHandlers;
@@ -0,0 +1,4 @@
+import { buildingHandlers } from "../../handlers";
+
+// Restore a deleted building, along with anything deleted together with it
+export const { POST } = buildingHandlers.restore;
@@ -0,0 +1,5 @@
+import { childListRoute } from "../../../_common/nested";
+import { roomHandlers } from "../../../room/handlers";
+
+// The building's rooms, with every option of the /room list
+export const GET = childListRoute(roomHandlers.GET, "building_id");
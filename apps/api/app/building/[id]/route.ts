@@ -0,0 +1,4 @@
+import { buildingHandlers } from "../handlers";
+
+// Item routes: fetch, update, patch or delete a single building by id
+export const { GET, PUT, PATCH, DELETE } = buildingHandlers.item;
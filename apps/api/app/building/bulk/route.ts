@@ -0,0 +1,4 @@
+import { buildingHandlers } from "../handlers";
+
+// Bulk routes: create, update and delete many buildings at once
+export const { POST, PUT, DELETE } = buildingHandlers.bulk;
@@ -0,0 +1,37 @@
+import { buildingContract } from "@edunity/contracts";
+import { createCrudHandlers } from "../_common/crudFactory"; // Import our new factory
+import {
+  inheritUniversity,
+  inheritUniversityChange,
+} from "../_common/hierarchy";
+
+// 1. The request schemas and embeddable relations are shared with the SDK
+// (see packages/contracts/resources.ts)
+
+// 2. Generate the handlers by calling the factory with your configuration
+export const buildingHandlers = createCrudHandlers({
+  tableName: "building",
+  resourceName: "Building",
+  ...buildingContract,
+  columns: [
+    "id",
+    "code",
+    "name",
+    "address",
+    "uni_id",
+    "collage_id",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+  ],
+  tenantColumn: "uni_id",
+  softDelete: true,
+  versionColumn: "updated_at",
+  beforeInsert: inheritUniversity("collage"),
+  beforeUpdate: inheritUniversityChange("collage"),
+  roles: {
+    POST: ["university_admin", "college_admin"],
+    PUT: ["university_admin", "college_admin"],
+    DELETE: ["university_admin", "college_admin"],
+  },
+});
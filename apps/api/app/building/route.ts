@@ -0,0 +1,4 @@
+import { buildingHandlers } from "./handlers";
+
+// Collection routes: list, create, update and delete
+export const { GET, POST, PUT, DELETE } = buildingHandlers;
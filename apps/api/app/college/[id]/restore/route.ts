@@ -0,0 +1,4 @@
+import { collegeHandlers } from "../../handlers";
+
+// Restore a deleted college, along with anything deleted together with it
+export const { POST } = collegeHandlers.restore;
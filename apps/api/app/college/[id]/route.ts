@@ -0,0 +1,4 @@
+import { collegeHandlers } from "../handlers";
+
+// Item routes: fetch, update, patch or delete a single college by id
+export const { GET, PUT, PATCH, DELETE } = collegeHandlers.item;
@@ -0,0 +1,4 @@
+import { collegeHandlers } from "../handlers";
+
+// Bulk routes: create, update and delete many colleges at once
+export const { POST, PUT, DELETE } = collegeHandlers.bulk;
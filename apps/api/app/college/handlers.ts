@@ -0,0 +1,35 @@
+import { collegeContract, collegeMetadata } from "@edunity/contracts";
+import { createCrudHandlers } from "../_common/crudFactory"; // Import our new factory
+import { checkCollegeParent } from "../_common/hierarchy";
+import { upgradeStoredMetadata } from "../_common/metadata";
+
+// 1. The request schemas and embeddable relations are shared with the SDK
+// (see packages/contracts/resources.ts)
+
+// 2. Generate the handlers by calling the factory with your configuration
+export const collegeHandlers = createCrudHandlers({
+  tableName: "collage",
+  resourceName: "College",
+  ...collegeContract,
+  columns: [
+    "id",
+    "name",
+    "uni_id",
+    "metadata",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+  ],
+  tenantColumn: "uni_id",
+  softDelete: true,
+  versionColumn: "updated_at",
+  // Stored metadata is read in its current schema version
+  afterGet: upgradeStoredMetadata(collegeMetadata),
+  // Platform admins must name the university
+  beforeInsert: checkCollegeParent,
+  roles: {
+    POST: ["university_admin"],
+    PUT: ["university_admin", "college_admin"],
+    DELETE: ["university_admin"],
+  },
+});
@@ -0,0 +1,8 @@
+import { childListRoute } from "../../../_common/nested";
+import { requisiteHandlers } from "../../../requisite/handlers";
+
+// What the course requires, with every option of the /requisite list
+export const GET = childListRoute(requisiteHandlers.GET, "course_id", {
+  column: "id",
+  type: "integer",
+});
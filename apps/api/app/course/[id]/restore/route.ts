@@ -0,0 +1,4 @@
+import { courseHandlers } from "../../handlers";
+
+// Restore a deleted course
+export const { POST } = courseHandlers.restore;
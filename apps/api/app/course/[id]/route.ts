@@ -0,0 +1,4 @@
+import { courseHandlers } from "../handlers";
+
+// Item routes: fetch, update, patch or delete a single course by id
+export const { GET, PUT, PATCH, DELETE } = courseHandlers.item;
@@ -0,0 +1,4 @@
+import { courseHandlers } from "../handlers";
+
+// Bulk routes: create, update and delete many courses at once
+export const { POST, PUT, DELETE } = courseHandlers.bulk;
@@ -0,0 +1,39 @@
+import { courseContract } from "@edunity/contracts";
+import { createCrudHandlers } from "../_common/crudFactory"; // Import our new factory
+import {
+  checkCourseDepartment,
+  checkCourseDepartmentChange,
+  checkCourseOwner,
+} from "../_common/hierarchy";
+
+// 1. The request schemas and embeddable relations are shared with the SDK
+// (see packages/contracts/resources.ts)
+
+// 2. Generate the handlers by calling the factory with your configuration
+export const courseHandlers = createCrudHandlers({
+  tableName: "course",
+  resourceName: "Course",
+  ...courseContract,
+  columns: [
+    "id",
+    "name",
+    "length",
+    "department_id",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+  ],
+  primaryKey: { column: "id", type: "integer" },
+  softDelete: true,
+  versionColumn: "updated_at",
+  // Courses belong to their department's university; only that university's
+  // staff may change them or attach them to its departments
+  beforeInsert: checkCourseDepartment,
+  beforeUpdate: checkCourseDepartmentChange,
+  beforeDelete: checkCourseOwner,
+  roles: {
+    POST: ["university_admin", "college_admin", "department_staff"],
+    PUT: ["university_admin", "college_admin", "department_staff"],
+    DELETE: ["university_admin", "college_admin"],
+  },
+});
@@ -0,0 +1,6 @@
+import { childListRoute } from "../../../_common/nested";
+import { offeringHandlers } from "../../../offering/handlers";
+
+// The department's course offerings, with every option of the /offering
+// list; add `?term_id=eq.<id>` for one term
+export const GET = childListRoute(offeringHandlers.GET, "department_id");
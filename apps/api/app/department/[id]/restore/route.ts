@@ -0,0 +1,4 @@
+import { departmentHandlers } from "../../handlers";
+
+// Restore a deleted department, along with anything deleted together with it
+export const { POST } = departmentHandlers.restore;
@@ -0,0 +1,4 @@
+import { departmentHandlers } from "../handlers";
+
+// Item routes: fetch, update, patch or delete a single department by id
+export const { GET, PUT, PATCH, DELETE } = departmentHandlers.item;
@@ -0,0 +1,4 @@
+import { departmentHandlers } from "../handlers";
+
+// Bulk routes: create, update and delete many departments at once
+export const { POST, PUT, DELETE } = departmentHandlers.bulk;
@@ -0,0 +1,36 @@
+import { departmentContract } from "@edunity/contracts";
+import { createCrudHandlers } from "../_common/crudFactory"; // Import our new factory
+import {
+  checkDepartmentParentChanges,
+  checkDepartmentParents,
+} from "../_common/hierarchy";
+
+// 1. The request schemas and embeddable relations are shared with the SDK
+// (see packages/contracts/resources.ts)
+
+// 2. Generate the handlers by calling the factory with your configuration
+export const departmentHandlers = createCrudHandlers({
+  tableName: "department",
+  resourceName: "Department",
+  ...departmentContract,
+  columns: [
+    "id",
+    "name",
+    "uni_id",
+    "collage_id",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+  ],
+  tenantColumn: "uni_id",
+  softDelete: true,
+  versionColumn: "updated_at",
+  // The college must belong to the department's university
+  beforeInsert: checkDepartmentParents,
+  beforeUpdate: checkDepartmentParentChanges,
+  roles: {
+    POST: ["university_admin", "college_admin"],
+    PUT: ["university_admin", "college_admin"],
+    DELETE: ["university_admin", "college_admin"],
+  },
+});
@@ -0,0 +1,48 @@
+// Interactive API reference rendered from /openapi.json. Paste an access
+// token under "Authorize" to try requests; it is kept for this page only and
+// never written to storage.
+//
+// Swagger UI is pinned to an exact release and checked against its
+// Subresource Integrity hashes, so the CDN cannot serve different code. Take
+// new hashes from the release's files when upgrading.
+const SWAGGER_UI = "https://unpkg.com/swagger-ui-dist@5.33.0";
+const SWAGGER_UI_CSS_INTEGRITY =
+  "sha384-Ov4/wv3j2bmct8cDc5X4ngJZohVPzEmc6uDPH8WeljUxO5vtoykvMEfbu9Vh6RaW";
+const SWAGGER_UI_JS_INTEGRITY =
+  "sha384-YDALVcy8kj8yltLBVi1vBiBAUqdxvus673gM8XKwiy6aDUJFXivF/KCufekjYbVf";
+
+const page = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Edunity API</title>
+    <link
+      rel="stylesheet"
+      href="${SWAGGER_UI}/swagger-ui.css"
+      integrity="${SWAGGER_UI_CSS_INTEGRITY}"
+      crossorigin="anonymous"
+    />
+  </head>
+  <body>
+    <div id="docs"></div>
+    <script
+      src="${SWAGGER_UI}/swagger-ui-bundle.js"
+      integrity="${SWAGGER_UI_JS_INTEGRITY}"
+      crossorigin="anonymous"
+    ></script>
+    <script>
+      SwaggerUIBundle({
+        url: "/openapi.json",
+        dom_id: "#docs",
+      });
+    </script>
+  </body>
+</html>
+`;
+
+export function GET() {
+  return new Response(page, {
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
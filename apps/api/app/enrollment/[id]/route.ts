@@ -0,0 +1,21 @@
+import { NextRequest } from "next/server";
+import type { ItemRouteContext } from "../../_common/crudFactory";
+import { handleRequest } from "../../_common/handleRequest";
+import { middlewareFor } from "../../_common/middleware";
+import { dropHandler } from "../enrollment";
+import { enrollmentHandlers } from "../handlers";
+
+const { roles, middleware = {} } = enrollmentHandlers.config;
+
+// Item routes: fetch, grade or drop a single enrollment by id
+export const { GET, PUT, PATCH } = enrollmentHandlers.item;
+
+export async function DELETE(request: NextRequest, route: ItemRouteContext) {
+  const { id } = await route.params;
+  return handleRequest(
+    request,
+    roles?.DELETE,
+    dropHandler(id),
+    middlewareFor(middleware, "DELETE")
+  );
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import type { RowOf } from "../_common/types";
+import { checkGradable, enrollmentErrorResponse } from "./enrollment";
+
+const enrollment = (status: string) =>
+  ({ id: "e1", status }) as RowOf<"enrollment">;
+
+describe("enrollmentErrorResponse", () => {
+  it("maps the enrollment functions' errors to API errors", async () => {
+    const cases = [
+      ["P0002", 404, "NOT_FOUND"],
+      ["42501", 403, "FORBIDDEN"],
+      ["EN003", 409, "CONFLICT"],
+      ["EN001", 409, "DEADLINE_PASSED"],
+      ["XX000", 500, "SUPABASE_QUERY_ERROR"],
+    ] as const;
+    for (const [code, status, errorCode] of cases) {
+      const response = enrollmentErrorResponse({ code, message: "Refused" });
+      expect(response.status).toBe(status);
+      expect((await response.json()).error.code).toBe(errorCode);
+    }
+  });
+
+  it("lists the requisites a student is missing", async () => {
+    const missing = [{ course_id: 7, kind: "prerequisite" }];
+    const response = enrollmentErrorResponse({
+      code: "EN002",
+      message: "Requisites not met",
+      details: JSON.stringify(missing),
+    });
+    expect(response.status).toBe(422);
+    expect((await response.json()).error).toMatchObject({
+      code: "REQUISITES_NOT_MET",
+      details: { missing },
+    });
+  });
+
+  it("tolerates a DETAIL that is not a list", async () => {
+    const response = enrollmentErrorResponse({
+      code: "EN002",
+      message: "Requisites not met",
+      details: "see the course page",
+    });
+    expect((await response.json()).error.details).toEqual({ missing: [] });
+  });
+});
+
+describe("checkGradable", () => {
+  it("grades enrolled students", async () => {
+    const changes = { status: "completed" as const, grade: "A" };
+    expect(await checkGradable(changes, enrollment("enrolled"))).toBe(changes);
+  });
+
+  it("corrects the grade of a completed enrollment", async () => {
+    const changes = { grade: "B" };
+    expect(await checkGradable(changes, enrollment("completed"))).toBe(changes);
+  });
+
+  it("refuses waitlisted and dropped students", async () => {
+    for (const status of ["waitlisted", "dropped"]) {
+      const result = await checkGradable({ grade: "A" }, enrollment(status));
+      expect((result as Response).status).toBe(409);
+    }
+  });
+
+  it("refuses to change a recorded outcome", async () => {
+    const result = await checkGradable(
+      { status: "failed" },
+      enrollment("completed")
+    );
+    expect((result as Response).status).toBe(409);
+  });
+});
@@ -0,0 +1,222 @@
+import {
+  enrollSchema,
+  GRADED_STATUSES,
+  type UnmetRequisite,
+} from "@edunity/contracts";
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers";
+import type { Tables } from "@edunity/supabase";
+import { checkIfMatch, withEtag } from "../_common/etag";
+import type { handleRequest } from "../_common/handleRequest";
+import type { Halt } from "../_common/hooks";
+import {
+  DEFAULT_PRIMARY_KEY,
+  formatKey,
+  parseKey,
+  parsePathKey,
+} from "../_common/primaryKey";
+import { applyTenantScope } from "../_common/tenant";
+import type { RowOf } from "../_common/types";
+
+/**
+ * Enrollment goes through the `enroll` and `drop_enrollment` database
+ * functions (see the enrollment migration), which lock the offering so seats,
+ * the waitlist and the term's deadlines are checked in one transaction. This
+ * module holds what their routes share; the request schemas are in
+ * packages/contracts/enrollment.ts.
+ */
+
+export type Enrollment = Tables<"enrollment">;
+
+/**
+ * The requisites listed in an EN002 error's DETAIL.
+ */
+function unmetRequisites(details: string | undefined): UnmetRequisite[] {
+  try {
+    const parsed = JSON.parse(details ?? "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Maps an error raised by `enroll` or `drop_enrollment` to a response.
+ */
+export function enrollmentErrorResponse(error: {
+  code?: string;
+  message: string;
+  details?: string;
+}) {
+  switch (error.code) {
+    case "P0002":
+      return ApiResponse.error(
+        ErrorCode.NOT_FOUND,
+        `${error.message}.`,
+        HttpStatus.NOT_FOUND
+      );
+    case "42501":
+      return ApiResponse.error(
+        ErrorCode.FORBIDDEN,
+        `${error.message}.`,
+        HttpStatus.FORBIDDEN
+      );
+    case "23505":
+    case "EN003":
+      return ApiResponse.error(
+        ErrorCode.CONFLICT,
+        `${error.message}.`,
+        HttpStatus.CONFLICT
+      );
+    case "EN001":
+      return ApiResponse.error(
+        ErrorCode.DEADLINE_PASSED,
+        `${error.message}.`,
+        HttpStatus.CONFLICT
+      );
+    case "EN002":
+      return ApiResponse.error(
+        ErrorCode.REQUISITES_NOT_MET,
+        `${error.message}.`,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+        { missing: unmetRequisites(error.details) }
+      );
+    case "23514":
+      return ApiResponse.error(
+        ErrorCode.VALIDATION_ERROR,
+        "Inconsistent parent records.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+        { formErrors: [error.message], fieldErrors: {} }
+      );
+    default:
+      return ApiResponse.error(
+        ErrorCode.SUPABASE_QUERY_ERROR,
+        error.message,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+  }
+}
+
+/**
+ * `beforeUpdate` for enrollments: only enrolled students can be marked
+ * completed or failed, and waitlisted and dropped students have no grade to
+ * record. The database enforces the same rules (see the enrollment
+ * transitions migration).
+ */
+export async function checkGradable(
+  changes: Partial<RowOf<"enrollment">>,
+  before: RowOf<"enrollment">
+): Promise<Partial<RowOf<"enrollment">> | Halt> {
+  if (!(GRADED_STATUSES as readonly string[]).includes(before.status)) {
+    return ApiResponse.error(
+      ErrorCode.CONFLICT,
+      `Enrollment ${before.id} is ${before.status}; only enrolled students can be graded.`,
+      HttpStatus.CONFLICT
+    );
+  }
+  if (
+    changes.status !== undefined &&
+    changes.status !== before.status &&
+    before.status !== "enrolled"
+  ) {
+    return ApiResponse.error(
+      ErrorCode.CONFLICT,
+      `Enrollment ${before.id} is already ${before.status}; only enrolled students can be marked ${changes.status}.`,
+      HttpStatus.CONFLICT
+    );
+  }
+  return changes;
+}
+
+type RequestHandler = Parameters<typeof handleRequest>[2];
+
+/**
+ * Enrolls a student in an offering, or puts them on its waitlist when it is
+ * full.
+ */
+export const enrollHandler: RequestHandler = async (supabase, req) => {
+  const body = await req.json().catch(() => null);
+  const validation = enrollSchema.safeParse(body);
+  if (!validation.success) {
+    return ApiResponse.error(
+      ErrorCode.VALIDATION_ERROR,
+      "Invalid input.",
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      validation.error.flatten()
+    );
+  }
+
+  const { data, error } = await supabase.rpc("enroll", {
+    offering: validation.data.offering_id,
+    student: validation.data.student_id,
+  });
+  if (error) {
+    return enrollmentErrorResponse(error);
+  }
+
+  return withEtag(
+    ApiResponse.success<Enrollment>(data, HttpStatus.CREATED),
+    data,
+    "updated_at"
+  );
+};
+
+/**
+ * Drops an enrollment, or takes the student off the waitlist; a freed seat
+ * goes to the next student waiting. Mounted on the collection route (id in
+ * the body) and the item route, like the factory's DELETE.
+ */
+export const dropHandler =
+  (pathId: string | null): RequestHandler =>
+  async (supabase, req, caller) => {
+    const body = pathId === null ? await req.json().catch(() => null) : null;
+    const key =
+      pathId === null
+        ? parseKey(DEFAULT_PRIMARY_KEY, body ?? {})
+        : parsePathKey(DEFAULT_PRIMARY_KEY, pathId);
+    if (!key.success) {
+      return ApiResponse.error(
+        ErrorCode.BAD_REQUEST,
+        "A valid Enrollment id is required to drop it.",
+        HttpStatus.BAD_REQUEST,
+        key.error
+      );
+    }
+    const id = formatKey(key.data);
+
+    const { data: current, error: lookupError } = await applyTenantScope(
+      supabase.from("enrollment").select().eq("id", id),
+      "uni_id",
+      caller
+    ).maybeSingle();
+    if (lookupError) {
+      return ApiResponse.error(
+        ErrorCode.SUPABASE_QUERY_ERROR,
+        lookupError.message,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+    if (!current) {
+      return ApiResponse.error(
+        ErrorCode.NOT_FOUND,
+        `Enrollment with ID ${id} not found.`,
+        HttpStatus.NOT_FOUND
+      );
+    }
+    const precondition = checkIfMatch(req, current, "updated_at", "Enrollment");
+    if (!precondition.success) {
+      return precondition.response;
+    }
+
+    const { data, error } = await supabase.rpc("drop_enrollment", {
+      enrollment_id: id,
+    });
+    if (error) {
+      return enrollmentErrorResponse(error);
+    }
+
+    return withEtag(
+      ApiResponse.success<Enrollment>(data, HttpStatus.OK),
+      data,
+      "updated_at"
+    );
+  };
@@ -0,0 +1,34 @@
+import { enrollmentContract } from "@edunity/contracts";
+import { createCrudHandlers } from "../_common/crudFactory"; // Import our new factory
+import { checkGradable } from "./enrollment";
+
+// 1. The request schemas and embeddable relations are shared with the SDK
+// (see packages/contracts/resources.ts)
+
+// 2. Generate the handlers by calling the factory with your configuration
+export const enrollmentHandlers = createCrudHandlers({
+  tableName: "enrollment",
+  resourceName: "Enrollment",
+  ...enrollmentContract,
+  columns: [
+    "id",
+    "uni_id",
+    "offering_id",
+    "student_id",
+    "status",
+    "grade",
+    "enrolled_at",
+    "waitlisted_at",
+    "dropped_at",
+    "created_at",
+    "updated_at",
+  ],
+  tenantColumn: "uni_id",
+  versionColumn: "updated_at",
+  beforeUpdate: checkGradable,
+  // Students enroll and drop themselves; the database checks who may act
+  // for whom
+  roles: {
+    PUT: ["university_admin", "college_admin", "department_staff", "faculty"],
+  },
+});
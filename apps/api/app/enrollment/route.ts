@@ -0,0 +1,29 @@
+import { NextRequest } from "next/server";
+import { handleRequest } from "../_common/handleRequest";
+import { middlewareFor } from "../_common/middleware";
+import { dropHandler, enrollHandler } from "./enrollment";
+import { enrollmentHandlers } from "./handlers";
+
+const { roles, middleware = {} } = enrollmentHandlers.config;
+
+// Collection routes: list and grade. Enrolling and dropping go through the
+// enrollment database functions rather than plain inserts and deletes.
+export const { GET, PUT } = enrollmentHandlers;
+
+export async function POST(request: NextRequest) {
+  return handleRequest(
+    request,
+    roles?.POST,
+    enrollHandler,
+    middlewareFor(middleware, "POST")
+  );
+}
+
+export async function DELETE(request: NextRequest) {
+  return handleRequest(
+    request,
+    roles?.DELETE,
+    dropHandler(null),
+    middlewareFor(middleware, "DELETE")
+  );
+}
@@ -0,0 +1,89 @@
+import { NextRequest } from "next/server";
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers";
+import type { ItemRouteContext } from "../../../_common/crudFactory";
+import { fetchAll } from "../../../_common/fetchAll";
+import { handleRequest } from "../../../_common/handleRequest";
+import { middlewareFor } from "../../../_common/middleware";
+import {
+  DEFAULT_PRIMARY_KEY,
+  formatKey,
+  parsePathKey,
+} from "../../../_common/primaryKey";
+import { applyTenantScope } from "../../../_common/tenant";
+import {
+  CALENDAR_OFFERING_COLUMNS,
+  calendarResponse,
+  toCalendarOffering,
+} from "../../../scheduler/calendar";
+import { facultyHandlers } from "../../handlers";
+
+const {
+  primaryKey = DEFAULT_PRIMARY_KEY,
+  roles,
+  middleware = {},
+} = facultyHandlers.config;
+
+/**
+ * The instructor's teaching timetable as an iCalendar feed: the meetings of
+ * every offering they teach.
+ */
+export async function GET(request: NextRequest, route: ItemRouteContext) {
+  return handleRequest(
+    request,
+    roles?.GET,
+    async (supabase, _, caller) => {
+      const key = parsePathKey(primaryKey, (await route.params).id);
+      if (!key.success) {
+        return ApiResponse.error(
+          ErrorCode.BAD_REQUEST,
+          "Invalid Faculty id.",
+          HttpStatus.BAD_REQUEST,
+          key.error
+        );
+      }
+
+      const id = formatKey(key.data);
+      const { data: faculty, error: lookupError } = await applyTenantScope(
+        supabase
+          .from("faculty")
+          .select("id, first_name, last_name")
+          .eq("id", id)
+          .is("deleted_at", null),
+        "uni_id",
+        caller
+      ).maybeSingle();
+      if (lookupError) {
+        return ApiResponse.error(
+          ErrorCode.SUPABASE_QUERY_ERROR,
+          lookupError.message,
+          HttpStatus.INTERNAL_SERVER_ERROR
+        );
+      }
+      if (!faculty) {
+        return ApiResponse.error(
+          ErrorCode.NOT_FOUND,
+          `Faculty with ID ${id} not found.`,
+          HttpStatus.NOT_FOUND
+        );
+      }
+
+      const rows = await fetchAll((from, to) =>
+        supabase
+          .from("course_offering")
+          .select(CALENDAR_OFFERING_COLUMNS)
+          .contains("instructor_ids", [id])
+          .is("deleted_at", null)
+          .order("id")
+          .range(from, to)
+      );
+      const offerings = rows.map(toCalendarOffering);
+      return calendarResponse(
+        supabase,
+        `${faculty.first_name} ${faculty.last_name}`,
+        `faculty-${id}`,
+        offerings
+      );
+    },
+    middlewareFor(middleware, "GET")
+  );
+}
@@ -0,0 +1,8 @@
+import { createInvitationHandlers } from "../../../_common/invitation";
+import { facultyHandlers } from "../../handlers";
+
+// Invite the faculty member to sign up (POST), or revoke the invitation
+// (DELETE)
+export const { POST, DELETE } = createInvitationHandlers(
+  facultyHandlers.config
+);
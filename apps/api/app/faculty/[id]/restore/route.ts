@@ -0,0 +1,4 @@
+import { facultyHandlers } from "../../handlers";
+
+// Restore a deleted faculty member, along with anything deleted together with it
+export const { POST } = facultyHandlers.restore;
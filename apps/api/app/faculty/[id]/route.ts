@@ -0,0 +1,4 @@
+import { facultyHandlers } from "../handlers";
+
+// Item routes: fetch, update, patch or delete a single faculty member by id
+export const { GET, PUT, PATCH, DELETE } = facultyHandlers.item;
@@ -0,0 +1,4 @@
+import { facultyHandlers } from "../handlers";
+
+// Bulk routes: create, update and delete many faculty members at once
+export const { POST, PUT, DELETE } = facultyHandlers.bulk;
@@ -0,0 +1,306 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+import type { Caller } from "../_common/auth";
+import type { ServerClient } from "../_common/types";
+import { commitImport, describePlan, planImport } from "./importer";
+import { findEntityByType } from "./mapping";
+
+const UNI = "00000000-0000-4000-8000-000000000001";
+const OTHER_UNI = "00000000-0000-4000-8000-000000000002";
+const MATHS = "00000000-0000-4000-8000-0000000000a1";
+
+const tables: Record<string, Record<string, unknown>[]> = {
+  university: [{ id: UNI, name: "Tech" }],
+  collage: [],
+  department: [
+    { id: MATHS, name: "Maths", uni_id: UNI },
+    {
+      id: "00000000-0000-4000-8000-0000000000b1",
+      name: "Physics",
+      uni_id: UNI,
+    },
+    {
+      id: "00000000-0000-4000-8000-0000000000b2",
+      name: "Physics",
+      uni_id: OTHER_UNI,
+    },
+  ],
+};
+
+interface Writes {
+  inserts: [string, Record<string, unknown>[]][];
+  deletes: [string, unknown[]][];
+}
+
+// Serves the lookups planImport makes, applying their `in` filters, and
+// records the writes commitImport makes. Inserts into `failInsert` fail as
+// duplicates; with `failDelete`, deletes fail.
+function fakeSupabase(
+  writes: Writes = { inserts: [], deletes: [] },
+  { failInsert, failDelete }: { failInsert?: string; failDelete?: boolean } = {}
+) {
+  const from = (table: string) => {
+    let rows = tables[table] ?? [];
+    let result: () => { data: unknown; error: unknown } = () => ({
+      data: rows,
+      error: null,
+    });
+    const builder = {
+      select: () => builder,
+      is: () => builder,
+      in: (column: string, values: readonly unknown[]) => {
+        rows = rows.filter((row) => values.includes(row[column]));
+        return builder;
+      },
+      insert: (records: Record<string, unknown>[]) => {
+        result = () => {
+          if (table === failInsert) {
+            return {
+              data: null,
+              error: { code: "23505", message: "duplicate key" },
+            };
+          }
+          writes.inserts.push([table, records]);
+          return {
+            data: records.map((record, i) => ({
+              id: `${table}-${i}`,
+              ...record,
+            })),
+            error: null,
+          };
+        };
+        return builder;
+      },
+      delete: () => ({
+        in: (_: string, ids: unknown[]) => {
+          result = () => {
+            if (failDelete) {
+              return { data: null, error: { message: "permission denied" } };
+            }
+            writes.deletes.push([table, ids]);
+            return { data: ids.map((id) => ({ id })), error: null };
+          };
+          return builder;
+        },
+      }),
+      then: (resolve: (value: unknown) => unknown) => resolve(result()),
+    };
+    return builder;
+  };
+  return { from } as unknown as ServerClient;
+}
+
+function caller(role: string, uniId: string | null): Caller {
+  return {
+    id: "user",
+    email: null,
+    roles: [
+      {
+        role: role as Caller["roles"][number]["role"],
+        uni_id: uniId,
+        collage_id: null,
+        department_id: null,
+      },
+    ],
+  };
+}
+
+function sheet(type: string, header: string[], rows: string[][]) {
+  return {
+    sheet: {
+      name: type,
+      header,
+      rows: rows.map((cells, i) => ({ number: i + 2, cells })),
+    },
+    entity: findEntityByType(type)!,
+  };
+}
+
+describe("planImport courses", () => {
+  it("resolves departments by name or id within the caller's universities", async () => {
+    const plan = await planImport(
+      fakeSupabase(),
+      caller("university_admin", UNI),
+      [
+        sheet(
+          "course",
+          ["Name", "Department"],
+          [
+            ["Algebra", "Maths"],
+            ["Mechanics", "Physics"],
+            ["Optics", "00000000-0000-4000-8000-0000000000b2"],
+            ["Poetry", "Literature"],
+          ]
+        ),
+      ]
+    );
+    const { rows, errors } = describePlan(plan, false);
+    expect(rows.map(({ status }) => status)).toEqual([
+      "valid",
+      "valid",
+      "invalid",
+      "invalid",
+    ]);
+    expect(rows[0]?.parents.department).toEqual({ id: MATHS, name: "Maths" });
+    expect(errors).toEqual([
+      {
+        sheet: "course",
+        row: 4,
+        column: "department",
+        message: "Unknown department '00000000-0000-4000-8000-0000000000b2'.",
+      },
+      {
+        sheet: "course",
+        row: 5,
+        column: "department",
+        message: "Unknown department 'Literature'.",
+      },
+    ]);
+  });
+
+  it("asks for the university when a department name is ambiguous", async () => {
+    const plan = await planImport(
+      fakeSupabase(),
+      caller("platform_admin", null),
+      [
+        sheet(
+          "course",
+          ["name", "department", "university"],
+          [
+            ["Mechanics", "Physics", ""],
+            ["Optics", "Physics", "Tech"],
+          ]
+        ),
+      ]
+    );
+    expect(plan.errors.map(({ row, message }) => [row, message])).toEqual([
+      [
+        2,
+        "Department name 'Physics' is ambiguous; add its university or use its id.",
+      ],
+    ]);
+    expect(plan.rows[1]?.parents.department).toMatchObject({
+      id: "00000000-0000-4000-8000-0000000000b1",
+    });
+  });
+
+  it("resolves departments created by the same upload", async () => {
+    const plan = await planImport(
+      fakeSupabase(),
+      caller("university_admin", UNI),
+      [
+        sheet("department", ["name", "university"], [["Chemistry", "Tech"]]),
+        sheet("course", ["name", "department"], [["Kinetics", "Chemistry"]]),
+      ]
+    );
+    expect(plan.errors).toEqual([]);
+    expect(plan.rows[1]?.parents.department).toMatchObject({
+      name: "Chemistry",
+      pending: plan.rows[0],
+    });
+  });
+
+  it("keeps the shared catalogue to platform admins", async () => {
+    const targets = [sheet("course", ["name"], [["Logic"]])];
+    const staff = await planImport(
+      fakeSupabase(),
+      caller("department_staff", UNI),
+      targets
+    );
+    expect(staff.errors).toEqual([
+      {
+        sheet: "course",
+        row: 2,
+        column: "department",
+        message:
+          "Only platform admins manage the shared catalogue; name one of your departments.",
+      },
+    ]);
+
+    const admin = await planImport(
+      fakeSupabase(),
+      caller("platform_admin", null),
+      targets
+    );
+    expect(admin.errors).toEqual([]);
+  });
+});
+
+describe("importing", () => {
+  const admin = caller("platform_admin", null);
+  const targets = () => [
+    sheet("university", ["name"], [["Arts"]]),
+    sheet("college", ["name", "university"], [["Music", "Arts"]]),
+  ];
+  const context = (supabase: ServerClient) => ({
+    supabase,
+    caller: admin,
+    request: new NextRequest("http://localhost/import"),
+    requestId: "import",
+  });
+
+  it("previews an upload without writing", async () => {
+    const writes: Writes = { inserts: [], deletes: [] };
+    const plan = await planImport(fakeSupabase(writes), admin, targets());
+    const preview = describePlan(plan, false);
+    expect(preview).toMatchObject({
+      committed: false,
+      summary: {
+        university: { total: 1, valid: 1 },
+        college: { total: 1, valid: 1 },
+      },
+      errors: [],
+    });
+    expect(preview.rows[1]?.parents.university).toMatchObject({
+      name: "Arts",
+      new: true,
+    });
+    expect(writes).toEqual({ inserts: [], deletes: [] });
+  });
+
+  it("writes parents first and links children to them", async () => {
+    const writes: Writes = { inserts: [], deletes: [] };
+    const supabase = fakeSupabase(writes);
+    const plan = await planImport(supabase, admin, targets());
+    expect(await commitImport(plan, context(supabase))).toBeNull();
+    expect(writes.inserts).toEqual([
+      ["university", [expect.objectContaining({ name: "Arts" })]],
+      [
+        "collage",
+        [expect.objectContaining({ name: "Music", uni_id: "university-0" })],
+      ],
+    ]);
+    expect(describePlan(plan, true).rows.map(({ id }) => id)).toEqual([
+      "university-0",
+      "collage-0",
+    ]);
+  });
+
+  it("deletes what it wrote when a later insert fails", async () => {
+    const writes: Writes = { inserts: [], deletes: [] };
+    const supabase = fakeSupabase(writes, { failInsert: "collage" });
+    const plan = await planImport(supabase, admin, targets());
+    const failure = await commitImport(plan, context(supabase));
+    expect(failure).toEqual({
+      error: { code: "23505", message: "duplicate key" },
+      remaining: [],
+    });
+    expect(writes.deletes).toEqual([["university", ["university-0"]]]);
+    expect(plan.rows.map(({ insertedId }) => insertedId)).toEqual([
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it("reports the rows it could not delete again", async () => {
+    const supabase = fakeSupabase(undefined, {
+      failInsert: "collage",
+      failDelete: true,
+    });
+    const plan = await planImport(supabase, admin, targets());
+    const failure = await commitImport(plan, context(supabase));
+    expect(failure?.remaining).toEqual([
+      { table: "university", ids: ["university-0"] },
+    ]);
+  });
+});
@@ -0,0 +1,776 @@
+import { ErrorCode, type FailureResponse } from "@edunity/helpers";
+import { hasRole, type Caller } from "../_common/auth";
+import { isHalt } from "../_common/hooks";
+import type { RequestContext } from "../_common/middleware";
+import type { Sheet } from "../_common/spreadsheet";
+import {
+  applyTenantScope,
+  scopeTenantWrite,
+  tenantScope,
+} from "../_common/tenant";
+import type { ServerClient } from "../_common/types";
+import {
+  convertCell,
+  ENTITY_SPECS,
+  type EntitySpec,
+  type EntityType,
+  normalizeHeader,
+  PARENT_ALIASES,
+  type ParentType,
+} from "./mapping";
+
+/**
+ * The import pipeline: sheets are mapped onto the hierarchy tables, parents
+ * referenced by name are resolved against the database and the upload itself,
+ * and every problem is reported per row. Nothing is written until `commit`.
+ */
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export interface ImportTarget {
+  sheet: Sheet;
+  entity: EntitySpec;
+}
+
+export interface ImportIssue {
+  sheet: string;
+  row?: number;
+  column?: string;
+  message: string;
+}
+
+/**
+ * A resolved parent: either an existing row or a row created by this import.
+ */
+type ParentRef =
+  | { id: string; name: string }
+  | { pending: PlannedRow; name: string };
+
+interface PlannedRow {
+  entity: EntitySpec;
+  sheet: string;
+  row: number;
+  values: Record<string, unknown>;
+  refs: Partial<Record<ParentType, string>>;
+  parents: Partial<Record<ParentType, ParentRef>>;
+  valid: boolean;
+  insertedId?: string | number;
+}
+
+export interface ImportPlan {
+  rows: PlannedRow[];
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+}
+
+interface ExistingUniversity {
+  id: string;
+  name: string | null;
+}
+
+interface ExistingCollege extends ExistingUniversity {
+  uni_id: string | null;
+}
+
+type ExistingDepartment = ExistingCollege;
+
+function nameKey(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Maps each sheet's rows onto column values and raw parent references.
+ */
+function mapRows(
+  targets: ImportTarget[],
+  caller: Caller,
+  plan: ImportPlan
+): void {
+  for (const { sheet, entity } of targets) {
+    if (entity.roles && !hasRole(caller, entity.roles)) {
+      plan.errors.push({
+        sheet: sheet.name,
+        message: `You are not allowed to import ${entity.label.toLowerCase()} records.`,
+      });
+      continue;
+    }
+
+    const columns = sheet.header.map((header) => {
+      const normalized = normalizeHeader(header);
+      const column = entity.columns.find(({ aliases }) =>
+        aliases.includes(normalized)
+      );
+      const parent = entity.parents.find((type) =>
+        (PARENT_ALIASES[type] as readonly string[]).includes(normalized)
+      );
+      if (!column && !parent && header !== "") {
+        plan.warnings.push({
+          sheet: sheet.name,
+          column: header,
+          message: `Column '${header}' is not recognized and was ignored.`,
+        });
+      }
+      return { header, column, parent };
+    });
+
+    if (!columns.some(({ column }) => column?.column === "name")) {
+      plan.errors.push({
+        sheet: sheet.name,
+        message: `${entity.label} sheets need a 'name' column.`,
+      });
+      continue;
+    }
+
+    for (const { number, cells } of sheet.rows) {
+      const planned: PlannedRow = {
+        entity,
+        sheet: sheet.name,
+        row: number,
+        values: {},
+        refs: {},
+        parents: {},
+        valid: true,
+      };
+      columns.forEach(({ header, column, parent }, index) => {
+        const raw = cells[index] ?? "";
+        if (parent && raw.trim() !== "") {
+          planned.refs[parent] = raw.trim();
+        }
+        if (!column) return;
+        const { value, error } = convertCell(column.kind, raw);
+        if (error) {
+          addRowError(plan, planned, error, header);
+        } else if (value !== undefined) {
+          planned.values[column.column] = value;
+        }
+      });
+
+      const validation = entity.createSchema.safeParse(planned.values);
+      if (validation.success) {
+        planned.values = validation.data as Record<string, unknown>;
+      } else {
+        addFieldErrors(plan, planned, validation.error.flatten());
+      }
+      plan.rows.push(planned);
+    }
+  }
+}
+
+function addRowError(
+  plan: ImportPlan,
+  row: PlannedRow,
+  message: string,
+  column?: string
+) {
+  row.valid = false;
+  plan.errors.push({ sheet: row.sheet, row: row.row, column, message });
+}
+
+/**
+ * Reports errors in the shape Zod flattens them to (and `before*` hooks
+ * respond with) against a row.
+ */
+function addFieldErrors(
+  plan: ImportPlan,
+  row: PlannedRow,
+  {
+    fieldErrors,
+    formErrors,
+  }: { fieldErrors: Record<string, unknown>; formErrors: string[] }
+) {
+  for (const [column, messages] of Object.entries(fieldErrors)) {
+    for (const message of (messages as string[] | undefined) ?? []) {
+      addRowError(plan, row, message, column);
+    }
+  }
+  for (const message of formErrors) {
+    addRowError(plan, row, message);
+  }
+}
+
+function rowsOf(plan: ImportPlan, type: EntityType): PlannedRow[] {
+  return plan.rows.filter(({ entity }) => entity.type === type);
+}
+
+/**
+ * Loads the existing universities, colleges and departments the upload may
+ * refer to (by name or id), limited to the caller's universities.
+ */
+async function loadExisting(
+  supabase: ServerClient,
+  caller: Caller,
+  plan: ImportPlan
+) {
+  const universityRefs = new Set<string>();
+  const collegeRefs = new Set<string>();
+  const departmentRefs = new Set<string>();
+  for (const row of plan.rows) {
+    if (row.entity.type === "university") {
+      universityRefs.add(String(row.values.name));
+    }
+    if (row.entity.type === "college") {
+      collegeRefs.add(String(row.values.name));
+    }
+    if (row.refs.university) universityRefs.add(row.refs.university);
+    if (row.refs.college) collegeRefs.add(row.refs.college);
+    if (row.refs.department) departmentRefs.add(row.refs.department);
+  }
+
+  const universityIds = [...universityRefs].filter((ref) =>
+    UUID_PATTERN.test(ref)
+  );
+  const collegeIds = [...collegeRefs].filter((ref) => UUID_PATTERN.test(ref));
+  const departmentIds = [...departmentRefs].filter((ref) =>
+    UUID_PATTERN.test(ref)
+  );
+
+  const [
+    universitiesByName,
+    universitiesById,
+    collegesByName,
+    collegesById,
+    departmentsByName,
+    departmentsById,
+  ] = await Promise.all([
+    applyTenantScope(
+      supabase
+        .from("university")
+        .select("id, name")
+        .in("name", [...universityRefs])
+        .is("deleted_at", null),
+      "id",
+      caller
+    ),
+    applyTenantScope(
+      supabase
+        .from("university")
+        .select("id, name")
+        .in("id", universityIds)
+        .is("deleted_at", null),
+      "id",
+      caller
+    ),
+    applyTenantScope(
+      supabase
+        .from("collage")
+        .select("id, name, uni_id")
+        .in("name", [...collegeRefs])
+        .is("deleted_at", null),
+      "uni_id",
+      caller
+    ),
+    applyTenantScope(
+      supabase
+        .from("collage")
+        .select("id, name, uni_id")
+        .in("id", collegeIds)
+        .is("deleted_at", null),
+      "uni_id",
+      caller
+    ),
+    applyTenantScope(
+      supabase
+        .from("department")
+        .select("id, name, uni_id")
+        .in("name", [...departmentRefs])
+        .is("deleted_at", null),
+      "uni_id",
+      caller
+    ),
+    applyTenantScope(
+      supabase
+        .from("department")
+        .select("id, name, uni_id")
+        .in("id", departmentIds)
+        .is("deleted_at", null),
+      "uni_id",
+      caller
+    ),
+  ]);
+
+  const error =
+    universitiesByName.error ??
+    universitiesById.error ??
+    collegesByName.error ??
+    collegesById.error ??
+    departmentsByName.error ??
+    departmentsById.error;
+  if (error) throw error;
+
+  return {
+    universities: dedupe<ExistingUniversity>([
+      ...(universitiesByName.data ?? []),
+      ...(universitiesById.data ?? []),
+    ]),
+    colleges: dedupe<ExistingCollege>([
+      ...(collegesByName.data ?? []),
+      ...(collegesById.data ?? []),
+    ]),
+    departments: dedupe<ExistingDepartment>([
+      ...(departmentsByName.data ?? []),
+      ...(departmentsById.data ?? []),
+    ]),
+  };
+}
+
+function dedupe<R extends { id: string }>(rows: R[]): R[] {
+  return [...new Map(rows.map((row) => [row.id, row])).values()];
+}
+
+function parentName(ref: ParentRef): string {
+  return ref.name;
+}
+
+function sameParent(a: ParentRef | undefined, b: ParentRef | undefined) {
+  if (!a || !b) return false;
+  if ("id" in a && "id" in b) return a.id === b.id;
+  if ("pending" in a && "pending" in b) return a.pending === b.pending;
+  return false;
+}
+
+/**
+ * Resolves parent references, and flags rows that would duplicate an existing
+ * university or college (their names are what children refer to).
+ */
+function resolveParents(
+  plan: ImportPlan,
+  caller: Caller,
+  universities: ExistingUniversity[],
+  colleges: ExistingCollege[],
+  departments: ExistingDepartment[]
+) {
+  // --- Universities: unique by name ---
+  const pendingUniversities = new Map<string, PlannedRow>();
+  for (const row of rowsOf(plan, "university")) {
+    const name = String(row.values.name);
+    const key = nameKey(name);
+    if (universities.some((u) => u.name && nameKey(u.name) === key)) {
+      addRowError(plan, row, `University '${name}' already exists.`, "name");
+    } else if (pendingUniversities.has(key)) {
+      addRowError(plan, row, `University '${name}' appears twice.`, "name");
+    } else if (row.valid) {
+      pendingUniversities.set(key, row);
+    }
+  }
+
+  const resolveUniversity = (ref: string): ParentRef | string => {
+    const pending = pendingUniversities.get(nameKey(ref));
+    if (pending) return { pending, name: ref };
+    const matches = universities.filter(
+      (u) => u.id === ref || (u.name && nameKey(u.name) === nameKey(ref))
+    );
+    const [match] = matches;
+    if (matches.length > 1) {
+      return `University name '${ref}' is ambiguous; use its id instead.`;
+    }
+    return match
+      ? { id: match.id, name: match.name ?? ref }
+      : `Unknown university '${ref}'.`;
+  };
+
+  // --- Colleges: unique by name within their university ---
+  const pendingColleges: PlannedRow[] = [];
+  for (const row of rowsOf(plan, "college")) {
+    const ref = row.refs.university;
+    if (!ref) {
+      addRowError(plan, row, "A university is required.", "university");
+      continue;
+    }
+    const university = resolveUniversity(ref);
+    if (typeof university === "string") {
+      addRowError(plan, row, university, "university");
+      continue;
+    }
+    row.parents.university = university;
+
+    const key = nameKey(String(row.values.name));
+    const existing = colleges.some(
+      (c) =>
+        c.name &&
+        nameKey(c.name) === key &&
+        "id" in university &&
+        c.uni_id === university.id
+    );
+    const duplicate = pendingColleges.some(
+      (c) =>
+        nameKey(String(c.values.name)) === key &&
+        sameParent(c.parents.university, university)
+    );
+    if (existing || duplicate) {
+      addRowError(
+        plan,
+        row,
+        `College '${row.values.name}' ${existing ? "already exists" : "appears twice"} in ${parentName(university)}.`,
+        "name"
+      );
+    } else if (row.valid) {
+      pendingColleges.push(row);
+    }
+  }
+
+  const resolveCollege = (
+    ref: string,
+    university: ParentRef | undefined
+  ): ParentRef | string => {
+    const pending = pendingColleges.filter(
+      (c) =>
+        nameKey(String(c.values.name)) === nameKey(ref) &&
+        (!university || sameParent(c.parents.university, university))
+    );
+    const existing = colleges.filter(
+      (c) =>
+        (c.id === ref || (c.name && nameKey(c.name) === nameKey(ref))) &&
+        (!university || ("id" in university && c.uni_id === university.id))
+    );
+    const matches = pending.length + existing.length;
+    if (matches > 1) {
+      return `College name '${ref}' is ambiguous; add its university or use its id.`;
+    }
+    const [pendingMatch] = pending;
+    const [existingMatch] = existing;
+    if (pendingMatch) {
+      return { pending: pendingMatch, name: ref };
+    }
+    if (existingMatch) {
+      return { id: existingMatch.id, name: existingMatch.name ?? ref };
+    }
+    return university
+      ? `Unknown college '${ref}' in ${parentName(university)}.`
+      : `Unknown college '${ref}'.`;
+  };
+
+  // --- Departments: under a college, directly under a university, or both ---
+  const pendingDepartments: PlannedRow[] = [];
+  for (const row of rowsOf(plan, "department")) {
+    const { university: uniRef, college: collegeRef } = row.refs;
+    if (!uniRef && !collegeRef) {
+      addRowError(plan, row, "A university or college is required.");
+      continue;
+    }
+
+    let university: ParentRef | undefined;
+    if (uniRef) {
+      const resolved = resolveUniversity(uniRef);
+      if (typeof resolved === "string") {
+        addRowError(plan, row, resolved, "university");
+        continue;
+      }
+      university = resolved;
+    }
+
+    if (collegeRef) {
+      const college = resolveCollege(collegeRef, university);
+      if (typeof college === "string") {
+        addRowError(plan, row, college, "college");
+        continue;
+      }
+      row.parents.college = college;
+      // The college's own university is authoritative
+      university ??=
+        "pending" in college
+          ? college.pending.parents.university
+          : universityOfCollege(college.id, colleges, universities);
+    }
+    row.parents.university = university;
+    if (row.valid) {
+      pendingDepartments.push(row);
+    }
+  }
+
+  const resolveDepartment = (
+    ref: string,
+    university: ParentRef | undefined
+  ): ParentRef | string => {
+    const pending = pendingDepartments.filter(
+      (d) =>
+        nameKey(String(d.values.name)) === nameKey(ref) &&
+        (!university || sameParent(d.parents.university, university))
+    );
+    const existing = departments.filter(
+      (d) =>
+        (d.id === ref || (d.name && nameKey(d.name) === nameKey(ref))) &&
+        (!university || ("id" in university && d.uni_id === university.id))
+    );
+    const matches = pending.length + existing.length;
+    if (matches > 1) {
+      return `Department name '${ref}' is ambiguous; add its university or use its id.`;
+    }
+    const [pendingMatch] = pending;
+    const [existingMatch] = existing;
+    if (pendingMatch) {
+      return { pending: pendingMatch, name: ref };
+    }
+    if (existingMatch) {
+      return { id: existingMatch.id, name: existingMatch.name ?? ref };
+    }
+    return university
+      ? `Unknown department '${ref}' in ${parentName(university)}.`
+      : `Unknown department '${ref}'.`;
+  };
+
+  // --- Courses: under a department, or in the shared catalogue ---
+  for (const row of rowsOf(plan, "course")) {
+    const { university: uniRef, department: departmentRef } = row.refs;
+    if (!departmentRef) {
+      if (tenantScope(caller) !== null) {
+        addRowError(
+          plan,
+          row,
+          "Only platform admins manage the shared catalogue; name one of your departments.",
+          "department"
+        );
+      }
+      continue;
+    }
+
+    // Courses have no university of their own; it only narrows the search
+    let university: ParentRef | undefined;
+    if (uniRef) {
+      const resolved = resolveUniversity(uniRef);
+      if (typeof resolved === "string") {
+        addRowError(plan, row, resolved, "university");
+        continue;
+      }
+      university = resolved;
+    }
+
+    const department = resolveDepartment(departmentRef, university);
+    if (typeof department === "string") {
+      addRowError(plan, row, department, "department");
+      continue;
+    }
+    row.parents.department = department;
+  }
+}
+
+function universityOfCollege(
+  collegeId: string,
+  colleges: ExistingCollege[],
+  universities: ExistingUniversity[]
+): ParentRef | undefined {
+  const uniId = colleges.find((c) => c.id === collegeId)?.uni_id;
+  if (!uniId) return undefined;
+  const university = universities.find((u) => u.id === uniId);
+  return { id: uniId, name: university?.name ?? uniId };
+}
+
+/**
+ * Builds the import plan: maps sheets to rows, validates them with each
+ * resource's create schema and resolves parent references.
+ */
+export async function planImport(
+  supabase: ServerClient,
+  caller: Caller,
+  targets: ImportTarget[]
+): Promise<ImportPlan> {
+  const plan: ImportPlan = { rows: [], errors: [], warnings: [] };
+  mapRows(targets, caller, plan);
+  const { universities, colleges, departments } = await loadExisting(
+    supabase,
+    caller,
+    plan
+  );
+  resolveParents(plan, caller, universities, colleges, departments);
+  return plan;
+}
+
+function describeParent(ref: ParentRef | undefined) {
+  if (!ref) return undefined;
+  return "id" in ref
+    ? { id: ref.id, name: ref.name }
+    : { name: ref.name, new: true, id: ref.pending.insertedId };
+}
+
+/**
+ * Summarizes a plan (and, once committed, the created ids) for the response.
+ */
+export function describePlan(plan: ImportPlan, committed: boolean) {
+  const summary = Object.fromEntries(
+    ENTITY_SPECS.map(({ type }) => {
+      const rows = rowsOf(plan, type);
+      return [
+        type,
+        { total: rows.length, valid: rows.filter((r) => r.valid).length },
+      ];
+    })
+  );
+  return {
+    committed,
+    summary,
+    errors: plan.errors,
+    warnings: plan.warnings,
+    rows: plan.rows.map((row) => ({
+      sheet: row.sheet,
+      row: row.row,
+      entity: row.entity.type,
+      status: row.valid ? "valid" : "invalid",
+      ...(row.insertedId !== undefined ? { id: row.insertedId } : {}),
+      values: row.values,
+      parents: {
+        university: describeParent(row.parents.university),
+        college: describeParent(row.parents.college),
+        department: describeParent(row.parents.department),
+      },
+    })),
+  };
+}
+
+function parentId(ref: ParentRef | undefined) {
+  if (!ref) return undefined;
+  return "id" in ref ? ref.id : ref.pending.insertedId;
+}
+
+/**
+ * Rows written by a commit, per table.
+ */
+export interface CreatedRows {
+  table: EntitySpec["table"];
+  ids: (string | number)[];
+}
+
+/**
+ * Why a commit failed, and the rows it could not delete again (empty when the
+ * rollback succeeded).
+ */
+export interface CommitFailure {
+  error: { code?: string; message: string };
+  remaining: CreatedRows[];
+}
+
+/**
+ * Runs each row's `beforeInsert` hook and tenant scoping, as a POST of the
+ * resource would. Rows they reject are reported on the plan; returns the
+ * records to insert, or null if any row was rejected.
+ */
+async function prepareRecords(
+  plan: ImportPlan,
+  spec: EntitySpec,
+  rows: PlannedRow[],
+  context: RequestContext
+): Promise<Record<string, unknown>[] | null> {
+  const records: Record<string, unknown>[] = [];
+  for (const row of rows) {
+    const values = {
+      ...row.values,
+      ...(row.parents.university
+        ? { uni_id: parentId(row.parents.university) }
+        : {}),
+      ...(row.parents.college
+        ? { collage_id: parentId(row.parents.college) }
+        : {}),
+      ...(row.parents.department
+        ? { department_id: parentId(row.parents.department) }
+        : {}),
+    };
+    const data = spec.beforeInsert
+      ? await spec.beforeInsert(values, context)
+      : values;
+    if (isHalt(data)) {
+      const body = (await data
+        .json()
+        .catch(() => null)) as FailureResponse | null;
+      const details = body?.error.details as
+        | { fieldErrors?: Record<string, unknown>; formErrors?: string[] }
+        | undefined;
+      if (details?.fieldErrors) {
+        addFieldErrors(plan, row, {
+          fieldErrors: details.fieldErrors,
+          formErrors: details.formErrors ?? [],
+        });
+      } else {
+        addRowError(plan, row, body?.error.message ?? "Rejected.");
+      }
+      continue;
+    }
+    const scoped = scopeTenantWrite(context.caller, spec.tenantColumn, data, {
+      isCreate: true,
+    });
+    if (!scoped.success) {
+      addRowError(plan, row, scoped.message, spec.tenantColumn);
+      continue;
+    }
+    records.push(scoped.data);
+  }
+  return records.length === rows.length ? records : null;
+}
+
+/**
+ * Deletes the rows of a failed commit, children first, and returns those that
+ * could not be deleted.
+ */
+async function rollback(
+  supabase: ServerClient,
+  created: CreatedRows[]
+): Promise<CreatedRows[]> {
+  const remaining: CreatedRows[] = [];
+  for (const { table, ids } of [...created].reverse()) {
+    const { data, error } = await supabase
+      .from(table)
+      .delete()
+      .in("id", ids)
+      .select("id");
+    const deleted = new Set((data ?? []).map(({ id }) => String(id)));
+    const left = error ? ids : ids.filter((id) => !deleted.has(String(id)));
+    if (left.length > 0) {
+      console.error(
+        `[Import Error] Rollback left ${left.length} ${table} rows`,
+        error?.message
+      );
+      remaining.push({ table, ids: left });
+    }
+  }
+  return remaining;
+}
+
+/**
+ * Writes a fully valid plan, parents first. Each entity is inserted with one
+ * multi-row statement, after the resource's `beforeInsert` hook has run on
+ * every row. If a hook rejects a row or an insert fails, rows created by the
+ * earlier entities are deleted again; whatever that cannot delete is
+ * returned, so the caller can say the import was only partly undone.
+ */
+export async function commitImport(
+  plan: ImportPlan,
+  context: RequestContext
+): Promise<CommitFailure | null> {
+  const { supabase } = context;
+  const created: CreatedRows[] = [];
+
+  const fail = async (error: CommitFailure["error"]) => {
+    const remaining = await rollback(supabase, created);
+    if (remaining.length === 0) {
+      for (const row of plan.rows) row.insertedId = undefined;
+    }
+    return { error, remaining };
+  };
+
+  for (const spec of ENTITY_SPECS) {
+    const rows = rowsOf(plan, spec.type);
+    if (rows.length === 0) continue;
+
+    const records = await prepareRecords(plan, spec, rows, context);
+    if (!records) {
+      return fail({
+        code: ErrorCode.VALIDATION_ERROR,
+        message: `Some ${spec.label.toLowerCase()} rows were rejected.`,
+      });
+    }
+
+    const { data, error } = await supabase
+      .from(spec.table)
+      .insert(records)
+      .select();
+
+    if (error || !data) {
+      return fail(error ?? { message: "Insert returned no rows." });
+    }
+
+    rows.forEach((row, i) => (row.insertedId = data[i]?.id));
+    created.push({ table: spec.table, ids: data.map(({ id }) => id) });
+  }
+
+  return null;
+}
@@ -0,0 +1,181 @@
+import type { ZodType } from "zod";
+import type { Role } from "../_common/auth";
+import type { Halt } from "../_common/hooks";
+import type { RequestContext } from "../_common/middleware";
+import { collegeHandlers } from "../college/handlers";
+import { courseHandlers } from "../course/handlers";
+import { departmentHandlers } from "../department/handlers";
+import { universityHandlers } from "../university/handlers";
+
+/**
+ * How spreadsheet sheets and columns map onto the hierarchy tables.
+ */
+
+export type EntityType = "university" | "college" | "department" | "course";
+
+export type ParentType = "university" | "college" | "department";
+
+type ColumnKind = "text" | "number" | "json";
+
+interface ColumnSpec {
+  column: string;
+  kind: ColumnKind;
+  // Header spellings accepted for this column (compared after normalizing)
+  aliases: readonly string[];
+}
+
+export interface EntitySpec {
+  type: EntityType;
+  table: "university" | "collage" | "department" | "course";
+  label: string;
+  // Sheet names (XLSX) recognized as this entity
+  sheetNames: readonly string[];
+  columns: readonly ColumnSpec[];
+  // Parents referenced by name (or id) in their own column
+  parents: readonly ParentType[];
+  createSchema: ZodType;
+  roles?: readonly Role[];
+  // Column naming the owning university, for tenant scoping
+  tenantColumn?: string;
+  // The resource's own create hook, run on every row once its parents exist
+  beforeInsert?(
+    data: Record<string, unknown>,
+    context: RequestContext
+  ): Promise<Record<string, unknown> | Halt>;
+}
+
+/**
+ * Header spellings accepted for parent reference columns.
+ */
+export const PARENT_ALIASES = {
+  university: [
+    "university",
+    "university name",
+    "university id",
+    "uni",
+    "uni id",
+  ],
+  college: ["college", "college name", "college id", "collage", "collage id"],
+  department: [
+    "department",
+    "department name",
+    "department id",
+    "dept",
+    "dept id",
+  ],
+} as const;
+
+/**
+ * Entities in dependency order: parents are always written before children.
+ */
+export const ENTITY_SPECS: readonly EntitySpec[] = [
+  {
+    type: "university",
+    table: "university",
+    label: "University",
+    sheetNames: ["university", "universities"],
+    columns: [
+      { column: "name", kind: "text", aliases: ["name", "university name"] },
+      { column: "metadata", kind: "json", aliases: ["metadata"] },
+    ],
+    parents: [],
+    createSchema: universityHandlers.config.createSchema,
+    roles: universityHandlers.config.roles?.POST,
+    tenantColumn: universityHandlers.config.tenantColumn,
+    beforeInsert: universityHandlers.config.beforeInsert,
+  },
+  {
+    type: "college",
+    table: "collage",
+    label: "College",
+    sheetNames: ["college", "colleges", "collage"],
+    columns: [
+      { column: "name", kind: "text", aliases: ["name", "college name"] },
+      { column: "metadata", kind: "json", aliases: ["metadata"] },
+    ],
+    parents: ["university"],
+    createSchema: collegeHandlers.config.createSchema,
+    roles: collegeHandlers.config.roles?.POST,
+    tenantColumn: collegeHandlers.config.tenantColumn,
+    beforeInsert: collegeHandlers.config.beforeInsert,
+  },
+  {
+    type: "department",
+    table: "department",
+    label: "Department",
+    sheetNames: ["department", "departments"],
+    columns: [
+      { column: "name", kind: "text", aliases: ["name", "department name"] },
+    ],
+    parents: ["university", "college"],
+    createSchema: departmentHandlers.config.createSchema,
+    roles: departmentHandlers.config.roles?.POST,
+    tenantColumn: departmentHandlers.config.tenantColumn,
+    beforeInsert: departmentHandlers.config.beforeInsert,
+  },
+  {
+    type: "course",
+    table: "course",
+    label: "Course",
+    sheetNames: ["course", "courses"],
+    columns: [
+      { column: "name", kind: "text", aliases: ["name", "course name"] },
+      { column: "length", kind: "number", aliases: ["length", "duration"] },
+    ],
+    // The university only narrows down which department is meant; courses
+    // without a department join the shared catalogue
+    parents: ["university", "department"],
+    createSchema: courseHandlers.config.createSchema,
+    roles: courseHandlers.config.roles?.POST,
+    tenantColumn: courseHandlers.config.tenantColumn,
+    beforeInsert: courseHandlers.config.beforeInsert,
+  },
+];
+
+/**
+ * Lower-cases a header or sheet name and collapses `_`, `-` and runs of
+ * whitespace, so "College_Name" and "college name" match.
+ */
+export function normalizeHeader(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, " ");
+}
+
+export function findEntityBySheetName(name: string): EntitySpec | undefined {
+  const normalized = normalizeHeader(name);
+  return ENTITY_SPECS.find((spec) => spec.sheetNames.includes(normalized));
+}
+
+export function findEntityByType(type: string): EntitySpec | undefined {
+  return ENTITY_SPECS.find((spec) => spec.type === type);
+}
+
+/**
+ * Converts a raw cell to the column's type. Empty cells become `undefined`
+ * so optional columns are simply left out.
+ */
+export function convertCell(
+  kind: ColumnKind,
+  raw: string
+): { value?: unknown; error?: string } {
+  const cell = raw.trim();
+  if (cell === "") return {};
+  switch (kind) {
+    case "number": {
+      const value = Number(cell);
+      return Number.isFinite(value)
+        ? { value }
+        : { error: `Expected a number, got '${cell}'.` };
+    }
+    case "json":
+      try {
+        return { value: JSON.parse(cell) };
+      } catch {
+        return { error: "Expected valid JSON." };
+      }
+    default:
+      return { value: cell };
+  }
+}
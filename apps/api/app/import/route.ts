@@ -0,0 +1,188 @@
+import { NextRequest } from "next/server";
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers";
+import { handleRequest } from "../_common/handleRequest";
+import { rateLimit } from "../_common/middleware";
+import { detectFormat, readSpreadsheet } from "../_common/spreadsheet";
+import {
+  commitImport,
+  describePlan,
+  type ImportTarget,
+  MAX_IMPORT_ROWS,
+  planImport,
+} from "./importer";
+import {
+  ENTITY_SPECS,
+  findEntityBySheetName,
+  findEntityByType,
+} from "./mapping";
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+// Each upload is parsed in full, so callers get a handful per minute
+const limitUploads = rateLimit({ limit: 10, windowMs: 60_000 });
+
+/**
+ * Imports universities, colleges, departments and courses from a CSV or XLSX
+ * upload (multipart field `file`).
+ *
+ * - XLSX: one sheet per entity, named e.g. "Universities" or "Colleges".
+ * - CSV: a single entity, named by `?type=university|college|department|course`.
+ *
+ * By default this is a dry run that returns the row-level preview; send
+ * `?commit=true` to write the batch once the preview has no errors.
+ */
+export async function POST(request: NextRequest) {
+  return handleRequest(
+    request,
+    undefined,
+    async (supabase, req, caller, requestId) => {
+      let form: FormData;
+      try {
+        form = await req.formData();
+      } catch {
+        return ApiResponse.error(
+          ErrorCode.BAD_REQUEST,
+          "Expected a multipart/form-data body with a 'file' field.",
+          HttpStatus.BAD_REQUEST
+        );
+      }
+
+      const file = form.get("file");
+      if (!(file instanceof File)) {
+        return ApiResponse.error(
+          ErrorCode.BAD_REQUEST,
+          "A 'file' upload is required.",
+          HttpStatus.BAD_REQUEST
+        );
+      }
+      if (file.size > MAX_FILE_BYTES) {
+        return ApiResponse.error(
+          ErrorCode.BAD_REQUEST,
+          `Files are limited to ${MAX_FILE_BYTES / 1024 / 1024} MB.`,
+          HttpStatus.BAD_REQUEST
+        );
+      }
+
+      const format = detectFormat(file);
+      if (!format) {
+        return ApiResponse.error(
+          ErrorCode.BAD_REQUEST,
+          "Only .csv and .xlsx files are supported.",
+          HttpStatus.BAD_REQUEST
+        );
+      }
+
+      const { searchParams } = req.nextUrl;
+      const csvType = searchParams.get("type");
+      const csvEntity = csvType ? findEntityByType(csvType) : undefined;
+      if (format === "csv" && !csvEntity) {
+        return ApiResponse.error(
+          ErrorCode.VALIDATION_ERROR,
+          "CSV imports need '?type=' to say what the rows are.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
+          { type: ENTITY_SPECS.map(({ type }) => type) }
+        );
+      }
+
+      let sheets;
+      try {
+        sheets = await readSpreadsheet(file, format);
+      } catch (error) {
+        console.error(`[Import Error]`, error);
+        return ApiResponse.error(
+          ErrorCode.BAD_REQUEST,
+          "The file could not be read.",
+          HttpStatus.BAD_REQUEST
+        );
+      }
+
+      const targets: ImportTarget[] = [];
+      const unknownSheets: string[] = [];
+      for (const sheet of sheets) {
+        const entity = csvEntity ?? findEntityBySheetName(sheet.name);
+        if (entity) {
+          targets.push({ sheet, entity });
+        } else if (sheet.rows.length > 0) {
+          unknownSheets.push(sheet.name);
+        }
+      }
+      if (targets.length === 0) {
+        return ApiResponse.error(
+          ErrorCode.VALIDATION_ERROR,
+          "No sheet matches a university, college, department or course.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
+          { sheets: unknownSheets }
+        );
+      }
+
+      const rowCount = targets.reduce(
+        (n, { sheet }) => n + sheet.rows.length,
+        0
+      );
+      if (rowCount > MAX_IMPORT_ROWS) {
+        return ApiResponse.error(
+          ErrorCode.BAD_REQUEST,
+          `Imports are limited to ${MAX_IMPORT_ROWS} rows; split the file.`,
+          HttpStatus.BAD_REQUEST
+        );
+      }
+
+      const plan = await planImport(supabase, caller, targets);
+      plan.warnings.push(
+        ...unknownSheets.map((sheet) => ({
+          sheet,
+          message: `Sheet '${sheet}' is not recognized and was ignored.`,
+        }))
+      );
+
+      if (searchParams.get("commit") !== "true") {
+        return ApiResponse.success(describePlan(plan, false), HttpStatus.OK);
+      }
+      if (plan.errors.length > 0) {
+        return ApiResponse.error(
+          ErrorCode.VALIDATION_ERROR,
+          "The import has errors; nothing was written.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
+          describePlan(plan, false)
+        );
+      }
+
+      const failure = await commitImport(plan, {
+        supabase,
+        caller,
+        request: req,
+        requestId,
+      });
+      if (failure?.remaining.length) {
+        return ApiResponse.error(
+          ErrorCode.SUPABASE_QUERY_ERROR,
+          `Import failed and could not be fully rolled back: ${failure.error.message}`,
+          HttpStatus.INTERNAL_SERVER_ERROR,
+          { remaining: failure.remaining }
+        );
+      }
+      if (failure?.error.code === ErrorCode.VALIDATION_ERROR) {
+        return ApiResponse.error(
+          ErrorCode.VALIDATION_ERROR,
+          "The import has errors; nothing was written.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
+          describePlan(plan, false)
+        );
+      }
+      if (failure) {
+        const { error } = failure;
+        return ApiResponse.error(
+          error.code === "23505"
+            ? ErrorCode.CONFLICT
+            : ErrorCode.SUPABASE_QUERY_ERROR,
+          `Import failed and was rolled back: ${error.message}`,
+          error.code === "23505"
+            ? HttpStatus.CONFLICT
+            : HttpStatus.INTERNAL_SERVER_ERROR
+        );
+      }
+      return ApiResponse.success(describePlan(plan, true), HttpStatus.CREATED);
+    },
+    [limitUploads]
+  );
+}
@@ -0,0 +1,58 @@
+import { NextRequest } from "next/server";
+import { METADATA_SCHEMAS, metadataJsonSchema } from "@edunity/contracts";
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers";
+import { handleRequest } from "../../_common/handleRequest";
+
+interface MetadataRouteContext {
+  params: Promise<{ resource: string }>;
+}
+
+/**
+ * Describes a resource's metadata as JSON Schema, for rendering forms. Serves
+ * the current version unless an older one is asked for with `?version=`.
+ */
+export async function GET(request: NextRequest, context: MetadataRouteContext) {
+  return handleRequest(request, undefined, async (_, req) => {
+    const { resource } = await context.params;
+    const schemas = Object.hasOwn(METADATA_SCHEMAS, resource)
+      ? METADATA_SCHEMAS[resource]
+      : undefined;
+    if (!schemas) {
+      return ApiResponse.error(
+        ErrorCode.NOT_FOUND,
+        `No metadata schema is registered for '${resource}'.`,
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    const requested = req.nextUrl.searchParams.get("version");
+    const version = requested === null ? schemas.current : Number(requested);
+    if (
+      !Number.isInteger(version) ||
+      version < 1 ||
+      version > schemas.current
+    ) {
+      return ApiResponse.error(
+        ErrorCode.VALIDATION_ERROR,
+        "Invalid query parameters.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+        {
+          formErrors: [],
+          fieldErrors: {
+            version: [`Expected a version from 1 to ${schemas.current}.`],
+          },
+        }
+      );
+    }
+
+    return ApiResponse.success(
+      {
+        resource,
+        version,
+        current: schemas.current,
+        schema: metadataJsonSchema(schemas, version),
+      },
+      HttpStatus.OK
+    );
+  });
+}
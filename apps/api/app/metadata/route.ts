@@ -0,0 +1,16 @@
+import { NextRequest } from "next/server";
+import { METADATA_SCHEMAS } from "@edunity/contracts";
+import { ApiResponse, HttpStatus } from "@edunity/helpers";
+import { handleRequest } from "../_common/handleRequest";
+
+/**
+ * Lists the resources with metadata schemas and their current versions.
+ */
+export async function GET(request: NextRequest) {
+  return handleRequest(request, undefined, async () => {
+    const resources = Object.values(METADATA_SCHEMAS).map(
+      ({ resource, current }) => ({ resource, version: current })
+    );
+    return ApiResponse.success(resources, HttpStatus.OK);
+  });
+}
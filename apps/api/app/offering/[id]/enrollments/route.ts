@@ -0,0 +1,6 @@
+import { childListRoute } from "../../../_common/nested";
+import { enrollmentHandlers } from "../../../enrollment/handlers";
+
+// The offering's roster and waitlist, with every option of the /enrollment
+// list; `?status=eq.waitlisted&sort=waitlisted_at` gives the waitlist in order
+export const GET = childListRoute(enrollmentHandlers.GET, "offering_id");
@@ -0,0 +1,4 @@
+import { offeringHandlers } from "../../handlers";
+
+// Restore a deleted course offering, along with anything deleted together with it
+export const { POST } = offeringHandlers.restore;
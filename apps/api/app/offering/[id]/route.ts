@@ -0,0 +1,4 @@
+import { offeringHandlers } from "../handlers";
+
+// Item routes: fetch, update, patch or delete a single course offering by id
+export const { GET, PUT, PATCH, DELETE } = offeringHandlers.item;
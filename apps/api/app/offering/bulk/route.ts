@@ -0,0 +1,4 @@
+import { offeringHandlers } from "../handlers";
+
+// Bulk routes: create, update and delete many course offerings at once
+export const { POST, PUT, DELETE } = offeringHandlers.bulk;
@@ -0,0 +1,55 @@
+import { offeringContract } from "@edunity/contracts";
+import { createCrudHandlers } from "../_common/crudFactory"; // Import our new factory
+import {
+  checkOfferingParentChanges,
+  checkOfferingParents,
+} from "../_common/hierarchy";
+import { isHalt } from "../_common/hooks";
+import {
+  checkBatchBookings,
+  checkOfferingBookingChanges,
+  checkOfferingBookings,
+} from "../scheduler/bookings";
+
+// 1. The request schemas and embeddable relations are shared with the SDK
+// (see packages/contracts/resources.ts)
+
+// 2. Generate the handlers by calling the factory with your configuration
+export const offeringHandlers = createCrudHandlers({
+  tableName: "course_offering",
+  resourceName: "Offering",
+  ...offeringContract,
+  columns: [
+    "id",
+    "uni_id",
+    "course_id",
+    "term_id",
+    "department_id",
+    "section",
+    "instructor_ids",
+    "capacity",
+    "schedule",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+  ],
+  tenantColumn: "uni_id",
+  softDelete: true,
+  versionColumn: "updated_at",
+  beforeInsert: async (data, context) => {
+    const checked = await checkOfferingParents(data, context);
+    return isHalt(checked) ? checked : checkOfferingBookings(checked, context);
+  },
+  beforeUpdate: async (changes, before, context) => {
+    const checked = await checkOfferingParentChanges(changes, before, context);
+    return isHalt(checked)
+      ? checked
+      : checkOfferingBookingChanges(checked, before, context);
+  },
+  beforeBulkWrite: checkBatchBookings,
+  roles: {
+    POST: ["university_admin", "college_admin", "department_staff"],
+    PUT: ["university_admin", "college_admin", "department_staff"],
+    DELETE: ["university_admin", "college_admin"],
+  },
+});
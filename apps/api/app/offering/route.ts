@@ -0,0 +1,4 @@
+import { offeringHandlers } from "./handlers";
+
+// Collection routes: list, create, update and delete
+export const { GET, POST, PUT, DELETE } = offeringHandlers;
@@ -0,0 +1,31 @@
+import type { DateRange, Meeting } from "@edunity/contracts";
+
+/**
+ * A course offering's weekly schedule: the meetings it holds every week of
+ * its term, e.g. `[{ "day": "mon", "starts_at": "09:00", "ends_at": "10:30" }]`.
+ * A meeting may name its room, and may run for only some weeks of the term
+ * (`starts_on`/`ends_on`). Times are local to the university. The schemas
+ * are shared with the SDK (see packages/contracts/schedule.ts).
+ */
+
+/**
+ * Whether two meetings share any time: the same day, each starting before the
+ * other ends. Back-to-back meetings don't overlap.
+ */
+export function meetingsOverlap(a: Meeting, b: Meeting): boolean {
+  return a.day === b.day && a.starts_at < b.ends_at && b.starts_at < a.ends_at;
+}
+
+/**
+ * The dates a meeting runs between: its own, or else its term's.
+ */
+export function meetingDates(meeting: Meeting, term: DateRange): DateRange {
+  return {
+    starts_on: meeting.starts_on ?? term.starts_on,
+    ends_on: meeting.ends_on ?? term.ends_on,
+  };
+}
+
+export function rangesOverlap(a: DateRange, b: DateRange): boolean {
+  return a.starts_on <= b.ends_on && b.starts_on <= a.ends_on;
+}
@@ -0,0 +1,372 @@
+import { z } from "zod";
+import {
+  conflictsQuerySchema,
+  enrollSchema,
+  invitationSchema,
+  METADATA_SCHEMAS,
+  proposalSchema,
+  scheduleQuerySchema,
+  searchQuerySchema,
+  treeQuerySchema,
+  universityTreeSchema,
+} from "@edunity/contracts";
+import {
+  type DocumentedConfig,
+  type DocumentedOperation,
+  type DocumentedPath,
+  ref,
+} from "../_common/openapi";
+import { DEFAULT_PRIMARY_KEY } from "../_common/primaryKey";
+import { enrollmentHandlers } from "../enrollment/handlers";
+import { facultyHandlers } from "../faculty/handlers";
+import { ENTITY_SPECS } from "../import/mapping";
+import { roomHandlers } from "../room/handlers";
+import { SCHEDULER_ROLES } from "../scheduler/conflicts";
+import { studentHandlers } from "../student/handlers";
+import { universityHandlers } from "../university/handlers";
+
+/**
+ * The routes written by hand rather than by `createCrudHandlers`, as they
+ * are mounted, described from the schemas they validate with.
+ */
+
+type Config = Pick<DocumentedConfig, "resourceName" | "roles" | "primaryKey">;
+
+const conflictReport = {
+  type: "object",
+  required: ["term", "conflicts"],
+  properties: {
+    term: { type: "object" },
+    conflicts: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["kind", "offering_ids", "day", "starts_at", "ends_at"],
+        properties: {
+          kind: { enum: ["room", "instructor", "cohort"] },
+          offering_ids: { type: "array", items: { type: "string" } },
+          room_id: { type: "string" },
+          instructor_id: { type: "string" },
+          students: { type: "integer" },
+          day: { type: "string" },
+          starts_at: { type: "string" },
+          ends_at: { type: "string" },
+          starts_on: { type: "string", format: "date" },
+          ends_on: { type: "string", format: "date" },
+        },
+      },
+    },
+  },
+};
+
+function calendarFeed({ resourceName, roles, primaryKey }: Config) {
+  return {
+    key: primaryKey ?? DEFAULT_PRIMARY_KEY,
+    get: {
+      tag: resourceName,
+      summary: `The ${resourceName.toLowerCase()}'s timetable as an iCalendar feed`,
+      roles: roles?.GET,
+      responses: {
+        "200": {
+          description: "One weekly recurring event per meeting.",
+          content: { "text/calendar": { schema: { type: "string" } } },
+        },
+        "400": `Invalid ${resourceName} id.`,
+        "404": `No such ${resourceName}.`,
+      },
+    },
+  } satisfies Omit<DocumentedPath, "path">;
+}
+
+function invitation({ resourceName, roles, primaryKey }: Config) {
+  const name = resourceName.toLowerCase();
+  return {
+    key: primaryKey ?? DEFAULT_PRIMARY_KEY,
+    post: {
+      tag: resourceName,
+      summary: `Invite the ${name} to sign up`,
+      description:
+        "Replaces any earlier invitation. The account is linked at its first sign-in; an address that already has an account is linked at its next one, and no email is sent.",
+      roles: roles?.PUT,
+      body: invitationSchema,
+      optionalBody: true,
+      responses: {
+        "201": {
+          description: "The invitation, and whether an email was sent.",
+          data: {
+            type: "object",
+            required: ["invitation", "emailSent"],
+            properties: {
+              invitation: { type: "object" },
+              emailSent: { type: "boolean" },
+            },
+          },
+        },
+        "400": `Invalid ${resourceName} id.`,
+        "404": `No such ${resourceName}.`,
+        "409": `The ${name} already has a linked account.`,
+        "422": "Invalid input, or no email to send the invitation to.",
+        "503": "Invitations are not configured, or the email was not sent.",
+      },
+    },
+    delete: {
+      tag: resourceName,
+      summary: `Revoke the ${name}'s pending invitation`,
+      roles: roles?.PUT,
+      responses: {
+        "200": {
+          description: "The invitation was revoked.",
+          data: { type: "object", properties: { message: { type: "string" } } },
+        },
+        "400": `Invalid ${resourceName} id.`,
+        "404": "No pending invitation.",
+      },
+    },
+  } satisfies Omit<DocumentedPath, "path">;
+}
+
+const { roles: enrollmentRoles } = enrollmentHandlers.config;
+
+const drop = (onCollection: boolean): DocumentedOperation => ({
+  tag: "Enrollment",
+  summary: "Drop an enrollment or leave the waitlist",
+  description: "A freed seat goes to the next student waiting.",
+  roles: enrollmentRoles?.DELETE,
+  ...(onCollection && {
+    body: z.object({ id: z.string().uuid() }),
+  }),
+  responses: {
+    "200": { description: "The dropped enrollment.", data: ref("Enrollment") },
+    "400": "Invalid id.",
+    "404": "No such Enrollment.",
+    "409": "The record changed since it was read, or the deadline has passed.",
+    "428": "The If-Match header is missing.",
+  },
+});
+
+export const PATHS: readonly DocumentedPath[] = [
+  {
+    path: "/import",
+    post: {
+      tag: "Import",
+      summary: "Import universities, colleges, departments and courses",
+      description:
+        "From an XLSX workbook with one sheet per entity, or a CSV file of the entity named by `type`. A dry run by default; `commit=true` writes the batch once the preview has no errors.",
+      query: z.object({
+        type: z.enum(ENTITY_SPECS.map(({ type }) => type)).optional(),
+        commit: z.enum(["true", "false"]).optional(),
+      }),
+      requestContent: {
+        "multipart/form-data": {
+          schema: {
+            type: "object",
+            required: ["file"],
+            properties: { file: { type: "string", format: "binary" } },
+          },
+        },
+      },
+      responses: {
+        "200": {
+          description: "The row-by-row preview of a dry run.",
+          data: { type: "object" },
+        },
+        "201": {
+          description: "The import was written; rows carry their new ids.",
+          data: { type: "object" },
+        },
+        "400": "The file is missing, too large or unreadable.",
+        "409": "A row already exists; nothing was written.",
+        "422": "The import has errors; nothing was written.",
+        "429": "Too many uploads.",
+      },
+    },
+  },
+  {
+    path: "/metadata",
+    get: {
+      tag: "Metadata",
+      summary: "List the resources with metadata schemas",
+      responses: {
+        "200": {
+          description: "Each resource and its current metadata version.",
+          data: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                resource: { type: "string" },
+                version: { type: "integer" },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  {
+    path: "/metadata/{resource}",
+    params: z.object({ resource: z.enum(Object.keys(METADATA_SCHEMAS)) }),
+    get: {
+      tag: "Metadata",
+      summary: "A resource's metadata as JSON Schema",
+      description: "The current version unless an older one is asked for.",
+      query: z.object({ version: z.number().int().min(1).optional() }),
+      responses: {
+        "200": {
+          description: "The metadata schema.",
+          data: {
+            type: "object",
+            properties: {
+              resource: { type: "string" },
+              version: { type: "integer" },
+              current: { type: "integer" },
+              schema: { type: "object" },
+            },
+          },
+        },
+        "404": "No metadata schema for the resource.",
+        "422": "No such version.",
+      },
+    },
+  },
+  {
+    path: "/search",
+    get: {
+      tag: "Search",
+      summary: "Search the catalogue by name",
+      description:
+        "Hits are ranked best first and carry their parent chain; only the caller's universities are searched.",
+      query: searchQuerySchema,
+      responses: {
+        "200": {
+          description: "The best matches.",
+          data: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                type: { type: "string" },
+                id: {},
+                name: { type: ["string", "null"] },
+                rank: { type: "number" },
+                parents: { type: "array", items: { type: "object" } },
+              },
+            },
+          },
+        },
+        "422": "Invalid query parameters.",
+      },
+    },
+  },
+  {
+    path: "/university/{id}/tree",
+    key: universityHandlers.config.primaryKey ?? DEFAULT_PRIMARY_KEY,
+    get: {
+      tag: universityHandlers.config.resourceName,
+      summary: "The university's colleges, departments and courses",
+      description: "Nested, with counts at every level.",
+      roles: universityHandlers.config.roles?.GET,
+      query: treeQuerySchema,
+      responses: {
+        "200": { description: "The tree.", data: universityTreeSchema },
+        "400": "Invalid University id.",
+        "404": "No such University.",
+        "422": "Invalid query parameters.",
+      },
+    },
+  },
+  {
+    path: "/scheduler/conflicts",
+    get: {
+      tag: "Scheduler",
+      summary: "The room, instructor and cohort conflicts of a term",
+      description:
+        "Offerings of other terms sharing weeks with it are taken into account.",
+      roles: SCHEDULER_ROLES,
+      query: conflictsQuerySchema,
+      responses: {
+        "200": { description: "The conflicts.", data: conflictReport },
+        "404": "No such Term.",
+        "422": "Invalid query parameters.",
+      },
+    },
+  },
+  {
+    path: "/scheduler/check",
+    post: {
+      tag: "Scheduler",
+      summary: "Try out a schedule without saving it",
+      description:
+        "Saving refuses room and instructor conflicts; cohort conflicts are only reported, and only for an existing offering.",
+      roles: SCHEDULER_ROLES,
+      body: proposalSchema,
+      responses: {
+        "200": {
+          description: "The conflicts the offering would have.",
+          data: conflictReport,
+        },
+        "400": "The body is not valid JSON.",
+        "404": "No such Term.",
+        "422": "Invalid input, or meetings outside the term.",
+      },
+    },
+  },
+  {
+    path: "/enrollment",
+    post: {
+      tag: "Enrollment",
+      summary: "Enroll in an offering, or join its waitlist when it is full",
+      description:
+        "Checks capacity, requisites and the term's add deadline. `student_id` defaults to the caller's own student record.",
+      roles: enrollmentRoles?.POST,
+      body: enrollSchema,
+      responses: {
+        "201": { description: "The enrollment.", data: ref("Enrollment") },
+        "404": "No such offering or student.",
+        "409": "Already enrolled, or the deadline has passed.",
+        "422": "Invalid input, or requisites not met.",
+      },
+    },
+    delete: drop(true),
+  },
+  { path: "/enrollment/{id}", delete: drop(false) },
+  {
+    path: "/student/{id}/schedule",
+    key: studentHandlers.config.primaryKey ?? DEFAULT_PRIMARY_KEY,
+    get: {
+      tag: studentHandlers.config.resourceName,
+      summary: "The student's weekly timetable",
+      description:
+        "Across their current enrollments and waitlist places, with clashing meetings listed.",
+      roles: studentHandlers.config.roles?.GET,
+      query: scheduleQuerySchema,
+      responses: {
+        "200": {
+          description: "The timetable.",
+          data: {
+            type: "object",
+            properties: {
+              student_id: { type: "string" },
+              entries: { type: "array", items: { type: "object" } },
+              clashes: { type: "array", items: { type: "object" } },
+            },
+          },
+        },
+        "400": "Invalid Student id.",
+        "404": "No such Student.",
+        "422": "Invalid query parameters.",
+      },
+    },
+  },
+  {
+    path: "/student/{id}/calendar.ics",
+    ...calendarFeed(studentHandlers.config),
+  },
+  {
+    path: "/faculty/{id}/calendar.ics",
+    ...calendarFeed(facultyHandlers.config),
+  },
+  { path: "/room/{id}/calendar.ics", ...calendarFeed(roomHandlers.config) },
+  { path: "/student/{id}/invitation", ...invitation(studentHandlers.config) },
+  { path: "/faculty/{id}/invitation", ...invitation(facultyHandlers.config) },
+];
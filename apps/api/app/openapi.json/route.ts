@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import {
+  buildOpenApiDocument,
+  type DocumentedResource,
+} from "../_common/openapi";
+import { academicYearHandlers } from "../academic-year/handlers";
+import { auditHandlers } from "../audit/handlers";
+import { buildingHandlers } from "../building/handlers";
+import { collegeHandlers } from "../college/handlers";
+import { courseHandlers } from "../course/handlers";
+import { departmentHandlers } from "../department/handlers";
+import { enrollmentHandlers } from "../enrollment/handlers";
+import { facultyHandlers } from "../faculty/handlers";
+import { offeringHandlers } from "../offering/handlers";
+import { requisiteHandlers } from "../requisite/handlers";
+import { roomHandlers } from "../room/handlers";
+import { studentHandlers } from "../student/handlers";
+import { termHandlers } from "../term/handlers";
+import { universityHandlers } from "../university/handlers";
+import packageJson from "../../package.json";
+import { PATHS } from "./paths";
+
+// Every resource built with createCrudHandlers, as it is mounted, with the
+// lists of its records under a parent
+const RESOURCES: readonly DocumentedResource[] = [
+  { path: "/university", config: universityHandlers.config },
+  { path: "/college", config: collegeHandlers.config },
+  { path: "/department", config: departmentHandlers.config },
+  { path: "/course", config: courseHandlers.config },
+  { path: "/student", config: studentHandlers.config },
+  { path: "/faculty", config: facultyHandlers.config },
+  { path: "/academic-year", config: academicYearHandlers.config },
+  { path: "/term", config: termHandlers.config },
+  {
+    path: "/offering",
+    config: offeringHandlers.config,
+    childLists: [
+      { path: "/term/{id}/offerings", column: "term_id" },
+      { path: "/department/{id}/offerings", column: "department_id" },
+    ],
+  },
+  { path: "/building", config: buildingHandlers.config },
+  {
+    path: "/room",
+    config: roomHandlers.config,
+    childLists: [{ path: "/building/{id}/rooms", column: "building_id" }],
+  },
+  {
+    path: "/requisite",
+    config: requisiteHandlers.config,
+    routes: ["collection", "item"],
+    childLists: [
+      {
+        path: "/course/{id}/requisites",
+        column: "course_id",
+        parentKey: { column: "id", type: "integer" },
+      },
+    ],
+  },
+  // Enrolling and dropping go through the enrollment database functions (see
+  // ./paths.ts)
+  {
+    path: "/enrollment",
+    config: enrollmentHandlers.config,
+    routes: ["collection", "item"],
+    childLists: [{ path: "/offering/{id}/enrollments", column: "offering_id" }],
+  },
+  {
+    path: "/audit",
+    config: auditHandlers.config,
+    routes: ["collection", "item"],
+    readOnly: true,
+  },
+];
+
+const document = buildOpenApiDocument(
+  RESOURCES,
+  { title: "Edunity API", version: packageJson.version },
+  PATHS
+);
+
+// The OpenAPI 3.1 description of the API; public, like the docs page
+export function GET() {
+  return NextResponse.json(document);
+}
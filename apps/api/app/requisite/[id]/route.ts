@@ -0,0 +1,4 @@
+import { requisiteHandlers } from "../handlers";
+
+// Item routes: fetch, update, patch or delete a single course requisite by id
+export const { GET, PUT, PATCH, DELETE } = requisiteHandlers.item;
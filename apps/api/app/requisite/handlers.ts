@@ -0,0 +1,30 @@
+import { requisiteContract } from "@edunity/contracts";
+import { createCrudHandlers } from "../_common/crudFactory"; // Import our new factory
+import {
+  checkRequisiteChange,
+  checkRequisiteDelete,
+  checkRequisiteOwner,
+} from "../_common/hierarchy";
+
+// 1. The request schemas and embeddable relations are shared with the SDK
+// (see packages/contracts/resources.ts)
+
+// 2. Generate the handlers by calling the factory with your configuration
+export const requisiteHandlers = createCrudHandlers({
+  tableName: "course_requisite",
+  resourceName: "Requisite",
+  ...requisiteContract,
+  columns: ["id", "course_id", "requires_course_id", "kind", "created_at"],
+  // Belong to the university of their course, which has no university column
+  // to scope by; only staff who manage the course may change its requisites.
+  // Both columns reference course, so there is no unambiguous
+  // `?include=course`.
+  beforeInsert: checkRequisiteOwner,
+  beforeUpdate: checkRequisiteChange,
+  beforeDelete: checkRequisiteDelete,
+  roles: {
+    POST: ["university_admin", "college_admin", "department_staff"],
+    PUT: ["university_admin", "college_admin", "department_staff"],
+    DELETE: ["university_admin", "college_admin"],
+  },
+});
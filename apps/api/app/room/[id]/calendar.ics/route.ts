@@ -0,0 +1,93 @@
+import { NextRequest } from "next/server";
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers";
+import type { ItemRouteContext } from "../../../_common/crudFactory";
+import { fetchAll } from "../../../_common/fetchAll";
+import { handleRequest } from "../../../_common/handleRequest";
+import { middlewareFor } from "../../../_common/middleware";
+import {
+  DEFAULT_PRIMARY_KEY,
+  formatKey,
+  parsePathKey,
+} from "../../../_common/primaryKey";
+import { applyTenantScope } from "../../../_common/tenant";
+import {
+  CALENDAR_OFFERING_COLUMNS,
+  calendarResponse,
+  toCalendarOffering,
+} from "../../../scheduler/calendar";
+import { roomHandlers } from "../../handlers";
+
+const {
+  primaryKey = DEFAULT_PRIMARY_KEY,
+  roles,
+  middleware = {},
+} = roomHandlers.config;
+
+/**
+ * The room's bookings as an iCalendar feed: every meeting held in it.
+ */
+export async function GET(request: NextRequest, route: ItemRouteContext) {
+  return handleRequest(
+    request,
+    roles?.GET,
+    async (supabase, _, caller) => {
+      const key = parsePathKey(primaryKey, (await route.params).id);
+      if (!key.success) {
+        return ApiResponse.error(
+          ErrorCode.BAD_REQUEST,
+          "Invalid Room id.",
+          HttpStatus.BAD_REQUEST,
+          key.error
+        );
+      }
+
+      const id = formatKey(key.data);
+      const { data: room, error: lookupError } = await applyTenantScope(
+        supabase
+          .from("room")
+          .select("id, name, building(code)")
+          .eq("id", id)
+          .is("deleted_at", null),
+        "uni_id",
+        caller
+      ).maybeSingle();
+      if (lookupError) {
+        return ApiResponse.error(
+          ErrorCode.SUPABASE_QUERY_ERROR,
+          lookupError.message,
+          HttpStatus.INTERNAL_SERVER_ERROR
+        );
+      }
+      if (!room) {
+        return ApiResponse.error(
+          ErrorCode.NOT_FOUND,
+          `Room with ID ${id} not found.`,
+          HttpStatus.NOT_FOUND
+        );
+      }
+
+      const rows = await fetchAll((from, to) =>
+        supabase
+          .from("course_offering")
+          .select(CALENDAR_OFFERING_COLUMNS)
+          .contains("schedule", JSON.stringify([{ room_id: id }]))
+          .is("deleted_at", null)
+          .order("id")
+          .range(from, to)
+      );
+
+      // Offerings may also meet elsewhere
+      const offerings = rows.map(toCalendarOffering).map((offering) => ({
+        ...offering,
+        schedule: offering.schedule.filter(({ room_id }) => room_id === id),
+      }));
+      return calendarResponse(
+        supabase,
+        room.building ? `${room.building.code} ${room.name}` : room.name,
+        `room-${id}`,
+        offerings
+      );
+    },
+    middlewareFor(middleware, "GET")
+  );
+}
@@ -0,0 +1,4 @@
+import { roomHandlers } from "../../handlers";
+
+// Restore a deleted room, along with anything deleted together with it
+export const { POST } = roomHandlers.restore;
@@ -0,0 +1,4 @@
+import { roomHandlers } from "../handlers";
+
+// Item routes: fetch, update, patch or delete a single room by id
+export const { GET, PUT, PATCH, DELETE } = roomHandlers.item;
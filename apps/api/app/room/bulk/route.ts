@@ -0,0 +1,4 @@
+import { roomHandlers } from "../handlers";
+
+// Bulk routes: create, update and delete many rooms at once
+export const { POST, PUT, DELETE } = roomHandlers.bulk;
@@ -0,0 +1,36 @@
+import { roomContract } from "@edunity/contracts";
+import { createCrudHandlers } from "../_common/crudFactory"; // Import our new factory
+import {
+  inheritUniversity,
+  inheritUniversityChange,
+} from "../_common/hierarchy";
+
+// 1. The request schemas and embeddable relations are shared with the SDK
+// (see packages/contracts/resources.ts)
+
+// 2. Generate the handlers by calling the factory with your configuration
+export const roomHandlers = createCrudHandlers({
+  tableName: "room",
+  resourceName: "Room",
+  ...roomContract,
+  columns: [
+    "id",
+    "name",
+    "capacity",
+    "uni_id",
+    "building_id",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+  ],
+  tenantColumn: "uni_id",
+  softDelete: true,
+  versionColumn: "updated_at",
+  beforeInsert: inheritUniversity("building"),
+  beforeUpdate: inheritUniversityChange("building"),
+  roles: {
+    POST: ["university_admin", "college_admin"],
+    PUT: ["university_admin", "college_admin"],
+    DELETE: ["university_admin", "college_admin"],
+  },
+});
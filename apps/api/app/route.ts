@@ -8,6 +8,6 @@ export async function GET() {
     timestamp: new Date().toISOString(),
   };  
   return successResponse(result);
-  } catch (error:any) {
-    return errorResponse(error.message || "Internal Server Error", 500);
+  } catch (error) {
+    return errorResponse((error instanceof Error && error.message) || "Internal Server Error", 500);
 }}  
\ No newline at end of file
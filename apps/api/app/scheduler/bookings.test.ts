@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import type { RequestContext } from "../_common/middleware";
+import { checkBatchBookings } from "./bookings";
+
+const term = {
+  id: "t1",
+  uni_id: "u1",
+  name: "Fall",
+  starts_on: "2026-09-01",
+  ends_on: "2026-12-15",
+};
+
+const saved = {
+  id: "o-saved",
+  term_id: "t1",
+  department_id: "d1",
+  instructor_ids: ["f-saved"],
+  schedule: [
+    { day: "mon", starts_at: "09:00", ends_at: "10:00", room_id: "r1" },
+  ],
+  term,
+};
+
+// Answers loadTimetable's queries: the term, the terms sharing its weeks and
+// their offerings
+function context(): RequestContext {
+  const rows: Record<string, unknown[]> = {
+    term: [term],
+    course_offering: [saved],
+  };
+  const from = (table: string) => {
+    const result = { data: rows[table], error: null };
+    const builder = {
+      select: () => builder,
+      eq: () => builder,
+      is: () => builder,
+      in: () => builder,
+      lte: () => builder,
+      gte: () => builder,
+      order: () => builder,
+      range: () => builder,
+      maybeSingle: async () => ({ data: result.data?.[0], error: null }),
+      then: (resolve: (value: typeof result) => unknown) => resolve(result),
+    };
+    return builder;
+  };
+  return { supabase: { from } } as unknown as RequestContext;
+}
+
+function meeting(starts_at: string, ends_at: string, room_id: string) {
+  return { day: "mon", starts_at, ends_at, room_id };
+}
+
+describe("checkBatchBookings", () => {
+  it("refuses the later of two rows double-booking a room", async () => {
+    const results = await checkBatchBookings(
+      [
+        { term_id: "t1", schedule: [meeting("11:00", "12:00", "r2")] },
+        { term_id: "t1", schedule: [meeting("10:00", "11:00", "r2")] },
+        { term_id: "t1", schedule: [meeting("11:30", "12:30", "r2")] },
+      ],
+      context()
+    );
+    expect(results[0]).toBeNull();
+    expect(results[1]).toBeNull();
+    expect(results[2]?.status).toBe(409);
+    const body = await results[2]!.json();
+    expect(body.error.details.conflicts).toEqual([
+      expect.objectContaining({
+        kind: "room",
+        offering_ids: expect.arrayContaining(["new-0", "new-2"]),
+      }),
+    ]);
+  });
+
+  it("checks rows against the saved timetable", async () => {
+    const [result] = await checkBatchBookings(
+      [
+        {
+          term_id: "t1",
+          instructor_ids: ["f-saved"],
+          schedule: [meeting("09:30", "10:30", "r2")],
+        },
+      ],
+      context()
+    );
+    expect(result?.status).toBe(409);
+  });
+
+  it("lets an offering move out of a slot another row of the batch takes", async () => {
+    const results = await checkBatchBookings(
+      [
+        {
+          id: "o-saved",
+          term_id: "t1",
+          schedule: [meeting("14:00", "15:00", "r1")],
+        },
+        { term_id: "t1", schedule: [meeting("09:00", "10:00", "r1")] },
+      ],
+      context()
+    );
+    expect(results).toEqual([null, null]);
+  });
+});
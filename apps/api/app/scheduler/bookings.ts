@@ -0,0 +1,279 @@
+import type {
+  Conflict,
+  ConflictKind,
+  DateRange,
+  Meeting,
+} from "@edunity/contracts";
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers";
+import { fetchAll } from "../_common/fetchAll";
+import { hierarchyError } from "../_common/hierarchy";
+import type { Halt } from "../_common/hooks";
+import type { RequestContext } from "../_common/middleware";
+import type { RowOf } from "../_common/types";
+import { rangesOverlap } from "../offering/schedule";
+import {
+  findConflicts,
+  PROPOSED_OFFERING_ID,
+  type SharedStudents,
+  type TimetabledOffering,
+} from "./conflicts";
+
+/**
+ * Loads timetables for the scheduler, and the course offering hooks that
+ * refuse to double-book a room or an instructor. Students may still be
+ * timetabled into clashing offerings; those cohort conflicts are reported by
+ * the scheduler and the student schedule, not refused.
+ *
+ * The hooks answer with the conflicts, but only see what is saved: a
+ * constraint trigger (see supabase/migrations/20261019310000_offering_bookings.sql)
+ * refuses double bookings that concurrent writes would make.
+ */
+
+type Client = RequestContext["supabase"];
+
+export interface TimetableTerm extends DateRange {
+  id: string;
+  uni_id: string;
+  name: string;
+}
+
+export interface Timetable {
+  term: TimetableTerm;
+  // Offerings of the term and of any other term sharing weeks with it
+  offerings: (TimetabledOffering & {
+    term_id: string;
+    department_id: string;
+  })[];
+}
+
+interface Bookable {
+  id?: string;
+  term_id: string;
+  instructor_ids?: readonly string[];
+  schedule?: unknown;
+}
+
+/**
+ * The timetable around a term the caller can see, or `null`.
+ */
+export async function loadTimetable(
+  supabase: Client,
+  termId: string
+): Promise<Timetable | null> {
+  const { data: term, error } = await supabase
+    .from("term")
+    .select("id, uni_id, name, starts_on, ends_on")
+    .eq("id", termId)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!term) {
+    return null;
+  }
+
+  // e.g. a summer session running alongside the end of spring
+  const { data: terms, error: termsError } = await supabase
+    .from("term")
+    .select("id")
+    .eq("uni_id", term.uni_id)
+    .lte("starts_on", term.ends_on)
+    .gte("ends_on", term.starts_on)
+    .is("deleted_at", null);
+  if (termsError) {
+    throw termsError;
+  }
+
+  const rows = await fetchAll((from, to) =>
+    supabase
+      .from("course_offering")
+      .select(
+        "id, term_id, department_id, instructor_ids, schedule, term(starts_on, ends_on)"
+      )
+      .in(
+        "term_id",
+        terms.map(({ id }) => id)
+      )
+      .is("deleted_at", null)
+      .order("id")
+      .range(from, to)
+  );
+  return {
+    term,
+    offerings: rows.map(
+      ({ id, term_id, department_id, instructor_ids, schedule, term }) => ({
+        id,
+        term_id,
+        department_id,
+        instructor_ids,
+        // Validated by scheduleSchema when written
+        schedule: schedule as unknown as Meeting[],
+        term: term as DateRange,
+      })
+    ),
+  };
+}
+
+/**
+ * Students enrolled or waitlisted in both of each pair of the offerings, as
+ * far as the caller can see enrollments.
+ */
+export async function loadSharedStudents(
+  supabase: Client,
+  offeringIds: readonly string[]
+): Promise<SharedStudents[]> {
+  return fetchAll((from, to) =>
+    supabase
+      .rpc("shared_students", { offerings: [...offeringIds] })
+      .range(from, to)
+  );
+}
+
+/**
+ * Meetings that run for only part of a term must fall within it.
+ */
+export function checkMeetingDates(
+  schedule: readonly Meeting[],
+  term: TimetableTerm
+): Halt | null {
+  const outside = schedule.some(
+    ({ starts_on, ends_on }) =>
+      (starts_on !== undefined && starts_on < term.starts_on) ||
+      (ends_on !== undefined && ends_on > term.ends_on)
+  );
+  return outside
+    ? hierarchyError(
+        "schedule",
+        `Meetings must fall within term ${term.name} (${term.starts_on} to ${term.ends_on}).`
+      )
+    : null;
+}
+
+/**
+ * Meetings must fall within the term, and may not double-book a room or an
+ * instructor. `offering.id` is the offering being rescheduled, if any.
+ */
+async function checkBookings(
+  { supabase }: RequestContext,
+  offering: Bookable,
+  kinds: readonly ConflictKind[] = ["room", "instructor"]
+): Promise<Halt | null> {
+  // Validated by scheduleSchema
+  const schedule = (offering.schedule ?? []) as Meeting[];
+  if (schedule.length === 0) {
+    return null;
+  }
+  const timetable = await loadTimetable(supabase, offering.term_id);
+  if (!timetable) {
+    // Reported by the parent checks
+    return null;
+  }
+  const { term } = timetable;
+  const outside = checkMeetingDates(schedule, term);
+  if (outside) {
+    return outside;
+  }
+
+  const id = offering.id ?? PROPOSED_OFFERING_ID;
+  const conflicts = findConflicts(
+    [
+      {
+        id,
+        term,
+        instructor_ids: offering.instructor_ids ?? [],
+        schedule,
+      },
+      ...timetable.offerings.filter((other) => other.id !== id),
+    ],
+    kinds
+  ).filter(({ offering_ids }) => offering_ids.includes(id));
+  return conflicts.length > 0 ? doubleBooked(conflicts) : null;
+}
+
+function doubleBooked(conflicts: Conflict[]): Halt {
+  return ApiResponse.error(
+    ErrorCode.CONFLICT,
+    "The schedule double-books a room or an instructor.",
+    HttpStatus.CONFLICT,
+    { conflicts }
+  );
+}
+
+/**
+ * `beforeInsert` for course offerings, after the parent checks.
+ */
+export async function checkOfferingBookings<D extends Bookable>(
+  data: D,
+  context: RequestContext
+): Promise<D | Halt> {
+  return (await checkBookings(context, data)) ?? data;
+}
+
+/**
+ * `beforeUpdate` for course offerings, after the parent checks. Only changes
+ * to the term, instructors or schedule are checked.
+ */
+export async function checkOfferingBookingChanges(
+  changes: Partial<RowOf<"course_offering">>,
+  before: RowOf<"course_offering">,
+  context: RequestContext
+): Promise<Partial<RowOf<"course_offering">> | Halt> {
+  if (
+    changes.term_id === undefined &&
+    changes.instructor_ids === undefined &&
+    changes.schedule === undefined
+  ) {
+    return changes;
+  }
+  return (await checkBookings(context, { ...before, ...changes })) ?? changes;
+}
+
+/**
+ * `beforeBulkWrite` for course offerings: a batch may not double-book a room
+ * or an instructor within itself either. Each row is checked against the
+ * timetable and the rows before it that were let through, so of two clashing
+ * rows the later one is refused.
+ */
+export async function checkBatchBookings(
+  rows: readonly Partial<Bookable>[],
+  { supabase }: RequestContext
+): Promise<(Halt | null)[]> {
+  const timetables = new Map<string, Timetable | null>();
+  for (const { term_id } of rows) {
+    if (term_id !== undefined && !timetables.has(term_id)) {
+      timetables.set(term_id, await loadTimetable(supabase, term_id));
+    }
+  }
+
+  // The saved schedules of the offerings being rescheduled no longer count
+  const rescheduled = new Set(rows.flatMap(({ id }) => (id ? [id] : [])));
+  const accepted: TimetabledOffering[] = [];
+  return rows.map((row, index) => {
+    // Validated by scheduleSchema
+    const schedule = (row.schedule ?? []) as Meeting[];
+    const timetable = row.term_id ? timetables.get(row.term_id) : null;
+    if (schedule.length === 0 || !timetable) {
+      return null;
+    }
+    const offering: TimetabledOffering = {
+      id: row.id ?? `${PROPOSED_OFFERING_ID}-${index}`,
+      term: timetable.term,
+      instructor_ids: row.instructor_ids ?? [],
+      schedule,
+    };
+    const conflicts = findConflicts(
+      [
+        offering,
+        ...accepted.filter(({ term }) => rangesOverlap(term, offering.term)),
+        ...timetable.offerings.filter(({ id }) => !rescheduled.has(id)),
+      ],
+      ["room", "instructor"]
+    ).filter(({ offering_ids }) => offering_ids.includes(offering.id));
+    if (conflicts.length > 0) {
+      return doubleBooked(conflicts);
+    }
+    accepted.push(offering);
+    return null;
+  });
+}
@@ -0,0 +1,124 @@
+import { type DateRange, type Meeting, WEEKDAYS } from "@edunity/contracts";
+import type { Json } from "@edunity/supabase";
+import type { CalendarEvent } from "../_common/ical";
+import { icsCalendar, icsResponse } from "../_common/ical";
+import type { RequestContext } from "../_common/middleware";
+import { meetingDates } from "../offering/schedule";
+
+/**
+ * The iCalendar feeds of a student, an instructor or a room: every weekly
+ * meeting of their offerings as a recurring event, located in its room.
+ */
+
+// Columns of course_offering (and its course and term) the feeds need
+export const CALENDAR_OFFERING_COLUMNS =
+  "id, section, schedule, course(name), term(starts_on, ends_on)";
+
+export interface CalendarOffering {
+  id: string;
+  section: string;
+  schedule: Meeting[];
+  course: { name: string | null } | null;
+  term: DateRange;
+}
+
+// An offering as selected with CALENDAR_OFFERING_COLUMNS
+export type CalendarOfferingRow = Omit<CalendarOffering, "schedule"> & {
+  schedule: Json;
+};
+
+type Client = RequestContext["supabase"];
+
+export function toCalendarOffering({
+  schedule,
+  ...offering
+}: CalendarOfferingRow): CalendarOffering {
+  // Validated by scheduleSchema when written
+  return { ...offering, schedule: schedule as unknown as Meeting[] };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The first date on or after `from` that falls on `day`.
+ */
+function firstWeekday(from: string, day: Meeting["day"]): string {
+  const start = new Date(`${from}T00:00:00Z`);
+  // getUTCDay counts from Sunday, WEEKDAYS from Monday
+  const offset = (WEEKDAYS.indexOf(day) + 1 - start.getUTCDay() + 7) % 7;
+  return new Date(start.getTime() + offset * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * "ENG 101" for every room the offerings meet in.
+ */
+async function roomLabels(
+  supabase: Client,
+  offerings: readonly CalendarOffering[]
+): Promise<Map<string, string>> {
+  const ids = [
+    ...new Set(
+      offerings.flatMap(({ schedule }) =>
+        schedule.flatMap(({ room_id }) => (room_id ? [room_id] : []))
+      )
+    ),
+  ];
+  if (ids.length === 0) {
+    return new Map();
+  }
+  const { data, error } = await supabase
+    .from("room")
+    .select("id, name, building(code)")
+    .in("id", ids);
+  if (error) {
+    throw error;
+  }
+  return new Map(
+    data.map(({ id, name, building }) => [
+      id,
+      building ? `${building.code} ${name}` : name,
+    ])
+  );
+}
+
+export function offeringEvents(
+  offerings: readonly CalendarOffering[],
+  rooms: ReadonlyMap<string, string>
+): CalendarEvent[] {
+  return offerings.flatMap((offering) =>
+    offering.schedule.flatMap((meeting, index) => {
+      const dates = meetingDates(meeting, offering.term);
+      const date = firstWeekday(dates.starts_on, meeting.day);
+      if (date > dates.ends_on) {
+        return [];
+      }
+      return [
+        {
+          uid: `${offering.id}-${index}@edunity`,
+          summary: `${offering.course?.name ?? "Course"} (section ${offering.section})`,
+          location: meeting.room_id ? rooms.get(meeting.room_id) : undefined,
+          date,
+          starts_at: meeting.starts_at,
+          ends_at: meeting.ends_at,
+          until: dates.ends_on,
+        },
+      ];
+    })
+  );
+}
+
+/**
+ * Serves the offerings' meetings as `<filename>.ics`.
+ */
+export async function calendarResponse(
+  supabase: Client,
+  name: string,
+  filename: string,
+  offerings: readonly CalendarOffering[]
+) {
+  const rooms = await roomLabels(supabase, offerings);
+  return icsResponse(
+    filename,
+    icsCalendar(name, offeringEvents(offerings, rooms))
+  );
+}
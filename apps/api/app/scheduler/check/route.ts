@@ -0,0 +1,90 @@
+import { NextRequest } from "next/server";
+import {
+  CONFLICT_KINDS,
+  type ConflictReport,
+  proposalSchema,
+} from "@edunity/contracts";
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers";
+import { handleRequest } from "../../_common/handleRequest";
+import { invalidJsonResponse, readJson } from "../../_common/json";
+import {
+  checkMeetingDates,
+  loadSharedStudents,
+  loadTimetable,
+} from "../bookings";
+import {
+  findConflicts,
+  PROPOSED_OFFERING_ID,
+  SCHEDULER_ROLES,
+} from "../conflicts";
+
+/**
+ * Tries out a schedule without saving it: the conflicts the offering would
+ * have with the rest of the timetable. Saving refuses room and instructor
+ * conflicts; cohort conflicts are only reported, and only for an existing
+ * offering (`offering_id`), whose students are known.
+ */
+export async function POST(request: NextRequest) {
+  return handleRequest(request, SCHEDULER_ROLES, async (supabase, req) => {
+    const json = await readJson(req);
+    if (!json.ok) return invalidJsonResponse();
+    const validation = proposalSchema.safeParse(json.body);
+    if (!validation.success) {
+      return ApiResponse.error(
+        ErrorCode.VALIDATION_ERROR,
+        "Invalid input.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+        validation.error.flatten()
+      );
+    }
+    const {
+      offering_id,
+      term_id,
+      instructor_ids,
+      schedule,
+      kinds = CONFLICT_KINDS,
+    } = validation.data;
+
+    const timetable = await loadTimetable(supabase, term_id);
+    if (!timetable) {
+      return ApiResponse.error(
+        ErrorCode.NOT_FOUND,
+        `Term with ID ${term_id} not found.`,
+        HttpStatus.NOT_FOUND
+      );
+    }
+    const { term } = timetable;
+    const outside = checkMeetingDates(schedule, term);
+    if (outside) {
+      return outside;
+    }
+
+    const id = offering_id ?? PROPOSED_OFFERING_ID;
+    const others = timetable.offerings.filter((other) => other.id !== id);
+    const shared =
+      offering_id && kinds.includes("cohort")
+        ? await loadSharedStudents(supabase, [
+            offering_id,
+            ...others.map((other) => other.id),
+          ])
+        : [];
+    const conflicts = findConflicts(
+      [{ id, term, instructor_ids, schedule }, ...others],
+      kinds,
+      shared
+    ).filter(({ offering_ids }) => offering_ids.includes(id));
+
+    return ApiResponse.success<ConflictReport>(
+      {
+        term: {
+          id: term.id,
+          name: term.name,
+          starts_on: term.starts_on,
+          ends_on: term.ends_on,
+        },
+        conflicts,
+      },
+      HttpStatus.OK
+    );
+  });
+}
@@ -0,0 +1,142 @@
+import {
+  CONFLICT_KINDS,
+  type Conflict,
+  type ConflictKind,
+  type DateRange,
+  type Meeting,
+  WEEKDAYS,
+} from "@edunity/contracts";
+import type { Role } from "../_common/auth";
+import { meetingDates, rangesOverlap } from "../offering/schedule";
+
+/**
+ * Timetable conflicts between course offerings. Two meetings conflict when
+ * they overlap in time on the same weekday, in weeks both run, and share a
+ * room, an instructor or students (the cohort enrolled or waitlisted in
+ * both). The report and request schemas are shared with the SDK (see
+ * packages/contracts/scheduler.ts).
+ */
+
+// Whoever may edit offerings
+export const SCHEDULER_ROLES: readonly Role[] = [
+  "university_admin",
+  "college_admin",
+  "department_staff",
+];
+
+// Stands for the offering being proposed when it has no id yet
+export const PROPOSED_OFFERING_ID = "new";
+
+// An offering as the scheduler sees it
+export interface TimetabledOffering {
+  id: string;
+  term: DateRange;
+  instructor_ids: readonly string[];
+  schedule: readonly Meeting[];
+}
+
+// Students enrolled or waitlisted in both of a pair of offerings
+export interface SharedStudents {
+  offering_a: string;
+  offering_b: string;
+  students: number;
+}
+
+interface Session {
+  offering: TimetabledOffering;
+  meeting: Meeting;
+  dates: DateRange;
+}
+
+function pairKey(a: string, b: string) {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Every conflict between the offerings' meetings, of the given kinds. Cohort
+ * conflicts need `shared`, the students each pair of offerings has in common.
+ */
+export function findConflicts(
+  offerings: readonly TimetabledOffering[],
+  kinds: readonly ConflictKind[] = CONFLICT_KINDS,
+  shared: readonly SharedStudents[] = []
+): Conflict[] {
+  const students = new Map(
+    shared.map((pair) => [
+      pairKey(pair.offering_a, pair.offering_b),
+      pair.students,
+    ])
+  );
+  const conflicts: Conflict[] = [];
+
+  // Sorted by start time per weekday, so each meeting is only compared with
+  // the ones that start before it ends
+  for (const day of WEEKDAYS) {
+    const sessions: Session[] = offerings
+      .flatMap((offering) =>
+        offering.schedule
+          .filter((meeting) => meeting.day === day)
+          .map((meeting) => ({
+            offering,
+            meeting,
+            dates: meetingDates(meeting, offering.term),
+          }))
+      )
+      .sort((a, b) => a.meeting.starts_at.localeCompare(b.meeting.starts_at));
+
+    sessions.forEach((first, index) => {
+      for (const second of sessions.slice(index + 1)) {
+        if (second.meeting.starts_at >= first.meeting.ends_at) break;
+        if (
+          first.offering.id === second.offering.id ||
+          !rangesOverlap(first.dates, second.dates)
+        ) {
+          continue;
+        }
+        const when = {
+          offering_ids: [first.offering.id, second.offering.id] as [
+            string,
+            string,
+          ],
+          day,
+          starts_at: second.meeting.starts_at,
+          ends_at:
+            first.meeting.ends_at < second.meeting.ends_at
+              ? first.meeting.ends_at
+              : second.meeting.ends_at,
+          starts_on:
+            first.dates.starts_on > second.dates.starts_on
+              ? first.dates.starts_on
+              : second.dates.starts_on,
+          ends_on:
+            first.dates.ends_on < second.dates.ends_on
+              ? first.dates.ends_on
+              : second.dates.ends_on,
+        };
+
+        const room = first.meeting.room_id;
+        if (kinds.includes("room") && room && room === second.meeting.room_id) {
+          conflicts.push({ kind: "room", room_id: room, ...when });
+        }
+        if (kinds.includes("instructor")) {
+          for (const instructor of first.offering.instructor_ids) {
+            if (second.offering.instructor_ids.includes(instructor)) {
+              conflicts.push({
+                kind: "instructor",
+                instructor_id: instructor,
+                ...when,
+              });
+            }
+          }
+        }
+        const cohort = students.get(
+          pairKey(first.offering.id, second.offering.id)
+        );
+        if (kinds.includes("cohort") && cohort) {
+          conflicts.push({ kind: "cohort", students: cohort, ...when });
+        }
+      }
+    });
+  }
+  return conflicts;
+}
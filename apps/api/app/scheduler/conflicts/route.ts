@@ -0,0 +1,84 @@
+import { NextRequest } from "next/server";
+import {
+  CONFLICT_KINDS,
+  type ConflictReport,
+  conflictsQuerySchema,
+} from "@edunity/contracts";
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers";
+import { handleRequest } from "../../_common/handleRequest";
+import { loadSharedStudents, loadTimetable } from "../bookings";
+import { findConflicts, SCHEDULER_ROLES } from "../conflicts";
+
+/**
+ * Every room, instructor and cohort conflict involving the term's offerings:
+ * `?term_id=...&department_id=...&kinds=room,instructor`. Offerings of other
+ * terms sharing weeks with it are taken into account.
+ */
+export async function GET(request: NextRequest) {
+  return handleRequest(request, SCHEDULER_ROLES, async (supabase, req) => {
+    const query = conflictsQuerySchema.safeParse(
+      Object.fromEntries(req.nextUrl.searchParams)
+    );
+    if (!query.success) {
+      return ApiResponse.error(
+        ErrorCode.VALIDATION_ERROR,
+        "Invalid query parameters.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+        query.error.flatten()
+      );
+    }
+    const {
+      term_id,
+      department_id,
+      room_id,
+      instructor_id,
+      kinds = CONFLICT_KINDS,
+    } = query.data;
+
+    const timetable = await loadTimetable(supabase, term_id);
+    if (!timetable) {
+      return ApiResponse.error(
+        ErrorCode.NOT_FOUND,
+        `Term with ID ${term_id} not found.`,
+        HttpStatus.NOT_FOUND
+      );
+    }
+    const { term, offerings } = timetable;
+    const shared = kinds.includes("cohort")
+      ? await loadSharedStudents(
+          supabase,
+          offerings.map(({ id }) => id)
+        )
+      : [];
+
+    // The offerings a conflict must involve to be reported
+    const involved = new Set(
+      offerings
+        .filter(
+          (offering) =>
+            offering.term_id === term_id &&
+            (!department_id || offering.department_id === department_id) &&
+            (!instructor_id || offering.instructor_ids.includes(instructor_id))
+        )
+        .map(({ id }) => id)
+    );
+    const conflicts = findConflicts(offerings, kinds, shared).filter(
+      (conflict) =>
+        conflict.offering_ids.some((id) => involved.has(id)) &&
+        (!room_id || conflict.room_id === room_id)
+    );
+
+    return ApiResponse.success<ConflictReport>(
+      {
+        term: {
+          id: term.id,
+          name: term.name,
+          starts_on: term.starts_on,
+          ends_on: term.ends_on,
+        },
+        conflicts,
+      },
+      HttpStatus.OK
+    );
+  });
+}
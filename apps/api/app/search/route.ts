@@ -0,0 +1,45 @@
+import { NextRequest } from "next/server";
+import { searchQuerySchema } from "@edunity/contracts";
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers";
+import { handleRequest } from "../_common/handleRequest";
+import { tenantScope } from "../_common/tenant";
+import { toSearchHit } from "./search";
+
+/**
+ * Searches universities, colleges, departments and courses by name:
+ * `?q=dept of mechanical engg&type=department&limit=10`. Hits are ranked
+ * best first and carry their parent chain; only the caller's universities
+ * are searched.
+ */
+export async function GET(request: NextRequest) {
+  return handleRequest(request, undefined, async (supabase, req, caller) => {
+    const query = searchQuerySchema.safeParse(
+      Object.fromEntries(req.nextUrl.searchParams)
+    );
+    if (!query.success) {
+      return ApiResponse.error(
+        ErrorCode.VALIDATION_ERROR,
+        "Invalid query parameters.",
+        HttpStatus.UNPROCESSABLE_ENTITY,
+        query.error.flatten()
+      );
+    }
+
+    const { q, type, limit } = query.data;
+    const { data, error } = await supabase.rpc("search_catalog", {
+      query: q,
+      kinds: type,
+      uni_ids: tenantScope(caller) ?? undefined,
+      result_limit: limit,
+    });
+    if (error) {
+      return ApiResponse.error(
+        ErrorCode.SUPABASE_QUERY_ERROR,
+        error.message,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+
+    return ApiResponse.success(data.map(toSearchHit), HttpStatus.OK);
+  });
+}
@@ -0,0 +1,31 @@
+import { z } from "zod";
+import type { SearchHit, SearchParent, SearchType } from "@edunity/contracts";
+import type { Database } from "@edunity/supabase";
+
+/**
+ * Catalogue search across the hierarchy, backed by the `search_catalog`
+ * database function (see the search migration). The query schema and hits
+ * are shared with the SDK (see packages/contracts/search.ts).
+ */
+
+type SearchRow =
+  Database["public"]["Functions"]["search_catalog"]["Returns"][number];
+
+const parentSchema = z.object({ id: z.string(), name: z.string().nullable() });
+
+export function toSearchHit(row: SearchRow): SearchHit {
+  const parents: SearchParent[] = [];
+  for (const type of ["university", "college", "department"] as const) {
+    const parent = parentSchema.safeParse(row[type]);
+    if (parent.success) parents.push({ type, ...parent.data });
+  }
+  const type = row.kind as SearchType;
+  return {
+    type,
+    // Course ids are integers, like the /course resource serves them
+    id: type === "course" ? Number(row.id) : row.id,
+    name: row.name,
+    rank: row.rank,
+    parents,
+  };
+}
@@ -0,0 +1,7 @@
+import { createInvitationHandlers } from "../../../_common/invitation";
+import { studentHandlers } from "../../handlers";
+
+// Invite the student to sign up (POST), or revoke the invitation (DELETE)
+export const { POST, DELETE } = createInvitationHandlers(
+  studentHandlers.config
+);
@@ -0,0 +1,4 @@
+import { studentHandlers } from "../../handlers";
+
+// Restore a deleted student, along with anything deleted together with it
+export const { POST } = studentHandlers.restore;
@@ -0,0 +1,4 @@
+import { studentHandlers } from "../handlers";
+
+// Item routes: fetch, update, patch or delete a single student by id
+export const { GET, PUT, PATCH, DELETE } = studentHandlers.item;
@@ -0,0 +1,139 @@
+import { NextRequest } from "next/server";
+import {
+  scheduleQuerySchema,
+  type ScheduledOffering,
+  type StudentSchedule,
+} from "@edunity/contracts";
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers";
+import type { ItemRouteContext } from "../../../_common/crudFactory";
+import { handleRequest } from "../../../_common/handleRequest";
+import { middlewareFor } from "../../../_common/middleware";
+import {
+  DEFAULT_PRIMARY_KEY,
+  formatKey,
+  parsePathKey,
+} from "../../../_common/primaryKey";
+import { applyTenantScope } from "../../../_common/tenant";
+import { studentHandlers } from "../../handlers";
+import { findClashes } from "../../schedule";
+
+// An enrollment as selected below
+interface EnrollmentRow
+  extends Pick<ScheduledOffering, "status" | "offering_id"> {
+  id: string;
+  course_offering: Pick<ScheduledOffering, "section" | "course" | "term"> & {
+    schedule: ScheduledOffering["meetings"];
+  };
+}
+
+const {
+  primaryKey = DEFAULT_PRIMARY_KEY,
+  roles,
+  middleware = {},
+} = studentHandlers.config;
+
+/**
+ * The student's weekly timetable across their current enrollments and
+ * waitlist places, with clashing meetings listed. `?term_id=` limits it to
+ * one term.
+ */
+export async function GET(request: NextRequest, route: ItemRouteContext) {
+  return handleRequest(
+    request,
+    roles?.GET,
+    async (supabase, req, caller) => {
+      const key = parsePathKey(primaryKey, (await route.params).id);
+      if (!key.success) {
+        return ApiResponse.error(
+          ErrorCode.BAD_REQUEST,
+          "Invalid Student id.",
+          HttpStatus.BAD_REQUEST,
+          key.error
+        );
+      }
+      const query = scheduleQuerySchema.safeParse(
+        Object.fromEntries(req.nextUrl.searchParams)
+      );
+      if (!query.success) {
+        return ApiResponse.error(
+          ErrorCode.VALIDATION_ERROR,
+          "Invalid query parameters.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
+          query.error.flatten()
+        );
+      }
+
+      const id = formatKey(key.data);
+      const { data: student, error: lookupError } = await applyTenantScope(
+        supabase
+          .from("student")
+          .select("id")
+          .eq("id", id)
+          .is("deleted_at", null),
+        "uni_id",
+        caller
+      ).maybeSingle();
+      if (lookupError) {
+        return ApiResponse.error(
+          ErrorCode.SUPABASE_QUERY_ERROR,
+          lookupError.message,
+          HttpStatus.INTERNAL_SERVER_ERROR
+        );
+      }
+      if (!student) {
+        return ApiResponse.error(
+          ErrorCode.NOT_FOUND,
+          `Student with ID ${id} not found.`,
+          HttpStatus.NOT_FOUND
+        );
+      }
+
+      let enrollments = supabase
+        .from("enrollment")
+        .select(
+          "id, status, offering_id, course_offering!inner(section, schedule, deleted_at, term_id, course(id, name), term(id, name, starts_on, ends_on))"
+        )
+        .eq("student_id", id)
+        .in("status", ["enrolled", "waitlisted"])
+        .is("course_offering.deleted_at", null);
+      if (query.data.term_id) {
+        enrollments = enrollments.eq(
+          "course_offering.term_id",
+          query.data.term_id
+        );
+      }
+      const { data, error } = await enrollments;
+      if (error) {
+        return ApiResponse.error(
+          ErrorCode.SUPABASE_QUERY_ERROR,
+          error.message,
+          HttpStatus.INTERNAL_SERVER_ERROR
+        );
+      }
+
+      // Meetings are stored as JSON
+      const rows = (data ?? []) as unknown as EnrollmentRow[];
+      const entries = rows.map(
+        ({
+          id: enrollmentId,
+          status,
+          offering_id,
+          course_offering,
+        }): ScheduledOffering => ({
+          enrollment_id: enrollmentId,
+          status,
+          offering_id,
+          section: course_offering.section,
+          course: course_offering.course,
+          term: course_offering.term,
+          meetings: course_offering.schedule,
+        })
+      );
+      return ApiResponse.success<StudentSchedule>(
+        { student_id: id, entries, clashes: findClashes(entries) },
+        HttpStatus.OK
+      );
+    },
+    middlewareFor(middleware, "GET")
+  );
+}
@@ -0,0 +1,4 @@
+import { studentHandlers } from "../handlers";
+
+// Bulk routes: create, update and delete many students at once
+export const { POST, PUT, DELETE } = studentHandlers.bulk;
@@ -0,0 +1,41 @@
+import { studentContract } from "@edunity/contracts";
+import { createCrudHandlers } from "../_common/crudFactory"; // Import our new factory
+import {
+  checkHomeDepartment,
+  checkHomeDepartmentChange,
+} from "../_common/hierarchy";
+
+// 1. The request schemas and embeddable relations are shared with the SDK
+// (see packages/contracts/resources.ts)
+
+// 2. Generate the handlers by calling the factory with your configuration
+export const studentHandlers = createCrudHandlers({
+  tableName: "student",
+  resourceName: "Student",
+  ...studentContract,
+  columns: [
+    "id",
+    "enrollment_number",
+    "first_name",
+    "last_name",
+    "email",
+    "phone",
+    "uni_id",
+    "department_id",
+    "user_id",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+  ],
+  tenantColumn: "uni_id",
+  softDelete: true,
+  versionColumn: "updated_at",
+  // The home department must belong to the student's university
+  beforeInsert: checkHomeDepartment,
+  beforeUpdate: checkHomeDepartmentChange,
+  roles: {
+    POST: ["university_admin", "college_admin", "department_staff"],
+    PUT: ["university_admin", "college_admin", "department_staff"],
+    DELETE: ["university_admin", "college_admin"],
+  },
+});
@@ -0,0 +1,48 @@
+import type { Clash, ScheduledOffering } from "@edunity/contracts";
+import {
+  meetingDates,
+  meetingsOverlap,
+  rangesOverlap,
+} from "../offering/schedule";
+
+/**
+ * A student's weekly timetable: the meetings of every offering they are
+ * enrolled or waitlisted in, and the pairs of meetings that clash. Meetings
+ * that run in different weeks never clash. The response types are shared
+ * with the SDK (see packages/contracts/schedule.ts).
+ */
+
+/**
+ * Every overlapping pair of meetings between different offerings.
+ */
+export function findClashes(entries: readonly ScheduledOffering[]): Clash[] {
+  const clashes: Clash[] = [];
+  entries.forEach((a, index) => {
+    for (const b of entries.slice(index + 1)) {
+      for (const first of a.meetings) {
+        for (const second of b.meetings) {
+          if (
+            !meetingsOverlap(first, second) ||
+            !rangesOverlap(
+              meetingDates(first, a.term),
+              meetingDates(second, b.term)
+            )
+          ) {
+            continue;
+          }
+          clashes.push({
+            enrollment_ids: [a.enrollment_id, b.enrollment_id],
+            day: first.day,
+            starts_at:
+              first.starts_at > second.starts_at
+                ? first.starts_at
+                : second.starts_at,
+            ends_at:
+              first.ends_at < second.ends_at ? first.ends_at : second.ends_at,
+          });
+        }
+      }
+    }
+  });
+  return clashes;
+}
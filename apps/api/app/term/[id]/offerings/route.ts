@@ -0,0 +1,5 @@
+import { childListRoute } from "../../../_common/nested";
+import { offeringHandlers } from "../../../offering/handlers";
+
+// The term's course offerings, with every option of the /offering list
+export const GET = childListRoute(offeringHandlers.GET, "term_id");
@@ -0,0 +1,4 @@
+import { termHandlers } from "../../handlers";
+
+// Restore a deleted term, along with anything deleted together with it
+export const { POST } = termHandlers.restore;
@@ -0,0 +1,4 @@
+import { termHandlers } from "../handlers";
+
+// Item routes: fetch, update, patch or delete a single term by id
+export const { GET, PUT, PATCH, DELETE } = termHandlers.item;
@@ -0,0 +1,4 @@
+import { termHandlers } from "../handlers";
+
+// Bulk routes: create, update and delete many terms at once
+export const { POST, PUT, DELETE } = termHandlers.bulk;
@@ -0,0 +1,36 @@
+import { termContract } from "@edunity/contracts";
+import { createCrudHandlers } from "../_common/crudFactory"; // Import our new factory
+import { checkTermParent, checkTermParentChange } from "../_common/hierarchy";
+
+// 1. The request schemas and embeddable relations are shared with the SDK
+// (see packages/contracts/resources.ts)
+
+// 2. Generate the handlers by calling the factory with your configuration
+export const termHandlers = createCrudHandlers({
+  tableName: "term",
+  resourceName: "Term",
+  ...termContract,
+  columns: [
+    "id",
+    "name",
+    "uni_id",
+    "academic_year_id",
+    "starts_on",
+    "ends_on",
+    "add_deadline",
+    "drop_deadline",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+  ],
+  tenantColumn: "uni_id",
+  softDelete: true,
+  versionColumn: "updated_at",
+  beforeInsert: checkTermParent,
+  beforeUpdate: checkTermParentChange,
+  roles: {
+    POST: ["university_admin"],
+    PUT: ["university_admin"],
+    DELETE: ["university_admin"],
+  },
+});
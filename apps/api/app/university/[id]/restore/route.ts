@@ -0,0 +1,4 @@
+import { universityHandlers } from "../../handlers";
+
+// Restore a deleted university, along with anything deleted together with it
+export const { POST } = universityHandlers.restore;
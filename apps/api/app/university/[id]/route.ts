@@ -0,0 +1,4 @@
+import { universityHandlers } from "../handlers";
+
+// Item routes: fetch, update, patch or delete a single university by id
+export const { GET, PUT, PATCH, DELETE } = universityHandlers.item;
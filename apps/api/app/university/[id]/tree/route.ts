@@ -0,0 +1,90 @@
+import { NextRequest } from "next/server";
+import { treeQuerySchema, universityTreeSchema } from "@edunity/contracts";
+import { ApiResponse, ErrorCode, HttpStatus } from "@edunity/helpers";
+import type { ItemRouteContext } from "../../../_common/crudFactory";
+import { handleRequest } from "../../../_common/handleRequest";
+import { middlewareFor } from "../../../_common/middleware";
+import {
+  DEFAULT_PRIMARY_KEY,
+  formatKey,
+  parsePathKey,
+} from "../../../_common/primaryKey";
+import { tenantScope } from "../../../_common/tenant";
+import { universityHandlers } from "../../handlers";
+
+const {
+  primaryKey = DEFAULT_PRIMARY_KEY,
+  roles,
+  middleware = {},
+} = universityHandlers.config;
+
+/**
+ * The university's colleges, departments and courses in one nested response,
+ * with counts at every level. `?depth=0..3` limits how far down the child
+ * lists go.
+ */
+export async function GET(request: NextRequest, route: ItemRouteContext) {
+  return handleRequest(
+    request,
+    roles?.GET,
+    async (supabase, req, caller) => {
+      const key = parsePathKey(primaryKey, (await route.params).id);
+      if (!key.success) {
+        return ApiResponse.error(
+          ErrorCode.BAD_REQUEST,
+          "Invalid University id.",
+          HttpStatus.BAD_REQUEST,
+          key.error
+        );
+      }
+      const query = treeQuerySchema.safeParse(
+        Object.fromEntries(req.nextUrl.searchParams)
+      );
+      if (!query.success) {
+        return ApiResponse.error(
+          ErrorCode.VALIDATION_ERROR,
+          "Invalid query parameters.",
+          HttpStatus.UNPROCESSABLE_ENTITY,
+          query.error.flatten()
+        );
+      }
+
+      const id = formatKey(key.data);
+      const scope = tenantScope(caller);
+      const { data, error } =
+        scope && !scope.includes(id)
+          ? { data: null, error: null }
+          : await supabase.rpc("university_tree", {
+              uni: id,
+              max_depth: query.data.depth,
+            });
+      if (error) {
+        return ApiResponse.error(
+          ErrorCode.SUPABASE_QUERY_ERROR,
+          error.message,
+          HttpStatus.INTERNAL_SERVER_ERROR
+        );
+      }
+      // Universities outside the caller's scope, or deleted, are not found
+      if (!data) {
+        return ApiResponse.error(
+          ErrorCode.NOT_FOUND,
+          `University with ID ${id} not found.`,
+          HttpStatus.NOT_FOUND
+        );
+      }
+
+      // The function returns JSON; make sure it is the tree clients expect
+      const tree = universityTreeSchema.safeParse(data);
+      if (!tree.success) {
+        return ApiResponse.error(
+          ErrorCode.INTERNAL_SERVER_ERROR,
+          "The university tree has an unexpected shape.",
+          HttpStatus.INTERNAL_SERVER_ERROR
+        );
+      }
+      return ApiResponse.success(tree.data, HttpStatus.OK);
+    },
+    middlewareFor(middleware, "GET")
+  );
+}
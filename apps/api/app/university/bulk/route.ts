@@ -0,0 +1,4 @@
+import { universityHandlers } from "../handlers";
+
+// Bulk routes: create, update and delete many universities at once
+export const { POST, PUT, DELETE } = universityHandlers.bulk;
@@ -0,0 +1,24 @@
+import { universityContract, universityMetadata } from "@edunity/contracts";
+import { createCrudHandlers } from "../_common/crudFactory"; // Import our new factory
+import { upgradeStoredMetadata } from "../_common/metadata";
+
+// 1. The request schemas and embeddable relations are shared with the SDK
+// (see packages/contracts/resources.ts)
+
+// 2. Generate the handlers by calling the factory with your configuration
+export const universityHandlers = createCrudHandlers({
+  tableName: "university",
+  resourceName: "University",
+  ...universityContract,
+  columns: ["id", "name", "metadata", "created_at", "updated_at", "deleted_at"],
+  tenantColumn: "id",
+  softDelete: true,
+  versionColumn: "updated_at",
+  // Stored metadata is read in its current schema version
+  afterGet: upgradeStoredMetadata(universityMetadata),
+  roles: {
+    POST: ["platform_admin"],
+    PUT: ["university_admin"],
+    DELETE: ["platform_admin"],
+  },
+});
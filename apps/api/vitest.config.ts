@@ -1,10 +1,22 @@
+import { fileURLToPath } from 'node:url';
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  resolve: {
+    alias: {
+      // Consumed as TypeScript source; their `main` names a build never made
+      '@edunity/helpers': fileURLToPath(
+        new URL('../../packages/helpers/index.ts', import.meta.url)
+      ),
+      '@edunity/supabase': fileURLToPath(
+        new URL('../../packages/supabase/index.ts', import.meta.url)
+      ),
+    },
+  },
   test: {
     globals: true,
-    environment: 'jsdom',
-    setupFiles: './setup.ts',
+    // Route handlers and their helpers run on the server
+    environment: 'node',
     passWithNoTests: true,
 
     coverage: {
@@ -1 +0,0 @@
-import '@testing-library/jest-dom';
@@ -0,0 +1,35 @@
+import { z } from "zod";
+import type { Database } from "@edunity/supabase";
+
+/**
+ * Enrolling, dropping and recording outcomes (see apps/api/app/enrollment).
+ */
+
+export type EnrollmentStatus = Database["public"]["Enums"]["enrollment_status"];
+
+// Enrollments staff and instructors may grade; waitlisting and dropping only
+// happen through enroll() and drop_enrollment()
+export const GRADED_STATUSES = ["enrolled", "completed", "failed"] as const;
+
+// Outcomes an enrolled student may be marked with
+export const OUTCOME_STATUSES = ["completed", "failed"] as const;
+
+export const enrollSchema = z.object({
+  offering_id: z.string().uuid(),
+  // Defaults to the caller's own student record in the offering's university
+  student_id: z.string().uuid().optional(),
+});
+
+export const gradeSchema = z.object({
+  id: z.string().uuid("Invalid UUID must be provided for updates"),
+  status: z.enum(OUTCOME_STATUSES).optional(),
+  // Free-form, e.g. "A-" or "72"
+  grade: z.string().trim().min(1).nullish(),
+});
+
+// A requisite the student still has to complete (or take alongside)
+export interface UnmetRequisite {
+  course_id: number;
+  name: string | null;
+  kind: Database["public"]["Enums"]["requisite_kind"];
+}
@@ -0,0 +1,14 @@
+/**
+ * The strong ETag of a record whose version column (`updated_at`) holds
+ * `version`, as the API sends it; `null` when it has no version yet. List
+ * responses carry no per-row ETag header, so clients derive it from the rows.
+ */
+export function etagOfVersion(version: unknown): string | null {
+  if (version === null || version === undefined) return null;
+  const bytes = new TextEncoder().encode(String(version));
+  const base64url = btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  return `"${base64url}"`;
+}
@@ -0,0 +1,10 @@
+export * from "./enrollment";
+export * from "./etag";
+export * from "./invitation";
+export * from "./metadata";
+export * from "./metadataSchemas";
+export * from "./resources";
+export * from "./schedule";
+export * from "./scheduler";
+export * from "./search";
+export * from "./tree";
@@ -0,0 +1,25 @@
+import { z } from "zod";
+import type { Tables } from "@edunity/supabase";
+
+/**
+ * Faculty and student invitations (see apps/api/app/_common/invitation.ts).
+ */
+
+export const invitationSchema = z.object({
+  // Defaults to the email on the faculty member's or student's record
+  email: z.string().email().optional(),
+  // Where the link in the email lands; must be in Supabase's redirect allow list
+  redirectTo: z.string().url().optional(),
+});
+
+export type FacultyInvitation = Tables<"faculty_invitation">;
+
+export type StudentInvitation = Tables<"student_invitation">;
+
+export interface InvitationResult<
+  I extends FacultyInvitation | StudentInvitation = FacultyInvitation,
+> {
+  invitation: I;
+  // False when the address already has an account
+  emailSent: boolean;
+}
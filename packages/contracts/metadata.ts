@@ -0,0 +1,136 @@
+import { z } from "zod";
+
+/**
+ * Versioned schemas for a resource's `metadata` jsonb column.
+ *
+ * Stored metadata is stamped with the version it was written under
+ * (`schemaVersion`). Writes are migrated forward and validated against the
+ * current version; reads migrate older documents on the fly, so rows are
+ * upgraded the next time they are written rather than in one big backfill.
+ */
+
+export const METADATA_VERSION_KEY = "schemaVersion";
+
+type Metadata = Record<string, unknown>;
+
+export interface MetadataVersion {
+  schema: z.ZodObject;
+  // Upgrades a document of the previous version to this one
+  migrate?: (previous: Metadata) => Metadata;
+}
+
+export interface MetadataSchemas {
+  resource: string;
+  // Versions in order; version n is `versions[n - 1]`
+  versions: readonly MetadataVersion[];
+  current: number;
+  // Validates written metadata, migrating it first if an older version is
+  // named, and stamps it with the current version
+  writeSchema: z.ZodType<Metadata>;
+}
+
+function isObject(value: unknown): value is Metadata {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Runs a document through every migration after its own version. Documents
+ * without a version predate the registry and are read as version 1.
+ * Returns `null` for versions the registry doesn't know.
+ */
+function migrate(
+  versions: readonly MetadataVersion[],
+  value: Metadata,
+  fromVersion: unknown
+): Metadata | null {
+  const from = fromVersion ?? 1;
+  if (
+    typeof from !== "number" ||
+    !Number.isInteger(from) ||
+    from < 1 ||
+    from > versions.length
+  ) {
+    return null;
+  }
+
+  const document = { ...value };
+  delete document[METADATA_VERSION_KEY];
+  return versions
+    .slice(from)
+    .reduce((doc, { migrate }) => (migrate ? migrate(doc) : doc), document);
+}
+
+function jsonSchemaOf(schema: z.ZodType) {
+  const jsonSchema: Record<string, unknown> = z.toJSONSchema(schema, {
+    io: "input",
+  });
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+export function defineMetadataSchemas(
+  resource: string,
+  versions: readonly MetadataVersion[]
+): MetadataSchemas {
+  const current = versions.length;
+  const latest = versions[current - 1]!.schema;
+
+  const writeSchema = z
+    .unknown()
+    .transform((value, ctx) => {
+      if (!isObject(value)) {
+        ctx.addIssue({ code: "custom", message: "Expected an object." });
+        return z.NEVER;
+      }
+      // Clients normally send the current shape without naming a version
+      const migrated = migrate(
+        versions,
+        value,
+        value[METADATA_VERSION_KEY] ?? current
+      );
+      if (!migrated) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Unknown metadata schema version; the current one is ${current}.`,
+          path: [METADATA_VERSION_KEY],
+        });
+        return z.NEVER;
+      }
+      return migrated;
+    })
+    .pipe(latest)
+    .transform((data) => ({ ...data, [METADATA_VERSION_KEY]: current }))
+    // Transforms have no JSON Schema, so document the current shape
+    .meta(jsonSchemaOf(latest));
+
+  return { resource, versions, current, writeSchema };
+}
+
+/**
+ * Upgrades stored metadata to the current version for reading. Documents that
+ * can't be migrated are returned untouched.
+ */
+export function upgradeMetadata(
+  schemas: MetadataSchemas,
+  value: unknown
+): unknown {
+  if (!isObject(value) || value[METADATA_VERSION_KEY] === schemas.current) {
+    return value;
+  }
+  const migrated = migrate(
+    schemas.versions,
+    value,
+    value[METADATA_VERSION_KEY]
+  );
+  return migrated
+    ? { ...migrated, [METADATA_VERSION_KEY]: schemas.current }
+    : value;
+}
+
+/**
+ * The JSON Schema of one version, for rendering forms. Describes the input
+ * clients send, so the version stamp is left out.
+ */
+export function metadataJsonSchema(schemas: MetadataSchemas, version: number) {
+  return jsonSchemaOf(schemas.versions[version - 1]!.schema);
+}
@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { defineMetadataSchemas, type MetadataSchemas } from "./metadata";
+
+/**
+ * Metadata schemas per resource. To change one, append a version with a
+ * `migrate` from the previous shape; never edit a published version, since
+ * stored documents may still be in it. Migrations should tolerate documents
+ * already partly in the new shape (a PATCH merges into the stored version).
+ */
+
+const currentYear = new Date().getFullYear();
+
+const contactSchema = z.strictObject({
+  email: z.email().optional(),
+  phone: z.string().min(3).max(32).optional(),
+});
+
+const addressSchema = z.strictObject({
+  line1: z.string().min(1),
+  line2: z.string().optional(),
+  city: z.string().optional(),
+  state: z.string().optional(),
+  postalCode: z.string().optional(),
+  country: z.string().optional(),
+});
+
+const accreditationSchema = z.strictObject({
+  body: z.string().min(1),
+  grade: z.string().optional(),
+  validUntil: z.iso.date().optional(),
+});
+
+const profileFields = {
+  website: z.url().optional(),
+  logoUrl: z.url().optional(),
+  establishedYear: z.int().min(1000).max(currentYear).optional(),
+  contact: contactSchema.optional(),
+};
+
+export const universityMetadata = defineMetadataSchemas("university", [
+  // v1: address and accreditation as free text
+  {
+    schema: z.strictObject({
+      ...profileFields,
+      address: z.string().optional(),
+      accreditation: z.string().optional(),
+    }),
+  },
+  // v2: structured address; a university may hold several accreditations
+  {
+    schema: z.strictObject({
+      ...profileFields,
+      address: addressSchema.optional(),
+      accreditations: z.array(accreditationSchema).optional(),
+    }),
+    migrate: ({ address, accreditation, ...rest }) => ({
+      ...(address !== undefined && {
+        address: typeof address === "string" ? { line1: address } : address,
+      }),
+      ...(typeof accreditation === "string" && {
+        accreditations: [{ body: accreditation }],
+      }),
+      ...rest,
+    }),
+  },
+]);
+
+export const collegeMetadata = defineMetadataSchemas("college", [
+  {
+    schema: z.strictObject({
+      ...profileFields,
+      address: addressSchema.optional(),
+      accreditations: z.array(accreditationSchema).optional(),
+    }),
+  },
+]);
+
+/**
+ * Every registered schema set, by resource name.
+ */
+export const METADATA_SCHEMAS: Readonly<Record<string, MetadataSchemas>> = {
+  university: universityMetadata,
+  college: collegeMetadata,
+};
@@ -0,0 +1,338 @@
+import { type ZodType, z } from "zod";
+import {
+  academicYearInsertSchema,
+  buildingInsertSchema,
+  collageInsertSchema,
+  courseInsertSchema,
+  courseOfferingInsertSchema,
+  courseRequisiteInsertSchema,
+  courseRequisiteUpdateSchema,
+  departmentInsertSchema,
+  facultyInsertSchema,
+  roomInsertSchema,
+  studentInsertSchema,
+  termInsertSchema,
+  universityInsertSchema,
+} from "@edunity/supabase";
+import { enrollSchema, gradeSchema } from "./enrollment";
+import { collegeMetadata, universityMetadata } from "./metadataSchemas";
+import { scheduleSchema } from "./schedule";
+
+/**
+ * The requests of every `createCrudHandlers` resource: the schemas the API
+ * validates creates and updates with, which the SDK derives its input types
+ * from, and the related tables clients may embed with `?include=`. Create
+ * schemas pick their columns from the generated table schemas (see
+ * packages/supabase/schemas.ts) and keep their types, redeclaring only the
+ * columns the API narrows: formats, required values and bounds.
+ */
+
+export interface ResourceContract {
+  createSchema: ZodType;
+  updateSchema: ZodType;
+  includes?: readonly string[];
+}
+
+const universitySchema = universityInsertSchema
+  .pick({ name: true, metadata: true })
+  .extend({
+    name: z.string(),
+    metadata: universityMetadata.writeSchema.nullish(),
+  });
+
+const updateUniversitySchema = universitySchema.partial().extend({
+  id: z.string().uuid("Invalid UUID must be provided for updates"),
+});
+export const universityContract = {
+  createSchema: universitySchema,
+  updateSchema: updateUniversitySchema,
+  includes: ["collage", "department"],
+} as const satisfies ResourceContract;
+
+const collegeSchema = collageInsertSchema
+  .pick({ name: true, uni_id: true, metadata: true })
+  .extend({
+    name: z.string(),
+    // Defaults to the caller's university when they belong to just one
+    uni_id: z.string().uuid().optional(),
+    metadata: collegeMetadata.writeSchema.nullish(),
+  });
+
+const updateCollegeSchema = collegeSchema.partial().extend({
+  id: z.string().uuid("Invalid UUID must be provided for updates"),
+});
+export const collegeContract = {
+  createSchema: collegeSchema,
+  updateSchema: updateCollegeSchema,
+  includes: ["university", "department"],
+} as const satisfies ResourceContract;
+
+const departmentSchema = departmentInsertSchema
+  .pick({ name: true, uni_id: true, collage_id: true })
+  .extend({
+    name: z.string(),
+    // Defaults to the college's university, or to the caller's when they
+    // belong to just one
+    uni_id: z.string().uuid().optional(),
+    collage_id: z.string().uuid().nullish(),
+  });
+
+const updateDepartmentSchema = departmentSchema.partial().extend({
+  id: z.string().uuid("Invalid UUID must be provided for updates"),
+});
+export const departmentContract = {
+  createSchema: departmentSchema,
+  updateSchema: updateDepartmentSchema,
+  includes: ["collage", "university", "course"],
+} as const satisfies ResourceContract;
+
+const courseSchema = courseInsertSchema
+  .pick({ name: true, length: true, department_id: true })
+  .extend({
+    name: z.string(),
+    length: z.number().positive().nullish(),
+    // The teaching department; catalogue-only courses have none
+    department_id: z.string().uuid().nullish(),
+  });
+
+// Course ids are bigints, not UUIDs
+const updateCourseSchema = courseSchema.partial().extend({
+  id: z
+    .number()
+    .int()
+    .positive("A positive integer id must be provided for updates"),
+});
+export const courseContract = {
+  createSchema: courseSchema,
+  updateSchema: updateCourseSchema,
+  includes: ["department"],
+} as const satisfies ResourceContract;
+
+// The auth user is linked by accepting an invitation (see ./invitation.ts),
+// never written directly
+const studentSchema = studentInsertSchema
+  .pick({
+    enrollment_number: true,
+    first_name: true,
+    last_name: true,
+    email: true,
+    phone: true,
+    uni_id: true,
+    department_id: true,
+  })
+  .extend({
+    // Unique within the university
+    enrollment_number: z.string().trim().min(1),
+    first_name: z.string().trim().min(1),
+    last_name: z.string().trim().min(1),
+    email: z.string().email().nullish(),
+    // Defaults to the home department's university, or to the caller's when
+    // they belong to just one
+    uni_id: z.string().uuid().optional(),
+    department_id: z.string().uuid().nullish(),
+  });
+
+const updateStudentSchema = studentSchema.partial().extend({
+  id: z.string().uuid("Invalid UUID must be provided for updates"),
+});
+export const studentContract = {
+  createSchema: studentSchema,
+  updateSchema: updateStudentSchema,
+  includes: ["department", "university", "student_invitation"],
+} as const satisfies ResourceContract;
+
+// The auth user is linked by accepting an invitation (see ./invitation.ts),
+// never written directly
+const facultySchema = facultyInsertSchema
+  .pick({
+    employee_id: true,
+    first_name: true,
+    last_name: true,
+    // e.g. "Professor", "Lecturer"
+    title: true,
+    email: true,
+    phone: true,
+    uni_id: true,
+    department_id: true,
+  })
+  .extend({
+    // Unique within the university
+    employee_id: z.string().trim().min(1),
+    first_name: z.string().trim().min(1),
+    last_name: z.string().trim().min(1),
+    email: z.string().email().nullish(),
+    // Defaults to the home department's university, or to the caller's when
+    // they belong to just one
+    uni_id: z.string().uuid().optional(),
+    department_id: z.string().uuid().nullish(),
+  });
+
+const updateFacultySchema = facultySchema.partial().extend({
+  id: z.string().uuid("Invalid UUID must be provided for updates"),
+});
+export const facultyContract = {
+  createSchema: facultySchema,
+  updateSchema: updateFacultySchema,
+  includes: ["department", "university", "faculty_invitation"],
+} as const satisfies ResourceContract;
+
+const academicYearSchema = academicYearInsertSchema
+  .pick({ name: true, uni_id: true, starts_on: true, ends_on: true })
+  .extend({
+    // e.g. "2026-27"; unique within the university
+    name: z.string().trim().min(1),
+    // Defaults to the caller's university when they belong to just one
+    uni_id: z.string().uuid().optional(),
+    starts_on: z.iso.date(),
+    ends_on: z.iso.date(),
+  });
+
+const updateAcademicYearSchema = academicYearSchema.partial().extend({
+  id: z.string().uuid("Invalid UUID must be provided for updates"),
+});
+export const academicYearContract = {
+  createSchema: academicYearSchema,
+  updateSchema: updateAcademicYearSchema,
+  includes: ["university", "term"],
+} as const satisfies ResourceContract;
+
+// The university is always the academic year's
+const termSchema = termInsertSchema
+  .pick({
+    academic_year_id: true,
+    name: true,
+    starts_on: true,
+    ends_on: true,
+    add_deadline: true,
+    drop_deadline: true,
+  })
+  .extend({
+    academic_year_id: z.string().uuid(),
+    // e.g. "Fall"; unique within the academic year
+    name: z.string().trim().min(1),
+    // Within the academic year's dates
+    starts_on: z.iso.date(),
+    ends_on: z.iso.date(),
+    // Last days to enroll and to drop without staff help; the end of the
+    // term when null
+    add_deadline: z.iso.date().nullish(),
+    drop_deadline: z.iso.date().nullish(),
+  });
+
+const updateTermSchema = termSchema.partial().extend({
+  id: z.string().uuid("Invalid UUID must be provided for updates"),
+});
+export const termContract = {
+  createSchema: termSchema,
+  updateSchema: updateTermSchema,
+  includes: ["academic_year", "university", "course_offering"],
+} as const satisfies ResourceContract;
+
+// The university is always the term's
+const offeringSchema = courseOfferingInsertSchema
+  .pick({
+    course_id: true,
+    term_id: true,
+    department_id: true,
+    section: true,
+    instructor_ids: true,
+    capacity: true,
+    schedule: true,
+  })
+  .extend({
+    course_id: z.number().int().positive(),
+    term_id: z.string().uuid(),
+    // The teaching department, in the term's university
+    department_id: z.string().uuid(),
+    // Unique per course and term; defaults to "1"
+    section: z.string().trim().min(1).optional(),
+    // Faculty members of the term's university
+    instructor_ids: z.array(z.string().uuid()).optional(),
+    // Seats; unlimited when null
+    capacity: z.number().int().positive().nullish(),
+    // May not double-book a room or an instructor (see ./scheduler.ts)
+    schedule: scheduleSchema.optional(),
+  });
+
+const updateOfferingSchema = offeringSchema.partial().extend({
+  id: z.string().uuid("Invalid UUID must be provided for updates"),
+});
+export const offeringContract = {
+  createSchema: offeringSchema,
+  updateSchema: updateOfferingSchema,
+  includes: ["course", "term", "department"],
+} as const satisfies ResourceContract;
+
+// Enrolling in `course_id` requires `requires_course_id` completed first
+// (prerequisite), or completed or taken in the same term (corequisite)
+const requisiteSchema = courseRequisiteInsertSchema
+  .pick({ course_id: true, requires_course_id: true, kind: true })
+  .extend({
+    course_id: z.number().int().positive(),
+    requires_course_id: z.number().int().positive(),
+  })
+  .refine(
+    ({ course_id, requires_course_id }) => course_id !== requires_course_id,
+    {
+      message: "A course cannot require itself.",
+      path: ["requires_course_id"],
+    }
+  );
+
+// Only the kind changes; link another course by creating a new requisite
+const updateRequisiteSchema = courseRequisiteUpdateSchema
+  .pick({ kind: true })
+  .extend({
+    id: z.string().uuid("Invalid UUID must be provided for updates"),
+  });
+export const requisiteContract = {
+  createSchema: requisiteSchema,
+  updateSchema: updateRequisiteSchema,
+} as const satisfies ResourceContract;
+
+// The university is always the college's
+const buildingSchema = buildingInsertSchema
+  .pick({ collage_id: true, code: true, name: true, address: true })
+  .extend({
+    collage_id: z.string().uuid(),
+    // Short code used in room names, e.g. "ENG"; unique within the university
+    code: z.string().trim().min(1),
+    name: z.string().trim().min(1),
+  });
+
+const updateBuildingSchema = buildingSchema.partial().extend({
+  id: z.string().uuid("Invalid UUID must be provided for updates"),
+});
+export const buildingContract = {
+  createSchema: buildingSchema,
+  updateSchema: updateBuildingSchema,
+  includes: ["collage", "university", "room"],
+} as const satisfies ResourceContract;
+
+// The university is always the building's
+const roomSchema = roomInsertSchema
+  .pick({ building_id: true, name: true, capacity: true })
+  .extend({
+    building_id: z.string().uuid(),
+    // e.g. "101"; unique within the building
+    name: z.string().trim().min(1),
+    // Seats; unknown when null
+    capacity: z.number().int().positive().nullish(),
+  });
+
+const updateRoomSchema = roomSchema.partial().extend({
+  id: z.string().uuid("Invalid UUID must be provided for updates"),
+});
+export const roomContract = {
+  createSchema: roomSchema,
+  updateSchema: updateRoomSchema,
+  includes: ["building", "university"],
+} as const satisfies ResourceContract;
+
+// Enrollments are created by the `enroll` database function; updates record
+// the outcome (see ./enrollment.ts)
+export const enrollmentContract = {
+  createSchema: enrollSchema,
+  updateSchema: gradeSchema,
+  includes: ["course_offering", "student"],
+} as const satisfies ResourceContract;
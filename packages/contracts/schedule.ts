@@ -0,0 +1,98 @@
+import { z } from "zod";
+import type { EnrollmentStatus } from "./enrollment";
+
+/**
+ * A course offering's weekly schedule: the meetings it holds every week of
+ * its term, e.g. `[{ "day": "mon", "starts_at": "09:00", "ends_at": "10:30" }]`.
+ * A meeting may name its room, and may run for only some weeks of the term
+ * (`starts_on`/`ends_on`). Times are local to the university.
+ */
+
+export const WEEKDAYS = [
+  "mon",
+  "tue",
+  "wed",
+  "thu",
+  "fri",
+  "sat",
+  "sun",
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+// 24-hour HH:MM, so times compare correctly as strings
+const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected a 24-hour HH:MM time.");
+
+export const meetingSchema = z
+  .object({
+    day: z.enum(WEEKDAYS),
+    starts_at: timeOfDay,
+    ends_at: timeOfDay,
+    // A room of the offering's university
+    room_id: z.string().uuid().optional(),
+    // Within the term; the term's own dates when left out
+    starts_on: z.iso.date().optional(),
+    ends_on: z.iso.date().optional(),
+  })
+  .refine(({ starts_at, ends_at }) => ends_at > starts_at, {
+    message: "A meeting must end after it starts.",
+    path: ["ends_at"],
+  })
+  .refine(
+    ({ starts_on, ends_on }) => !starts_on || !ends_on || ends_on >= starts_on,
+    {
+      message: "A meeting must end on or after its first day.",
+      path: ["ends_on"],
+    }
+  );
+
+export type Meeting = z.infer<typeof meetingSchema>;
+
+export const scheduleSchema = z.array(meetingSchema).max(21);
+
+export interface DateRange {
+  starts_on: string;
+  ends_on: string;
+}
+
+/**
+ * A student's weekly timetable: the meetings of every offering they are
+ * enrolled or waitlisted in, and the pairs of meetings that clash.
+ */
+
+export const scheduleQuerySchema = z.object({
+  // Limits the schedule to one term
+  term_id: z.string().uuid().optional(),
+});
+
+export interface ScheduledTerm extends DateRange {
+  id: string;
+  name: string;
+}
+
+export interface ScheduledOffering {
+  enrollment_id: string;
+  status: EnrollmentStatus;
+  offering_id: string;
+  section: string;
+  course: { id: number; name: string | null };
+  term: ScheduledTerm;
+  meetings: Meeting[];
+}
+
+export interface Clash {
+  // The two enrollments whose meetings overlap
+  enrollment_ids: [string, string];
+  // The overlapping time
+  day: Meeting["day"];
+  starts_at: string;
+  ends_at: string;
+}
+
+export interface StudentSchedule {
+  student_id: string;
+  entries: ScheduledOffering[];
+  clashes: Clash[];
+}
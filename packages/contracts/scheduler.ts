@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { scheduleSchema, type Weekday } from "./schedule";
+
+/**
+ * Timetable conflicts between course offerings (see
+ * apps/api/app/scheduler/conflicts.ts).
+ */
+
+export const CONFLICT_KINDS = ["room", "instructor", "cohort"] as const;
+
+export type ConflictKind = (typeof CONFLICT_KINDS)[number];
+
+export interface Conflict {
+  kind: ConflictKind;
+  offering_ids: [string, string];
+  // What is double-booked: the room or instructor, or the number of students
+  room_id?: string;
+  instructor_id?: string;
+  students?: number;
+  // When: the overlapping time, every week between the two dates
+  day: Weekday;
+  starts_at: string;
+  ends_at: string;
+  starts_on: string;
+  ends_on: string;
+}
+
+export interface ConflictReport {
+  term: { id: string; name: string; starts_on: string; ends_on: string };
+  conflicts: Conflict[];
+}
+
+export const conflictsQuerySchema = z.object({
+  term_id: z.string().uuid(),
+  // Only conflicts involving offerings of this department or instructor
+  department_id: z.string().uuid().optional(),
+  instructor_id: z.string().uuid().optional(),
+  // Only double bookings of this room
+  room_id: z.string().uuid().optional(),
+  // Comma-separated; all kinds by default
+  kinds: z
+    .string()
+    .transform((value) => value.split(","))
+    .pipe(z.array(z.enum(CONFLICT_KINDS)))
+    .optional(),
+});
+
+// A schedule to try out before saving it; `offering_id` names the offering
+// it would replace, whose current schedule is then left out
+export const proposalSchema = z.object({
+  offering_id: z.string().uuid().optional(),
+  term_id: z.string().uuid(),
+  instructor_ids: z.array(z.string().uuid()).default([]),
+  schedule: scheduleSchema,
+  kinds: z.array(z.enum(CONFLICT_KINDS)).optional(),
+});
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+/**
+ * Catalogue search across the hierarchy (see apps/api/app/search).
+ */
+
+export const SEARCH_TYPES = [
+  "university",
+  "college",
+  "department",
+  "course",
+] as const;
+
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(2, "Expected at least 2 characters.").max(200),
+  // Comma-separated, e.g. `?type=college,department`; defaults to all
+  type: z
+    .string()
+    .transform((list) => list.split(",").map((type) => type.trim()))
+    .pipe(z.array(z.enum(SEARCH_TYPES)))
+    .optional(),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_SEARCH_LIMIT)
+    .default(DEFAULT_SEARCH_LIMIT),
+});
+
+export interface SearchParent {
+  type: Exclude<SearchType, "course">;
+  id: string;
+  name: string | null;
+}
+
+export interface SearchHit {
+  type: SearchType;
+  id: string | number;
+  name: string | null;
+  // Higher is better; an exact name match scores above 1
+  rank: number;
+  // From the university down, e.g. university → college for a department
+  parents: SearchParent[];
+}
@@ -0,0 +1,62 @@
+import { z } from "zod";
+
+/**
+ * The org chart of a university (see apps/api/app/university/[id]/tree).
+ * Counts cover the whole subtree; child lists below the requested depth are
+ * left out.
+ */
+
+// University → college → department → course
+export const MAX_TREE_DEPTH = 3;
+
+export const treeQuerySchema = z.object({
+  // Levels below the university to include; departments attached directly to
+  // the university are one level up from those in a college
+  depth: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_TREE_DEPTH)
+    .default(MAX_TREE_DEPTH),
+});
+
+export const courseLeafSchema = z.object({
+  id: z.number().int(),
+  name: z.string().nullable(),
+  length: z.number().nullable(),
+});
+
+export const departmentNodeSchema = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+  counts: z.object({ courses: z.number().int() }),
+  courses: z.array(courseLeafSchema).optional(),
+});
+
+export const collegeNodeSchema = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+  counts: z.object({
+    departments: z.number().int(),
+    courses: z.number().int(),
+  }),
+  departments: z.array(departmentNodeSchema).optional(),
+});
+
+export const universityTreeSchema = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+  counts: z.object({
+    colleges: z.number().int(),
+    departments: z.number().int(),
+    courses: z.number().int(),
+  }),
+  colleges: z.array(collegeNodeSchema).optional(),
+  // Departments attached to the university without a college
+  departments: z.array(departmentNodeSchema).optional(),
+});
+
+export type CourseLeaf = z.infer<typeof courseLeafSchema>;
+export type DepartmentNode = z.infer<typeof departmentNodeSchema>;
+export type CollegeNode = z.infer<typeof collegeNodeSchema>;
+export type UniversityTree = z.infer<typeof universityTreeSchema>;
@@ -7,12 +7,17 @@ import { NextResponse } from "next/server";
 export enum HttpStatus {
   OK = 200,
   CREATED = 201,
+  MULTI_STATUS = 207,
+  NOT_MODIFIED = 304,
   BAD_REQUEST = 400,
   UNAUTHORIZED = 401,
   FORBIDDEN = 403,
   NOT_FOUND = 404,
   CONFLICT = 409,
+  PRECONDITION_FAILED = 412,
   UNPROCESSABLE_ENTITY = 422,
+  PRECONDITION_REQUIRED = 428,
+  TOO_MANY_REQUESTS = 429,
   INTERNAL_SERVER_ERROR = 500,
   SERVICE_UNAVAILABLE = 503,
 }
@@ -37,6 +42,13 @@ export enum ErrorCode {
   // Database / resource conflicts
   DUPLICATE_ENTRY = "DUPLICATE_ENTRY",
   CONFLICT = "CONFLICT",
+  PRECONDITION_REQUIRED = "PRECONDITION_REQUIRED",
+  PRECONDITION_FAILED = "PRECONDITION_FAILED",
+  RATE_LIMITED = "RATE_LIMITED",
+
+  // Enrollment
+  DEADLINE_PASSED = "DEADLINE_PASSED",
+  REQUISITES_NOT_MET = "REQUISITES_NOT_MET",
 
   // System level
   INTERNAL_SERVER_ERROR = "INTERNAL_SERVER_ERROR",
@@ -46,13 +58,23 @@ export enum ErrorCode {
 /**
  * Response structure interfaces
  */
-interface PaginationMeta {
+interface OffsetPaginationMeta {
   page: number;
   pageSize: number;
   total: number;
   totalPages: number;
 }
 
+interface CursorPaginationMeta {
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  // Only present when the client asked for it with `?count=exact`
+  total?: number;
+}
+
+export type PaginationMeta = OffsetPaginationMeta | CursorPaginationMeta;
+
 export interface SuccessResponse<T> {
   success: true;
   data: T;
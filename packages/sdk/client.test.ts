@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { createHttpClient } from "./client";
+import { EdunityApiError, isApiError } from "./errors";
+
+interface Sent {
+  url: string;
+  init: RequestInit;
+}
+
+// Answers every request with `response`, recording what was sent
+function fakeFetch(response: () => Response) {
+  const sent: Sent[] = [];
+  const fetch = async (url: string | URL | Request, init?: RequestInit) => {
+    sent.push({ url: String(url), init: init ?? {} });
+    return response();
+  };
+  return { fetch: fetch as typeof globalThis.fetch, sent };
+}
+
+const json = (body: unknown, init?: ResponseInit) =>
+  new Response(JSON.stringify(body), {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+
+describe("createHttpClient", () => {
+  it("sends the token and unwraps the envelope", async () => {
+    const { fetch, sent } = fakeFetch(() =>
+      json(
+        {
+          success: true,
+          data: [{ id: "u1" }],
+          pagination: { page: 1, pageSize: 20, total: 1, totalPages: 1 },
+        },
+        { headers: { ETag: 'W/"1"' } }
+      )
+    );
+    const http = createHttpClient({
+      baseUrl: "https://api.example.com/",
+      getAccessToken: async () => "token",
+      fetch,
+    });
+
+    const result = await http({
+      method: "POST",
+      path: "/university",
+      query: new URLSearchParams("include=collage"),
+      body: { name: "Tech" },
+    });
+    expect(result).toEqual({
+      data: [{ id: "u1" }],
+      pagination: { page: 1, pageSize: 20, total: 1, totalPages: 1 },
+      etag: 'W/"1"',
+    });
+    expect(sent).toEqual([
+      {
+        url: "https://api.example.com/university?include=collage",
+        init: {
+          method: "POST",
+          headers: {
+            Accept: "application/json",
+            "Content-Type": "application/json",
+            Authorization: "Bearer token",
+          },
+          body: '{"name":"Tech"}',
+        },
+      },
+    ]);
+  });
+
+  it("throws the failure as an EdunityApiError", async () => {
+    const { fetch } = fakeFetch(() =>
+      json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: { formErrors: [], fieldErrors: { name: ["Required"] } },
+          },
+        },
+        { status: 422, headers: { "x-request-id": "req-1" } }
+      )
+    );
+    const http = createHttpClient({
+      baseUrl: "https://api.example.com",
+      fetch,
+    });
+
+    const error = await http({ method: "GET", path: "/university" }).catch(
+      (error: unknown) => error
+    );
+    expect(error).toBeInstanceOf(EdunityApiError);
+    expect(isApiError(error, "VALIDATION_ERROR")).toBe(true);
+    expect(error).toMatchObject({
+      message: "Invalid input",
+      status: 422,
+      requestId: "req-1",
+      details: { fieldErrors: { name: ["Required"] } },
+    });
+  });
+
+  it("reports a response that is not an envelope", async () => {
+    const { fetch } = fakeFetch(
+      () => new Response("<html>Bad gateway</html>", { status: 502 })
+    );
+    const http = createHttpClient({
+      baseUrl: "https://api.example.com",
+      fetch,
+    });
+
+    await expect(http({ method: "GET", path: "/university" })).rejects.toEqual(
+      expect.objectContaining({ code: "UNKNOWN_ERROR", status: 502 })
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import type {
+  FailureResponse,
+  PaginationMeta,
+  SuccessResponse,
+} from "@edunity/helpers";
+import { EdunityApiError } from "./errors";
+
+export interface SdkOptions {
+  // Where the API is served, e.g. `https://api.edunity.app`
+  baseUrl: string;
+  // The caller's Supabase access token, sent as a bearer token
+  getAccessToken?: () =>
+    | string
+    | null
+    | undefined
+    | Promise<string | null | undefined>;
+  fetch?: typeof fetch;
+}
+
+export interface ApiRequest {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  path: string;
+  query?: URLSearchParams;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * An unwrapped success: the envelope's `data` and `pagination`, plus the
+ * record's ETag when the API sent one.
+ */
+export interface ApiResult<T> {
+  data: T;
+  pagination?: PaginationMeta;
+  etag: string | null;
+}
+
+export type HttpClient = <T>(request: ApiRequest) => Promise<ApiResult<T>>;
+
+/**
+ * Sends requests to the API and unwraps the `ApiResponse` envelope, throwing
+ * an `EdunityApiError` for failures.
+ */
+export function createHttpClient(options: SdkOptions): HttpClient {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+  const fetchImpl = options.fetch ?? globalThis.fetch;
+
+  return async <T>({ method, path, query, body, headers }: ApiRequest) => {
+    const token = await options.getAccessToken?.();
+    const search = query?.size ? `?${query}` : "";
+    const response = await fetchImpl(`${baseUrl}${path}${search}`, {
+      method,
+      headers: {
+        Accept: "application/json",
+        ...(body !== undefined && { "Content-Type": "application/json" }),
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const requestId = response.headers.get("x-request-id");
+
+    let payload: SuccessResponse<T> | FailureResponse;
+    try {
+      payload = await response.json();
+    } catch {
+      throw new EdunityApiError(
+        "UNKNOWN_ERROR",
+        `Unexpected ${response.status} response from the API.`,
+        response.status,
+        undefined,
+        requestId
+      );
+    }
+
+    if (!payload.success) {
+      const { code, message, details } = payload.error;
+      throw new EdunityApiError(
+        code,
+        message,
+        response.status,
+        details,
+        requestId
+      );
+    }
+    return {
+      data: payload.data,
+      pagination: payload.pagination,
+      etag: response.headers.get("etag"),
+    };
+  };
+}
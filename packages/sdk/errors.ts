@@ -0,0 +1,76 @@
+import type { ErrorCode } from "@edunity/helpers";
+import type { Conflict, UnmetRequisite } from "@edunity/contracts";
+
+/**
+ * `details` carried by the errors clients usually handle. Other codes carry
+ * whatever the route attached, if anything.
+ */
+export interface ApiErrorDetails {
+  VALIDATION_ERROR: {
+    formErrors: string[];
+    fieldErrors: Record<string, string[] | undefined>;
+  };
+  FORBIDDEN: { requiredRoles?: string[] };
+  // `current` is set when a write lost to a newer version of the record, and
+  // `conflicts` when a schedule double-books a room or an instructor
+  CONFLICT: {
+    current?: Record<string, unknown>;
+    conflicts?: Conflict[];
+    details?: unknown;
+  };
+  // Seconds until the rate limit resets
+  RATE_LIMITED: { retryAfter: number };
+  // Courses the student still has to complete (or take alongside)
+  REQUISITES_NOT_MET: { missing: UnmetRequisite[] };
+}
+
+export type DetailsOf<C extends `${ErrorCode}`> =
+  C extends keyof ApiErrorDetails ? ApiErrorDetails[C] : unknown;
+
+/**
+ * A failed API call: the `error` of a `FailureResponse`, plus the HTTP status.
+ */
+export class EdunityApiError<
+  C extends `${ErrorCode}` = `${ErrorCode}`,
+> extends Error {
+  readonly code: C;
+  readonly status: number;
+  readonly details: DetailsOf<C>;
+  readonly requestId: string | null;
+
+  constructor(
+    code: C,
+    message: string,
+    status: number,
+    details: DetailsOf<C>,
+    requestId: string | null = null
+  ) {
+    super(message);
+    this.name = "EdunityApiError";
+    this.code = code;
+    this.status = status;
+    this.details = details;
+    this.requestId = requestId;
+  }
+
+  /**
+   * Narrows the error to one code, e.g. `error.is("VALIDATION_ERROR")` to
+   * read its field errors.
+   */
+  is<K extends `${ErrorCode}`>(code: K): this is EdunityApiError<K> {
+    return (this.code as string) === code;
+  }
+}
+
+/**
+ * Whether `error` is an API error, optionally with the given code.
+ */
+export function isApiError<C extends `${ErrorCode}`>(
+  error: unknown,
+  code?: C
+): error is EdunityApiError<C> {
+  return (
+    error instanceof EdunityApiError &&
+    (code === undefined || error.code === code)
+  );
+}
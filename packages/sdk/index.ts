@@ -0,0 +1,183 @@
+import type {
+  academicYearContract,
+  buildingContract,
+  collegeContract,
+  courseContract,
+  departmentContract,
+  enrollmentContract,
+  facultyContract,
+  FacultyInvitation,
+  offeringContract,
+  requisiteContract,
+  roomContract,
+  studentContract,
+  StudentInvitation,
+  termContract,
+  universityContract,
+} from "@edunity/contracts";
+import type { Tables } from "@edunity/supabase";
+import { createHttpClient, type SdkOptions } from "./client";
+import { createInvitationClient } from "./invitations";
+import {
+  createChildListClient,
+  createResourceClient,
+  type ResourceTypesOf,
+} from "./resources";
+import { createScheduleClient } from "./schedule";
+import { createSchedulerClient } from "./scheduler";
+import { createSearchClient } from "./search";
+import { createTreeClient } from "./tree";
+
+export type {
+  Clash,
+  CollegeNode,
+  Conflict,
+  ConflictKind,
+  ConflictReport,
+  CourseLeaf,
+  DateRange,
+  DepartmentNode,
+  EnrollmentStatus,
+  FacultyInvitation,
+  InvitationResult,
+  Meeting,
+  ScheduledOffering,
+  ScheduledTerm,
+  SearchHit,
+  SearchParent,
+  SearchType,
+  StudentInvitation,
+  StudentSchedule,
+  UniversityTree,
+  UnmetRequisite,
+  Weekday,
+} from "@edunity/contracts";
+export type { ApiResult, SdkOptions } from "./client";
+export { type ApiErrorDetails, EdunityApiError, isApiError } from "./errors";
+export type { InviteOptions } from "./invitations";
+export type {
+  ListQuery,
+  ListResult,
+  ResourceClient,
+  SelectQuery,
+  WriteOptions,
+} from "./resources";
+export type { ConflictsQuery, ScheduleProposal } from "./scheduler";
+export type { SearchOptions } from "./search";
+
+// Types only: the SDK reuses the request schemas the API validates with (see
+// packages/contracts) and the rows of the generated `Database` types
+export type University = ResourceTypesOf<
+  typeof universityContract,
+  Tables<"university">
+>;
+export type College = ResourceTypesOf<
+  typeof collegeContract,
+  Tables<"collage">
+>;
+export type Department = ResourceTypesOf<
+  typeof departmentContract,
+  Tables<"department">
+>;
+export type Course = ResourceTypesOf<typeof courseContract, Tables<"course">>;
+export type Student = ResourceTypesOf<
+  typeof studentContract,
+  Tables<"student">
+>;
+export type Faculty = ResourceTypesOf<
+  typeof facultyContract,
+  Tables<"faculty">
+>;
+export type AcademicYear = ResourceTypesOf<
+  typeof academicYearContract,
+  Tables<"academic_year">
+>;
+export type Term = ResourceTypesOf<typeof termContract, Tables<"term">>;
+export type Offering = ResourceTypesOf<
+  typeof offeringContract,
+  Tables<"course_offering">
+>;
+export type Requisite = ResourceTypesOf<
+  typeof requisiteContract,
+  Tables<"course_requisite">
+>;
+export type Building = ResourceTypesOf<
+  typeof buildingContract,
+  Tables<"building">
+>;
+export type Room = ResourceTypesOf<typeof roomContract, Tables<"room">>;
+// `create` enrolls (or waitlists) and `delete` drops
+export type Enrollment = ResourceTypesOf<
+  typeof enrollmentContract,
+  Tables<"enrollment">
+>;
+
+/**
+ * Creates a typed client for the Edunity API.
+ *
+ * @example
+ * const sdk = createEdunitySdk({ baseUrl, getAccessToken });
+ * const { data } = await sdk.university.list({ sort: ["name"] });
+ */
+export function createEdunitySdk(options: SdkOptions) {
+  const http = createHttpClient(options);
+  return {
+    university: {
+      ...createResourceClient<University>(http, "/university"),
+      tree: createTreeClient(http),
+    },
+    college: createResourceClient<College>(http, "/college"),
+    department: {
+      ...createResourceClient<Department>(http, "/department"),
+      offerings: createChildListClient<Offering>(
+        http,
+        (id) => `/department/${encodeURIComponent(id)}/offerings`
+      ),
+    },
+    course: {
+      ...createResourceClient<Course>(http, "/course"),
+      requisites: createChildListClient<Requisite>(
+        http,
+        (id) => `/course/${encodeURIComponent(id)}/requisites`
+      ),
+    },
+    requisite: createResourceClient<Requisite>(http, "/requisite"),
+    student: {
+      ...createResourceClient<Student>(http, "/student"),
+      ...createInvitationClient<StudentInvitation>(http, "/student"),
+      schedule: createScheduleClient(http),
+    },
+    faculty: {
+      ...createResourceClient<Faculty>(http, "/faculty"),
+      ...createInvitationClient<FacultyInvitation>(http, "/faculty"),
+    },
+    academicYear: createResourceClient<AcademicYear>(http, "/academic-year"),
+    term: {
+      ...createResourceClient<Term>(http, "/term"),
+      offerings: createChildListClient<Offering>(
+        http,
+        (id) => `/term/${encodeURIComponent(id)}/offerings`
+      ),
+    },
+    offering: {
+      ...createResourceClient<Offering>(http, "/offering"),
+      enrollments: createChildListClient<Enrollment>(
+        http,
+        (id) => `/offering/${encodeURIComponent(id)}/enrollments`
+      ),
+    },
+    enrollment: createResourceClient<Enrollment>(http, "/enrollment"),
+    building: {
+      ...createResourceClient<Building>(http, "/building"),
+      rooms: createChildListClient<Room>(
+        http,
+        (id) => `/building/${encodeURIComponent(id)}/rooms`
+      ),
+    },
+    room: createResourceClient<Room>(http, "/room"),
+    scheduler: createSchedulerClient(http),
+    search: createSearchClient(http),
+  };
+}
+
+export type EdunitySdk = ReturnType<typeof createEdunitySdk>;
@@ -0,0 +1,38 @@
+import type {
+  FacultyInvitation,
+  InvitationResult,
+  StudentInvitation,
+} from "@edunity/contracts";
+import type { HttpClient } from "./client";
+
+export interface InviteOptions {
+  // Defaults to the email on the faculty member's or student's record
+  email?: string;
+  // Where the link in the email lands
+  redirectTo?: string;
+}
+
+/**
+ * Creates `invite(id)` and `revokeInvitation(id)` for faculty or students
+ * (`basePath`): invite them to sign up, linking their account on first
+ * sign-in.
+ */
+export function createInvitationClient<
+  I extends FacultyInvitation | StudentInvitation,
+>(http: HttpClient, basePath: string) {
+  const path = (id: string) =>
+    `${basePath}/${encodeURIComponent(id)}/invitation`;
+  return {
+    async invite(id: string, options: InviteOptions = {}) {
+      const { data } = await http<InvitationResult<I>>({
+        method: "POST",
+        path: path(id),
+        body: options,
+      });
+      return data;
+    },
+    async revokeInvitation(id: string): Promise<void> {
+      await http({ method: "DELETE", path: path(id) });
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import type { ApiRequest, HttpClient } from "./client";
+import { createResourceClient, type ResourceTypes } from "./resources";
+
+// Answers with `results` in turn, recording the requests
+function fakeHttp(results: { data: unknown; etag?: string }[]) {
+  const requests: ApiRequest[] = [];
+  const http = (async (request: ApiRequest) => {
+    requests.push(request);
+    const { data, etag = null } = results[requests.length - 1] ?? {};
+    return { data, etag };
+  }) as HttpClient;
+  return { http, requests };
+}
+
+const row = { id: "u1", name: "Tech", updated_at: "2026-10-19T08:00:00Z" };
+
+describe("createResourceClient", () => {
+  it("sends back the ETag of the record it last read", async () => {
+    const { http, requests } = fakeHttp([
+      { data: row, etag: 'W/"read"' },
+      { data: { ...row, name: "Arts" }, etag: 'W/"written"' },
+      { data: null },
+    ]);
+    const universities = createResourceClient<ResourceTypes>(
+      http,
+      "/university"
+    );
+
+    await universities.get("u1");
+    await universities.update({ id: "u1" });
+    await universities.delete("u1");
+    expect(requests.map(({ headers }) => headers)).toEqual([
+      undefined,
+      { "If-Match": 'W/"read"' },
+      { "If-Match": 'W/"written"' },
+    ]);
+  });
+
+  it("lets the caller pick the version", async () => {
+    const { http, requests } = fakeHttp([{ data: row, etag: 'W/"read"' }]);
+    const universities = createResourceClient<ResourceTypes>(
+      http,
+      "/university"
+    );
+
+    await universities.update({ id: "u1" }, { ifMatch: 'W/"mine"' });
+    expect(requests[0]).toMatchObject({
+      method: "PUT",
+      path: "/university/u1",
+      headers: { "If-Match": 'W/"mine"' },
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { etagOfVersion, type ResourceContract } from "@edunity/contracts";
+import type { PaginationMeta } from "@edunity/helpers";
+import type { z } from "zod";
+import type { ApiResult, HttpClient } from "./client";
+
+/**
+ * A typed client for one `createCrudHandlers` resource.
+ */
+
+type RowId = string | number;
+
+/**
+ * The types of a resource, derived from its handler config and table.
+ */
+export interface ResourceTypes {
+  row: Record<string, unknown>;
+  create: unknown;
+  update: { id: RowId };
+  include: string;
+}
+
+/**
+ * The request and response types of a `createCrudHandlers` resource: inputs
+ * from its contract's Zod schemas, rows from its `Database` table.
+ */
+export type ResourceTypesOf<
+  Config extends ResourceContract,
+  Row extends Record<string, unknown>,
+> = {
+  row: Row;
+  create: z.input<Config["createSchema"]>;
+  update: z.input<Config["updateSchema"]> & { id: RowId };
+  include: Config extends { includes: readonly (infer I)[] } ? I : never;
+};
+
+type Column<R extends ResourceTypes> = keyof R["row"] & string;
+
+export interface SelectQuery<R extends ResourceTypes> {
+  fields?: readonly Column<R>[];
+  include?: readonly R["include"][];
+  // Deleted records too (`true`), or only them (`"only"`)
+  includeDeleted?: boolean | "only";
+}
+
+export interface ListQuery<R extends ResourceTypes> extends SelectQuery<R> {
+  page?: number;
+  pageSize?: number;
+  // Keyset pagination: pass `pagination.nextCursor` from the previous page
+  cursor?: string;
+  limit?: number;
+  count?: "exact";
+  sort?: readonly (Column<R> | `-${Column<R>}`)[];
+  // `?col=op.value` filters, e.g. `{ name: "ilike.*tech*" }`
+  filters?: Partial<Record<Column<R>, string>>;
+}
+
+export interface ListResult<Row> {
+  data: Row[];
+  pagination: PaginationMeta;
+}
+
+export interface WriteOptions {
+  // The record's ETag; defaults to the one last seen for this id
+  ifMatch?: string;
+}
+
+export interface ResourceClient<R extends ResourceTypes> {
+  list(query?: ListQuery<R>): Promise<ListResult<R["row"]>>;
+  get(id: RowId, query?: SelectQuery<R>): Promise<R["row"]>;
+  create(input: R["create"]): Promise<R["row"]>;
+  update(input: R["update"], options?: WriteOptions): Promise<R["row"]>;
+  delete(id: RowId, options?: WriteOptions): Promise<void>;
+}
+
+function selectParams<R extends ResourceTypes>(
+  query: SelectQuery<R>,
+  params = new URLSearchParams()
+) {
+  if (query.fields?.length) params.set("fields", query.fields.join(","));
+  if (query.include?.length) params.set("include", query.include.join(","));
+  if (query.includeDeleted !== undefined) {
+    params.set("includeDeleted", String(query.includeDeleted));
+  }
+  return params;
+}
+
+function listParams<R extends ResourceTypes>(query: ListQuery<R>) {
+  const params = new URLSearchParams();
+  for (const key of ["page", "pageSize", "cursor", "limit", "count"] as const) {
+    const value = query[key];
+    if (value !== undefined) params.set(key, String(value));
+  }
+  if (query.sort?.length) params.set("sort", query.sort.join(","));
+  for (const [column, filter] of Object.entries(query.filters ?? {})) {
+    if (typeof filter === "string") params.set(column, filter);
+  }
+  return selectParams(query, params);
+}
+
+/**
+ * Creates the client for the resource mounted at `path`. Writes need the
+ * record's ETag (`If-Match`); the client remembers the one returned with each
+ * record it reads or writes, and derives it from the `updated_at` of listed
+ * rows, so callers only pass `ifMatch` to override it.
+ */
+export function createResourceClient<R extends ResourceTypes>(
+  http: HttpClient,
+  path: string
+): ResourceClient<R> {
+  const etags = new Map<string, string>();
+  const itemPath = (id: RowId) => `${path}/${encodeURIComponent(id)}`;
+
+  const remember = ({ data, etag }: ApiResult<R["row"]>) => {
+    if (etag && data.id !== undefined) etags.set(String(data.id), etag);
+    return data;
+  };
+  // Listed rows come without an ETag header; rows selected without
+  // `updated_at` keep the ETag last seen
+  const rememberRows = (rows: R["row"][]) => {
+    for (const row of rows) {
+      const etag = etagOfVersion(row.updated_at);
+      if (etag && row.id !== undefined) etags.set(String(row.id), etag);
+    }
+    return rows;
+  };
+  const ifMatch = (id: RowId, options: WriteOptions) => {
+    const etag = options.ifMatch ?? etags.get(String(id));
+    return etag ? { "If-Match": etag } : undefined;
+  };
+
+  return {
+    async list(query = {}) {
+      const { data, pagination } = await http<R["row"][]>({
+        method: "GET",
+        path,
+        query: listParams(query),
+      });
+      return { data: rememberRows(data), pagination: pagination! };
+    },
+
+    async get(id, query = {}) {
+      return remember(
+        await http({
+          method: "GET",
+          path: itemPath(id),
+          query: selectParams(query),
+        })
+      );
+    },
+
+    async create(input) {
+      return remember(await http({ method: "POST", path, body: input }));
+    },
+
+    async update(input, options = {}) {
+      return remember(
+        await http({
+          method: "PUT",
+          path: itemPath(input.id),
+          body: input,
+          headers: ifMatch(input.id, options),
+        })
+      );
+    },
+
+    async delete(id, options = {}) {
+      await http({
+        method: "DELETE",
+        path: itemPath(id),
+        headers: ifMatch(id, options),
+      });
+      etags.delete(String(id));
+    },
+  };
+}
+
+/**
+ * Creates the client for a list route nested under another resource, e.g.
+ * `/term/[id]/offerings`. It takes the same query as the child's own `list`.
+ */
+export function createChildListClient<R extends ResourceTypes>(
+  http: HttpClient,
+  path: (id: RowId) => string
+) {
+  return async (
+    id: RowId,
+    query: ListQuery<R> = {}
+  ): Promise<ListResult<R["row"]>> => {
+    const { data, pagination } = await http<R["row"][]>({
+      method: "GET",
+      path: path(id),
+      query: listParams(query),
+    });
+    return { data, pagination: pagination! };
+  };
+}
@@ -0,0 +1,19 @@
+import type { StudentSchedule } from "@edunity/contracts";
+import type { HttpClient } from "./client";
+
+/**
+ * Creates `student.schedule(id)`: the student's weekly timetable, with
+ * clashing meetings listed.
+ */
+export function createScheduleClient(http: HttpClient) {
+  return async (id: string, options: { termId?: string } = {}) => {
+    const query = new URLSearchParams();
+    if (options.termId !== undefined) query.set("term_id", options.termId);
+    const { data } = await http<StudentSchedule>({
+      method: "GET",
+      path: `/student/${encodeURIComponent(id)}/schedule`,
+      query,
+    });
+    return data;
+  };
+}
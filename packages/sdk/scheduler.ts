@@ -0,0 +1,56 @@
+import type { ConflictKind, ConflictReport, Meeting } from "@edunity/contracts";
+import type { HttpClient } from "./client";
+
+export interface ConflictsQuery {
+  termId: string;
+  departmentId?: string;
+  instructorId?: string;
+  roomId?: string;
+  kinds?: readonly ConflictKind[];
+}
+
+export interface ScheduleProposal {
+  termId: string;
+  // The offering being rescheduled, if it exists
+  offeringId?: string;
+  instructorIds?: readonly string[];
+  schedule: readonly Meeting[];
+  kinds?: readonly ConflictKind[];
+}
+
+/**
+ * Creates `scheduler.conflicts(query)` and `scheduler.check(proposal)`: the
+ * room, instructor and cohort conflicts of a term's timetable, or of a
+ * schedule before it is saved.
+ */
+export function createSchedulerClient(http: HttpClient) {
+  return {
+    async conflicts(query: ConflictsQuery) {
+      const params = new URLSearchParams({ term_id: query.termId });
+      if (query.departmentId) params.set("department_id", query.departmentId);
+      if (query.instructorId) params.set("instructor_id", query.instructorId);
+      if (query.roomId) params.set("room_id", query.roomId);
+      if (query.kinds?.length) params.set("kinds", query.kinds.join(","));
+      const { data } = await http<ConflictReport>({
+        method: "GET",
+        path: "/scheduler/conflicts",
+        query: params,
+      });
+      return data;
+    },
+    async check(proposal: ScheduleProposal) {
+      const { data } = await http<ConflictReport>({
+        method: "POST",
+        path: "/scheduler/check",
+        body: {
+          term_id: proposal.termId,
+          offering_id: proposal.offeringId,
+          instructor_ids: proposal.instructorIds,
+          schedule: proposal.schedule,
+          kinds: proposal.kinds,
+        },
+      });
+      return data;
+    },
+  };
+}
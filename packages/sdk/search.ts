@@ -0,0 +1,26 @@
+import type { SearchHit, SearchType } from "@edunity/contracts";
+import type { HttpClient } from "./client";
+
+export interface SearchOptions {
+  // Defaults to every type
+  types?: readonly SearchType[];
+  limit?: number;
+}
+
+/**
+ * Creates the client for `/search`: finds universities, colleges, departments
+ * and courses by name, best match first.
+ */
+export function createSearchClient(http: HttpClient) {
+  return async (q: string, options: SearchOptions = {}) => {
+    const query = new URLSearchParams({ q });
+    if (options.types?.length) query.set("type", options.types.join(","));
+    if (options.limit !== undefined) query.set("limit", String(options.limit));
+    const { data } = await http<SearchHit[]>({
+      method: "GET",
+      path: "/search",
+      query,
+    });
+    return data;
+  };
+}
@@ -0,0 +1,19 @@
+import type { UniversityTree } from "@edunity/contracts";
+import type { HttpClient } from "./client";
+
+/**
+ * Creates `university.tree(id)`: the university's colleges, departments and
+ * courses, nested, with counts at every level.
+ */
+export function createTreeClient(http: HttpClient) {
+  return async (id: string, options: { depth?: number } = {}) => {
+    const query = new URLSearchParams();
+    if (options.depth !== undefined) query.set("depth", String(options.depth));
+    const { data } = await http<UniversityTree>({
+      method: "GET",
+      path: `/university/${encodeURIComponent(id)}/tree`,
+      query,
+    });
+    return data;
+  };
+}
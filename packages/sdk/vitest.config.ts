@@ -0,0 +1,19 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // Consumed as TypeScript source; their `main` names a build never made
+      '@edunity/helpers': fileURLToPath(
+        new URL('../helpers/index.ts', import.meta.url)
+      ),
+      '@edunity/supabase': fileURLToPath(
+        new URL('../supabase/index.ts', import.meta.url)
+      ),
+    },
+  },
+  test: {
+    environment: 'node',
+  },
+});
@@ -6,14 +6,27 @@ import { Database } from "../types";
  * Especially important if using Fluid compute: Don't put this client in a
  * global variable. Always create a new client within each function when using
  * it.
+ *
+ * Pass `accessToken` for API clients that authenticate with a bearer token
+ * instead of the session cookie, so queries run as that user under RLS.
+ * `requestId` is sent as `X-Request-Id`, which the audit triggers record.
  */
-export async function createServerSideClient() {
+export async function createServerSideClient(
+  accessToken?: string,
+  requestId?: string,
+) {
   const cookieStore = await cookies();
 
   return createServerClient<Database>(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_OR_ANON_KEY!,
     {
+      global: {
+        headers: {
+          ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+          ...(requestId ? { "X-Request-Id": requestId } : {}),
+        },
+      },
       cookies: {
         getAll() {
           return cookieStore.getAll();
@@ -32,4 +45,38 @@ export async function createServerSideClient() {
       },
     },
   );
-}
\ No newline at end of file
+}
+
+/**
+ * A server client without the generated `Database` types, for code that picks
+ * its table at runtime.
+ */
+export type UntypedServerClient = ReturnType<typeof createServerClient>;
+
+/**
+ * A client acting as the service role, for the few server-side operations
+ * Row Level Security can't express, such as sending auth invitations. It
+ * bypasses RLS entirely: only use it after the caller has been authorised.
+ * Returns `null` when `SUPABASE_SERVICE_ROLE_KEY` is not configured.
+ */
+export function createServiceRoleClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    return null;
+  }
+
+  return createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    serviceRoleKey,
+    {
+      auth: { persistSession: false, autoRefreshToken: false },
+      // Never reads or writes the caller's session
+      cookies: {
+        getAll() {
+          return [];
+        },
+        setAll() {},
+      },
+    },
+  );
+}
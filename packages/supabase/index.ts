@@ -1,4 +1,5 @@
 export * from "./types";
+export * from "./schemas";
 export * from "./clients/client"
 export * from "./clients/middleware"
 export * from "./clients/server"
@@ -0,0 +1,32 @@
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { format, resolveConfig } from "prettier";
+import { afterAll, describe, expect, it } from "vitest";
+
+// schemas.ts is generated from types.ts; regenerating it must be a no-op, or
+// a table changed without `pnpm generate:schemas`
+const SCHEMAS_FILE = fileURLToPath(new URL("./schemas.ts", import.meta.url));
+const GENERATOR = fileURLToPath(
+  new URL("./scripts/generate-schemas.mjs", import.meta.url)
+);
+
+describe("generated table schemas", () => {
+  const outputDir = mkdtempSync(join(tmpdir(), "schemas-"));
+  afterAll(() => rmSync(outputDir, { recursive: true, force: true }));
+
+  it("match types.ts", async () => {
+    const output = join(outputDir, "schemas.ts");
+    execFileSync(process.execPath, [GENERATOR, output], { stdio: "pipe" });
+
+    // Formatted like the generate:schemas script does
+    const generated = await format(readFileSync(output, "utf8"), {
+      ...(await resolveConfig(SCHEMAS_FILE)),
+      filepath: SCHEMAS_FILE,
+      trailingComma: "es5",
+    });
+    expect(generated).toBe(readFileSync(SCHEMAS_FILE, "utf8"));
+  });
+});
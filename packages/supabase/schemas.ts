@@ -0,0 +1,644 @@
+// Generated by scripts/generate-schemas.mjs from types.ts; do not edit.
+// Regenerate with `pnpm --filter @edunity/supabase generate:schemas`.
+import { z } from "zod";
+import type { Enums, Json, TablesInsert, TablesUpdate } from "./types";
+
+// Each schema is followed by a type check that fails to compile when it
+// disagrees with types.ts, i.e. when this file is stale.
+type SameKeys<A, B> = [keyof A] extends [keyof B]
+  ? [keyof B] extends [keyof A]
+    ? true
+    : false
+  : false;
+type Matches<A, B> =
+  SameKeys<A, B> extends true
+    ? [A] extends [B]
+      ? [B] extends [A]
+        ? true
+        : false
+      : false
+    : false;
+type Assert<T extends true> = T;
+
+export const jsonSchema: z.ZodType<Json> = z.json();
+
+export const appRoleSchema = z.enum([
+  "platform_admin",
+  "university_admin",
+  "college_admin",
+  "department_staff",
+  "faculty",
+  "student",
+]);
+type _appRoleCheck = Assert<
+  Matches<z.output<typeof appRoleSchema>, Enums<"app_role">>
+>;
+
+export const auditActionSchema = z.enum([
+  "create",
+  "update",
+  "delete",
+  "restore",
+]);
+type _auditActionCheck = Assert<
+  Matches<z.output<typeof auditActionSchema>, Enums<"audit_action">>
+>;
+
+export const enrollmentStatusSchema = z.enum([
+  "enrolled",
+  "waitlisted",
+  "dropped",
+  "completed",
+  "failed",
+]);
+type _enrollmentStatusCheck = Assert<
+  Matches<z.output<typeof enrollmentStatusSchema>, Enums<"enrollment_status">>
+>;
+
+export const requisiteKindSchema = z.enum(["prerequisite", "corequisite"]);
+type _requisiteKindCheck = Assert<
+  Matches<z.output<typeof requisiteKindSchema>, Enums<"requisite_kind">>
+>;
+
+export const academicYearInsertSchema = z.object({
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  ends_on: z.string(),
+  id: z.string().optional(),
+  name: z.string(),
+  starts_on: z.string(),
+  uni_id: z.string(),
+  updated_at: z.string().optional(),
+});
+type _academicYearInsertCheck = Assert<
+  Matches<
+    z.output<typeof academicYearInsertSchema>,
+    TablesInsert<"academic_year">
+  >
+>;
+
+export const academicYearUpdateSchema = z.object({
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  ends_on: z.string().optional(),
+  id: z.string().optional(),
+  name: z.string().optional(),
+  starts_on: z.string().optional(),
+  uni_id: z.string().optional(),
+  updated_at: z.string().optional(),
+});
+type _academicYearUpdateCheck = Assert<
+  Matches<
+    z.output<typeof academicYearUpdateSchema>,
+    TablesUpdate<"academic_year">
+  >
+>;
+
+export const auditLogInsertSchema = z.object({
+  action: auditActionSchema,
+  actor_id: z.string().nullable().optional(),
+  after: jsonSchema.nullable().optional(),
+  before: jsonSchema.nullable().optional(),
+  created_at: z.string().optional(),
+  id: z.string().optional(),
+  request_id: z.string().nullable().optional(),
+  row_id: z.string(),
+  table_name: z.string(),
+  uni_id: z.string().nullable().optional(),
+});
+type _auditLogInsertCheck = Assert<
+  Matches<z.output<typeof auditLogInsertSchema>, TablesInsert<"audit_log">>
+>;
+
+export const auditLogUpdateSchema = z.object({
+  action: auditActionSchema.optional(),
+  actor_id: z.string().nullable().optional(),
+  after: jsonSchema.nullable().optional(),
+  before: jsonSchema.nullable().optional(),
+  created_at: z.string().optional(),
+  id: z.string().optional(),
+  request_id: z.string().nullable().optional(),
+  row_id: z.string().optional(),
+  table_name: z.string().optional(),
+  uni_id: z.string().nullable().optional(),
+});
+type _auditLogUpdateCheck = Assert<
+  Matches<z.output<typeof auditLogUpdateSchema>, TablesUpdate<"audit_log">>
+>;
+
+export const buildingInsertSchema = z.object({
+  address: z.string().nullable().optional(),
+  code: z.string(),
+  collage_id: z.string(),
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  id: z.string().optional(),
+  name: z.string(),
+  uni_id: z.string(),
+  updated_at: z.string().optional(),
+});
+type _buildingInsertCheck = Assert<
+  Matches<z.output<typeof buildingInsertSchema>, TablesInsert<"building">>
+>;
+
+export const buildingUpdateSchema = z.object({
+  address: z.string().nullable().optional(),
+  code: z.string().optional(),
+  collage_id: z.string().optional(),
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  id: z.string().optional(),
+  name: z.string().optional(),
+  uni_id: z.string().optional(),
+  updated_at: z.string().optional(),
+});
+type _buildingUpdateCheck = Assert<
+  Matches<z.output<typeof buildingUpdateSchema>, TablesUpdate<"building">>
+>;
+
+export const collageInsertSchema = z.object({
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  id: z.string().optional(),
+  metadata: jsonSchema.nullable().optional(),
+  name: z.string().nullable().optional(),
+  uni_id: z.string().nullable().optional(),
+  updated_at: z.string().optional(),
+});
+type _collageInsertCheck = Assert<
+  Matches<z.output<typeof collageInsertSchema>, TablesInsert<"collage">>
+>;
+
+export const collageUpdateSchema = z.object({
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  id: z.string().optional(),
+  metadata: jsonSchema.nullable().optional(),
+  name: z.string().nullable().optional(),
+  uni_id: z.string().nullable().optional(),
+  updated_at: z.string().optional(),
+});
+type _collageUpdateCheck = Assert<
+  Matches<z.output<typeof collageUpdateSchema>, TablesUpdate<"collage">>
+>;
+
+export const courseInsertSchema = z.object({
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  department_id: z.string().nullable().optional(),
+  id: z.number().optional(),
+  length: z.number().nullable().optional(),
+  name: z.string().nullable().optional(),
+  updated_at: z.string().optional(),
+});
+type _courseInsertCheck = Assert<
+  Matches<z.output<typeof courseInsertSchema>, TablesInsert<"course">>
+>;
+
+export const courseUpdateSchema = z.object({
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  department_id: z.string().nullable().optional(),
+  id: z.number().optional(),
+  length: z.number().nullable().optional(),
+  name: z.string().nullable().optional(),
+  updated_at: z.string().optional(),
+});
+type _courseUpdateCheck = Assert<
+  Matches<z.output<typeof courseUpdateSchema>, TablesUpdate<"course">>
+>;
+
+export const courseOfferingInsertSchema = z.object({
+  capacity: z.number().nullable().optional(),
+  course_id: z.number(),
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  department_id: z.string(),
+  id: z.string().optional(),
+  instructor_ids: z.array(z.string()).optional(),
+  schedule: jsonSchema.optional(),
+  section: z.string().optional(),
+  term_id: z.string(),
+  uni_id: z.string(),
+  updated_at: z.string().optional(),
+});
+type _courseOfferingInsertCheck = Assert<
+  Matches<
+    z.output<typeof courseOfferingInsertSchema>,
+    TablesInsert<"course_offering">
+  >
+>;
+
+export const courseOfferingUpdateSchema = z.object({
+  capacity: z.number().nullable().optional(),
+  course_id: z.number().optional(),
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  department_id: z.string().optional(),
+  id: z.string().optional(),
+  instructor_ids: z.array(z.string()).optional(),
+  schedule: jsonSchema.optional(),
+  section: z.string().optional(),
+  term_id: z.string().optional(),
+  uni_id: z.string().optional(),
+  updated_at: z.string().optional(),
+});
+type _courseOfferingUpdateCheck = Assert<
+  Matches<
+    z.output<typeof courseOfferingUpdateSchema>,
+    TablesUpdate<"course_offering">
+  >
+>;
+
+export const courseRequisiteInsertSchema = z.object({
+  course_id: z.number(),
+  created_at: z.string().optional(),
+  id: z.string().optional(),
+  kind: requisiteKindSchema.optional(),
+  requires_course_id: z.number(),
+});
+type _courseRequisiteInsertCheck = Assert<
+  Matches<
+    z.output<typeof courseRequisiteInsertSchema>,
+    TablesInsert<"course_requisite">
+  >
+>;
+
+export const courseRequisiteUpdateSchema = z.object({
+  course_id: z.number().optional(),
+  created_at: z.string().optional(),
+  id: z.string().optional(),
+  kind: requisiteKindSchema.optional(),
+  requires_course_id: z.number().optional(),
+});
+type _courseRequisiteUpdateCheck = Assert<
+  Matches<
+    z.output<typeof courseRequisiteUpdateSchema>,
+    TablesUpdate<"course_requisite">
+  >
+>;
+
+export const departmentInsertSchema = z.object({
+  collage_id: z.string().nullable().optional(),
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  id: z.string().optional(),
+  name: z.string().nullable().optional(),
+  uni_id: z.string().nullable().optional(),
+  updated_at: z.string().optional(),
+});
+type _departmentInsertCheck = Assert<
+  Matches<z.output<typeof departmentInsertSchema>, TablesInsert<"department">>
+>;
+
+export const departmentUpdateSchema = z.object({
+  collage_id: z.string().nullable().optional(),
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  id: z.string().optional(),
+  name: z.string().nullable().optional(),
+  uni_id: z.string().nullable().optional(),
+  updated_at: z.string().optional(),
+});
+type _departmentUpdateCheck = Assert<
+  Matches<z.output<typeof departmentUpdateSchema>, TablesUpdate<"department">>
+>;
+
+export const enrollmentInsertSchema = z.object({
+  created_at: z.string().optional(),
+  dropped_at: z.string().nullable().optional(),
+  enrolled_at: z.string().nullable().optional(),
+  grade: z.string().nullable().optional(),
+  id: z.string().optional(),
+  offering_id: z.string(),
+  status: enrollmentStatusSchema,
+  student_id: z.string(),
+  uni_id: z.string(),
+  updated_at: z.string().optional(),
+  waitlisted_at: z.string().nullable().optional(),
+});
+type _enrollmentInsertCheck = Assert<
+  Matches<z.output<typeof enrollmentInsertSchema>, TablesInsert<"enrollment">>
+>;
+
+export const enrollmentUpdateSchema = z.object({
+  created_at: z.string().optional(),
+  dropped_at: z.string().nullable().optional(),
+  enrolled_at: z.string().nullable().optional(),
+  grade: z.string().nullable().optional(),
+  id: z.string().optional(),
+  offering_id: z.string().optional(),
+  status: enrollmentStatusSchema.optional(),
+  student_id: z.string().optional(),
+  uni_id: z.string().optional(),
+  updated_at: z.string().optional(),
+  waitlisted_at: z.string().nullable().optional(),
+});
+type _enrollmentUpdateCheck = Assert<
+  Matches<z.output<typeof enrollmentUpdateSchema>, TablesUpdate<"enrollment">>
+>;
+
+export const facultyInsertSchema = z.object({
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  department_id: z.string().nullable().optional(),
+  email: z.string().nullable().optional(),
+  employee_id: z.string(),
+  first_name: z.string(),
+  id: z.string().optional(),
+  last_name: z.string(),
+  phone: z.string().nullable().optional(),
+  title: z.string().nullable().optional(),
+  uni_id: z.string(),
+  updated_at: z.string().optional(),
+  user_id: z.string().nullable().optional(),
+});
+type _facultyInsertCheck = Assert<
+  Matches<z.output<typeof facultyInsertSchema>, TablesInsert<"faculty">>
+>;
+
+export const facultyUpdateSchema = z.object({
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  department_id: z.string().nullable().optional(),
+  email: z.string().nullable().optional(),
+  employee_id: z.string().optional(),
+  first_name: z.string().optional(),
+  id: z.string().optional(),
+  last_name: z.string().optional(),
+  phone: z.string().nullable().optional(),
+  title: z.string().nullable().optional(),
+  uni_id: z.string().optional(),
+  updated_at: z.string().optional(),
+  user_id: z.string().nullable().optional(),
+});
+type _facultyUpdateCheck = Assert<
+  Matches<z.output<typeof facultyUpdateSchema>, TablesUpdate<"faculty">>
+>;
+
+export const facultyInvitationInsertSchema = z.object({
+  accepted_at: z.string().nullable().optional(),
+  created_at: z.string().optional(),
+  email: z.string(),
+  expires_at: z.string().optional(),
+  faculty_id: z.string(),
+  id: z.string().optional(),
+  invited_by: z.string().nullable().optional(),
+  uni_id: z.string(),
+  user_id: z.string().nullable().optional(),
+});
+type _facultyInvitationInsertCheck = Assert<
+  Matches<
+    z.output<typeof facultyInvitationInsertSchema>,
+    TablesInsert<"faculty_invitation">
+  >
+>;
+
+export const facultyInvitationUpdateSchema = z.object({
+  accepted_at: z.string().nullable().optional(),
+  created_at: z.string().optional(),
+  email: z.string().optional(),
+  expires_at: z.string().optional(),
+  faculty_id: z.string().optional(),
+  id: z.string().optional(),
+  invited_by: z.string().nullable().optional(),
+  uni_id: z.string().optional(),
+  user_id: z.string().nullable().optional(),
+});
+type _facultyInvitationUpdateCheck = Assert<
+  Matches<
+    z.output<typeof facultyInvitationUpdateSchema>,
+    TablesUpdate<"faculty_invitation">
+  >
+>;
+
+export const roomInsertSchema = z.object({
+  building_id: z.string(),
+  capacity: z.number().nullable().optional(),
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  id: z.string().optional(),
+  name: z.string(),
+  uni_id: z.string(),
+  updated_at: z.string().optional(),
+});
+type _roomInsertCheck = Assert<
+  Matches<z.output<typeof roomInsertSchema>, TablesInsert<"room">>
+>;
+
+export const roomUpdateSchema = z.object({
+  building_id: z.string().optional(),
+  capacity: z.number().nullable().optional(),
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  id: z.string().optional(),
+  name: z.string().optional(),
+  uni_id: z.string().optional(),
+  updated_at: z.string().optional(),
+});
+type _roomUpdateCheck = Assert<
+  Matches<z.output<typeof roomUpdateSchema>, TablesUpdate<"room">>
+>;
+
+export const studentInsertSchema = z.object({
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  department_id: z.string().nullable().optional(),
+  email: z.string().nullable().optional(),
+  enrollment_number: z.string(),
+  first_name: z.string(),
+  id: z.string().optional(),
+  last_name: z.string(),
+  phone: z.string().nullable().optional(),
+  uni_id: z.string(),
+  updated_at: z.string().optional(),
+  user_id: z.string().nullable().optional(),
+});
+type _studentInsertCheck = Assert<
+  Matches<z.output<typeof studentInsertSchema>, TablesInsert<"student">>
+>;
+
+export const studentUpdateSchema = z.object({
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  department_id: z.string().nullable().optional(),
+  email: z.string().nullable().optional(),
+  enrollment_number: z.string().optional(),
+  first_name: z.string().optional(),
+  id: z.string().optional(),
+  last_name: z.string().optional(),
+  phone: z.string().nullable().optional(),
+  uni_id: z.string().optional(),
+  updated_at: z.string().optional(),
+  user_id: z.string().nullable().optional(),
+});
+type _studentUpdateCheck = Assert<
+  Matches<z.output<typeof studentUpdateSchema>, TablesUpdate<"student">>
+>;
+
+export const studentInvitationInsertSchema = z.object({
+  accepted_at: z.string().nullable().optional(),
+  created_at: z.string().optional(),
+  email: z.string(),
+  expires_at: z.string().optional(),
+  id: z.string().optional(),
+  invited_by: z.string().nullable().optional(),
+  student_id: z.string(),
+  uni_id: z.string(),
+  user_id: z.string().nullable().optional(),
+});
+type _studentInvitationInsertCheck = Assert<
+  Matches<
+    z.output<typeof studentInvitationInsertSchema>,
+    TablesInsert<"student_invitation">
+  >
+>;
+
+export const studentInvitationUpdateSchema = z.object({
+  accepted_at: z.string().nullable().optional(),
+  created_at: z.string().optional(),
+  email: z.string().optional(),
+  expires_at: z.string().optional(),
+  id: z.string().optional(),
+  invited_by: z.string().nullable().optional(),
+  student_id: z.string().optional(),
+  uni_id: z.string().optional(),
+  user_id: z.string().nullable().optional(),
+});
+type _studentInvitationUpdateCheck = Assert<
+  Matches<
+    z.output<typeof studentInvitationUpdateSchema>,
+    TablesUpdate<"student_invitation">
+  >
+>;
+
+export const termInsertSchema = z.object({
+  academic_year_id: z.string(),
+  add_deadline: z.string().nullable().optional(),
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  drop_deadline: z.string().nullable().optional(),
+  ends_on: z.string(),
+  id: z.string().optional(),
+  name: z.string(),
+  starts_on: z.string(),
+  uni_id: z.string(),
+  updated_at: z.string().optional(),
+});
+type _termInsertCheck = Assert<
+  Matches<z.output<typeof termInsertSchema>, TablesInsert<"term">>
+>;
+
+export const termUpdateSchema = z.object({
+  academic_year_id: z.string().optional(),
+  add_deadline: z.string().nullable().optional(),
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  drop_deadline: z.string().nullable().optional(),
+  ends_on: z.string().optional(),
+  id: z.string().optional(),
+  name: z.string().optional(),
+  starts_on: z.string().optional(),
+  uni_id: z.string().optional(),
+  updated_at: z.string().optional(),
+});
+type _termUpdateCheck = Assert<
+  Matches<z.output<typeof termUpdateSchema>, TablesUpdate<"term">>
+>;
+
+export const universityInsertSchema = z.object({
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  id: z.string().optional(),
+  metadata: jsonSchema.nullable().optional(),
+  name: z.string().nullable().optional(),
+  updated_at: z.string().optional(),
+});
+type _universityInsertCheck = Assert<
+  Matches<z.output<typeof universityInsertSchema>, TablesInsert<"university">>
+>;
+
+export const universityUpdateSchema = z.object({
+  created_at: z.string().optional(),
+  deleted_at: z.string().nullable().optional(),
+  id: z.string().optional(),
+  metadata: jsonSchema.nullable().optional(),
+  name: z.string().nullable().optional(),
+  updated_at: z.string().optional(),
+});
+type _universityUpdateCheck = Assert<
+  Matches<z.output<typeof universityUpdateSchema>, TablesUpdate<"university">>
+>;
+
+export const userRoleInsertSchema = z.object({
+  collage_id: z.string().nullable().optional(),
+  created_at: z.string().optional(),
+  department_id: z.string().nullable().optional(),
+  id: z.string().optional(),
+  role: appRoleSchema,
+  uni_id: z.string().nullable().optional(),
+  user_id: z.string(),
+});
+type _userRoleInsertCheck = Assert<
+  Matches<z.output<typeof userRoleInsertSchema>, TablesInsert<"user_role">>
+>;
+
+export const userRoleUpdateSchema = z.object({
+  collage_id: z.string().nullable().optional(),
+  created_at: z.string().optional(),
+  department_id: z.string().nullable().optional(),
+  id: z.string().optional(),
+  role: appRoleSchema.optional(),
+  uni_id: z.string().nullable().optional(),
+  user_id: z.string().optional(),
+});
+type _userRoleUpdateCheck = Assert<
+  Matches<z.output<typeof userRoleUpdateSchema>, TablesUpdate<"user_role">>
+>;
+
+/**
+ * Insert and update schemas by table name.
+ */
+export const tableSchemas = {
+  academic_year: {
+    insert: academicYearInsertSchema,
+    update: academicYearUpdateSchema,
+  },
+  audit_log: { insert: auditLogInsertSchema, update: auditLogUpdateSchema },
+  building: { insert: buildingInsertSchema, update: buildingUpdateSchema },
+  collage: { insert: collageInsertSchema, update: collageUpdateSchema },
+  course: { insert: courseInsertSchema, update: courseUpdateSchema },
+  course_offering: {
+    insert: courseOfferingInsertSchema,
+    update: courseOfferingUpdateSchema,
+  },
+  course_requisite: {
+    insert: courseRequisiteInsertSchema,
+    update: courseRequisiteUpdateSchema,
+  },
+  department: {
+    insert: departmentInsertSchema,
+    update: departmentUpdateSchema,
+  },
+  enrollment: {
+    insert: enrollmentInsertSchema,
+    update: enrollmentUpdateSchema,
+  },
+  faculty: { insert: facultyInsertSchema, update: facultyUpdateSchema },
+  faculty_invitation: {
+    insert: facultyInvitationInsertSchema,
+    update: facultyInvitationUpdateSchema,
+  },
+  room: { insert: roomInsertSchema, update: roomUpdateSchema },
+  student: { insert: studentInsertSchema, update: studentUpdateSchema },
+  student_invitation: {
+    insert: studentInvitationInsertSchema,
+    update: studentInvitationUpdateSchema,
+  },
+  term: { insert: termInsertSchema, update: termUpdateSchema },
+  university: {
+    insert: universityInsertSchema,
+    update: universityUpdateSchema,
+  },
+  user_role: { insert: userRoleInsertSchema, update: userRoleUpdateSchema },
+};
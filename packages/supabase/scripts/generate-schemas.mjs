@@ -0,0 +1,183 @@
+// Generates schemas.ts: Zod insert and update schemas for every table in
+// types.ts, so API request validation can't drift from the database.
+//
+// Run after regenerating types.ts: pnpm --filter @edunity/supabase generate:schemas
+// An output path may be given instead, e.g. to compare against schemas.ts.
+import { readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import ts from "typescript";
+
+const TYPES_FILE = new URL("../types.ts", import.meta.url);
+const OUTPUT_FILE = process.argv[2]
+  ? resolve(process.argv[2])
+  : new URL("../schemas.ts", import.meta.url);
+
+const source = ts.createSourceFile(
+  "types.ts",
+  readFileSync(TYPES_FILE, "utf8"),
+  ts.ScriptTarget.Latest,
+  true
+);
+
+function camelCase(name) {
+  return name.replace(/_(\w)/g, (_, c) => c.toUpperCase());
+}
+
+function propertyName(member) {
+  return member.name.getText(source).replace(/^"(.*)"$/, "$1");
+}
+
+function member(typeLiteral, name) {
+  const found = typeLiteral.members.find((m) => propertyName(m) === name);
+  if (!found?.type) throw new Error(`types.ts has no '${name}'`);
+  return found.type;
+}
+
+function database() {
+  for (const statement of source.statements) {
+    if (
+      ts.isTypeAliasDeclaration(statement) &&
+      statement.name.text === "Database"
+    ) {
+      return member(statement.type, "public");
+    }
+  }
+  throw new Error("types.ts does not declare the Database type");
+}
+
+function enumSchemaName(enumName) {
+  return `${camelCase(enumName)}Schema`;
+}
+
+/**
+ * The Zod expression for a column's type as written in types.ts.
+ */
+function zodFor(type, column) {
+  if (ts.isUnionTypeNode(type)) {
+    const isNull = (t) =>
+      ts.isLiteralTypeNode(t) && t.literal.kind === ts.SyntaxKind.NullKeyword;
+    const rest = type.types.filter((t) => !isNull(t));
+    const nullable = rest.length < type.types.length;
+    const inner =
+      rest.length === 1
+        ? zodFor(rest[0], column)
+        : rest.every((t) => ts.isLiteralTypeNode(t))
+          ? `z.enum([${rest.map((t) => t.getText(source)).join(", ")}])`
+          : unsupported(type, column);
+    return nullable ? `${inner}.nullable()` : inner;
+  }
+  if (ts.isArrayTypeNode(type)) {
+    return `z.array(${zodFor(type.elementType, column)})`;
+  }
+  if (ts.isIndexedAccessTypeNode(type)) {
+    // Database["public"]["Enums"]["name"]
+    const enumName = type.indexType.getText(source).replace(/^"(.*)"$/, "$1");
+    return enumSchemaName(enumName);
+  }
+  if (
+    ts.isTypeReferenceNode(type) &&
+    type.typeName.getText(source) === "Json"
+  ) {
+    return "jsonSchema";
+  }
+  switch (type.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return "z.string()";
+    case ts.SyntaxKind.NumberKeyword:
+      return "z.number()";
+    case ts.SyntaxKind.BooleanKeyword:
+      return "z.boolean()";
+    case ts.SyntaxKind.UnknownKeyword:
+      return "z.unknown()";
+  }
+  return unsupported(type, column);
+}
+
+function unsupported(type, column) {
+  throw new Error(
+    `Cannot map the type of '${column}' to Zod: ${type.getText(source)}`
+  );
+}
+
+function objectSchema(typeLiteral) {
+  const fields = typeLiteral.members.map((m) => {
+    const column = propertyName(m);
+    const schema = zodFor(m.type, column);
+    return `  ${column}: ${m.questionToken ? `${schema}.optional()` : schema},`;
+  });
+  return `z.object({\n${fields.join("\n")}\n})`;
+}
+
+const publicSchema = database();
+const tables = member(publicSchema, "Tables").members;
+const enums = member(publicSchema, "Enums").members;
+
+const out = [
+  "// Generated by scripts/generate-schemas.mjs from types.ts; do not edit.",
+  "// Regenerate with `pnpm --filter @edunity/supabase generate:schemas`.",
+  'import { z } from "zod";',
+  'import type { Enums, Json, TablesInsert, TablesUpdate } from "./types";',
+  "",
+  "// Each schema is followed by a type check that fails to compile when it",
+  "// disagrees with types.ts, i.e. when this file is stale.",
+  "type SameKeys<A, B> = [keyof A] extends [keyof B]",
+  "  ? [keyof B] extends [keyof A]",
+  "    ? true",
+  "    : false",
+  "  : false;",
+  "type Matches<A, B> = SameKeys<A, B> extends true",
+  "  ? [A] extends [B]",
+  "    ? [B] extends [A]",
+  "      ? true",
+  "      : false",
+  "    : false",
+  "  : false;",
+  "type Assert<T extends true> = T;",
+  "",
+  "export const jsonSchema: z.ZodType<Json> = z.json();",
+  "",
+];
+
+for (const e of enums) {
+  const name = propertyName(e);
+  out.push(
+    `export const ${enumSchemaName(name)} = ${zodFor(e.type, name)};`,
+    `type _${camelCase(name)}Check = Assert<Matches<z.output<typeof ${enumSchemaName(name)}>, Enums<"${name}">>>;`,
+    ""
+  );
+}
+
+const names = [];
+for (const table of tables) {
+  const name = propertyName(table);
+  const base = camelCase(name);
+  names.push([name, base]);
+  for (const [kind, helper] of [
+    ["Insert", "TablesInsert"],
+    ["Update", "TablesUpdate"],
+  ]) {
+    out.push(
+      `export const ${base}${kind}Schema = ${objectSchema(member(table.type, kind))};`,
+      `type _${base}${kind}Check = Assert<Matches<z.output<typeof ${base}${kind}Schema>, ${helper}<"${name}">>>;`,
+      ""
+    );
+  }
+}
+
+out.push(
+  "/**",
+  " * Insert and update schemas by table name.",
+  " */",
+  "export const tableSchemas = {",
+  ...names.map(
+    ([name, base]) =>
+      `  ${name}: { insert: ${base}InsertSchema, update: ${base}UpdateSchema },`
+  ),
+  "};",
+  ""
+);
+
+writeFileSync(OUTPUT_FILE, out.join("\n"));
+console.log(
+  `Wrote schemas for ${names.length} tables to ${process.argv[2] ?? "schemas.ts"}`
+);
@@ -34,27 +34,164 @@ export type Database = {
   }
   public: {
     Tables: {
+      academic_year: {
+        Row: {
+          created_at: string
+          deleted_at: string | null
+          ends_on: string
+          id: string
+          name: string
+          starts_on: string
+          uni_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          deleted_at?: string | null
+          ends_on: string
+          id?: string
+          name: string
+          starts_on: string
+          uni_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          deleted_at?: string | null
+          ends_on?: string
+          id?: string
+          name?: string
+          starts_on?: string
+          uni_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "academic_year_uni_id_fkey"
+            columns: ["uni_id"]
+            isOneToOne: false
+            referencedRelation: "university"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: Database["public"]["Enums"]["audit_action"]
+          actor_id: string | null
+          after: Json | null
+          before: Json | null
+          created_at: string
+          id: string
+          request_id: string | null
+          row_id: string
+          table_name: string
+          uni_id: string | null
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["audit_action"]
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: string
+          request_id?: string | null
+          row_id: string
+          table_name: string
+          uni_id?: string | null
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["audit_action"]
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: string
+          request_id?: string | null
+          row_id?: string
+          table_name?: string
+          uni_id?: string | null
+        }
+        Relationships: []
+      }
+      building: {
+        Row: {
+          address: string | null
+          code: string
+          collage_id: string
+          created_at: string
+          deleted_at: string | null
+          id: string
+          name: string
+          uni_id: string
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          code: string
+          collage_id: string
+          created_at?: string
+          deleted_at?: string | null
+          id?: string
+          name: string
+          uni_id: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          code?: string
+          collage_id?: string
+          created_at?: string
+          deleted_at?: string | null
+          id?: string
+          name?: string
+          uni_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "building_collage_id_fkey"
+            columns: ["collage_id"]
+            isOneToOne: false
+            referencedRelation: "collage"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "building_uni_id_fkey"
+            columns: ["uni_id"]
+            isOneToOne: false
+            referencedRelation: "university"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       collage: {
         Row: {
           created_at: string
+          deleted_at: string | null
           id: string
           metadata: Json | null
           name: string | null
           uni_id: string | null
+          updated_at: string
         }
         Insert: {
           created_at?: string
+          deleted_at?: string | null
           id?: string
           metadata?: Json | null
           name?: string | null
           uni_id?: string | null
+          updated_at?: string
         }
         Update: {
           created_at?: string
+          deleted_at?: string | null
           id?: string
           metadata?: Json | null
           name?: string | null
           uni_id?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
@@ -69,45 +206,181 @@ export type Database = {
       course: {
         Row: {
           created_at: string
+          deleted_at: string | null
+          department_id: string | null
           id: number
           length: number | null
           name: string | null
+          updated_at: string
         }
         Insert: {
           created_at?: string
+          deleted_at?: string | null
+          department_id?: string | null
           id?: number
           length?: number | null
           name?: string | null
+          updated_at?: string
         }
         Update: {
           created_at?: string
+          deleted_at?: string | null
+          department_id?: string | null
           id?: number
           length?: number | null
           name?: string | null
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "course_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "department"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_offering: {
+        Row: {
+          capacity: number | null
+          course_id: number
+          created_at: string
+          deleted_at: string | null
+          department_id: string
+          id: string
+          instructor_ids: string[]
+          schedule: Json
+          section: string
+          term_id: string
+          uni_id: string
+          updated_at: string
+        }
+        Insert: {
+          capacity?: number | null
+          course_id: number
+          created_at?: string
+          deleted_at?: string | null
+          department_id: string
+          id?: string
+          instructor_ids?: string[]
+          schedule?: Json
+          section?: string
+          term_id: string
+          uni_id: string
+          updated_at?: string
+        }
+        Update: {
+          capacity?: number | null
+          course_id?: number
+          created_at?: string
+          deleted_at?: string | null
+          department_id?: string
+          id?: string
+          instructor_ids?: string[]
+          schedule?: Json
+          section?: string
+          term_id?: string
+          uni_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_offering_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "course"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_offering_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "department"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_offering_term_id_fkey"
+            columns: ["term_id"]
+            isOneToOne: false
+            referencedRelation: "term"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_offering_uni_id_fkey"
+            columns: ["uni_id"]
+            isOneToOne: false
+            referencedRelation: "university"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_requisite: {
+        Row: {
+          course_id: number
+          created_at: string
+          id: string
+          kind: Database["public"]["Enums"]["requisite_kind"]
+          requires_course_id: number
+        }
+        Insert: {
+          course_id: number
+          created_at?: string
+          id?: string
+          kind?: Database["public"]["Enums"]["requisite_kind"]
+          requires_course_id: number
+        }
+        Update: {
+          course_id?: number
+          created_at?: string
+          id?: string
+          kind?: Database["public"]["Enums"]["requisite_kind"]
+          requires_course_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_requisite_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "course"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_requisite_requires_course_id_fkey"
+            columns: ["requires_course_id"]
+            isOneToOne: false
+            referencedRelation: "course"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       department: {
         Row: {
           collage_id: string | null
           created_at: string
+          deleted_at: string | null
           id: string
           name: string | null
           uni_id: string | null
+          updated_at: string
         }
         Insert: {
           collage_id?: string | null
           created_at?: string
+          deleted_at?: string | null
           id?: string
           name?: string | null
           uni_id?: string | null
+          updated_at?: string
         }
         Update: {
           collage_id?: string | null
           created_at?: string
+          deleted_at?: string | null
           id?: string
           name?: string | null
           uni_id?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
@@ -126,36 +399,622 @@ export type Database = {
           },
         ]
       }
+      enrollment: {
+        Row: {
+          created_at: string
+          dropped_at: string | null
+          enrolled_at: string | null
+          grade: string | null
+          id: string
+          offering_id: string
+          status: Database["public"]["Enums"]["enrollment_status"]
+          student_id: string
+          uni_id: string
+          updated_at: string
+          waitlisted_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          dropped_at?: string | null
+          enrolled_at?: string | null
+          grade?: string | null
+          id?: string
+          offering_id: string
+          status: Database["public"]["Enums"]["enrollment_status"]
+          student_id: string
+          uni_id: string
+          updated_at?: string
+          waitlisted_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          dropped_at?: string | null
+          enrolled_at?: string | null
+          grade?: string | null
+          id?: string
+          offering_id?: string
+          status?: Database["public"]["Enums"]["enrollment_status"]
+          student_id?: string
+          uni_id?: string
+          updated_at?: string
+          waitlisted_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollment_offering_id_fkey"
+            columns: ["offering_id"]
+            isOneToOne: false
+            referencedRelation: "course_offering"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollment_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "student"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollment_uni_id_fkey"
+            columns: ["uni_id"]
+            isOneToOne: false
+            referencedRelation: "university"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      faculty: {
+        Row: {
+          created_at: string
+          deleted_at: string | null
+          department_id: string | null
+          email: string | null
+          employee_id: string
+          first_name: string
+          id: string
+          last_name: string
+          phone: string | null
+          title: string | null
+          uni_id: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          deleted_at?: string | null
+          department_id?: string | null
+          email?: string | null
+          employee_id: string
+          first_name: string
+          id?: string
+          last_name: string
+          phone?: string | null
+          title?: string | null
+          uni_id: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          deleted_at?: string | null
+          department_id?: string | null
+          email?: string | null
+          employee_id?: string
+          first_name?: string
+          id?: string
+          last_name?: string
+          phone?: string | null
+          title?: string | null
+          uni_id?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "faculty_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "department"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "faculty_uni_id_fkey"
+            columns: ["uni_id"]
+            isOneToOne: false
+            referencedRelation: "university"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      faculty_invitation: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          faculty_id: string
+          id: string
+          invited_by: string | null
+          uni_id: string
+          user_id: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          faculty_id: string
+          id?: string
+          invited_by?: string | null
+          uni_id: string
+          user_id?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          faculty_id?: string
+          id?: string
+          invited_by?: string | null
+          uni_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "faculty_invitation_faculty_id_fkey"
+            columns: ["faculty_id"]
+            isOneToOne: false
+            referencedRelation: "faculty"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "faculty_invitation_uni_id_fkey"
+            columns: ["uni_id"]
+            isOneToOne: false
+            referencedRelation: "university"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room: {
+        Row: {
+          building_id: string
+          capacity: number | null
+          created_at: string
+          deleted_at: string | null
+          id: string
+          name: string
+          uni_id: string
+          updated_at: string
+        }
+        Insert: {
+          building_id: string
+          capacity?: number | null
+          created_at?: string
+          deleted_at?: string | null
+          id?: string
+          name: string
+          uni_id: string
+          updated_at?: string
+        }
+        Update: {
+          building_id?: string
+          capacity?: number | null
+          created_at?: string
+          deleted_at?: string | null
+          id?: string
+          name?: string
+          uni_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_building_id_fkey"
+            columns: ["building_id"]
+            isOneToOne: false
+            referencedRelation: "building"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_uni_id_fkey"
+            columns: ["uni_id"]
+            isOneToOne: false
+            referencedRelation: "university"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student: {
+        Row: {
+          created_at: string
+          deleted_at: string | null
+          department_id: string | null
+          email: string | null
+          enrollment_number: string
+          first_name: string
+          id: string
+          last_name: string
+          phone: string | null
+          uni_id: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          deleted_at?: string | null
+          department_id?: string | null
+          email?: string | null
+          enrollment_number: string
+          first_name: string
+          id?: string
+          last_name: string
+          phone?: string | null
+          uni_id: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          deleted_at?: string | null
+          department_id?: string | null
+          email?: string | null
+          enrollment_number?: string
+          first_name?: string
+          id?: string
+          last_name?: string
+          phone?: string | null
+          uni_id?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "department"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_uni_id_fkey"
+            columns: ["uni_id"]
+            isOneToOne: false
+            referencedRelation: "university"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_invitation: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          student_id: string
+          uni_id: string
+          user_id: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          student_id: string
+          uni_id: string
+          user_id?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          student_id?: string
+          uni_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_invitation_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "student"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_invitation_uni_id_fkey"
+            columns: ["uni_id"]
+            isOneToOne: false
+            referencedRelation: "university"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      term: {
+        Row: {
+          academic_year_id: string
+          add_deadline: string | null
+          created_at: string
+          deleted_at: string | null
+          drop_deadline: string | null
+          ends_on: string
+          id: string
+          name: string
+          starts_on: string
+          uni_id: string
+          updated_at: string
+        }
+        Insert: {
+          academic_year_id: string
+          add_deadline?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          drop_deadline?: string | null
+          ends_on: string
+          id?: string
+          name: string
+          starts_on: string
+          uni_id: string
+          updated_at?: string
+        }
+        Update: {
+          academic_year_id?: string
+          add_deadline?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          drop_deadline?: string | null
+          ends_on?: string
+          id?: string
+          name?: string
+          starts_on?: string
+          uni_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "term_academic_year_id_fkey"
+            columns: ["academic_year_id"]
+            isOneToOne: false
+            referencedRelation: "academic_year"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "term_uni_id_fkey"
+            columns: ["uni_id"]
+            isOneToOne: false
+            referencedRelation: "university"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       university: {
         Row: {
           created_at: string
+          deleted_at: string | null
           id: string
           metadata: Json | null
           name: string | null
+          updated_at: string
         }
         Insert: {
           created_at?: string
+          deleted_at?: string | null
           id?: string
           metadata?: Json | null
           name?: string | null
+          updated_at?: string
         }
         Update: {
           created_at?: string
+          deleted_at?: string | null
           id?: string
           metadata?: Json | null
           name?: string | null
+          updated_at?: string
         }
         Relationships: []
       }
+      user_role: {
+        Row: {
+          collage_id: string | null
+          created_at: string
+          department_id: string | null
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          uni_id: string | null
+          user_id: string
+        }
+        Insert: {
+          collage_id?: string | null
+          created_at?: string
+          department_id?: string | null
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          uni_id?: string | null
+          user_id: string
+        }
+        Update: {
+          collage_id?: string | null
+          created_at?: string
+          department_id?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          uni_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_role_collage_id_fkey"
+            columns: ["collage_id"]
+            isOneToOne: false
+            referencedRelation: "collage"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_role_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "department"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_role_uni_id_fkey"
+            columns: ["uni_id"]
+            isOneToOne: false
+            referencedRelation: "university"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      bulk_delete: {
+        Args: { ids: Json; target: string; version_column?: string }
+        Returns: Json[]
+      }
+      bulk_update: {
+        Args: { items: Json; target: string; version_column?: string }
+        Returns: Json[]
+      }
+      can_act_for_student: {
+        Args: { learner: Database["public"]["Tables"]["student"]["Row"] }
+        Returns: boolean
+      }
+      course_university: {
+        Args: { course: number }
+        Returns: string
+      }
+      department_university: {
+        Args: { dept: string }
+        Returns: string
+      }
+      drop_enrollment: {
+        Args: { enrollment_id: string }
+        Returns: {
+          created_at: string
+          dropped_at: string | null
+          enrolled_at: string | null
+          grade: string | null
+          id: string
+          offering_id: string
+          status: Database["public"]["Enums"]["enrollment_status"]
+          student_id: string
+          uni_id: string
+          updated_at: string
+          waitlisted_at: string | null
+        }
+      }
+      enroll: {
+        Args: { offering: string; student?: string }
+        Returns: {
+          created_at: string
+          dropped_at: string | null
+          enrolled_at: string | null
+          grade: string | null
+          id: string
+          offering_id: string
+          status: Database["public"]["Enums"]["enrollment_status"]
+          student_id: string
+          uni_id: string
+          updated_at: string
+          waitlisted_at: string | null
+        }
+      }
+      is_college_admin: {
+        Args: { college: string }
+        Returns: boolean
+      }
+      is_platform_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_staff: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_university_admin: {
+        Args: { uni: string }
+        Returns: boolean
+      }
+      promote_waitlist: {
+        Args: { offering: string }
+        Returns: number
+      }
+      purge_deleted_rows: {
+        Args: { retention?: unknown }
+        Returns: number
+      }
+      search_catalog: {
+        Args: {
+          kinds?: string[]
+          query: string
+          result_limit?: number
+          uni_ids?: string[]
+        }
+        Returns: {
+          college: Json
+          department: Json
+          id: string
+          kind: string
+          name: string
+          rank: number
+          university: Json
+        }[]
+      }
+      search_normalize: {
+        Args: { value: string }
+        Returns: string
+      }
+      shared_students: {
+        Args: { offerings: string[] }
+        Returns: {
+          offering_a: string
+          offering_b: string
+          students: number
+        }[]
+      }
+      university_tree: {
+        Args: { max_depth?: number; uni: string }
+        Returns: Json
+      }
+      user_student_ids: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      user_taught_offering_ids: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      user_university_ids: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role:
+        | "platform_admin"
+        | "university_admin"
+        | "college_admin"
+        | "department_staff"
+        | "faculty"
+        | "student"
+      audit_action: "create" | "update" | "delete" | "restore"
+      enrollment_status:
+        | "enrolled"
+        | "waitlisted"
+        | "dropped"
+        | "completed"
+        | "failed"
+      requisite_kind: "prerequisite" | "corequisite"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -285,7 +1144,25 @@ export const Constants = {
     Enums: {},
   },
   public: {
-    Enums: {},
+    Enums: {
+      app_role: [
+        "platform_admin",
+        "university_admin",
+        "college_admin",
+        "department_staff",
+        "faculty",
+        "student",
+      ],
+      audit_action: ["create", "update", "delete", "restore"],
+      enrollment_status: [
+        "enrolled",
+        "waitlisted",
+        "dropped",
+        "completed",
+        "failed",
+      ],
+      requisite_kind: ["prerequisite", "corequisite"],
+    },
   },
 } as const
 
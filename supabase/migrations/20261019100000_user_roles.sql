@@ -0,0 +1,74 @@
+create type "public"."app_role" as enum ('platform_admin', 'university_admin', 'college_admin', 'department_staff', 'student');
+
+
+  create table "public"."user_role" (
+    "id" uuid not null default gen_random_uuid(),
+    "created_at" timestamp with time zone not null default now(),
+    "user_id" uuid not null,
+    "role" app_role not null,
+    "uni_id" uuid,
+    "collage_id" uuid,
+    "department_id" uuid
+      );
+
+
+alter table "public"."user_role" enable row level security;
+
+CREATE UNIQUE INDEX user_role_pkey ON public.user_role USING btree (id);
+
+CREATE UNIQUE INDEX user_role_assignment_key ON public.user_role USING btree (user_id, role, uni_id, collage_id, department_id) NULLS NOT DISTINCT;
+
+CREATE INDEX user_role_user_id_idx ON public.user_role USING btree (user_id);
+
+alter table "public"."user_role" add constraint "user_role_pkey" PRIMARY KEY using index "user_role_pkey";
+
+alter table "public"."user_role" add constraint "user_role_assignment_key" UNIQUE using index "user_role_assignment_key";
+
+alter table "public"."user_role" add constraint "user_role_user_id_fkey" FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+alter table "public"."user_role" add constraint "user_role_uni_id_fkey" FOREIGN KEY (uni_id) REFERENCES university(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."user_role" add constraint "user_role_collage_id_fkey" FOREIGN KEY (collage_id) REFERENCES collage(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."user_role" add constraint "user_role_department_id_fkey" FOREIGN KEY (department_id) REFERENCES department(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+-- Scoped roles must name the university (and college/department) they apply to
+alter table "public"."user_role" add constraint "user_role_scope_check" CHECK (
+  (role = 'platform_admin') OR
+  (role = 'university_admin' AND uni_id IS NOT NULL) OR
+  (role = 'college_admin' AND uni_id IS NOT NULL AND collage_id IS NOT NULL) OR
+  (role IN ('department_staff', 'student') AND uni_id IS NOT NULL AND department_id IS NOT NULL)
+);
+
+-- Users may read their own role assignments; only the service role manages them
+create policy "Users can read their own roles"
+  on "public"."user_role"
+  as permissive
+  for select
+  to authenticated
+  using ((( SELECT auth.uid() AS uid) = user_id));
+
+grant select on table "public"."user_role" to "authenticated";
+
+grant delete on table "public"."user_role" to "service_role";
+
+grant insert on table "public"."user_role" to "service_role";
+
+grant references on table "public"."user_role" to "service_role";
+
+grant select on table "public"."user_role" to "service_role";
+
+grant trigger on table "public"."user_role" to "service_role";
+
+grant truncate on table "public"."user_role" to "service_role";
+
+grant update on table "public"."user_role" to "service_role";
+
+-- The API authenticates every request, so anonymous clients lose write access
+revoke delete, insert, truncate, update on table "public"."collage" from "anon";
+
+revoke delete, insert, truncate, update on table "public"."course" from "anon";
+
+revoke delete, insert, truncate, update on table "public"."department" from "anon";
+
+revoke delete, insert, truncate, update on table "public"."university" from "anon";
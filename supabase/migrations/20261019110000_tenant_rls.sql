@@ -0,0 +1,116 @@
+-- Tenant scoping: each university is a tenant and users only reach the rows of
+-- the universities their roles are assigned to. Mirrors apps/api/app/_common/tenant.ts.
+
+set check_function_bodies = off;
+
+CREATE OR REPLACE FUNCTION public.is_platform_admin()
+ RETURNS boolean
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+  select exists (
+    select 1 from public.user_role
+    where user_id = (select auth.uid()) and role = 'platform_admin'
+  );
+$function$
+;
+
+CREATE OR REPLACE FUNCTION public.user_university_ids()
+ RETURNS SETOF uuid
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+  select distinct uni_id from public.user_role
+  where user_id = (select auth.uid()) and uni_id is not null;
+$function$
+;
+
+CREATE OR REPLACE FUNCTION public.is_staff()
+ RETURNS boolean
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+  select exists (
+    select 1 from public.user_role
+    where user_id = (select auth.uid()) and role <> 'student'
+  );
+$function$
+;
+
+alter table "public"."university" enable row level security;
+
+alter table "public"."collage" enable row level security;
+
+alter table "public"."department" enable row level security;
+
+alter table "public"."course" enable row level security;
+
+CREATE INDEX collage_uni_id_idx ON public.collage USING btree (uni_id);
+
+CREATE INDEX department_uni_id_idx ON public.department USING btree (uni_id);
+
+-- university: the tenant itself
+create policy "Tenants can read their university"
+  on "public"."university"
+  as permissive
+  for select
+  to authenticated
+  using ((public.is_platform_admin() OR (id IN ( SELECT public.user_university_ids()))));
+
+create policy "Platform admins can create universities"
+  on "public"."university"
+  as permissive
+  for insert
+  to authenticated
+  with check (public.is_platform_admin());
+
+create policy "Tenants can update their university"
+  on "public"."university"
+  as permissive
+  for update
+  to authenticated
+  using ((public.is_platform_admin() OR (id IN ( SELECT public.user_university_ids()))))
+  with check ((public.is_platform_admin() OR (id IN ( SELECT public.user_university_ids()))));
+
+create policy "Platform admins can delete universities"
+  on "public"."university"
+  as permissive
+  for delete
+  to authenticated
+  using (public.is_platform_admin());
+
+-- collage and department: scoped by uni_id on reads and writes
+create policy "Tenants can manage their colleges"
+  on "public"."collage"
+  as permissive
+  for all
+  to authenticated
+  using ((public.is_platform_admin() OR (uni_id IN ( SELECT public.user_university_ids()))))
+  with check ((public.is_platform_admin() OR (uni_id IN ( SELECT public.user_university_ids()))));
+
+create policy "Tenants can manage their departments"
+  on "public"."department"
+  as permissive
+  for all
+  to authenticated
+  using ((public.is_platform_admin() OR (uni_id IN ( SELECT public.user_university_ids()))))
+  with check ((public.is_platform_admin() OR (uni_id IN ( SELECT public.user_university_ids()))));
+
+-- course: a shared catalogue, readable by everyone signed in and managed by staff
+create policy "Authenticated users can read courses"
+  on "public"."course"
+  as permissive
+  for select
+  to authenticated
+  using (true);
+
+create policy "Staff can manage courses"
+  on "public"."course"
+  as permissive
+  for all
+  to authenticated
+  using (public.is_staff())
+  with check (public.is_staff());
@@ -0,0 +1,74 @@
+-- All-or-nothing bulk writes for the API's bulk endpoints. Each call runs in a
+-- single transaction, so one failing row rolls back the whole batch. Both run
+-- as the invoker, so Row Level Security still applies to every row.
+
+set check_function_bodies = off;
+
+CREATE OR REPLACE FUNCTION public.bulk_update(target text, items jsonb)
+ RETURNS SETOF jsonb
+ LANGUAGE plpgsql
+ SECURITY INVOKER
+ SET search_path TO ''
+AS $function$
+declare
+  item jsonb;
+  assignments text;
+  updated jsonb;
+begin
+  for item in select value from jsonb_array_elements(items) loop
+    -- Only the keys present in the item are written
+    select string_agg(format('%I = r.%I', key, key), ', ')
+      into assignments
+      from jsonb_object_keys(item - 'id') as key;
+
+    if assignments is null then
+      raise exception 'No fields to update for row %', item->>'id'
+        using errcode = '22023';
+    end if;
+
+    execute format(
+      'update public.%1$I t set %2$s from jsonb_populate_record(null::public.%1$I, $1) r where t.id = r.id returning to_jsonb(t.*)',
+      target, assignments
+    ) into updated using item;
+
+    if updated is null then
+      raise exception 'Row % not found', item->>'id'
+        using errcode = 'P0002';
+    end if;
+
+    return next updated;
+  end loop;
+end;
+$function$
+;
+
+CREATE OR REPLACE FUNCTION public.bulk_delete(target text, ids jsonb)
+ RETURNS SETOF jsonb
+ LANGUAGE plpgsql
+ SECURITY INVOKER
+ SET search_path TO ''
+AS $function$
+declare
+  deleted_count integer;
+begin
+  return query execute format(
+    'delete from public.%I t where t.id::text in (select jsonb_array_elements_text($1)) returning to_jsonb(t.*)',
+    target
+  ) using ids;
+
+  get diagnostics deleted_count = row_count;
+  if deleted_count <> jsonb_array_length(ids) then
+    raise exception 'Expected to delete % rows but found %', jsonb_array_length(ids), deleted_count
+      using errcode = 'P0002';
+  end if;
+end;
+$function$
+;
+
+grant execute on function public.bulk_update(text, jsonb) to "authenticated";
+
+grant execute on function public.bulk_delete(text, jsonb) to "authenticated";
+
+revoke execute on function public.bulk_update(text, jsonb) from "anon", "public";
+
+revoke execute on function public.bulk_delete(text, jsonb) from "anon", "public";
@@ -0,0 +1,133 @@
+-- Soft delete: rows are marked with deleted_at instead of being removed, so a
+-- mistaken delete no longer cascades away a whole university. Marking (and
+-- restoring) a parent marks (and restores) its children with it; rows past the
+-- retention window are purged for good by a nightly job.
+
+set check_function_bodies = off;
+
+alter table "public"."collage" add column "deleted_at" timestamp with time zone;
+
+alter table "public"."course" add column "deleted_at" timestamp with time zone;
+
+alter table "public"."department" add column "deleted_at" timestamp with time zone;
+
+alter table "public"."university" add column "deleted_at" timestamp with time zone;
+
+CREATE INDEX collage_deleted_at_idx ON public.collage USING btree (deleted_at) WHERE (deleted_at IS NOT NULL);
+
+CREATE INDEX course_deleted_at_idx ON public.course USING btree (deleted_at) WHERE (deleted_at IS NOT NULL);
+
+CREATE INDEX department_deleted_at_idx ON public.department USING btree (deleted_at) WHERE (deleted_at IS NOT NULL);
+
+CREATE INDEX university_deleted_at_idx ON public.university USING btree (deleted_at) WHERE (deleted_at IS NOT NULL);
+
+-- Children deleted together with their parent carry the parent's timestamp, so
+-- a restore brings back exactly those and leaves earlier deletes alone.
+CREATE OR REPLACE FUNCTION public.cascade_soft_delete()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+begin
+  if TG_TABLE_NAME = 'university' then
+    update public.collage set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+    update public.department set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+  elsif TG_TABLE_NAME = 'collage' then
+    update public.department set deleted_at = new.deleted_at
+      where collage_id = new.id and deleted_at is not distinct from old.deleted_at;
+  end if;
+  return null;
+end;
+$function$
+;
+
+-- Live rows may not hang off a deleted parent: restoring a child before its
+-- parent, or creating one under a deleted parent, is rejected.
+CREATE OR REPLACE FUNCTION public.check_parent_not_deleted()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+begin
+  if new.deleted_at is not null then
+    return new;
+  end if;
+
+  if new.uni_id is not null and exists (
+    select 1 from public.university where id = new.uni_id and deleted_at is not null
+  ) then
+    raise exception 'University % is deleted', new.uni_id
+      using errcode = '23503', hint = 'Restore the university first.';
+  end if;
+
+  -- Nested so new.collage_id is only looked at on rows that have it
+  if TG_TABLE_NAME = 'department' then
+    if new.collage_id is not null and exists (
+      select 1 from public.collage where id = new.collage_id and deleted_at is not null
+    ) then
+      raise exception 'College % is deleted', new.collage_id
+        using errcode = '23503', hint = 'Restore the college first.';
+    end if;
+  end if;
+
+  return new;
+end;
+$function$
+;
+
+CREATE TRIGGER university_cascade_soft_delete AFTER UPDATE OF deleted_at ON public.university FOR EACH ROW WHEN ((old.deleted_at IS DISTINCT FROM new.deleted_at)) EXECUTE FUNCTION public.cascade_soft_delete();
+
+CREATE TRIGGER collage_cascade_soft_delete AFTER UPDATE OF deleted_at ON public.collage FOR EACH ROW WHEN ((old.deleted_at IS DISTINCT FROM new.deleted_at)) EXECUTE FUNCTION public.cascade_soft_delete();
+
+CREATE TRIGGER collage_check_parent_not_deleted BEFORE INSERT OR UPDATE OF deleted_at, uni_id ON public.collage FOR EACH ROW EXECUTE FUNCTION public.check_parent_not_deleted();
+
+CREATE TRIGGER department_check_parent_not_deleted BEFORE INSERT OR UPDATE OF deleted_at, uni_id, collage_id ON public.department FOR EACH ROW EXECUTE FUNCTION public.check_parent_not_deleted();
+
+-- Permanently removes rows deleted longer ago than the retention window.
+-- Children go first; anything left is swept up by the FK cascades.
+CREATE OR REPLACE FUNCTION public.purge_deleted_rows(retention interval DEFAULT '30 days'::interval)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  cutoff timestamp with time zone := now() - retention;
+  purged integer := 0;
+  affected integer;
+begin
+  delete from public.department where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.collage where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.university where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.course where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  return purged;
+end;
+$function$
+;
+
+revoke execute on function public.purge_deleted_rows(interval) from "anon", "authenticated", "public";
+
+create extension if not exists "pg_cron" with schema "pg_catalog";
+
+-- Nightly purge; reschedule with a different interval to change the retention
+select cron.schedule(
+  'purge-deleted-rows',
+  '30 3 * * *',
+  $$select public.purge_deleted_rows(interval '30 days')$$
+);
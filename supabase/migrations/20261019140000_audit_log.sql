@@ -0,0 +1,79 @@
+-- Audit trail of every mutation made through the API. Rows are append-only:
+-- callers may insert entries for themselves but never change or remove them.
+-- uni_id is the university the changed record belongs to (null for shared
+-- tables such as course) and scopes who may read the entry.
+
+create type "public"."audit_action" as enum ('create', 'update', 'delete', 'restore');
+
+
+  create table "public"."audit_log" (
+    "id" uuid not null default gen_random_uuid(),
+    "created_at" timestamp with time zone not null default now(),
+    "actor_id" uuid default auth.uid(),
+    "table_name" text not null,
+    "row_id" text not null,
+    "action" audit_action not null,
+    "before" jsonb,
+    "after" jsonb,
+    "request_id" text,
+    "uni_id" uuid
+      );
+
+
+alter table "public"."audit_log" enable row level security;
+
+CREATE UNIQUE INDEX audit_log_pkey ON public.audit_log USING btree (id);
+
+CREATE INDEX audit_log_row_idx ON public.audit_log USING btree (table_name, row_id);
+
+CREATE INDEX audit_log_uni_id_created_at_idx ON public.audit_log USING btree (uni_id, created_at);
+
+CREATE INDEX audit_log_actor_id_idx ON public.audit_log USING btree (actor_id);
+
+CREATE INDEX audit_log_request_id_idx ON public.audit_log USING btree (request_id);
+
+alter table "public"."audit_log" add constraint "audit_log_pkey" PRIMARY KEY using index "audit_log_pkey";
+
+-- No foreign keys: entries must outlive the users and rows they describe
+alter table "public"."audit_log" add constraint "audit_log_snapshot_check" CHECK ((before IS NOT NULL) OR (after IS NOT NULL));
+
+CREATE OR REPLACE FUNCTION public.is_university_admin(uni uuid)
+ RETURNS boolean
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+  select exists (
+    select 1 from public.user_role
+    where user_id = (select auth.uid())
+      and role = 'university_admin'
+      and uni_id = uni
+  );
+$function$
+;
+
+create policy "Users can record their own changes"
+  on "public"."audit_log"
+  as permissive
+  for insert
+  to authenticated
+  with check ((actor_id = ( SELECT auth.uid() AS uid)));
+
+create policy "Admins can read their universities' audit log"
+  on "public"."audit_log"
+  as permissive
+  for select
+  to authenticated
+  using ((public.is_platform_admin() OR public.is_university_admin(uni_id)));
+
+grant insert on table "public"."audit_log" to "authenticated";
+
+grant select on table "public"."audit_log" to "authenticated";
+
+grant insert on table "public"."audit_log" to "service_role";
+
+grant select on table "public"."audit_log" to "service_role";
+
+revoke delete, insert, truncate, update on table "public"."audit_log" from "anon";
+
+revoke delete, truncate, update on table "public"."audit_log" from "authenticated";
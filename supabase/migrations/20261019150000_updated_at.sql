@@ -0,0 +1,33 @@
+-- Row versions for optimistic concurrency: updated_at changes on every write
+-- and the API derives each row's ETag from it. clock_timestamp() rather than
+-- now(), so two writes in one transaction still get different versions.
+
+set check_function_bodies = off;
+
+alter table "public"."collage" add column "updated_at" timestamp with time zone not null default clock_timestamp();
+
+alter table "public"."course" add column "updated_at" timestamp with time zone not null default clock_timestamp();
+
+alter table "public"."department" add column "updated_at" timestamp with time zone not null default clock_timestamp();
+
+alter table "public"."university" add column "updated_at" timestamp with time zone not null default clock_timestamp();
+
+CREATE OR REPLACE FUNCTION public.set_updated_at()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path TO ''
+AS $function$
+begin
+  new.updated_at := clock_timestamp();
+  return new;
+end;
+$function$
+;
+
+CREATE TRIGGER collage_set_updated_at BEFORE UPDATE ON public.collage FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+CREATE TRIGGER course_set_updated_at BEFORE UPDATE ON public.course FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+CREATE TRIGGER department_set_updated_at BEFORE UPDATE ON public.department FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+CREATE TRIGGER university_set_updated_at BEFORE UPDATE ON public.university FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
@@ -0,0 +1,167 @@
+-- Catalogue search: one query over universities, colleges, departments and
+-- courses for the API's /search route. Names are normalized (case,
+-- punctuation, common abbreviations such as "Dept." or "Engg.") and matched
+-- both as full-text prefixes and by trigram word similarity, so partial,
+-- abbreviated and misspelt names are found.
+
+set check_function_bodies = off;
+
+create extension if not exists "pg_trgm" with schema "extensions";
+
+-- Immutable, so the indexes below can be built on it
+CREATE OR REPLACE FUNCTION public.search_normalize(value text)
+ RETURNS text
+ LANGUAGE plpgsql
+ IMMUTABLE PARALLEL SAFE
+ SET search_path TO ''
+AS $function$
+declare
+  abbreviation text[];
+  normalized text := lower(coalesce(value, ''));
+begin
+  normalized := regexp_replace(normalized, '&', ' and ', 'g');
+  normalized := regexp_replace(normalized, '[^[:alnum:]]+', ' ', 'g');
+
+  foreach abbreviation slice 1 in array array[
+    ['dept', 'department'],
+    ['depts', 'departments'],
+    ['engg', 'engineering'],
+    ['engr', 'engineering'],
+    ['eng', 'engineering'],
+    ['univ', 'university'],
+    ['uni', 'university'],
+    ['coll', 'college'],
+    ['inst', 'institute'],
+    ['tech', 'technology'],
+    ['sci', 'science'],
+    ['mgmt', 'management'],
+    ['admin', 'administration'],
+    ['comp', 'computer'],
+    ['elec', 'electrical'],
+    ['mech', 'mechanical'],
+    ['govt', 'government'],
+    ['natl', 'national'],
+    ['intl', 'international']
+  ] loop
+    normalized := regexp_replace(
+      normalized, '\m' || abbreviation[1] || '\M', abbreviation[2], 'g'
+    );
+  end loop;
+
+  return btrim(regexp_replace(normalized, '\s+', ' ', 'g'));
+end;
+$function$
+;
+
+CREATE INDEX university_name_fts_idx ON public.university USING gin (to_tsvector('simple'::regconfig, public.search_normalize(name)));
+
+CREATE INDEX university_name_trgm_idx ON public.university USING gin (public.search_normalize(name) extensions.gin_trgm_ops);
+
+CREATE INDEX collage_name_fts_idx ON public.collage USING gin (to_tsvector('simple'::regconfig, public.search_normalize(name)));
+
+CREATE INDEX collage_name_trgm_idx ON public.collage USING gin (public.search_normalize(name) extensions.gin_trgm_ops);
+
+CREATE INDEX department_name_fts_idx ON public.department USING gin (to_tsvector('simple'::regconfig, public.search_normalize(name)));
+
+CREATE INDEX department_name_trgm_idx ON public.department USING gin (public.search_normalize(name) extensions.gin_trgm_ops);
+
+CREATE INDEX course_name_fts_idx ON public.course USING gin (to_tsvector('simple'::regconfig, public.search_normalize(name)));
+
+CREATE INDEX course_name_trgm_idx ON public.course USING gin (public.search_normalize(name) extensions.gin_trgm_ops);
+
+-- Ranked hits with their parents. Runs as the invoker, so Row Level Security
+-- still applies; `uni_ids` narrows the tenant-owned kinds further (courses are
+-- a shared catalogue). Deleted rows are never found.
+CREATE OR REPLACE FUNCTION public.search_catalog(
+  query text,
+  kinds text[] DEFAULT NULL::text[],
+  uni_ids uuid[] DEFAULT NULL::uuid[],
+  result_limit integer DEFAULT 20
+)
+ RETURNS TABLE(kind text, id text, name text, rank real, university jsonb, college jsonb, department jsonb)
+ LANGUAGE plpgsql
+ STABLE SECURITY INVOKER
+ SET search_path TO ''
+AS $function$
+declare
+  normalized text := public.search_normalize(query);
+  terms tsquery;
+begin
+  if normalized = '' then
+    return;
+  end if;
+
+  -- Every word of the query, each matching as a prefix: "mech eng" finds
+  -- "Mechanical Engineering"
+  select to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+    into terms
+    from regexp_split_to_table(normalized, ' ') as word;
+
+  return query
+  with hits as (
+    select 'university'::text as kind, u.id::text as id, u.name,
+      to_tsvector('simple'::regconfig, public.search_normalize(u.name)) as document,
+      public.search_normalize(u.name) as normalized_name,
+      null::jsonb as university, null::jsonb as college, null::jsonb as department
+    from public.university u
+    where (kinds is null or 'university' = any(kinds))
+      and u.deleted_at is null
+      and (uni_ids is null or u.id = any(uni_ids))
+      and (to_tsvector('simple'::regconfig, public.search_normalize(u.name)) @@ terms
+        or normalized operator(extensions.<%) public.search_normalize(u.name))
+    union all
+    select 'college', c.id::text, c.name,
+      to_tsvector('simple'::regconfig, public.search_normalize(c.name)),
+      public.search_normalize(c.name),
+      case when u.id is not null then jsonb_build_object('id', u.id, 'name', u.name) end,
+      null, null
+    from public.collage c
+    left join public.university u on u.id = c.uni_id
+    where (kinds is null or 'college' = any(kinds))
+      and c.deleted_at is null
+      and (uni_ids is null or c.uni_id = any(uni_ids))
+      and (to_tsvector('simple'::regconfig, public.search_normalize(c.name)) @@ terms
+        or normalized operator(extensions.<%) public.search_normalize(c.name))
+    union all
+    select 'department', d.id::text, d.name,
+      to_tsvector('simple'::regconfig, public.search_normalize(d.name)),
+      public.search_normalize(d.name),
+      case when u.id is not null then jsonb_build_object('id', u.id, 'name', u.name) end,
+      case when c.id is not null then jsonb_build_object('id', c.id, 'name', c.name) end,
+      null
+    from public.department d
+    left join public.university u on u.id = d.uni_id
+    left join public.collage c on c.id = d.collage_id
+    where (kinds is null or 'department' = any(kinds))
+      and d.deleted_at is null
+      and (uni_ids is null or d.uni_id = any(uni_ids))
+      and (to_tsvector('simple'::regconfig, public.search_normalize(d.name)) @@ terms
+        or normalized operator(extensions.<%) public.search_normalize(d.name))
+    union all
+    select 'course', co.id::text, co.name,
+      to_tsvector('simple'::regconfig, public.search_normalize(co.name)),
+      public.search_normalize(co.name),
+      null, null, null
+    from public.course co
+    where (kinds is null or 'course' = any(kinds))
+      and co.deleted_at is null
+      and (to_tsvector('simple'::regconfig, public.search_normalize(co.name)) @@ terms
+        or normalized operator(extensions.<%) public.search_normalize(co.name))
+  )
+  select h.kind, h.id, h.name,
+    -- Exact names first, then the better of the full-text and trigram scores
+    (case when h.normalized_name = normalized then 1 else 0 end
+      + greatest(ts_rank(h.document, terms), extensions.word_similarity(normalized, h.normalized_name)))::real,
+    h.university, h.college, h.department
+  from hits h
+  order by 4 desc, h.name
+  limit result_limit;
+end;
+$function$
+;
+
+grant execute on function public.search_normalize(text) to "authenticated";
+
+grant execute on function public.search_catalog(text, text[], uuid[], integer) to "authenticated";
+
+revoke execute on function public.search_catalog(text, text[], uuid[], integer) from "anon", "public";
@@ -0,0 +1,173 @@
+-- Org chart: courses are attached to the department that teaches them, and
+-- university_tree() returns a university with its colleges, departments and
+-- courses nested, for the API's /university/[id]/tree route. Courses without
+-- a department stay in the shared catalogue only.
+
+set check_function_bodies = off;
+
+alter table "public"."course" add column "department_id" uuid;
+
+alter table "public"."course" add constraint "course_department_id_fkey" FOREIGN KEY (department_id) REFERENCES public.department(id) ON UPDATE CASCADE ON DELETE SET NULL not valid;
+
+alter table "public"."course" validate constraint "course_department_id_fkey";
+
+CREATE INDEX course_department_id_idx ON public.course USING btree (department_id);
+
+-- A department's courses now go to the trash (and come back) with it
+CREATE OR REPLACE FUNCTION public.cascade_soft_delete()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+begin
+  if TG_TABLE_NAME = 'university' then
+    update public.collage set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+    update public.department set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+  elsif TG_TABLE_NAME = 'collage' then
+    update public.department set deleted_at = new.deleted_at
+      where collage_id = new.id and deleted_at is not distinct from old.deleted_at;
+  elsif TG_TABLE_NAME = 'department' then
+    update public.course set deleted_at = new.deleted_at
+      where department_id = new.id and deleted_at is not distinct from old.deleted_at;
+  end if;
+  return null;
+end;
+$function$
+;
+
+-- Courses have no uni_id, so each table's parents are checked on their own
+CREATE OR REPLACE FUNCTION public.check_parent_not_deleted()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+begin
+  if new.deleted_at is not null then
+    return new;
+  end if;
+
+  -- Nested so each column is only looked at on rows that have it
+  if TG_TABLE_NAME in ('collage', 'department') then
+    if new.uni_id is not null and exists (
+      select 1 from public.university where id = new.uni_id and deleted_at is not null
+    ) then
+      raise exception 'University % is deleted', new.uni_id
+        using errcode = '23503', hint = 'Restore the university first.';
+    end if;
+  end if;
+
+  if TG_TABLE_NAME = 'department' then
+    if new.collage_id is not null and exists (
+      select 1 from public.collage where id = new.collage_id and deleted_at is not null
+    ) then
+      raise exception 'College % is deleted', new.collage_id
+        using errcode = '23503', hint = 'Restore the college first.';
+    end if;
+  end if;
+
+  if TG_TABLE_NAME = 'course' then
+    if new.department_id is not null and exists (
+      select 1 from public.department where id = new.department_id and deleted_at is not null
+    ) then
+      raise exception 'Department % is deleted', new.department_id
+        using errcode = '23503', hint = 'Restore the department first.';
+    end if;
+  end if;
+
+  return new;
+end;
+$function$
+;
+
+CREATE TRIGGER department_cascade_soft_delete AFTER UPDATE OF deleted_at ON public.department FOR EACH ROW WHEN ((old.deleted_at IS DISTINCT FROM new.deleted_at)) EXECUTE FUNCTION public.cascade_soft_delete();
+
+CREATE TRIGGER course_check_parent_not_deleted BEFORE INSERT OR UPDATE OF deleted_at, department_id ON public.course FOR EACH ROW EXECUTE FUNCTION public.check_parent_not_deleted();
+
+-- The live hierarchy of one university as JSON, or null when it is missing,
+-- deleted or hidden by Row Level Security (this runs as the invoker).
+-- `max_depth` is how many levels below the university to include: 1 for its
+-- colleges and direct departments, 2 for the departments of its colleges and
+-- the courses of direct departments, 3 for everything. Counts always cover
+-- the whole subtree, whatever the depth.
+CREATE OR REPLACE FUNCTION public.university_tree(uni uuid, max_depth integer DEFAULT 3)
+ RETURNS jsonb
+ LANGUAGE sql
+ STABLE SECURITY INVOKER
+ SET search_path TO ''
+AS $function$
+  with departments as (
+    select d.id, d.name, d.collage_id,
+      (select count(*) from public.course co
+        where co.department_id = d.id and co.deleted_at is null) as course_count,
+      -- Departments directly under the university sit a level higher
+      case when d.collage_id is null then 1 else 2 end as depth
+    from public.department d
+    where d.uni_id = uni and d.deleted_at is null
+  ),
+  department_nodes as (
+    select dep.id, dep.name, dep.collage_id,
+      jsonb_build_object(
+        'id', dep.id,
+        'name', dep.name,
+        'counts', jsonb_build_object('courses', dep.course_count)
+      ) || case when max_depth > dep.depth then jsonb_build_object(
+        'courses', coalesce((
+          select jsonb_agg(
+            jsonb_build_object('id', co.id, 'name', co.name, 'length', co.length)
+            order by co.name, co.id
+          )
+          from public.course co
+          where co.department_id = dep.id and co.deleted_at is null
+        ), '[]'::jsonb)
+      ) else '{}'::jsonb end as node
+    from departments dep
+  ),
+  college_nodes as (
+    select c.id, c.name,
+      jsonb_build_object(
+        'id', c.id,
+        'name', c.name,
+        'counts', jsonb_build_object(
+          'departments', (select count(*) from departments dep where dep.collage_id = c.id),
+          'courses', (select coalesce(sum(dep.course_count), 0) from departments dep where dep.collage_id = c.id)
+        )
+      ) || case when max_depth > 1 then jsonb_build_object(
+        'departments', coalesce((
+          select jsonb_agg(dn.node order by dn.name, dn.id)
+          from department_nodes dn
+          where dn.collage_id = c.id
+        ), '[]'::jsonb)
+      ) else '{}'::jsonb end as node
+    from public.collage c
+    where c.uni_id = uni and c.deleted_at is null
+  )
+  select jsonb_build_object(
+      'id', u.id,
+      'name', u.name,
+      'counts', jsonb_build_object(
+        'colleges', (select count(*) from college_nodes),
+        'departments', (select count(*) from departments),
+        'courses', (select coalesce(sum(dep.course_count), 0) from departments dep)
+      )
+    ) || case when max_depth > 0 then jsonb_build_object(
+      'colleges', coalesce((
+        select jsonb_agg(cn.node order by cn.name, cn.id) from college_nodes cn
+      ), '[]'::jsonb),
+      'departments', coalesce((
+        select jsonb_agg(dn.node order by dn.name, dn.id)
+        from department_nodes dn
+        where dn.collage_id is null
+      ), '[]'::jsonb)
+    ) else '{}'::jsonb end
+  from public.university u
+  where u.id = uni and u.deleted_at is null;
+$function$
+;
+
+grant execute on function public.university_tree(uuid, integer) to "authenticated";
+
+revoke execute on function public.university_tree(uuid, integer) from "anon", "public";
@@ -0,0 +1,80 @@
+-- Hierarchy integrity: a department's college must belong to the department's
+-- university, and colleges and departments must belong to a university. A
+-- department's university is derived from its college when left out; a
+-- contradiction is rejected. Mirrors apps/api/app/_common/hierarchy.ts.
+
+set check_function_bodies = off;
+
+-- A random default only ever produced a foreign key error
+alter table "public"."collage" alter column "uni_id" drop default;
+
+-- Existing departments follow their college
+update public.department d
+  set uni_id = c.uni_id
+  from public.collage c
+  where d.collage_id = c.id and d.uni_id is distinct from c.uni_id;
+
+-- Checked on every insert and update from now on; rows that predate the rule
+-- are left alone until they are next written
+alter table "public"."collage" add constraint "collage_uni_id_required" CHECK ((uni_id IS NOT NULL)) not valid;
+
+alter table "public"."department" add constraint "department_uni_id_required" CHECK ((uni_id IS NOT NULL)) not valid;
+
+-- Fills in a department's university from its college: when it is left out,
+-- or when the department moves to another college without naming one.
+-- Anything else that disagrees with the college is rejected.
+CREATE OR REPLACE FUNCTION public.derive_department_university()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  college_uni uuid;
+begin
+  if new.collage_id is null then
+    return new;
+  end if;
+
+  select uni_id into college_uni from public.collage where id = new.collage_id;
+  if not found then
+    -- Reported by the foreign key
+    return new;
+  end if;
+
+  if new.uni_id is null or (
+    TG_OP = 'UPDATE'
+    and new.uni_id is not distinct from old.uni_id
+    and new.collage_id is distinct from old.collage_id
+  ) then
+    new.uni_id := college_uni;
+  elsif new.uni_id is distinct from college_uni then
+    raise exception 'College % belongs to university %, not %', new.collage_id, college_uni, new.uni_id
+      using errcode = '23514', hint = 'Leave uni_id out to use the college''s university.';
+  end if;
+
+  return new;
+end;
+$function$
+;
+
+CREATE TRIGGER department_derive_university BEFORE INSERT OR UPDATE OF uni_id, collage_id ON public.department FOR EACH ROW EXECUTE FUNCTION public.derive_department_university();
+
+-- Moving a college to another university moves its departments with it. (A
+-- composite foreign key would do the same, but would give PostgREST a second
+-- department -> collage relationship and make `?include=collage` ambiguous.)
+CREATE OR REPLACE FUNCTION public.cascade_college_university()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+begin
+  update public.department set uni_id = new.uni_id
+    where collage_id = new.id and uni_id is distinct from new.uni_id;
+  return null;
+end;
+$function$
+;
+
+CREATE TRIGGER collage_cascade_university AFTER UPDATE OF uni_id ON public.collage FOR EACH ROW WHEN ((old.uni_id IS DISTINCT FROM new.uni_id)) EXECUTE FUNCTION public.cascade_college_university();
@@ -0,0 +1,5 @@
+-- Faculty members get a role of their own once they accept an invitation.
+-- A new enum value can't be used in the transaction that adds it, so this
+-- stands apart from the people migration that follows.
+
+alter type "public"."app_role" add value if not exists 'faculty' after 'department_staff';
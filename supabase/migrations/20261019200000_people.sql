@@ -0,0 +1,408 @@
+-- People: students and faculty, each with a home department and optionally
+-- linked to a Supabase auth user. Staff invite faculty members by email (see
+-- the API's /faculty/[id]/invitation route) and the account is linked, with
+-- a faculty role, the first time the invited user signs in.
+
+set check_function_bodies = off;
+
+
+  create table "public"."student" (
+    "id" uuid not null default gen_random_uuid(),
+    "created_at" timestamp with time zone not null default now(),
+    "updated_at" timestamp with time zone not null default clock_timestamp(),
+    "deleted_at" timestamp with time zone,
+    "uni_id" uuid not null,
+    "department_id" uuid,
+    "user_id" uuid,
+    "enrollment_number" text not null,
+    "first_name" text not null,
+    "last_name" text not null,
+    "email" text,
+    "phone" text
+      );
+
+
+  create table "public"."faculty" (
+    "id" uuid not null default gen_random_uuid(),
+    "created_at" timestamp with time zone not null default now(),
+    "updated_at" timestamp with time zone not null default clock_timestamp(),
+    "deleted_at" timestamp with time zone,
+    "uni_id" uuid not null,
+    "department_id" uuid,
+    "user_id" uuid,
+    "employee_id" text not null,
+    "first_name" text not null,
+    "last_name" text not null,
+    "title" text,
+    "email" text,
+    "phone" text
+      );
+
+
+  create table "public"."faculty_invitation" (
+    "id" uuid not null default gen_random_uuid(),
+    "created_at" timestamp with time zone not null default now(),
+    "faculty_id" uuid not null,
+    "uni_id" uuid not null,
+    "email" text not null,
+    "invited_by" uuid default auth.uid(),
+    "expires_at" timestamp with time zone not null default (now() + '14 days'::interval),
+    "accepted_at" timestamp with time zone,
+    "user_id" uuid
+      );
+
+
+alter table "public"."student" enable row level security;
+
+alter table "public"."faculty" enable row level security;
+
+alter table "public"."faculty_invitation" enable row level security;
+
+CREATE UNIQUE INDEX student_pkey ON public.student USING btree (id);
+
+CREATE UNIQUE INDEX student_enrollment_number_key ON public.student USING btree (uni_id, enrollment_number);
+
+-- One record per person and university; the same user may study at several
+CREATE UNIQUE INDEX student_user_id_key ON public.student USING btree (uni_id, user_id);
+
+CREATE INDEX student_department_id_idx ON public.student USING btree (department_id);
+
+CREATE INDEX student_deleted_at_idx ON public.student USING btree (deleted_at) WHERE (deleted_at IS NOT NULL);
+
+CREATE UNIQUE INDEX faculty_pkey ON public.faculty USING btree (id);
+
+CREATE UNIQUE INDEX faculty_employee_id_key ON public.faculty USING btree (uni_id, employee_id);
+
+CREATE UNIQUE INDEX faculty_user_id_key ON public.faculty USING btree (uni_id, user_id);
+
+CREATE INDEX faculty_department_id_idx ON public.faculty USING btree (department_id);
+
+CREATE INDEX faculty_deleted_at_idx ON public.faculty USING btree (deleted_at) WHERE (deleted_at IS NOT NULL);
+
+CREATE UNIQUE INDEX faculty_invitation_pkey ON public.faculty_invitation USING btree (id);
+
+-- Inviting again replaces the previous invitation
+CREATE UNIQUE INDEX faculty_invitation_faculty_id_key ON public.faculty_invitation USING btree (faculty_id);
+
+CREATE INDEX faculty_invitation_email_idx ON public.faculty_invitation USING btree (lower(email)) WHERE (accepted_at IS NULL);
+
+alter table "public"."student" add constraint "student_pkey" PRIMARY KEY using index "student_pkey";
+
+alter table "public"."student" add constraint "student_enrollment_number_key" UNIQUE using index "student_enrollment_number_key";
+
+alter table "public"."student" add constraint "student_user_id_key" UNIQUE using index "student_user_id_key";
+
+alter table "public"."student" add constraint "student_uni_id_fkey" FOREIGN KEY (uni_id) REFERENCES public.university(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."student" add constraint "student_department_id_fkey" FOREIGN KEY (department_id) REFERENCES public.department(id) ON UPDATE CASCADE ON DELETE SET NULL;
+
+alter table "public"."student" add constraint "student_user_id_fkey" FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+alter table "public"."faculty" add constraint "faculty_pkey" PRIMARY KEY using index "faculty_pkey";
+
+alter table "public"."faculty" add constraint "faculty_employee_id_key" UNIQUE using index "faculty_employee_id_key";
+
+alter table "public"."faculty" add constraint "faculty_user_id_key" UNIQUE using index "faculty_user_id_key";
+
+alter table "public"."faculty" add constraint "faculty_uni_id_fkey" FOREIGN KEY (uni_id) REFERENCES public.university(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."faculty" add constraint "faculty_department_id_fkey" FOREIGN KEY (department_id) REFERENCES public.department(id) ON UPDATE CASCADE ON DELETE SET NULL;
+
+alter table "public"."faculty" add constraint "faculty_user_id_fkey" FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+alter table "public"."faculty_invitation" add constraint "faculty_invitation_pkey" PRIMARY KEY using index "faculty_invitation_pkey";
+
+alter table "public"."faculty_invitation" add constraint "faculty_invitation_faculty_id_key" UNIQUE using index "faculty_invitation_faculty_id_key";
+
+alter table "public"."faculty_invitation" add constraint "faculty_invitation_faculty_id_fkey" FOREIGN KEY (faculty_id) REFERENCES public.faculty(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."faculty_invitation" add constraint "faculty_invitation_uni_id_fkey" FOREIGN KEY (uni_id) REFERENCES public.university(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."faculty_invitation" add constraint "faculty_invitation_invited_by_fkey" FOREIGN KEY (invited_by) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+alter table "public"."faculty_invitation" add constraint "faculty_invitation_user_id_fkey" FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Faculty roles may leave out the department, for staff without a home one
+alter table "public"."user_role" drop constraint "user_role_scope_check";
+
+alter table "public"."user_role" add constraint "user_role_scope_check" CHECK (
+  (role = 'platform_admin') OR
+  (role = 'university_admin' AND uni_id IS NOT NULL) OR
+  (role = 'college_admin' AND uni_id IS NOT NULL AND collage_id IS NOT NULL) OR
+  (role IN ('department_staff', 'student') AND uni_id IS NOT NULL AND department_id IS NOT NULL) OR
+  (role = 'faculty' AND uni_id IS NOT NULL)
+);
+
+-- Faculty members teach; managing records stays with administrators and
+-- department staff
+CREATE OR REPLACE FUNCTION public.is_staff()
+ RETURNS boolean
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+  select exists (
+    select 1 from public.user_role
+    where user_id = (select auth.uid()) and role not in ('student', 'faculty')
+  );
+$function$
+;
+
+-- A person's university follows their home department, like a department's
+-- follows its college (see the hierarchy integrity migration)
+CREATE OR REPLACE FUNCTION public.derive_home_university()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  department_uni uuid;
+begin
+  if new.department_id is null then
+    return new;
+  end if;
+
+  select uni_id into department_uni from public.department where id = new.department_id;
+  if not found then
+    -- Reported by the foreign key
+    return new;
+  end if;
+
+  if new.uni_id is null or (
+    TG_OP = 'UPDATE'
+    and new.uni_id is not distinct from old.uni_id
+    and new.department_id is distinct from old.department_id
+  ) then
+    new.uni_id := department_uni;
+  elsif new.uni_id is distinct from department_uni then
+    raise exception 'Department % belongs to university %, not %', new.department_id, department_uni, new.uni_id
+      using errcode = '23514', hint = 'Leave uni_id out to use the department''s university.';
+  end if;
+
+  return new;
+end;
+$function$
+;
+
+CREATE TRIGGER student_derive_university BEFORE INSERT OR UPDATE OF uni_id, department_id ON public.student FOR EACH ROW EXECUTE FUNCTION public.derive_home_university();
+
+CREATE TRIGGER faculty_derive_university BEFORE INSERT OR UPDATE OF uni_id, department_id ON public.faculty FOR EACH ROW EXECUTE FUNCTION public.derive_home_university();
+
+CREATE TRIGGER student_set_updated_at BEFORE UPDATE ON public.student FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+CREATE TRIGGER faculty_set_updated_at BEFORE UPDATE ON public.faculty FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- People go to the trash (and come back) with their university. Deleting a
+-- department leaves its people in place, without a home department once purged.
+CREATE OR REPLACE FUNCTION public.cascade_soft_delete()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+begin
+  if TG_TABLE_NAME = 'university' then
+    update public.collage set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+    update public.department set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+    update public.student set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+    update public.faculty set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+  elsif TG_TABLE_NAME = 'collage' then
+    update public.department set deleted_at = new.deleted_at
+      where collage_id = new.id and deleted_at is not distinct from old.deleted_at;
+  elsif TG_TABLE_NAME = 'department' then
+    update public.course set deleted_at = new.deleted_at
+      where department_id = new.id and deleted_at is not distinct from old.deleted_at;
+  end if;
+  return null;
+end;
+$function$
+;
+
+CREATE OR REPLACE FUNCTION public.check_parent_not_deleted()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+begin
+  if new.deleted_at is not null then
+    return new;
+  end if;
+
+  -- Nested so each column is only looked at on rows that have it
+  if TG_TABLE_NAME in ('collage', 'department', 'student', 'faculty') then
+    if new.uni_id is not null and exists (
+      select 1 from public.university where id = new.uni_id and deleted_at is not null
+    ) then
+      raise exception 'University % is deleted', new.uni_id
+        using errcode = '23503', hint = 'Restore the university first.';
+    end if;
+  end if;
+
+  if TG_TABLE_NAME = 'department' then
+    if new.collage_id is not null and exists (
+      select 1 from public.collage where id = new.collage_id and deleted_at is not null
+    ) then
+      raise exception 'College % is deleted', new.collage_id
+        using errcode = '23503', hint = 'Restore the college first.';
+    end if;
+  end if;
+
+  if TG_TABLE_NAME in ('course', 'student', 'faculty') then
+    if new.department_id is not null and exists (
+      select 1 from public.department where id = new.department_id and deleted_at is not null
+    ) then
+      raise exception 'Department % is deleted', new.department_id
+        using errcode = '23503', hint = 'Restore the department first.';
+    end if;
+  end if;
+
+  return new;
+end;
+$function$
+;
+
+CREATE TRIGGER student_check_parent_not_deleted BEFORE INSERT OR UPDATE OF deleted_at, uni_id, department_id ON public.student FOR EACH ROW EXECUTE FUNCTION public.check_parent_not_deleted();
+
+CREATE TRIGGER faculty_check_parent_not_deleted BEFORE INSERT OR UPDATE OF deleted_at, uni_id, department_id ON public.faculty FOR EACH ROW EXECUTE FUNCTION public.check_parent_not_deleted();
+
+CREATE OR REPLACE FUNCTION public.purge_deleted_rows(retention interval DEFAULT '30 days'::interval)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  cutoff timestamp with time zone := now() - retention;
+  purged integer := 0;
+  affected integer;
+begin
+  delete from public.student where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.faculty where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.department where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.collage where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.university where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.course where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  return purged;
+end;
+$function$
+;
+
+-- Links a signed-in user to the faculty records they were invited to and
+-- grants them the faculty role there. Runs on every sign-in, so an invitation
+-- sent to an existing account is picked up the next time they sign in.
+CREATE OR REPLACE FUNCTION public.link_invited_user()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  invitation record;
+begin
+  for invitation in
+    select i.id, i.faculty_id, f.uni_id, f.department_id, d.collage_id
+    from public.faculty_invitation i
+    join public.faculty f on f.id = i.faculty_id
+    left join public.department d on d.id = f.department_id
+    where lower(i.email) = lower(new.email)
+      and i.accepted_at is null
+      and i.expires_at > now()
+      and f.user_id is null
+      and f.deleted_at is null
+    for update of i
+  loop
+    update public.faculty set user_id = new.id where id = invitation.faculty_id;
+
+    insert into public.user_role (user_id, role, uni_id, collage_id, department_id)
+      values (new.id, 'faculty', invitation.uni_id, invitation.collage_id, invitation.department_id)
+      on conflict do nothing;
+
+    update public.faculty_invitation set accepted_at = now(), user_id = new.id
+      where id = invitation.id;
+  end loop;
+
+  return null;
+end;
+$function$
+;
+
+-- Only confirmed addresses are trusted; accepting an invitation confirms it
+CREATE TRIGGER on_auth_user_signed_in AFTER INSERT OR UPDATE OF last_sign_in_at, email_confirmed_at ON auth.users FOR EACH ROW WHEN (((new.email_confirmed_at IS NOT NULL) AND (new.last_sign_in_at IS NOT NULL))) EXECUTE FUNCTION public.link_invited_user();
+
+revoke execute on function public.link_invited_user() from "anon", "authenticated", "public";
+
+-- student: staff manage their universities' students; students read their own
+create policy "Staff can manage their universities' students"
+  on "public"."student"
+  as permissive
+  for all
+  to authenticated
+  using ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))))
+  with check ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))));
+
+create policy "Students can read their own record"
+  on "public"."student"
+  as permissive
+  for select
+  to authenticated
+  using ((( SELECT auth.uid() AS uid) = user_id));
+
+-- faculty: a directory readable across the university, managed by staff
+create policy "Tenants can read their faculty"
+  on "public"."faculty"
+  as permissive
+  for select
+  to authenticated
+  using ((public.is_platform_admin() OR (uni_id IN ( SELECT public.user_university_ids())) OR (( SELECT auth.uid() AS uid) = user_id)));
+
+create policy "Staff can manage their universities' faculty"
+  on "public"."faculty"
+  as permissive
+  for all
+  to authenticated
+  using ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))))
+  with check ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))));
+
+create policy "Staff can manage their universities' invitations"
+  on "public"."faculty_invitation"
+  as permissive
+  for all
+  to authenticated
+  using ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))))
+  with check ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))));
+
+grant delete, insert, select, update on table "public"."student" to "authenticated";
+
+grant delete, insert, select, update on table "public"."faculty" to "authenticated";
+
+grant delete, insert, select, update on table "public"."faculty_invitation" to "authenticated";
+
+grant all on table "public"."student" to "service_role";
+
+grant all on table "public"."faculty" to "service_role";
+
+grant all on table "public"."faculty_invitation" to "service_role";
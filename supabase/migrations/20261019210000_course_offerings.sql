@@ -0,0 +1,450 @@
+-- Academic calendar and course offerings: a university's academic years are
+-- split into terms, and a course offering is a section of a course taught by
+-- a department in a term, with its instructors, capacity and weekly schedule.
+-- Years, terms and offerings belong to the university of their parents.
+
+set check_function_bodies = off;
+
+
+  create table "public"."academic_year" (
+    "id" uuid not null default gen_random_uuid(),
+    "created_at" timestamp with time zone not null default now(),
+    "updated_at" timestamp with time zone not null default clock_timestamp(),
+    "deleted_at" timestamp with time zone,
+    "uni_id" uuid not null,
+    "name" text not null,
+    "starts_on" date not null,
+    "ends_on" date not null
+      );
+
+
+  create table "public"."term" (
+    "id" uuid not null default gen_random_uuid(),
+    "created_at" timestamp with time zone not null default now(),
+    "updated_at" timestamp with time zone not null default clock_timestamp(),
+    "deleted_at" timestamp with time zone,
+    "uni_id" uuid not null,
+    "academic_year_id" uuid not null,
+    "name" text not null,
+    "starts_on" date not null,
+    "ends_on" date not null
+      );
+
+
+  create table "public"."course_offering" (
+    "id" uuid not null default gen_random_uuid(),
+    "created_at" timestamp with time zone not null default now(),
+    "updated_at" timestamp with time zone not null default clock_timestamp(),
+    "deleted_at" timestamp with time zone,
+    "uni_id" uuid not null,
+    "course_id" bigint not null,
+    "term_id" uuid not null,
+    "department_id" uuid not null,
+    "section" text not null default '1'::text,
+    "instructor_ids" uuid[] not null default '{}'::uuid[],
+    "capacity" integer,
+    "schedule" jsonb not null default '[]'::jsonb
+      );
+
+
+alter table "public"."academic_year" enable row level security;
+
+alter table "public"."term" enable row level security;
+
+alter table "public"."course_offering" enable row level security;
+
+CREATE UNIQUE INDEX academic_year_pkey ON public.academic_year USING btree (id);
+
+CREATE UNIQUE INDEX academic_year_name_key ON public.academic_year USING btree (uni_id, name);
+
+CREATE INDEX academic_year_deleted_at_idx ON public.academic_year USING btree (deleted_at) WHERE (deleted_at IS NOT NULL);
+
+CREATE UNIQUE INDEX term_pkey ON public.term USING btree (id);
+
+CREATE UNIQUE INDEX term_name_key ON public.term USING btree (academic_year_id, name);
+
+CREATE INDEX term_uni_id_starts_on_idx ON public.term USING btree (uni_id, starts_on);
+
+CREATE INDEX term_deleted_at_idx ON public.term USING btree (deleted_at) WHERE (deleted_at IS NOT NULL);
+
+CREATE UNIQUE INDEX course_offering_pkey ON public.course_offering USING btree (id);
+
+CREATE UNIQUE INDEX course_offering_section_key ON public.course_offering USING btree (term_id, course_id, section);
+
+CREATE INDEX course_offering_department_id_term_id_idx ON public.course_offering USING btree (department_id, term_id);
+
+CREATE INDEX course_offering_course_id_idx ON public.course_offering USING btree (course_id);
+
+-- For `?instructor_ids=cs.{id}`: the offerings someone teaches
+CREATE INDEX course_offering_instructor_ids_idx ON public.course_offering USING gin (instructor_ids);
+
+CREATE INDEX course_offering_deleted_at_idx ON public.course_offering USING btree (deleted_at) WHERE (deleted_at IS NOT NULL);
+
+alter table "public"."academic_year" add constraint "academic_year_pkey" PRIMARY KEY using index "academic_year_pkey";
+
+alter table "public"."academic_year" add constraint "academic_year_name_key" UNIQUE using index "academic_year_name_key";
+
+alter table "public"."academic_year" add constraint "academic_year_uni_id_fkey" FOREIGN KEY (uni_id) REFERENCES public.university(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."academic_year" add constraint "academic_year_dates_check" CHECK ((ends_on > starts_on));
+
+alter table "public"."term" add constraint "term_pkey" PRIMARY KEY using index "term_pkey";
+
+alter table "public"."term" add constraint "term_name_key" UNIQUE using index "term_name_key";
+
+alter table "public"."term" add constraint "term_uni_id_fkey" FOREIGN KEY (uni_id) REFERENCES public.university(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."term" add constraint "term_academic_year_id_fkey" FOREIGN KEY (academic_year_id) REFERENCES public.academic_year(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."term" add constraint "term_dates_check" CHECK ((ends_on > starts_on));
+
+alter table "public"."course_offering" add constraint "course_offering_pkey" PRIMARY KEY using index "course_offering_pkey";
+
+alter table "public"."course_offering" add constraint "course_offering_section_key" UNIQUE using index "course_offering_section_key";
+
+alter table "public"."course_offering" add constraint "course_offering_uni_id_fkey" FOREIGN KEY (uni_id) REFERENCES public.university(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."course_offering" add constraint "course_offering_course_id_fkey" FOREIGN KEY (course_id) REFERENCES public.course(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."course_offering" add constraint "course_offering_term_id_fkey" FOREIGN KEY (term_id) REFERENCES public.term(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."course_offering" add constraint "course_offering_department_id_fkey" FOREIGN KEY (department_id) REFERENCES public.department(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+-- Unlimited when null
+alter table "public"."course_offering" add constraint "course_offering_capacity_check" CHECK ((capacity > 0));
+
+alter table "public"."course_offering" add constraint "course_offering_schedule_check" CHECK ((jsonb_typeof(schedule) = 'array'::text));
+
+-- A term takes its university from its academic year and must fall within it
+CREATE OR REPLACE FUNCTION public.check_term_parents()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  year public.academic_year;
+begin
+  select * into year from public.academic_year where id = new.academic_year_id;
+  if not found then
+    -- Reported by the foreign key
+    return new;
+  end if;
+
+  new.uni_id := year.uni_id;
+  if new.starts_on < year.starts_on or new.ends_on > year.ends_on then
+    raise exception 'Term % to % falls outside academic year % (% to %)', new.starts_on, new.ends_on, year.name, year.starts_on, year.ends_on
+      using errcode = '23514';
+  end if;
+
+  return new;
+end;
+$function$
+;
+
+-- An offering takes its university from its term; the teaching department and
+-- every instructor must belong to the same university
+CREATE OR REPLACE FUNCTION public.check_offering_parents()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  department_uni uuid;
+  stranger uuid;
+begin
+  select uni_id into new.uni_id from public.term where id = new.term_id;
+
+  -- Missing parents are reported by the foreign keys
+  select uni_id into department_uni from public.department where id = new.department_id;
+  if found and department_uni is distinct from new.uni_id then
+    raise exception 'Department % belongs to university %, not %', new.department_id, department_uni, new.uni_id
+      using errcode = '23514';
+  end if;
+
+  select instructor into stranger
+    from unnest(new.instructor_ids) as instructor
+    where not exists (
+      select 1 from public.faculty f
+      where f.id = instructor and f.uni_id = new.uni_id and f.deleted_at is null
+    )
+    limit 1;
+  if found then
+    raise exception 'Instructor % is not a faculty member of university %', stranger, new.uni_id
+      using errcode = '23503';
+  end if;
+
+  return new;
+end;
+$function$
+;
+
+CREATE TRIGGER term_check_parents BEFORE INSERT OR UPDATE OF uni_id, academic_year_id, starts_on, ends_on ON public.term FOR EACH ROW EXECUTE FUNCTION public.check_term_parents();
+
+CREATE TRIGGER course_offering_check_parents BEFORE INSERT OR UPDATE OF uni_id, term_id, department_id, instructor_ids ON public.course_offering FOR EACH ROW EXECUTE FUNCTION public.check_offering_parents();
+
+-- Moving an academic year to another university moves its terms and their
+-- offerings with it
+CREATE OR REPLACE FUNCTION public.cascade_term_university()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+begin
+  if TG_TABLE_NAME = 'academic_year' then
+    update public.term set uni_id = new.uni_id
+      where academic_year_id = new.id and uni_id is distinct from new.uni_id;
+  elsif TG_TABLE_NAME = 'term' then
+    update public.course_offering set uni_id = new.uni_id
+      where term_id = new.id and uni_id is distinct from new.uni_id;
+  end if;
+  return null;
+end;
+$function$
+;
+
+CREATE TRIGGER academic_year_cascade_university AFTER UPDATE OF uni_id ON public.academic_year FOR EACH ROW WHEN ((old.uni_id IS DISTINCT FROM new.uni_id)) EXECUTE FUNCTION public.cascade_term_university();
+
+CREATE TRIGGER term_cascade_university AFTER UPDATE OF uni_id ON public.term FOR EACH ROW WHEN ((old.uni_id IS DISTINCT FROM new.uni_id)) EXECUTE FUNCTION public.cascade_term_university();
+
+CREATE TRIGGER academic_year_set_updated_at BEFORE UPDATE ON public.academic_year FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+CREATE TRIGGER term_set_updated_at BEFORE UPDATE ON public.term FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+CREATE TRIGGER course_offering_set_updated_at BEFORE UPDATE ON public.course_offering FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Years go to the trash with their university, terms with their year and
+-- offerings with their term, course or department
+CREATE OR REPLACE FUNCTION public.cascade_soft_delete()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+begin
+  if TG_TABLE_NAME = 'university' then
+    update public.collage set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+    update public.department set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+    update public.student set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+    update public.faculty set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+    update public.academic_year set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+  elsif TG_TABLE_NAME = 'collage' then
+    update public.department set deleted_at = new.deleted_at
+      where collage_id = new.id and deleted_at is not distinct from old.deleted_at;
+  elsif TG_TABLE_NAME = 'department' then
+    update public.course set deleted_at = new.deleted_at
+      where department_id = new.id and deleted_at is not distinct from old.deleted_at;
+    update public.course_offering set deleted_at = new.deleted_at
+      where department_id = new.id and deleted_at is not distinct from old.deleted_at;
+  elsif TG_TABLE_NAME = 'course' then
+    update public.course_offering set deleted_at = new.deleted_at
+      where course_id = new.id and deleted_at is not distinct from old.deleted_at;
+  elsif TG_TABLE_NAME = 'academic_year' then
+    update public.term set deleted_at = new.deleted_at
+      where academic_year_id = new.id and deleted_at is not distinct from old.deleted_at;
+  elsif TG_TABLE_NAME = 'term' then
+    update public.course_offering set deleted_at = new.deleted_at
+      where term_id = new.id and deleted_at is not distinct from old.deleted_at;
+  end if;
+  return null;
+end;
+$function$
+;
+
+CREATE OR REPLACE FUNCTION public.check_parent_not_deleted()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+begin
+  if new.deleted_at is not null then
+    return new;
+  end if;
+
+  -- Nested so each column is only looked at on rows that have it
+  if TG_TABLE_NAME in ('collage', 'department', 'student', 'faculty', 'academic_year') then
+    if new.uni_id is not null and exists (
+      select 1 from public.university where id = new.uni_id and deleted_at is not null
+    ) then
+      raise exception 'University % is deleted', new.uni_id
+        using errcode = '23503', hint = 'Restore the university first.';
+    end if;
+  end if;
+
+  if TG_TABLE_NAME = 'department' then
+    if new.collage_id is not null and exists (
+      select 1 from public.collage where id = new.collage_id and deleted_at is not null
+    ) then
+      raise exception 'College % is deleted', new.collage_id
+        using errcode = '23503', hint = 'Restore the college first.';
+    end if;
+  end if;
+
+  if TG_TABLE_NAME in ('course', 'student', 'faculty', 'course_offering') then
+    if new.department_id is not null and exists (
+      select 1 from public.department where id = new.department_id and deleted_at is not null
+    ) then
+      raise exception 'Department % is deleted', new.department_id
+        using errcode = '23503', hint = 'Restore the department first.';
+    end if;
+  end if;
+
+  if TG_TABLE_NAME = 'term' then
+    if exists (
+      select 1 from public.academic_year where id = new.academic_year_id and deleted_at is not null
+    ) then
+      raise exception 'Academic year % is deleted', new.academic_year_id
+        using errcode = '23503', hint = 'Restore the academic year first.';
+    end if;
+  end if;
+
+  if TG_TABLE_NAME = 'course_offering' then
+    if exists (
+      select 1 from public.term where id = new.term_id and deleted_at is not null
+    ) then
+      raise exception 'Term % is deleted', new.term_id
+        using errcode = '23503', hint = 'Restore the term first.';
+    end if;
+    if exists (
+      select 1 from public.course where id = new.course_id and deleted_at is not null
+    ) then
+      raise exception 'Course % is deleted', new.course_id
+        using errcode = '23503', hint = 'Restore the course first.';
+    end if;
+  end if;
+
+  return new;
+end;
+$function$
+;
+
+CREATE TRIGGER course_cascade_soft_delete AFTER UPDATE OF deleted_at ON public.course FOR EACH ROW WHEN ((old.deleted_at IS DISTINCT FROM new.deleted_at)) EXECUTE FUNCTION public.cascade_soft_delete();
+
+CREATE TRIGGER academic_year_cascade_soft_delete AFTER UPDATE OF deleted_at ON public.academic_year FOR EACH ROW WHEN ((old.deleted_at IS DISTINCT FROM new.deleted_at)) EXECUTE FUNCTION public.cascade_soft_delete();
+
+CREATE TRIGGER term_cascade_soft_delete AFTER UPDATE OF deleted_at ON public.term FOR EACH ROW WHEN ((old.deleted_at IS DISTINCT FROM new.deleted_at)) EXECUTE FUNCTION public.cascade_soft_delete();
+
+CREATE TRIGGER academic_year_check_parent_not_deleted BEFORE INSERT OR UPDATE OF deleted_at, uni_id ON public.academic_year FOR EACH ROW EXECUTE FUNCTION public.check_parent_not_deleted();
+
+CREATE TRIGGER term_check_parent_not_deleted BEFORE INSERT OR UPDATE OF deleted_at, academic_year_id ON public.term FOR EACH ROW EXECUTE FUNCTION public.check_parent_not_deleted();
+
+CREATE TRIGGER course_offering_check_parent_not_deleted BEFORE INSERT OR UPDATE OF deleted_at, term_id, course_id, department_id ON public.course_offering FOR EACH ROW EXECUTE FUNCTION public.check_parent_not_deleted();
+
+CREATE OR REPLACE FUNCTION public.purge_deleted_rows(retention interval DEFAULT '30 days'::interval)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  cutoff timestamp with time zone := now() - retention;
+  purged integer := 0;
+  affected integer;
+begin
+  delete from public.course_offering where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.term where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.academic_year where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.student where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.faculty where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.department where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.collage where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.university where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.course where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  return purged;
+end;
+$function$
+;
+
+-- The calendar and offerings are readable across the university and managed
+-- by its staff
+create policy "Tenants can read their academic years"
+  on "public"."academic_year"
+  as permissive
+  for select
+  to authenticated
+  using ((public.is_platform_admin() OR (uni_id IN ( SELECT public.user_university_ids()))));
+
+create policy "Staff can manage their academic years"
+  on "public"."academic_year"
+  as permissive
+  for all
+  to authenticated
+  using ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))))
+  with check ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))));
+
+create policy "Tenants can read their terms"
+  on "public"."term"
+  as permissive
+  for select
+  to authenticated
+  using ((public.is_platform_admin() OR (uni_id IN ( SELECT public.user_university_ids()))));
+
+create policy "Staff can manage their terms"
+  on "public"."term"
+  as permissive
+  for all
+  to authenticated
+  using ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))))
+  with check ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))));
+
+create policy "Tenants can read their course offerings"
+  on "public"."course_offering"
+  as permissive
+  for select
+  to authenticated
+  using ((public.is_platform_admin() OR (uni_id IN ( SELECT public.user_university_ids()))));
+
+create policy "Staff can manage their course offerings"
+  on "public"."course_offering"
+  as permissive
+  for all
+  to authenticated
+  using ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))))
+  with check ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))));
+
+grant delete, insert, select, update on table "public"."academic_year" to "authenticated";
+
+grant delete, insert, select, update on table "public"."term" to "authenticated";
+
+grant delete, insert, select, update on table "public"."course_offering" to "authenticated";
+
+grant all on table "public"."academic_year" to "service_role";
+
+grant all on table "public"."term" to "service_role";
+
+grant all on table "public"."course_offering" to "service_role";
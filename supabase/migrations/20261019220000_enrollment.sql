@@ -0,0 +1,412 @@
+-- Enrollment: students register for course offerings through enroll() and
+-- drop_enrollment(), which enforce capacity, prerequisites and corequisites
+-- and the term's add/drop deadlines. Offerings that are full take students on
+-- a waitlist, promoted in order whenever a seat frees up. Staff and the
+-- offering's instructors record the outcome (completed or failed) afterwards.
+--
+-- Errors raised for the API (see apps/api/app/enrollment/enrollment.ts):
+--   P0002  offering, student or enrollment not found
+--   42501  the caller may not act for this student
+--   23505  already enrolled, waitlisted or completed
+--   EN001  past the term's add or drop deadline
+--   EN002  prerequisites or corequisites not met; DETAIL lists them as JSON
+--   EN003  the enrollment is no longer active
+
+set check_function_bodies = off;
+
+create type "public"."enrollment_status" as enum ('enrolled', 'waitlisted', 'dropped', 'completed', 'failed');
+
+create type "public"."requisite_kind" as enum ('prerequisite', 'corequisite');
+
+-- Without deadlines, courses can be added and dropped until the term ends
+alter table "public"."term" add column "add_deadline" date;
+
+alter table "public"."term" add column "drop_deadline" date;
+
+alter table "public"."term" add constraint "term_deadlines_check" CHECK (((add_deadline IS NULL OR add_deadline <= ends_on) AND (drop_deadline IS NULL OR drop_deadline <= ends_on)));
+
+
+  create table "public"."course_requisite" (
+    "id" uuid not null default gen_random_uuid(),
+    "created_at" timestamp with time zone not null default now(),
+    "course_id" bigint not null,
+    "requires_course_id" bigint not null,
+    "kind" requisite_kind not null default 'prerequisite'::requisite_kind
+      );
+
+
+  create table "public"."enrollment" (
+    "id" uuid not null default gen_random_uuid(),
+    "created_at" timestamp with time zone not null default now(),
+    "updated_at" timestamp with time zone not null default clock_timestamp(),
+    "uni_id" uuid not null,
+    "offering_id" uuid not null,
+    "student_id" uuid not null,
+    "status" enrollment_status not null,
+    "grade" text,
+    "enrolled_at" timestamp with time zone,
+    "waitlisted_at" timestamp with time zone,
+    "dropped_at" timestamp with time zone
+      );
+
+
+alter table "public"."course_requisite" enable row level security;
+
+alter table "public"."enrollment" enable row level security;
+
+CREATE UNIQUE INDEX course_requisite_pkey ON public.course_requisite USING btree (id);
+
+CREATE UNIQUE INDEX course_requisite_course_id_requires_course_id_key ON public.course_requisite USING btree (course_id, requires_course_id);
+
+CREATE INDEX course_requisite_requires_course_id_idx ON public.course_requisite USING btree (requires_course_id);
+
+CREATE UNIQUE INDEX enrollment_pkey ON public.enrollment USING btree (id);
+
+-- One row per student and offering; enrolling again after a drop reuses it
+CREATE UNIQUE INDEX enrollment_offering_id_student_id_key ON public.enrollment USING btree (offering_id, student_id);
+
+-- Seat counts and the waitlist, in order
+CREATE INDEX enrollment_offering_id_status_idx ON public.enrollment USING btree (offering_id, status, waitlisted_at);
+
+CREATE INDEX enrollment_student_id_idx ON public.enrollment USING btree (student_id);
+
+alter table "public"."course_requisite" add constraint "course_requisite_pkey" PRIMARY KEY using index "course_requisite_pkey";
+
+alter table "public"."course_requisite" add constraint "course_requisite_course_id_requires_course_id_key" UNIQUE using index "course_requisite_course_id_requires_course_id_key";
+
+alter table "public"."course_requisite" add constraint "course_requisite_course_id_fkey" FOREIGN KEY (course_id) REFERENCES public.course(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."course_requisite" add constraint "course_requisite_requires_course_id_fkey" FOREIGN KEY (requires_course_id) REFERENCES public.course(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."course_requisite" add constraint "course_requisite_not_self_check" CHECK ((course_id <> requires_course_id));
+
+alter table "public"."enrollment" add constraint "enrollment_pkey" PRIMARY KEY using index "enrollment_pkey";
+
+alter table "public"."enrollment" add constraint "enrollment_offering_id_student_id_key" UNIQUE using index "enrollment_offering_id_student_id_key";
+
+alter table "public"."enrollment" add constraint "enrollment_uni_id_fkey" FOREIGN KEY (uni_id) REFERENCES public.university(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."enrollment" add constraint "enrollment_offering_id_fkey" FOREIGN KEY (offering_id) REFERENCES public.course_offering(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."enrollment" add constraint "enrollment_student_id_fkey" FOREIGN KEY (student_id) REFERENCES public.student(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+CREATE TRIGGER enrollment_set_updated_at BEFORE UPDATE ON public.enrollment FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Student records of the signed-in user, one per university
+CREATE OR REPLACE FUNCTION public.user_student_ids()
+ RETURNS SETOF uuid
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+  select id from public.student
+  where user_id = (select auth.uid()) and deleted_at is null;
+$function$
+;
+
+-- Offerings the signed-in user teaches
+CREATE OR REPLACE FUNCTION public.user_taught_offering_ids()
+ RETURNS SETOF uuid
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+  select o.id from public.course_offering o
+  join public.faculty f on f.id = any (o.instructor_ids)
+  where f.user_id = (select auth.uid()) and f.deleted_at is null;
+$function$
+;
+
+-- Whether the signed-in user may enroll `learner` or drop their courses: the
+-- student themself, or staff of their university
+CREATE OR REPLACE FUNCTION public.can_act_for_student(learner public.student)
+ RETURNS boolean
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+  select learner.user_id = (select auth.uid())
+    or public.is_platform_admin()
+    or (public.is_staff() and learner.uni_id in (select public.user_university_ids()));
+$function$
+;
+
+-- Moves waitlisted students into free seats, first come first served. The
+-- caller must hold the offering's row lock.
+CREATE OR REPLACE FUNCTION public.promote_waitlist(offering uuid)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  seats integer;
+  free_seats integer;
+  promoted integer;
+begin
+  select capacity into seats from public.course_offering where id = offering;
+  if seats is not null then
+    select greatest(seats - count(*), 0) into free_seats
+      from public.enrollment where offering_id = offering and status = 'enrolled';
+  end if;
+
+  -- LIMIT NULL promotes everyone when the offering is unlimited
+  update public.enrollment e set status = 'enrolled', enrolled_at = now()
+    where e.id in (
+      select id from public.enrollment
+      where offering_id = offering and status = 'waitlisted'
+      order by waitlisted_at, id
+      limit free_seats
+      for update
+    );
+  get diagnostics promoted = row_count;
+  return promoted;
+end;
+$function$
+;
+
+CREATE OR REPLACE FUNCTION public.enroll(offering uuid, student uuid DEFAULT NULL::uuid)
+ RETURNS public.enrollment
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  target public.course_offering;
+  target_term public.term;
+  learner public.student;
+  existing public.enrollment;
+  unmet jsonb;
+  taken integer;
+  result public.enrollment;
+begin
+  -- Locked, so concurrent enrollments count the seats one at a time
+  select * into target from public.course_offering
+    where id = offering and deleted_at is null
+    for update;
+  if not found then
+    raise exception 'Offering % not found', offering using errcode = 'P0002';
+  end if;
+
+  -- Students enrolling themselves may leave out their record
+  if student is null then
+    select * into learner from public.student
+      where user_id = (select auth.uid()) and uni_id = target.uni_id and deleted_at is null;
+  else
+    select * into learner from public.student
+      where id = student and deleted_at is null;
+  end if;
+  if not found then
+    raise exception 'Student % not found', coalesce(student::text, 'record') using errcode = 'P0002';
+  end if;
+
+  if not public.can_act_for_student(learner) then
+    raise exception 'You cannot manage the enrollments of student %', learner.id
+      using errcode = '42501';
+  end if;
+  if learner.uni_id <> target.uni_id then
+    raise exception 'Student % does not belong to the offering''s university', learner.id
+      using errcode = '23514';
+  end if;
+
+  select * into target_term from public.term where id = target.term_id;
+  if current_date > coalesce(target_term.add_deadline, target_term.ends_on) then
+    raise exception 'The add deadline for % passed on %', target_term.name, coalesce(target_term.add_deadline, target_term.ends_on)
+      using errcode = 'EN001';
+  end if;
+
+  select * into existing from public.enrollment
+    where offering_id = offering and student_id = learner.id
+    for update;
+  if found and existing.status in ('enrolled', 'waitlisted', 'completed') then
+    raise exception 'Student % is already % in offering %', learner.id, existing.status, offering
+      using errcode = '23505';
+  end if;
+
+  -- Prerequisites must be completed; corequisites completed or taken in the
+  -- same term
+  select jsonb_agg(jsonb_build_object('course_id', c.id, 'name', c.name, 'kind', r.kind) order by c.name)
+    into unmet
+    from public.course_requisite r
+    join public.course c on c.id = r.requires_course_id
+    where r.course_id = target.course_id
+      and not exists (
+        select 1 from public.enrollment e
+        join public.course_offering o on o.id = e.offering_id
+        where e.student_id = learner.id
+          and o.course_id = r.requires_course_id
+          and (
+            e.status = 'completed'
+            or (r.kind = 'corequisite' and e.status in ('enrolled', 'waitlisted') and o.term_id = target.term_id)
+          )
+      );
+  if unmet is not null then
+    raise exception 'Course requirements not met'
+      using errcode = 'EN002', detail = unmet::text;
+  end if;
+
+  select count(*) into taken from public.enrollment
+    where offering_id = offering and status = 'enrolled';
+
+  insert into public.enrollment (uni_id, offering_id, student_id, status, enrolled_at, waitlisted_at)
+    select target.uni_id, offering, learner.id, seat.status,
+      case when seat.status = 'enrolled' then now() end,
+      case when seat.status = 'waitlisted' then now() end
+    from (
+      select (case when target.capacity is null or taken < target.capacity
+        then 'enrolled' else 'waitlisted' end)::public.enrollment_status as status
+    ) seat
+  on conflict (offering_id, student_id) do update
+    set status = excluded.status,
+      enrolled_at = excluded.enrolled_at,
+      waitlisted_at = excluded.waitlisted_at,
+      dropped_at = null,
+      grade = null
+  returning * into result;
+
+  return result;
+end;
+$function$
+;
+
+CREATE OR REPLACE FUNCTION public.drop_enrollment(enrollment_id uuid)
+ RETURNS public.enrollment
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  dropping public.enrollment;
+  learner public.student;
+  target public.course_offering;
+  target_term public.term;
+  result public.enrollment;
+begin
+  select * into dropping from public.enrollment where id = enrollment_id;
+  if not found then
+    raise exception 'Enrollment % not found', enrollment_id using errcode = 'P0002';
+  end if;
+
+  select * into learner from public.student where id = dropping.student_id;
+  if not public.can_act_for_student(learner) then
+    raise exception 'You cannot manage the enrollments of student %', learner.id
+      using errcode = '42501';
+  end if;
+
+  -- Same lock as enroll(), then re-read the enrollment under it
+  select * into target from public.course_offering
+    where id = dropping.offering_id
+    for update;
+  select * into dropping from public.enrollment where id = enrollment_id;
+  if dropping.status not in ('enrolled', 'waitlisted') then
+    raise exception 'Enrollment % is already %', enrollment_id, dropping.status
+      using errcode = 'EN003';
+  end if;
+
+  -- Leaving the waitlist is always allowed
+  select * into target_term from public.term where id = target.term_id;
+  if dropping.status = 'enrolled'
+    and current_date > coalesce(target_term.drop_deadline, target_term.ends_on) then
+    raise exception 'The drop deadline for % passed on %', target_term.name, coalesce(target_term.drop_deadline, target_term.ends_on)
+      using errcode = 'EN001';
+  end if;
+
+  update public.enrollment set status = 'dropped', dropped_at = now()
+    where id = enrollment_id
+    returning * into result;
+
+  if dropping.status = 'enrolled' then
+    perform public.promote_waitlist(target.id);
+  end if;
+
+  return result;
+end;
+$function$
+;
+
+-- Raising an offering's capacity fills the new seats from its waitlist
+CREATE OR REPLACE FUNCTION public.promote_waitlist_on_capacity()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+begin
+  perform public.promote_waitlist(new.id);
+  return null;
+end;
+$function$
+;
+
+CREATE TRIGGER course_offering_promote_waitlist AFTER UPDATE OF capacity ON public.course_offering FOR EACH ROW WHEN (((new.capacity IS NULL) OR (old.capacity IS NULL) OR (new.capacity > old.capacity))) EXECUTE FUNCTION public.promote_waitlist_on_capacity();
+
+grant execute on function public.enroll(uuid, uuid) to "authenticated";
+
+grant execute on function public.drop_enrollment(uuid) to "authenticated";
+
+revoke execute on function public.enroll(uuid, uuid) from "anon", "public";
+
+revoke execute on function public.drop_enrollment(uuid) from "anon", "public";
+
+revoke execute on function public.promote_waitlist(uuid) from "anon", "authenticated", "public";
+
+revoke execute on function public.promote_waitlist_on_capacity() from "anon", "authenticated", "public";
+
+revoke execute on function public.can_act_for_student(public.student) from "anon", "public";
+
+-- course_requisite: part of the shared catalogue, like course
+create policy "Authenticated users can read course requisites"
+  on "public"."course_requisite"
+  as permissive
+  for select
+  to authenticated
+  using (true);
+
+create policy "Staff can manage course requisites"
+  on "public"."course_requisite"
+  as permissive
+  for all
+  to authenticated
+  using (public.is_staff())
+  with check (public.is_staff());
+
+-- enrollment: written by enroll() and drop_enrollment(); staff and
+-- instructors may only record the outcome
+create policy "Students can read their own enrollments"
+  on "public"."enrollment"
+  as permissive
+  for select
+  to authenticated
+  using ((student_id IN ( SELECT public.user_student_ids())));
+
+create policy "Staff can read their universities' enrollments"
+  on "public"."enrollment"
+  as permissive
+  for select
+  to authenticated
+  using ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))));
+
+create policy "Instructors can read their offerings' enrollments"
+  on "public"."enrollment"
+  as permissive
+  for select
+  to authenticated
+  using ((offering_id IN ( SELECT public.user_taught_offering_ids())));
+
+create policy "Staff and instructors can grade enrollments"
+  on "public"."enrollment"
+  as permissive
+  for update
+  to authenticated
+  using ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids()))) OR (offering_id IN ( SELECT public.user_taught_offering_ids()))))
+  with check ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids()))) OR (offering_id IN ( SELECT public.user_taught_offering_ids()))));
+
+grant delete, insert, select, update on table "public"."course_requisite" to "authenticated";
+
+grant select on table "public"."enrollment" to "authenticated";
+
+grant update (status, grade) on table "public"."enrollment" to "authenticated";
+
+grant all on table "public"."course_requisite" to "service_role";
+
+grant all on table "public"."enrollment" to "service_role";
@@ -0,0 +1,438 @@
+-- Rooms and buildings: a college's buildings hold the rooms its offerings
+-- meet in. Each meeting in an offering's schedule may name a room, and may
+-- run for only part of the term (see apps/api/app/offering/schedule.ts).
+-- Buildings take their university from their college and rooms from their
+-- building. Double bookings of rooms and instructors are refused by the API's
+-- scheduler (see apps/api/app/scheduler), which sees the whole timetable.
+
+set check_function_bodies = off;
+
+
+  create table "public"."building" (
+    "id" uuid not null default gen_random_uuid(),
+    "created_at" timestamp with time zone not null default now(),
+    "updated_at" timestamp with time zone not null default clock_timestamp(),
+    "deleted_at" timestamp with time zone,
+    "uni_id" uuid not null,
+    "collage_id" uuid not null,
+    "code" text not null,
+    "name" text not null,
+    "address" text
+      );
+
+
+  create table "public"."room" (
+    "id" uuid not null default gen_random_uuid(),
+    "created_at" timestamp with time zone not null default now(),
+    "updated_at" timestamp with time zone not null default clock_timestamp(),
+    "deleted_at" timestamp with time zone,
+    "uni_id" uuid not null,
+    "building_id" uuid not null,
+    "name" text not null,
+    "capacity" integer
+      );
+
+
+alter table "public"."building" enable row level security;
+
+alter table "public"."room" enable row level security;
+
+CREATE UNIQUE INDEX building_pkey ON public.building USING btree (id);
+
+CREATE UNIQUE INDEX building_code_key ON public.building USING btree (uni_id, code);
+
+CREATE INDEX building_collage_id_idx ON public.building USING btree (collage_id);
+
+CREATE INDEX building_deleted_at_idx ON public.building USING btree (deleted_at) WHERE (deleted_at IS NOT NULL);
+
+CREATE UNIQUE INDEX room_pkey ON public.room USING btree (id);
+
+CREATE UNIQUE INDEX room_name_key ON public.room USING btree (building_id, name);
+
+CREATE INDEX room_uni_id_idx ON public.room USING btree (uni_id);
+
+CREATE INDEX room_deleted_at_idx ON public.room USING btree (deleted_at) WHERE (deleted_at IS NOT NULL);
+
+-- For the room calendar: offerings with a meeting in a room
+CREATE INDEX course_offering_schedule_idx ON public.course_offering USING gin (schedule jsonb_path_ops);
+
+alter table "public"."building" add constraint "building_pkey" PRIMARY KEY using index "building_pkey";
+
+alter table "public"."building" add constraint "building_code_key" UNIQUE using index "building_code_key";
+
+alter table "public"."building" add constraint "building_uni_id_fkey" FOREIGN KEY (uni_id) REFERENCES public.university(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."building" add constraint "building_collage_id_fkey" FOREIGN KEY (collage_id) REFERENCES public.collage(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."room" add constraint "room_pkey" PRIMARY KEY using index "room_pkey";
+
+alter table "public"."room" add constraint "room_name_key" UNIQUE using index "room_name_key";
+
+alter table "public"."room" add constraint "room_uni_id_fkey" FOREIGN KEY (uni_id) REFERENCES public.university(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."room" add constraint "room_building_id_fkey" FOREIGN KEY (building_id) REFERENCES public.building(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+-- Seats; unknown when null
+alter table "public"."room" add constraint "room_capacity_check" CHECK ((capacity > 0));
+
+-- Buildings belong to their college's university, rooms to their building's
+CREATE OR REPLACE FUNCTION public.derive_room_university()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+begin
+  -- Missing parents are reported by the foreign keys
+  if TG_TABLE_NAME = 'building' then
+    select uni_id into new.uni_id from public.collage where id = new.collage_id;
+  elsif TG_TABLE_NAME = 'room' then
+    select uni_id into new.uni_id from public.building where id = new.building_id;
+  end if;
+  return new;
+end;
+$function$
+;
+
+CREATE TRIGGER building_derive_university BEFORE INSERT OR UPDATE OF uni_id, collage_id ON public.building FOR EACH ROW EXECUTE FUNCTION public.derive_room_university();
+
+CREATE TRIGGER room_derive_university BEFORE INSERT OR UPDATE OF uni_id, building_id ON public.room FOR EACH ROW EXECUTE FUNCTION public.derive_room_university();
+
+-- Moving a college to another university moves its buildings and their rooms
+-- with it
+CREATE OR REPLACE FUNCTION public.cascade_building_university()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+begin
+  if TG_TABLE_NAME = 'collage' then
+    update public.building set uni_id = new.uni_id
+      where collage_id = new.id and uni_id is distinct from new.uni_id;
+  elsif TG_TABLE_NAME = 'building' then
+    update public.room set uni_id = new.uni_id
+      where building_id = new.id and uni_id is distinct from new.uni_id;
+  end if;
+  return null;
+end;
+$function$
+;
+
+CREATE TRIGGER collage_cascade_building_university AFTER UPDATE OF uni_id ON public.collage FOR EACH ROW WHEN ((old.uni_id IS DISTINCT FROM new.uni_id)) EXECUTE FUNCTION public.cascade_building_university();
+
+CREATE TRIGGER building_cascade_university AFTER UPDATE OF uni_id ON public.building FOR EACH ROW WHEN ((old.uni_id IS DISTINCT FROM new.uni_id)) EXECUTE FUNCTION public.cascade_building_university();
+
+CREATE TRIGGER building_set_updated_at BEFORE UPDATE ON public.building FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+CREATE TRIGGER room_set_updated_at BEFORE UPDATE ON public.room FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- The rooms an offering meets in must also be its university's
+CREATE OR REPLACE FUNCTION public.check_offering_parents()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  department_uni uuid;
+  stranger uuid;
+  stray_room text;
+begin
+  select uni_id into new.uni_id from public.term where id = new.term_id;
+
+  -- Missing parents are reported by the foreign keys
+  select uni_id into department_uni from public.department where id = new.department_id;
+  if found and department_uni is distinct from new.uni_id then
+    raise exception 'Department % belongs to university %, not %', new.department_id, department_uni, new.uni_id
+      using errcode = '23514';
+  end if;
+
+  select instructor into stranger
+    from unnest(new.instructor_ids) as instructor
+    where not exists (
+      select 1 from public.faculty f
+      where f.id = instructor and f.uni_id = new.uni_id and f.deleted_at is null
+    )
+    limit 1;
+  if found then
+    raise exception 'Instructor % is not a faculty member of university %', stranger, new.uni_id
+      using errcode = '23503';
+  end if;
+
+  select meeting->>'room_id' into stray_room
+    from jsonb_array_elements(new.schedule) as meeting
+    where meeting->>'room_id' is not null
+      and not exists (
+        select 1 from public.room r
+        where r.id::text = meeting->>'room_id' and r.uni_id = new.uni_id and r.deleted_at is null
+      )
+    limit 1;
+  if found then
+    raise exception 'Room % is not a room of university %', stray_room, new.uni_id
+      using errcode = '23503';
+  end if;
+
+  return new;
+end;
+$function$
+;
+
+DROP TRIGGER course_offering_check_parents ON public.course_offering;
+
+CREATE TRIGGER course_offering_check_parents BEFORE INSERT OR UPDATE OF uni_id, term_id, department_id, instructor_ids, schedule ON public.course_offering FOR EACH ROW EXECUTE FUNCTION public.check_offering_parents();
+
+-- Students enrolled or waitlisted in both of each pair of the offerings, for
+-- the scheduler's cohort conflicts. Runs with the caller's rights, so only
+-- enrollments they can read are counted.
+CREATE OR REPLACE FUNCTION public.shared_students(offerings uuid[])
+ RETURNS TABLE(offering_a uuid, offering_b uuid, students integer)
+ LANGUAGE sql
+ STABLE
+ SET search_path TO ''
+AS $function$
+  select a.offering_id, b.offering_id, count(*)::integer
+  from public.enrollment a
+  join public.enrollment b
+    on b.student_id = a.student_id and b.offering_id > a.offering_id
+  where a.offering_id = any (offerings)
+    and b.offering_id = any (offerings)
+    and a.status in ('enrolled', 'waitlisted')
+    and b.status in ('enrolled', 'waitlisted')
+  group by a.offering_id, b.offering_id;
+$function$
+;
+
+grant execute on function public.shared_students(uuid[]) to "authenticated";
+
+revoke execute on function public.shared_students(uuid[]) from "anon", "public";
+
+-- Buildings go to the trash with their college, rooms with their building
+CREATE OR REPLACE FUNCTION public.cascade_soft_delete()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+begin
+  if TG_TABLE_NAME = 'university' then
+    update public.collage set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+    update public.department set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+    update public.student set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+    update public.faculty set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+    update public.academic_year set deleted_at = new.deleted_at
+      where uni_id = new.id and deleted_at is not distinct from old.deleted_at;
+  elsif TG_TABLE_NAME = 'collage' then
+    update public.department set deleted_at = new.deleted_at
+      where collage_id = new.id and deleted_at is not distinct from old.deleted_at;
+    update public.building set deleted_at = new.deleted_at
+      where collage_id = new.id and deleted_at is not distinct from old.deleted_at;
+  elsif TG_TABLE_NAME = 'building' then
+    update public.room set deleted_at = new.deleted_at
+      where building_id = new.id and deleted_at is not distinct from old.deleted_at;
+  elsif TG_TABLE_NAME = 'department' then
+    update public.course set deleted_at = new.deleted_at
+      where department_id = new.id and deleted_at is not distinct from old.deleted_at;
+    update public.course_offering set deleted_at = new.deleted_at
+      where department_id = new.id and deleted_at is not distinct from old.deleted_at;
+  elsif TG_TABLE_NAME = 'course' then
+    update public.course_offering set deleted_at = new.deleted_at
+      where course_id = new.id and deleted_at is not distinct from old.deleted_at;
+  elsif TG_TABLE_NAME = 'academic_year' then
+    update public.term set deleted_at = new.deleted_at
+      where academic_year_id = new.id and deleted_at is not distinct from old.deleted_at;
+  elsif TG_TABLE_NAME = 'term' then
+    update public.course_offering set deleted_at = new.deleted_at
+      where term_id = new.id and deleted_at is not distinct from old.deleted_at;
+  end if;
+  return null;
+end;
+$function$
+;
+
+CREATE OR REPLACE FUNCTION public.check_parent_not_deleted()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+begin
+  if new.deleted_at is not null then
+    return new;
+  end if;
+
+  -- Nested so each column is only looked at on rows that have it
+  if TG_TABLE_NAME in ('collage', 'department', 'student', 'faculty', 'academic_year') then
+    if new.uni_id is not null and exists (
+      select 1 from public.university where id = new.uni_id and deleted_at is not null
+    ) then
+      raise exception 'University % is deleted', new.uni_id
+        using errcode = '23503', hint = 'Restore the university first.';
+    end if;
+  end if;
+
+  if TG_TABLE_NAME in ('department', 'building') then
+    if new.collage_id is not null and exists (
+      select 1 from public.collage where id = new.collage_id and deleted_at is not null
+    ) then
+      raise exception 'College % is deleted', new.collage_id
+        using errcode = '23503', hint = 'Restore the college first.';
+    end if;
+  end if;
+
+  if TG_TABLE_NAME = 'room' then
+    if exists (
+      select 1 from public.building where id = new.building_id and deleted_at is not null
+    ) then
+      raise exception 'Building % is deleted', new.building_id
+        using errcode = '23503', hint = 'Restore the building first.';
+    end if;
+  end if;
+
+  if TG_TABLE_NAME in ('course', 'student', 'faculty', 'course_offering') then
+    if new.department_id is not null and exists (
+      select 1 from public.department where id = new.department_id and deleted_at is not null
+    ) then
+      raise exception 'Department % is deleted', new.department_id
+        using errcode = '23503', hint = 'Restore the department first.';
+    end if;
+  end if;
+
+  if TG_TABLE_NAME = 'term' then
+    if exists (
+      select 1 from public.academic_year where id = new.academic_year_id and deleted_at is not null
+    ) then
+      raise exception 'Academic year % is deleted', new.academic_year_id
+        using errcode = '23503', hint = 'Restore the academic year first.';
+    end if;
+  end if;
+
+  if TG_TABLE_NAME = 'course_offering' then
+    if exists (
+      select 1 from public.term where id = new.term_id and deleted_at is not null
+    ) then
+      raise exception 'Term % is deleted', new.term_id
+        using errcode = '23503', hint = 'Restore the term first.';
+    end if;
+    if exists (
+      select 1 from public.course where id = new.course_id and deleted_at is not null
+    ) then
+      raise exception 'Course % is deleted', new.course_id
+        using errcode = '23503', hint = 'Restore the course first.';
+    end if;
+  end if;
+
+  return new;
+end;
+$function$
+;
+
+CREATE TRIGGER building_cascade_soft_delete AFTER UPDATE OF deleted_at ON public.building FOR EACH ROW WHEN ((old.deleted_at IS DISTINCT FROM new.deleted_at)) EXECUTE FUNCTION public.cascade_soft_delete();
+
+CREATE TRIGGER building_check_parent_not_deleted BEFORE INSERT OR UPDATE OF deleted_at, collage_id ON public.building FOR EACH ROW EXECUTE FUNCTION public.check_parent_not_deleted();
+
+CREATE TRIGGER room_check_parent_not_deleted BEFORE INSERT OR UPDATE OF deleted_at, building_id ON public.room FOR EACH ROW EXECUTE FUNCTION public.check_parent_not_deleted();
+
+CREATE OR REPLACE FUNCTION public.purge_deleted_rows(retention interval DEFAULT '30 days'::interval)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  cutoff timestamp with time zone := now() - retention;
+  purged integer := 0;
+  affected integer;
+begin
+  delete from public.course_offering where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.term where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.academic_year where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.student where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.faculty where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.room where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.building where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.department where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.collage where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.university where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  delete from public.course where deleted_at < cutoff;
+  get diagnostics affected = row_count;
+  purged := purged + affected;
+
+  return purged;
+end;
+$function$
+;
+
+-- Buildings and rooms are readable across the university and managed by its
+-- staff
+create policy "Tenants can read their buildings"
+  on "public"."building"
+  as permissive
+  for select
+  to authenticated
+  using ((public.is_platform_admin() OR (uni_id IN ( SELECT public.user_university_ids()))));
+
+create policy "Staff can manage their buildings"
+  on "public"."building"
+  as permissive
+  for all
+  to authenticated
+  using ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))))
+  with check ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))));
+
+create policy "Tenants can read their rooms"
+  on "public"."room"
+  as permissive
+  for select
+  to authenticated
+  using ((public.is_platform_admin() OR (uni_id IN ( SELECT public.user_university_ids()))));
+
+create policy "Staff can manage their rooms"
+  on "public"."room"
+  as permissive
+  for all
+  to authenticated
+  using ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))))
+  with check ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))));
+
+grant delete, insert, select, update on table "public"."building" to "authenticated";
+
+grant delete, insert, select, update on table "public"."room" to "authenticated";
+
+grant all on table "public"."building" to "service_role";
+
+grant all on table "public"."room" to "service_role";
@@ -0,0 +1,104 @@
+-- Tenant administration: reading a university, its colleges and departments is
+-- open to every member of the tenant, but changing them is kept to the roles
+-- the API allows (see the university, college and department handlers).
+-- University admins manage their whole university and college admins their own
+-- college and its departments.
+
+set check_function_bodies = off;
+
+-- College admins administer their college; university admins (see the
+-- audit log migration) every college of their university
+CREATE OR REPLACE FUNCTION public.is_college_admin(college uuid)
+ RETURNS boolean
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+  select exists (
+    select 1 from public.user_role
+    where user_id = (select auth.uid())
+      and role = 'college_admin'
+      and collage_id = college
+  ) or exists (
+    select 1 from public.collage
+    where id = college and public.is_university_admin(uni_id)
+  );
+$function$
+;
+
+-- university: updated by its own administrators
+drop policy "Tenants can update their university" on "public"."university";
+
+create policy "University admins can update their university"
+  on "public"."university"
+  as permissive
+  for update
+  to authenticated
+  using ((public.is_platform_admin() OR public.is_university_admin(id)))
+  with check ((public.is_platform_admin() OR public.is_university_admin(id)));
+
+-- collage: created and deleted by the university's administrators, updated
+-- by them or the college's own
+drop policy "Tenants can manage their colleges" on "public"."collage";
+
+create policy "Tenants can read their colleges"
+  on "public"."collage"
+  as permissive
+  for select
+  to authenticated
+  using ((public.is_platform_admin() OR (uni_id IN ( SELECT public.user_university_ids()))));
+
+create policy "University admins can create colleges"
+  on "public"."collage"
+  as permissive
+  for insert
+  to authenticated
+  with check ((public.is_platform_admin() OR public.is_university_admin(uni_id)));
+
+create policy "College admins can update their colleges"
+  on "public"."collage"
+  as permissive
+  for update
+  to authenticated
+  using ((public.is_platform_admin() OR public.is_college_admin(id)))
+  with check ((public.is_platform_admin() OR public.is_university_admin(uni_id) OR (public.is_college_admin(id) AND (uni_id IN ( SELECT public.user_university_ids())))));
+
+create policy "University admins can delete colleges"
+  on "public"."collage"
+  as permissive
+  for delete
+  to authenticated
+  using ((public.is_platform_admin() OR public.is_university_admin(uni_id)));
+
+-- department: managed by the university's administrators and the admins of
+-- the college it belongs to
+drop policy "Tenants can manage their departments" on "public"."department";
+
+create policy "Tenants can read their departments"
+  on "public"."department"
+  as permissive
+  for select
+  to authenticated
+  using ((public.is_platform_admin() OR (uni_id IN ( SELECT public.user_university_ids()))));
+
+create policy "College admins can create departments"
+  on "public"."department"
+  as permissive
+  for insert
+  to authenticated
+  with check ((public.is_platform_admin() OR public.is_university_admin(uni_id) OR public.is_college_admin(collage_id)));
+
+create policy "College admins can update departments"
+  on "public"."department"
+  as permissive
+  for update
+  to authenticated
+  using ((public.is_platform_admin() OR public.is_university_admin(uni_id) OR public.is_college_admin(collage_id)))
+  with check ((public.is_platform_admin() OR public.is_university_admin(uni_id) OR public.is_college_admin(collage_id)));
+
+create policy "College admins can delete departments"
+  on "public"."department"
+  as permissive
+  for delete
+  to authenticated
+  using ((public.is_platform_admin() OR public.is_university_admin(uni_id) OR public.is_college_admin(collage_id)));
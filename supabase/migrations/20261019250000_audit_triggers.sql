@@ -0,0 +1,103 @@
+-- Audit entries are written by triggers, in the transaction of the change they
+-- record, instead of by the API after the fact: an entry can no longer go
+-- missing when the write succeeds, and clients can no longer insert entries of
+-- their own. The actor is the signed-in user and the request id the API's
+-- X-Request-Id header (see apps/api/app/_common/handleRequest.ts).
+--
+-- The trigger's argument names the column holding the row's university.
+-- Soft deletes and restores are recorded as such; updates store only the
+-- columns that changed, on both sides.
+
+set check_function_bodies = off;
+
+CREATE OR REPLACE FUNCTION public.record_audit()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  old_row jsonb := case when TG_OP <> 'INSERT' then to_jsonb(old) end;
+  new_row jsonb := case when TG_OP <> 'DELETE' then to_jsonb(new) end;
+  target jsonb := coalesce(new_row, old_row);
+  tenant_column text := TG_ARGV[0];
+  audited public.audit_action;
+  changed text[];
+begin
+  if TG_OP = 'INSERT' then
+    audited := 'create';
+  elsif TG_OP = 'DELETE' then
+    -- Purging the trash was recorded when the row was deleted
+    if old_row ->> 'deleted_at' is not null then
+      return null;
+    end if;
+    audited := 'delete';
+  elsif old_row ->> 'deleted_at' is null and new_row ->> 'deleted_at' is not null then
+    audited := 'delete';
+    new_row := null;
+  elsif old_row ->> 'deleted_at' is not null and new_row ->> 'deleted_at' is null then
+    audited := 'restore';
+    old_row := null;
+  else
+    audited := 'update';
+    select array_agg(key) into changed
+    from jsonb_each(new_row) as changes(key, value)
+    where old_row -> key is distinct from value;
+    if changed is null then
+      return null;
+    end if;
+    select jsonb_object_agg(key, old_row -> key), jsonb_object_agg(key, new_row -> key)
+      into old_row, new_row
+    from unnest(changed) as key;
+  end if;
+
+  insert into public.audit_log (actor_id, table_name, row_id, action, before, after, request_id, uni_id)
+  values (
+    (select auth.uid()),
+    TG_TABLE_NAME,
+    target ->> 'id',
+    audited,
+    old_row,
+    new_row,
+    nullif(current_setting('request.headers', true), '')::jsonb ->> 'x-request-id',
+    case when tenant_column is not null
+      then (target ->> tenant_column)::uuid
+    end
+  );
+  return null;
+end;
+$function$
+;
+
+CREATE TRIGGER university_record_audit AFTER INSERT OR DELETE OR UPDATE ON public.university FOR EACH ROW EXECUTE FUNCTION public.record_audit('id');
+
+CREATE TRIGGER collage_record_audit AFTER INSERT OR DELETE OR UPDATE ON public.collage FOR EACH ROW EXECUTE FUNCTION public.record_audit('uni_id');
+
+CREATE TRIGGER department_record_audit AFTER INSERT OR DELETE OR UPDATE ON public.department FOR EACH ROW EXECUTE FUNCTION public.record_audit('uni_id');
+
+CREATE TRIGGER course_record_audit AFTER INSERT OR DELETE OR UPDATE ON public.course FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+CREATE TRIGGER course_requisite_record_audit AFTER INSERT OR DELETE OR UPDATE ON public.course_requisite FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+CREATE TRIGGER student_record_audit AFTER INSERT OR DELETE OR UPDATE ON public.student FOR EACH ROW EXECUTE FUNCTION public.record_audit('uni_id');
+
+CREATE TRIGGER faculty_record_audit AFTER INSERT OR DELETE OR UPDATE ON public.faculty FOR EACH ROW EXECUTE FUNCTION public.record_audit('uni_id');
+
+CREATE TRIGGER faculty_invitation_record_audit AFTER INSERT OR DELETE OR UPDATE ON public.faculty_invitation FOR EACH ROW EXECUTE FUNCTION public.record_audit('uni_id');
+
+CREATE TRIGGER academic_year_record_audit AFTER INSERT OR DELETE OR UPDATE ON public.academic_year FOR EACH ROW EXECUTE FUNCTION public.record_audit('uni_id');
+
+CREATE TRIGGER term_record_audit AFTER INSERT OR DELETE OR UPDATE ON public.term FOR EACH ROW EXECUTE FUNCTION public.record_audit('uni_id');
+
+CREATE TRIGGER course_offering_record_audit AFTER INSERT OR DELETE OR UPDATE ON public.course_offering FOR EACH ROW EXECUTE FUNCTION public.record_audit('uni_id');
+
+CREATE TRIGGER enrollment_record_audit AFTER INSERT OR DELETE OR UPDATE ON public.enrollment FOR EACH ROW EXECUTE FUNCTION public.record_audit('uni_id');
+
+CREATE TRIGGER building_record_audit AFTER INSERT OR DELETE OR UPDATE ON public.building FOR EACH ROW EXECUTE FUNCTION public.record_audit('uni_id');
+
+CREATE TRIGGER room_record_audit AFTER INSERT OR DELETE OR UPDATE ON public.room FOR EACH ROW EXECUTE FUNCTION public.record_audit('uni_id');
+
+-- Only the triggers write entries now
+drop policy "Users can record their own changes" on "public"."audit_log";
+
+revoke insert on table "public"."audit_log" from "authenticated";
@@ -0,0 +1,122 @@
+-- Optimistic concurrency for bulk writes. When the API passes the resource's
+-- version column, every item carries the version it was read at and a row is
+-- only written if it still has it: the single-item routes' If-Match check,
+-- made part of the write itself. A row that changed in the meantime fails the
+-- call with SQLSTATE PT412, which PostgREST answers with 412 Precondition
+-- Failed.
+
+set check_function_bodies = off;
+
+drop function public.bulk_update(text, jsonb);
+
+drop function public.bulk_delete(text, jsonb);
+
+CREATE OR REPLACE FUNCTION public.bulk_update(target text, items jsonb, version_column text DEFAULT NULL::text)
+ RETURNS SETOF jsonb
+ LANGUAGE plpgsql
+ SECURITY INVOKER
+ SET search_path TO ''
+AS $function$
+declare
+  item jsonb;
+  assignments text;
+  guard text := '';
+  updated jsonb;
+  found_row boolean;
+begin
+  if version_column is not null then
+    guard := format(' and t.%1$I = r.%1$I', version_column);
+  end if;
+
+  for item in select value from jsonb_array_elements(items) loop
+    -- Only the keys present in the item are written; its version is compared
+    select string_agg(format('%I = r.%I', key, key), ', ')
+      into assignments
+      from jsonb_object_keys(item - 'id' - coalesce(version_column, '')) as key;
+
+    if assignments is null then
+      raise exception 'No fields to update for row %', item->>'id'
+        using errcode = '22023';
+    end if;
+
+    if version_column is not null and item->version_column is null then
+      raise exception 'Row % has no %', item->>'id', version_column
+        using errcode = '22023';
+    end if;
+
+    execute format(
+      'update public.%1$I t set %2$s from jsonb_populate_record(null::public.%1$I, $1) r where t.id = r.id%3$s returning to_jsonb(t.*)',
+      target, assignments, guard
+    ) into updated using item;
+
+    if updated is null then
+      execute format(
+        'select exists (select 1 from public.%1$I t, jsonb_populate_record(null::public.%1$I, $1) r where t.id = r.id)',
+        target
+      ) into found_row using item;
+
+      if found_row then
+        raise exception 'Row % changed since it was read', item->>'id'
+          using errcode = 'PT412';
+      end if;
+      raise exception 'Row % not found', item->>'id'
+        using errcode = 'P0002';
+    end if;
+
+    return next updated;
+  end loop;
+end;
+$function$
+;
+
+-- With a version column, `ids` holds objects with the id and the version
+CREATE OR REPLACE FUNCTION public.bulk_delete(target text, ids jsonb, version_column text DEFAULT NULL::text)
+ RETURNS SETOF jsonb
+ LANGUAGE plpgsql
+ SECURITY INVOKER
+ SET search_path TO ''
+AS $function$
+declare
+  deleted_count integer;
+  remaining integer;
+begin
+  if version_column is null then
+    return query execute format(
+      'delete from public.%I t where t.id::text in (select jsonb_array_elements_text($1)) returning to_jsonb(t.*)',
+      target
+    ) using ids;
+  else
+    return query execute format(
+      'delete from public.%1$I t using jsonb_populate_recordset(null::public.%1$I, $1) r where t.id = r.id and t.%2$I = r.%2$I returning to_jsonb(t.*)',
+      target, version_column
+    ) using ids;
+  end if;
+
+  get diagnostics deleted_count = row_count;
+  if deleted_count <> jsonb_array_length(ids) then
+    if version_column is not null then
+      -- Rows still there were left alone because they changed
+      execute format(
+        'select count(*) from public.%1$I t, jsonb_populate_recordset(null::public.%1$I, $1) r where t.id = r.id',
+        target
+      ) into remaining using ids;
+
+      if remaining > 0 then
+        raise exception '% rows changed since they were read', remaining
+          using errcode = 'PT412';
+      end if;
+    end if;
+    raise exception 'Expected to delete % rows but found %', jsonb_array_length(ids), deleted_count
+      using errcode = 'P0002';
+  end if;
+end;
+$function$
+;
+
+grant execute on function public.bulk_update(text, jsonb, text) to "authenticated";
+
+grant execute on function public.bulk_delete(text, jsonb, text) to "authenticated";
+
+revoke execute on function public.bulk_update(text, jsonb, text) from "anon", "public";
+
+revoke execute on function public.bulk_delete(text, jsonb, text) from "anon", "public";
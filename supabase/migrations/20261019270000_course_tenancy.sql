@@ -0,0 +1,214 @@
+-- Course tenancy: a course belongs to the university of the department that
+-- teaches it. Members of that university read its courses and staff manage
+-- them; courses without a department form the shared catalogue, which
+-- everyone signed in reads and only platform admins manage. Mirrors the
+-- course hooks in apps/api/app/_common/hierarchy.ts. Search results and audit
+-- entries for courses now carry that university too.
+
+set check_function_bodies = off;
+
+-- Definer rights, so the policies below see the department even when its own
+-- policies would hide it
+CREATE OR REPLACE FUNCTION public.department_university(dept uuid)
+ RETURNS uuid
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+  select uni_id from public.department where id = dept;
+$function$
+;
+
+drop policy "Authenticated users can read courses" on "public"."course";
+
+drop policy "Staff can manage courses" on "public"."course";
+
+create policy "Tenants can read their courses"
+  on "public"."course"
+  as permissive
+  for select
+  to authenticated
+  using (((department_id IS NULL) OR public.is_platform_admin() OR (public.department_university(department_id) IN ( SELECT public.user_university_ids()))));
+
+create policy "Staff can manage their courses"
+  on "public"."course"
+  as permissive
+  for all
+  to authenticated
+  using ((public.is_staff() AND (public.is_platform_admin() OR (public.department_university(department_id) IN ( SELECT public.user_university_ids())))))
+  with check ((public.is_staff() AND (public.is_platform_admin() OR (public.department_university(department_id) IN ( SELECT public.user_university_ids())))));
+
+-- The trigger's second argument, when given, names the table the first one
+-- points at; the row's university is then that table's uni_id
+CREATE OR REPLACE FUNCTION public.record_audit()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  old_row jsonb := case when TG_OP <> 'INSERT' then to_jsonb(old) end;
+  new_row jsonb := case when TG_OP <> 'DELETE' then to_jsonb(new) end;
+  target jsonb := coalesce(new_row, old_row);
+  tenant_column text := TG_ARGV[0];
+  tenant_table text := TG_ARGV[1];
+  tenant uuid;
+  audited public.audit_action;
+  changed text[];
+begin
+  if TG_OP = 'INSERT' then
+    audited := 'create';
+  elsif TG_OP = 'DELETE' then
+    -- Purging the trash was recorded when the row was deleted
+    if old_row ->> 'deleted_at' is not null then
+      return null;
+    end if;
+    audited := 'delete';
+  elsif old_row ->> 'deleted_at' is null and new_row ->> 'deleted_at' is not null then
+    audited := 'delete';
+    new_row := null;
+  elsif old_row ->> 'deleted_at' is not null and new_row ->> 'deleted_at' is null then
+    audited := 'restore';
+    old_row := null;
+  else
+    audited := 'update';
+    select array_agg(key) into changed
+    from jsonb_each(new_row) as changes(key, value)
+    where old_row -> key is distinct from value;
+    if changed is null then
+      return null;
+    end if;
+    select jsonb_object_agg(key, old_row -> key), jsonb_object_agg(key, new_row -> key)
+      into old_row, new_row
+    from unnest(changed) as key;
+  end if;
+
+  if tenant_column is not null then
+    tenant := (target ->> tenant_column)::uuid;
+    if tenant_table is not null and tenant is not null then
+      execute format('select uni_id from public.%I where id = $1', tenant_table)
+        into tenant
+        using tenant;
+    end if;
+  end if;
+
+  insert into public.audit_log (actor_id, table_name, row_id, action, before, after, request_id, uni_id)
+  values (
+    (select auth.uid()),
+    TG_TABLE_NAME,
+    target ->> 'id',
+    audited,
+    old_row,
+    new_row,
+    nullif(current_setting('request.headers', true), '')::jsonb ->> 'x-request-id',
+    tenant
+  );
+  return null;
+end;
+$function$
+;
+
+DROP TRIGGER course_record_audit ON public.course;
+
+CREATE TRIGGER course_record_audit AFTER INSERT OR DELETE OR UPDATE ON public.course FOR EACH ROW EXECUTE FUNCTION public.record_audit('department_id', 'department');
+
+-- Course hits carry their department, college and university like department
+-- hits do, and `uni_ids` narrows them to those universities' courses plus the
+-- shared catalogue
+CREATE OR REPLACE FUNCTION public.search_catalog(
+  query text,
+  kinds text[] DEFAULT NULL::text[],
+  uni_ids uuid[] DEFAULT NULL::uuid[],
+  result_limit integer DEFAULT 20
+)
+ RETURNS TABLE(kind text, id text, name text, rank real, university jsonb, college jsonb, department jsonb)
+ LANGUAGE plpgsql
+ STABLE SECURITY INVOKER
+ SET search_path TO ''
+AS $function$
+declare
+  normalized text := public.search_normalize(query);
+  terms tsquery;
+begin
+  if normalized = '' then
+    return;
+  end if;
+
+  -- Every word of the query, each matching as a prefix: "mech eng" finds
+  -- "Mechanical Engineering"
+  select to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+    into terms
+    from regexp_split_to_table(normalized, ' ') as word;
+
+  return query
+  with hits as (
+    select 'university'::text as kind, u.id::text as id, u.name,
+      to_tsvector('simple'::regconfig, public.search_normalize(u.name)) as document,
+      public.search_normalize(u.name) as normalized_name,
+      null::jsonb as university, null::jsonb as college, null::jsonb as department
+    from public.university u
+    where (kinds is null or 'university' = any(kinds))
+      and u.deleted_at is null
+      and (uni_ids is null or u.id = any(uni_ids))
+      and (to_tsvector('simple'::regconfig, public.search_normalize(u.name)) @@ terms
+        or normalized operator(extensions.<%) public.search_normalize(u.name))
+    union all
+    select 'college', c.id::text, c.name,
+      to_tsvector('simple'::regconfig, public.search_normalize(c.name)),
+      public.search_normalize(c.name),
+      case when u.id is not null then jsonb_build_object('id', u.id, 'name', u.name) end,
+      null, null
+    from public.collage c
+    left join public.university u on u.id = c.uni_id
+    where (kinds is null or 'college' = any(kinds))
+      and c.deleted_at is null
+      and (uni_ids is null or c.uni_id = any(uni_ids))
+      and (to_tsvector('simple'::regconfig, public.search_normalize(c.name)) @@ terms
+        or normalized operator(extensions.<%) public.search_normalize(c.name))
+    union all
+    select 'department', d.id::text, d.name,
+      to_tsvector('simple'::regconfig, public.search_normalize(d.name)),
+      public.search_normalize(d.name),
+      case when u.id is not null then jsonb_build_object('id', u.id, 'name', u.name) end,
+      case when c.id is not null then jsonb_build_object('id', c.id, 'name', c.name) end,
+      null
+    from public.department d
+    left join public.university u on u.id = d.uni_id
+    left join public.collage c on c.id = d.collage_id
+    where (kinds is null or 'department' = any(kinds))
+      and d.deleted_at is null
+      and (uni_ids is null or d.uni_id = any(uni_ids))
+      and (to_tsvector('simple'::regconfig, public.search_normalize(d.name)) @@ terms
+        or normalized operator(extensions.<%) public.search_normalize(d.name))
+    union all
+    select 'course', co.id::text, co.name,
+      to_tsvector('simple'::regconfig, public.search_normalize(co.name)),
+      public.search_normalize(co.name),
+      case when u.id is not null then jsonb_build_object('id', u.id, 'name', u.name) end,
+      case when c.id is not null then jsonb_build_object('id', c.id, 'name', c.name) end,
+      case when d.id is not null then jsonb_build_object('id', d.id, 'name', d.name) end
+    from public.course co
+    left join public.department d on d.id = co.department_id
+    left join public.university u on u.id = d.uni_id
+    left join public.collage c on c.id = d.collage_id
+    where (kinds is null or 'course' = any(kinds))
+      and co.deleted_at is null
+      and (uni_ids is null or co.department_id is null or d.uni_id = any(uni_ids))
+      and (to_tsvector('simple'::regconfig, public.search_normalize(co.name)) @@ terms
+        or normalized operator(extensions.<%) public.search_normalize(co.name))
+  )
+  select h.kind, h.id, h.name,
+    -- Exact names first, then the better of the full-text and trigram scores
+    (case when h.normalized_name = normalized then 1 else 0 end
+      + greatest(ts_rank(h.document, terms), extensions.word_similarity(normalized, h.normalized_name)))::real,
+    h.university, h.college, h.department
+  from hits h
+  order by 4 desc, h.name
+  limit result_limit;
+end;
+$function$
+;
+
+grant execute on function public.department_university(uuid) to "authenticated";
+
+revoke execute on function public.department_university(uuid) from "anon", "public";
@@ -0,0 +1,46 @@
+-- Enrollment status transitions. Students move between enrolled, waitlisted
+-- and dropped only through enroll(), drop_enrollment() and promote_waitlist(),
+-- which check capacity, the waitlist order and the term's deadlines. Signed-in
+-- users updating the table directly (staff and instructors recording the
+-- outcome, see apps/api/app/enrollment/enrollment.ts) may only mark an
+-- enrolled student completed or failed, and grade enrolled, completed or
+-- failed students.
+--
+-- Errors raised for the API:
+--   EN004  the status change or grade is not allowed
+
+set check_function_bodies = off;
+
+-- Runs as the invoker: inside the enrollment functions, which run as their
+-- owner, every change is allowed
+CREATE OR REPLACE FUNCTION public.check_enrollment_transition()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY INVOKER
+ SET search_path TO ''
+AS $function$
+begin
+  if current_user <> 'authenticated' then
+    return new;
+  end if;
+
+  if new.status is distinct from old.status
+    and not (old.status = 'enrolled' and new.status in ('completed', 'failed')) then
+    raise exception 'Enrollment % cannot go from % to %', old.id, old.status, new.status
+      using errcode = 'EN004', hint = 'Only enrolled students can be marked completed or failed; use enroll() and drop_enrollment() for the rest.';
+  end if;
+
+  if new.grade is distinct from old.grade
+    and old.status not in ('enrolled', 'completed', 'failed') then
+    raise exception 'Enrollment % is %; only enrolled students can be graded', old.id, old.status
+      using errcode = 'EN004';
+  end if;
+
+  return new;
+end;
+$function$
+;
+
+CREATE TRIGGER enrollment_check_transition BEFORE UPDATE OF status, grade ON public.enrollment FOR EACH ROW EXECUTE FUNCTION public.check_enrollment_transition();
+
+revoke execute on function public.check_enrollment_transition() from "anon", "authenticated", "public";
@@ -0,0 +1,73 @@
+-- Audit entries no longer list `updated_at` among an update's changed
+-- columns: set_updated_at bumps it on every update, so it said nothing about
+-- the change. An update that only touched it is not recorded at all.
+
+set check_function_bodies = off;
+
+CREATE OR REPLACE FUNCTION public.record_audit()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  old_row jsonb := case when TG_OP <> 'INSERT' then to_jsonb(old) end;
+  new_row jsonb := case when TG_OP <> 'DELETE' then to_jsonb(new) end;
+  target jsonb := coalesce(new_row, old_row);
+  tenant_column text := TG_ARGV[0];
+  tenant_table text := TG_ARGV[1];
+  tenant uuid;
+  audited public.audit_action;
+  changed text[];
+begin
+  if TG_OP = 'INSERT' then
+    audited := 'create';
+  elsif TG_OP = 'DELETE' then
+    -- Purging the trash was recorded when the row was deleted
+    if old_row ->> 'deleted_at' is not null then
+      return null;
+    end if;
+    audited := 'delete';
+  elsif old_row ->> 'deleted_at' is null and new_row ->> 'deleted_at' is not null then
+    audited := 'delete';
+    new_row := null;
+  elsif old_row ->> 'deleted_at' is not null and new_row ->> 'deleted_at' is null then
+    audited := 'restore';
+    old_row := null;
+  else
+    audited := 'update';
+    select array_agg(key) into changed
+    from jsonb_each(new_row) as changes(key, value)
+    where key <> 'updated_at' and old_row -> key is distinct from value;
+    if changed is null then
+      return null;
+    end if;
+    select jsonb_object_agg(key, old_row -> key), jsonb_object_agg(key, new_row -> key)
+      into old_row, new_row
+    from unnest(changed) as key;
+  end if;
+
+  if tenant_column is not null then
+    tenant := (target ->> tenant_column)::uuid;
+    if tenant_table is not null and tenant is not null then
+      execute format('select uni_id from public.%I where id = $1', tenant_table)
+        into tenant
+        using tenant;
+    end if;
+  end if;
+
+  insert into public.audit_log (actor_id, table_name, row_id, action, before, after, request_id, uni_id)
+  values (
+    (select auth.uid()),
+    TG_TABLE_NAME,
+    target ->> 'id',
+    audited,
+    old_row,
+    new_row,
+    nullif(current_setting('request.headers', true), '')::jsonb ->> 'x-request-id',
+    tenant
+  );
+  return null;
+end;
+$function$
+;
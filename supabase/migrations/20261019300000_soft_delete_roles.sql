@@ -0,0 +1,52 @@
+-- Moving universities, colleges and departments to the trash, or restoring
+-- them, is kept to the roles the API lets delete them (see their handlers):
+-- platform admins for universities, university admins for colleges, and
+-- university or college admins for departments. The update policies let
+-- college admins edit their college and university admins their university,
+-- and a policy cannot compare a row with its previous version, so a trigger
+-- guards `deleted_at` instead.
+
+set check_function_bodies = off;
+
+-- Runs as the invoker: cascades from cascade_soft_delete(), which runs as its
+-- owner, are allowed
+CREATE OR REPLACE FUNCTION public.check_soft_delete_role()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY INVOKER
+ SET search_path TO ''
+AS $function$
+declare
+  permitted boolean := true;
+begin
+  if current_user <> 'authenticated' or public.is_platform_admin() then
+    return new;
+  end if;
+
+  -- Nested so each column is only looked at on rows that have it
+  if TG_TABLE_NAME = 'university' then
+    permitted := false;
+  elsif TG_TABLE_NAME = 'collage' then
+    permitted := public.is_university_admin(new.uni_id);
+  elsif TG_TABLE_NAME = 'department' then
+    permitted := public.is_university_admin(new.uni_id)
+      or public.is_college_admin(new.collage_id);
+  end if;
+
+  if not permitted then
+    raise exception 'You cannot delete or restore % %', TG_TABLE_NAME, new.id
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$function$
+;
+
+CREATE TRIGGER university_check_soft_delete_role BEFORE UPDATE OF deleted_at ON public.university FOR EACH ROW WHEN ((old.deleted_at IS DISTINCT FROM new.deleted_at)) EXECUTE FUNCTION public.check_soft_delete_role();
+
+CREATE TRIGGER collage_check_soft_delete_role BEFORE UPDATE OF deleted_at ON public.collage FOR EACH ROW WHEN ((old.deleted_at IS DISTINCT FROM new.deleted_at)) EXECUTE FUNCTION public.check_soft_delete_role();
+
+CREATE TRIGGER department_check_soft_delete_role BEFORE UPDATE OF deleted_at ON public.department FOR EACH ROW WHEN ((old.deleted_at IS DISTINCT FROM new.deleted_at)) EXECUTE FUNCTION public.check_soft_delete_role();
+
+revoke execute on function public.check_soft_delete_role() from "anon", "authenticated", "public";
@@ -0,0 +1,85 @@
+-- Double bookings: a room or an instructor may not be in two meetings at
+-- once. The API checks new schedules against the saved timetable (see
+-- apps/api/app/scheduler/bookings.ts), but two writes racing each other each
+-- pass that check. This trigger repeats it once the transaction's writes are
+-- in, one transaction at a time per term.
+--
+-- Errors raised for the API:
+--   23P01  the offering double-books a room or an instructor
+
+set check_function_bodies = off;
+
+-- Runs as the owner, so offerings the writer cannot read are counted
+CREATE OR REPLACE FUNCTION public.check_offering_bookings()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  offering public.course_offering;
+  offering_term public.term;
+  locked uuid;
+  clash record;
+begin
+  -- Deferred to the end of the transaction, so read the row as it is now
+  select * into offering from public.course_offering where id = new.id;
+  if not found or offering.deleted_at is not null
+    or jsonb_array_length(offering.schedule) = 0 then
+    return null;
+  end if;
+  select * into offering_term from public.term where id = offering.term_id;
+
+  -- Terms sharing weeks share rooms and instructors; lock all of them, in a
+  -- fixed order so transactions don't deadlock. The locks are held until
+  -- commit, so whoever checks next sees this transaction's writes.
+  for locked in
+    select t.id from public.term t
+    where t.uni_id = offering_term.uni_id
+      and t.starts_on <= offering_term.ends_on
+      and t.ends_on >= offering_term.starts_on
+    order by t.id
+  loop
+    perform pg_advisory_xact_lock(hashtextextended('course_offering_bookings:' || locked::text, 0));
+  end loop;
+
+  -- Meetings overlap on the same weekday, in weeks both run (see
+  -- apps/api/app/offering/schedule.ts)
+  select other.id as other_id,
+      mine->>'room_id' = theirs->>'room_id' as same_room,
+      mine->>'room_id' as room_id
+    into clash
+    from jsonb_array_elements(offering.schedule) as mine
+    join public.course_offering other
+      on other.id <> offering.id and other.deleted_at is null
+    join public.term other_term
+      on other_term.id = other.term_id and other_term.deleted_at is null
+    cross join lateral jsonb_array_elements(other.schedule) as theirs
+    where other_term.uni_id = offering_term.uni_id
+      and theirs->>'day' = mine->>'day'
+      and theirs->>'starts_at' < mine->>'ends_at'
+      and mine->>'starts_at' < theirs->>'ends_at'
+      and coalesce((mine->>'starts_on')::date, offering_term.starts_on)
+        <= coalesce((theirs->>'ends_on')::date, other_term.ends_on)
+      and coalesce((theirs->>'starts_on')::date, other_term.starts_on)
+        <= coalesce((mine->>'ends_on')::date, offering_term.ends_on)
+      and (mine->>'room_id' = theirs->>'room_id'
+        or offering.instructor_ids && other.instructor_ids)
+    limit 1;
+  if found then
+    if clash.same_room then
+      raise exception 'Offering % double-books room % with offering %', offering.id, clash.room_id, clash.other_id
+        using errcode = '23P01';
+    end if;
+    raise exception 'Offering % double-books an instructor with offering %', offering.id, clash.other_id
+      using errcode = '23P01';
+  end if;
+
+  return null;
+end;
+$function$
+;
+
+CREATE CONSTRAINT TRIGGER course_offering_check_bookings AFTER INSERT OR UPDATE OF term_id, instructor_ids, schedule, deleted_at ON public.course_offering DEFERRABLE INITIALLY DEFERRED FOR EACH ROW EXECUTE FUNCTION public.check_offering_bookings();
+
+revoke execute on function public.check_offering_bookings() from "anon", "authenticated", "public";
@@ -0,0 +1,33 @@
+-- Requisite tenancy: a course's requisites belong to the course's
+-- university, so only that university's staff manage them. Requisites of the
+-- shared catalogue (courses without a department) are managed by platform
+-- admins only, and everyone signed in still reads them all. Mirrors the
+-- requisite hooks in apps/api/app/_common/hierarchy.ts.
+
+set check_function_bodies = off;
+
+-- Definer rights, like department_university(), so the policies below see
+-- the course even when its own policies would hide it
+CREATE OR REPLACE FUNCTION public.course_university(course bigint)
+ RETURNS uuid
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+  select public.department_university(department_id) from public.course where id = course;
+$function$
+;
+
+drop policy "Staff can manage course requisites" on "public"."course_requisite";
+
+create policy "Staff can manage their course requisites"
+  on "public"."course_requisite"
+  as permissive
+  for all
+  to authenticated
+  using ((public.is_staff() AND (public.is_platform_admin() OR (public.course_university(course_id) IN ( SELECT public.user_university_ids())))))
+  with check ((public.is_staff() AND (public.is_platform_admin() OR (public.course_university(course_id) IN ( SELECT public.user_university_ids())))));
+
+grant execute on function public.course_university(bigint) to "authenticated";
+
+revoke execute on function public.course_university(bigint) from "anon", "public";
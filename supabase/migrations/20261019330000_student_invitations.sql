@@ -0,0 +1,128 @@
+-- Student invitations: staff invite students by email the way they invite
+-- faculty (see the API's /student/[id]/invitation route), and the account is
+-- linked, with a student role, the first time the invited user signs in.
+-- Students, like faculty, may have no home department, so their roles may
+-- leave it out too.
+
+set check_function_bodies = off;
+
+
+  create table "public"."student_invitation" (
+    "id" uuid not null default gen_random_uuid(),
+    "created_at" timestamp with time zone not null default now(),
+    "student_id" uuid not null,
+    "uni_id" uuid not null,
+    "email" text not null,
+    "invited_by" uuid default auth.uid(),
+    "expires_at" timestamp with time zone not null default (now() + '14 days'::interval),
+    "accepted_at" timestamp with time zone,
+    "user_id" uuid
+      );
+
+
+alter table "public"."student_invitation" enable row level security;
+
+CREATE UNIQUE INDEX student_invitation_pkey ON public.student_invitation USING btree (id);
+
+-- Inviting again replaces the previous invitation
+CREATE UNIQUE INDEX student_invitation_student_id_key ON public.student_invitation USING btree (student_id);
+
+CREATE INDEX student_invitation_email_idx ON public.student_invitation USING btree (lower(email)) WHERE (accepted_at IS NULL);
+
+alter table "public"."student_invitation" add constraint "student_invitation_pkey" PRIMARY KEY using index "student_invitation_pkey";
+
+alter table "public"."student_invitation" add constraint "student_invitation_student_id_key" UNIQUE using index "student_invitation_student_id_key";
+
+alter table "public"."student_invitation" add constraint "student_invitation_student_id_fkey" FOREIGN KEY (student_id) REFERENCES public.student(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."student_invitation" add constraint "student_invitation_uni_id_fkey" FOREIGN KEY (uni_id) REFERENCES public.university(id) ON UPDATE CASCADE ON DELETE CASCADE;
+
+alter table "public"."student_invitation" add constraint "student_invitation_invited_by_fkey" FOREIGN KEY (invited_by) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+alter table "public"."student_invitation" add constraint "student_invitation_user_id_fkey" FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+alter table "public"."user_role" drop constraint "user_role_scope_check";
+
+alter table "public"."user_role" add constraint "user_role_scope_check" CHECK (
+  (role = 'platform_admin') OR
+  (role = 'university_admin' AND uni_id IS NOT NULL) OR
+  (role = 'college_admin' AND uni_id IS NOT NULL AND collage_id IS NOT NULL) OR
+  (role = 'department_staff' AND uni_id IS NOT NULL AND department_id IS NOT NULL) OR
+  (role IN ('faculty', 'student') AND uni_id IS NOT NULL)
+);
+
+-- Links a signed-in user to the faculty and student records they were
+-- invited to and grants them the faculty or student role there. Runs on
+-- every sign-in, so an invitation sent to an existing account is picked up
+-- the next time they sign in.
+CREATE OR REPLACE FUNCTION public.link_invited_user()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+declare
+  invitation record;
+begin
+  for invitation in
+    select i.id, i.faculty_id, f.uni_id, f.department_id, d.collage_id
+    from public.faculty_invitation i
+    join public.faculty f on f.id = i.faculty_id
+    left join public.department d on d.id = f.department_id
+    where lower(i.email) = lower(new.email)
+      and i.accepted_at is null
+      and i.expires_at > now()
+      and f.user_id is null
+      and f.deleted_at is null
+    for update of i
+  loop
+    update public.faculty set user_id = new.id where id = invitation.faculty_id;
+
+    insert into public.user_role (user_id, role, uni_id, collage_id, department_id)
+      values (new.id, 'faculty', invitation.uni_id, invitation.collage_id, invitation.department_id)
+      on conflict do nothing;
+
+    update public.faculty_invitation set accepted_at = now(), user_id = new.id
+      where id = invitation.id;
+  end loop;
+
+  for invitation in
+    select i.id, i.student_id, s.uni_id, s.department_id, d.collage_id
+    from public.student_invitation i
+    join public.student s on s.id = i.student_id
+    left join public.department d on d.id = s.department_id
+    where lower(i.email) = lower(new.email)
+      and i.accepted_at is null
+      and i.expires_at > now()
+      and s.user_id is null
+      and s.deleted_at is null
+    for update of i
+  loop
+    update public.student set user_id = new.id where id = invitation.student_id;
+
+    insert into public.user_role (user_id, role, uni_id, collage_id, department_id)
+      values (new.id, 'student', invitation.uni_id, invitation.collage_id, invitation.department_id)
+      on conflict do nothing;
+
+    update public.student_invitation set accepted_at = now(), user_id = new.id
+      where id = invitation.id;
+  end loop;
+
+  return null;
+end;
+$function$
+;
+
+create policy "Staff can manage their universities' student invitations"
+  on "public"."student_invitation"
+  as permissive
+  for all
+  to authenticated
+  using ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))))
+  with check ((public.is_platform_admin() OR (public.is_staff() AND (uni_id IN ( SELECT public.user_university_ids())))));
+
+grant delete, insert, select, update on table "public"."student_invitation" to "authenticated";
+
+grant all on table "public"."student_invitation" to "service_role";
+
+CREATE TRIGGER student_invitation_record_audit AFTER INSERT OR DELETE OR UPDATE ON public.student_invitation FOR EACH ROW EXECUTE FUNCTION public.record_audit('uni_id');